@@ -0,0 +1,155 @@
+import { getDB } from './connection';
+import {
+  IMPORT_FIELDS,
+  ImportKind,
+  ImportResult,
+  ImportRowAction,
+  ImportRowResult,
+  parseImportDate,
+  parseImportNumber
+} from '../shared/importMapping';
+
+export interface ImportRow {
+  row: number; // Row number in the uploaded sheet, for messages
+  values: Record<string, string>;
+}
+
+// Field values after type checks: dates as YYYY-MM-DD, numbers as numbers, absent fields missing
+export type ImportValues = Record<string, string | number>;
+
+export interface PlannedImportRow<T> extends ImportRowResult {
+  data?: T;
+}
+
+export type ImportPlan<T> = Omit<PlannedImportRow<T>, 'row'>;
+
+/**
+ * One kind of import. plan() decides what a row would do, looking at the database and at the rows planned before
+ * it (to find repeated rows), and must not write; apply() carries out one create or update row.
+ */
+export interface Importer<T> {
+  kind: ImportKind;
+  plan: (client: any, values: ImportValues, previous: PlannedImportRow<T>[]) => Promise<ImportPlan<T>>;
+  apply: (client: any, planned: PlannedImportRow<T>) => Promise<void>;
+}
+
+// Required fields and value types; the importer only sees rows that pass
+const parseImportValues = (kind: ImportKind, raw: Record<string, string>) => {
+  const values: ImportValues = {};
+  const errors: string[] = [];
+
+  IMPORT_FIELDS[kind].forEach(field => {
+    const text = typeof raw?.[field.key] === 'string' ? raw[field.key].trim() : '';
+    if (!text) {
+      if (field.required) errors.push(`${field.label} is required`);
+      return;
+    }
+
+    if (field.type === 'date') {
+      const date = parseImportDate(text);
+      if (date) values[field.key] = date;
+      else errors.push(`${field.label} "${text}" is not a date`);
+    } else if (field.type === 'number') {
+      const number = parseImportNumber(text);
+      if (number !== null) values[field.key] = number;
+      else errors.push(`${field.label} "${text}" is not a number`);
+    } else {
+      values[field.key] = text;
+    }
+  });
+  return { values, errors };
+};
+
+/**
+ * Runs an import in two phases inside one transaction: every row is planned first, then, unless this is a dry run
+ * or any row has an error, every create and update row is applied. Either all rows are imported or none are.
+ * @returns The plan of every row; committed is false for dry runs and for imports stopped by errors
+ */
+export const runImport = async <T>(importer: Importer<T>, rows: ImportRow[], dryRun: boolean): Promise<ImportResult> => {
+  const client = await getDB().connect();
+  try {
+    await client.query('BEGIN');
+
+    const planned: PlannedImportRow<T>[] = [];
+    for (const row of rows) {
+      const { values, errors } = parseImportValues(importer.kind, row.values);
+      if (errors.length > 0) {
+        planned.push({ row: row.row, action: 'error', label: String(values.name ?? row.values?.name ?? ''), messages: errors });
+        continue;
+      }
+      planned.push({ row: row.row, ...(await importer.plan(client, values, planned)) });
+    }
+
+    const summary: Record<ImportRowAction, number> = { create: 0, update: 0, duplicate: 0, error: 0 };
+    planned.forEach(row => { summary[row.action] += 1; });
+
+    const committed = !dryRun && summary.error === 0;
+    if (committed) {
+      for (const row of planned) {
+        if (row.action === 'create' || row.action === 'update') {
+          await importer.apply(client, row);
+        }
+      }
+      // A statement that failed inside a helper that swallows errors leaves the transaction aborted; COMMIT then
+      // rolls back instead of failing, so check which of the two happened
+      const commit = await client.query('COMMIT');
+      if (commit.command !== 'COMMIT') {
+        throw new Error('Import was rolled back');
+      }
+    } else {
+      await client.query('ROLLBACK');
+    }
+
+    return {
+      committed,
+      summary,
+      rows: planned.map(({ row, action, label, messages }) => ({ row, action, label, messages }))
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Finds or creates a student group by name inside an import and returns its id
+export const ensureImportGroup = async (client: any, userId: string, schoolYearId: string, name: string) => {
+  const existing = await client.query(
+    'SELECT id FROM student_groups WHERE user_id = $1 AND school_year_id = $2 AND name = $3',
+    [userId, schoolYearId, name]
+  );
+  if (existing.rows.length > 0) return existing.rows[0].id as string;
+
+  const inserted = await client.query(
+    'INSERT INTO student_groups (user_id, school_year_id, name) VALUES ($1, $2, $3) RETURNING id',
+    [userId, schoolYearId, name]
+  );
+  return inserted.rows[0].id as string;
+};
+
+/**
+ * Splits an import group cell into group names ("5A, Choir") and notes the ones that do not exist yet.
+ * @param planned - Group names earlier rows of the same import will create
+ */
+export const planImportGroups = async (
+  client: any,
+  userId: string,
+  schoolYearId: string,
+  value: string | number | undefined,
+  planned: Set<string>
+) => {
+  const names = typeof value === 'string' ? value.split(',').map(name => name.trim()).filter(Boolean) : [];
+  if (names.length === 0) return { names, messages: [] as string[] };
+
+  const existing = await client.query(
+    'SELECT name FROM student_groups WHERE user_id = $1 AND school_year_id = $2 AND name = ANY($3::text[])',
+    [userId, schoolYearId, names]
+  );
+  const existingNames = new Set(existing.rows.map((row: any) => row.name));
+  const messages = names
+    .filter(name => !existingNames.has(name) && !planned.has(name))
+    .map(name => `Creates group "${name}"`);
+  names.forEach(name => planned.add(name));
+  return { names, messages };
+};
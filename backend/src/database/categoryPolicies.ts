@@ -0,0 +1,104 @@
+import { CategoryPolicies, CategoryPolicy, LatePolicy } from '../shared/gradeCalculation';
+
+/**
+ * Loads the averaging policies of a subject, keyed by grade category id
+ * @param db - Pool or client to query with (pass the transaction client when inside one)
+ * @param subjectId - The subject to load policies for
+ * @param schoolYearId - The school year the subject belongs to
+ */
+export const loadCategoryPolicies = async (db: any, subjectId: string, schoolYearId: string): Promise<CategoryPolicies> => {
+  const result = await db.query(
+    `SELECT category_id, drop_lowest, keep_highest, cap_at_100, replace_with_category_id
+     FROM subject_category_policies
+     WHERE subject_id = $1 AND school_year_id = $2`,
+    [subjectId, schoolYearId]
+  );
+
+  const policies: CategoryPolicies = {};
+  result.rows.forEach(row => {
+    policies[row.category_id] = {
+      dropLowest: row.drop_lowest,
+      keepHighest: row.keep_highest,
+      capAt100: row.cap_at_100,
+      replaceWithCategoryId: row.replace_with_category_id
+    };
+  });
+  return policies;
+};
+
+// A policy that changes nothing is not worth a row
+const isEmptyPolicy = (policy: CategoryPolicy) =>
+  !policy.dropLowest && !policy.keepHighest && !policy.capAt100 && !policy.replaceWithCategoryId;
+
+/**
+ * Replaces all averaging policies of a subject
+ * @param db - Pool or client to query with
+ * @param subjectId - The subject to update
+ * @param policies - Policies keyed by grade category id
+ * @param schoolYearId - The school year the subject belongs to
+ */
+export const saveCategoryPolicies = async (
+  db: any,
+  subjectId: string,
+  policies: CategoryPolicies,
+  schoolYearId: string
+): Promise<void> => {
+  await db.query('DELETE FROM subject_category_policies WHERE subject_id = $1', [subjectId]);
+
+  for (const [categoryId, policy] of Object.entries(policies)) {
+    if (!policy || isEmptyPolicy(policy)) continue;
+
+    await db.query(
+      `INSERT INTO subject_category_policies
+         (subject_id, category_id, drop_lowest, keep_highest, cap_at_100, replace_with_category_id, school_year_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        subjectId,
+        categoryId,
+        policy.dropLowest || 0,
+        policy.keepHighest || null,
+        policy.capAt100 || false,
+        policy.replaceWithCategoryId && policy.replaceWithCategoryId !== categoryId ? policy.replaceWithCategoryId : null,
+        schoolYearId
+      ]
+    );
+  }
+};
+
+/**
+ * Reads the late policy stored on a subject row, or null when the subject has none
+ * @param subject - A subjects row (or any row selecting its late_* columns)
+ */
+export const toLatePolicy = (subject: any): LatePolicy | null => {
+  const penaltyPerDay = parseFloat(subject?.late_penalty_per_day);
+  if (!penaltyPerDay || penaltyPerDay <= 0) return null;
+
+  return {
+    penaltyPerDay,
+    maxPenalty: subject.late_penalty_max === null ? null : parseFloat(subject.late_penalty_max),
+    graceDays: subject.late_grace_days || 0
+  };
+};
+
+/**
+ * Loads the late policy of a subject
+ * @param db - Pool or client to query with
+ * @param subjectId - The subject to load the policy for
+ * @param schoolYearId - The school year the subject belongs to
+ */
+export const loadLatePolicy = async (db: any, subjectId: string, schoolYearId: string): Promise<LatePolicy | null> => {
+  const result = await db.query(
+    `SELECT late_penalty_per_day, late_penalty_max, late_grace_days
+     FROM subjects
+     WHERE id = $1 AND school_year_id = $2`,
+    [subjectId, schoolYearId]
+  );
+  return toLatePolicy(result.rows[0]);
+};
+
+// Column values for a late policy sent by the client; null clears the policy
+export const latePolicyColumns = (policy: LatePolicy | null): [number, number | null, number] => [
+  Number(policy?.penaltyPerDay) || 0,
+  policy?.maxPenalty ? Number(policy.maxPenalty) : null,
+  policy?.graceDays || 0
+];
@@ -0,0 +1,363 @@
+import JSZip from 'jszip';
+import { loadCategoryPolicies, loadLatePolicy } from './categoryPolicies';
+import { loadSubjectWeights } from './groupReport';
+import {
+  calculateOverallAverage,
+  calculateSubjectAverage,
+  getEffectivePercentage,
+  GradeInput,
+  isDateInRange,
+  isOrderInMarkerPeriod,
+  roundToTenth
+} from '../shared/gradeCalculation';
+
+export type GradebookCell = string | number | null;
+
+export interface GradebookSheet {
+  title: string;
+  rows: GradebookCell[][];
+  headerRowCount: number; // Rows above the first student
+}
+
+export interface GradebookStudent {
+  id: string;
+  name: string;
+  groups: string | null; // Group names, comma separated
+}
+
+interface GradebookLesson {
+  id: string;
+  name: string;
+  points: number | null;
+  category: string | null;
+  categoryId: string | null;
+  orderIndex: number;
+  date: string | null;
+  dueDate: string | null;
+}
+
+interface LessonGroup {
+  label: string;
+  lessons: GradebookLesson[];
+  hasAverage: boolean;
+}
+
+// How statuses without a score show in a cell; "S" is the grid's own mark for skipped work
+const STATUS_CELLS: Record<string, string> = {
+  missing: 'Missing',
+  excused: 'Excused',
+  incomplete: 'Incomplete'
+};
+
+const toCell = (grade: any): GradebookCell => {
+  if (!grade) return null;
+  if (STATUS_CELLS[grade.status]) return STATUS_CELLS[grade.status];
+  const percentage = grade.percentage === null ? null : Number(grade.percentage);
+  if (percentage === null) return null;
+  if (!grade.status && percentage < 1) return 'S';
+  return roundToTenth(percentage);
+};
+
+const averageCell = (values: Array<number | null>): GradebookCell => {
+  const average = calculateOverallAverage(values);
+  return average === null ? null : roundToTenth(average);
+};
+
+/**
+ * Splits a subject's lessons the way the grade grid groups them: by the subject's markers in marker mode, by the
+ * grading periods in date mode. Lessons outside every dated period are kept in a last group without an average.
+ */
+const groupLessons = async (
+  db: any,
+  userId: string,
+  schoolYearId: string,
+  subjectId: string,
+  gradingMode: string,
+  lessons: GradebookLesson[]
+): Promise<LessonGroup[]> => {
+  if (gradingMode === 'markers') {
+    const markersResult = await db.query(
+      'SELECT order_index FROM grading_period_markers WHERE subject_id = $1 AND school_year_id = $2 ORDER BY order_index',
+      [subjectId, schoolYearId]
+    );
+    const markers = markersResult.rows;
+    if (markers.length === 0) return [{ label: '', lessons, hasAverage: false }];
+
+    return Array.from({ length: markers.length + 1 }, (_, index) => ({
+      label: `Period ${index + 1}`,
+      lessons: lessons.filter(lesson => isOrderInMarkerPeriod(lesson.orderIndex, markers, index + 1)),
+      hasAverage: true
+    })).filter(group => group.lessons.length > 0);
+  }
+
+  const periodsResult = await db.query(
+    `SELECT name, TO_CHAR(start_date, 'YYYY-MM-DD') AS start, TO_CHAR(end_date, 'YYYY-MM-DD') AS end
+     FROM grading_periods
+     WHERE user_id = $1 AND school_year_id = $2
+     ORDER BY order_index`,
+    [userId, schoolYearId]
+  );
+  if (periodsResult.rows.length === 0) return [{ label: '', lessons, hasAverage: false }];
+
+  const groups: LessonGroup[] = periodsResult.rows.map((period: any) => ({
+    label: period.name,
+    lessons: lessons.filter(lesson => isDateInRange(lesson.date, period)),
+    hasAverage: true
+  }));
+  const grouped = new Set(groups.flatMap(group => group.lessons.map(lesson => lesson.id)));
+  groups.push({ label: 'Not in a grading period', lessons: lessons.filter(lesson => !grouped.has(lesson.id)), hasAverage: false });
+  return groups.filter(group => group.lessons.length > 0);
+};
+
+/**
+ * Builds the grade grid of one subject as spreadsheet rows: header rows (grading period when there are periods,
+ * category, max points, column names), one row per student with their percentages and weighted averages per period
+ * and overall, and a class average row. Students not enrolled in the subject are left out unless they have grades in it.
+ * Callers check access to the subject and pass only the students the user may see.
+ * @param gradingMode - The user's grading mode, 'markers' or 'dates'
+ */
+export const loadGradebookSheet = async (
+  db: any,
+  userId: string,
+  schoolYearId: string,
+  subject: { id: string; name: string },
+  students: GradebookStudent[],
+  gradingMode: string
+): Promise<GradebookSheet> => {
+  const lessonsResult = await db.query(
+    `SELECT l.id, l.name, l.points, l.category_id AS "categoryId", gct.name AS category, l.order_index AS "orderIndex",
+       TO_CHAR(l.date, 'YYYY-MM-DD') AS date, TO_CHAR(COALESCE(l.due_date, l.date), 'YYYY-MM-DD') AS "dueDate"
+     FROM lessons l
+     LEFT JOIN grade_category_types gct ON gct.id = l.category_id AND gct.user_id = $2
+     WHERE l.subject_id = $1 AND l.school_year_id = $3
+     ORDER BY l.order_index ASC`,
+    [subject.id, userId, schoolYearId]
+  );
+  const lessons: GradebookLesson[] = lessonsResult.rows;
+
+  const studentIds = students.map(student => student.id);
+  const [gradesResult, enrolledResult] = await Promise.all([
+    db.query(
+      `SELECT g.student_id, g.lesson_id, g.percentage, g.status, g.submitted_at
+       FROM grades g
+       JOIN lessons l ON l.id = g.lesson_id
+       WHERE l.subject_id = $1 AND l.school_year_id = $2 AND g.school_year_id = $2 AND g.student_id = ANY($3::uuid[])`,
+      [subject.id, schoolYearId, studentIds]
+    ),
+    db.query(
+      'SELECT student_id FROM student_subjects WHERE subject_id = $1 AND school_year_id = $2 AND student_id = ANY($3::uuid[])',
+      [subject.id, schoolYearId, studentIds]
+    )
+  ]);
+
+  const gradesByStudent = new Map<string, Map<string, any>>();
+  gradesResult.rows.forEach((grade: any) => {
+    if (!gradesByStudent.has(grade.student_id)) gradesByStudent.set(grade.student_id, new Map());
+    gradesByStudent.get(grade.student_id)!.set(grade.lesson_id, grade);
+  });
+  const enrolled = new Set(enrolledResult.rows.map((row: any) => row.student_id));
+  const sheetStudents = students.filter(student => enrolled.has(student.id) || gradesByStudent.has(student.id));
+
+  const weights = await loadSubjectWeights(db, subject.id, schoolYearId);
+  const policies = await loadCategoryPolicies(db, subject.id, schoolYearId);
+  const latePolicy = await loadLatePolicy(db, subject.id, schoolYearId);
+  const groups = await groupLessons(db, userId, schoolYearId, subject.id, gradingMode, lessons);
+  const hasPeriods = groups.some(group => group.label);
+
+  const toGradeInput = (lesson: GradebookLesson, grade: any): GradeInput => ({
+    percentage: grade.percentage,
+    categoryId: lesson.categoryId,
+    order: lesson.orderIndex,
+    status: grade.status,
+    dueDate: lesson.dueDate,
+    submittedAt: grade.submitted_at
+  });
+
+  const averageOf = (studentId: string, groupLessons: GradebookLesson[]): number | null => {
+    const grades = gradesByStudent.get(studentId);
+    const inputs = groupLessons
+      .filter(lesson => grades?.has(lesson.id))
+      .map(lesson => toGradeInput(lesson, grades!.get(lesson.id)));
+    return calculateSubjectAverage(inputs, weights, policies, latePolicy).average;
+  };
+
+  // Each group's lessons followed by the group's average column, then the overall average
+  const periodRow: GradebookCell[] = ['Grading Period', null];
+  const categoryRow: GradebookCell[] = ['Category', null];
+  const pointsRow: GradebookCell[] = ['Max Points', null];
+  const nameRow: GradebookCell[] = ['Student', 'Groups'];
+  groups.forEach(group => {
+    group.lessons.forEach(lesson => {
+      periodRow.push(group.label || null);
+      categoryRow.push(lesson.category);
+      pointsRow.push(lesson.points === null ? null : Number(lesson.points));
+      nameRow.push(lesson.name);
+    });
+    if (group.hasAverage) {
+      periodRow.push(group.label);
+      categoryRow.push(null);
+      pointsRow.push(null);
+      nameRow.push(`${group.label} Average`);
+    }
+  });
+  periodRow.push(null);
+  categoryRow.push(null);
+  pointsRow.push(null);
+  nameRow.push('Overall Average');
+
+  const studentRows = sheetStudents.map(student => {
+    const grades = gradesByStudent.get(student.id);
+    const cells: GradebookCell[] = [student.name, student.groups];
+    groups.forEach(group => {
+      group.lessons.forEach(lesson => cells.push(toCell(grades?.get(lesson.id))));
+      if (group.hasAverage) {
+        const average = averageOf(student.id, group.lessons);
+        cells.push(average === null ? null : roundToTenth(average));
+      }
+    });
+    const overall = averageOf(student.id, lessons);
+    cells.push(overall === null ? null : roundToTenth(overall));
+    return cells;
+  });
+
+  // Lesson columns average the grades that count; average columns average the students' averages
+  const summaryRow: GradebookCell[] = ['Class Average', null];
+  let column = 2;
+  groups.forEach(group => {
+    group.lessons.forEach(lesson => {
+      summaryRow.push(averageCell(sheetStudents.map(student => {
+        const grade = gradesByStudent.get(student.id)?.get(lesson.id);
+        return grade ? getEffectivePercentage(toGradeInput(lesson, grade), latePolicy) : null;
+      })));
+      column++;
+    });
+    if (group.hasAverage) {
+      summaryRow.push(averageCell(studentRows.map(cells => cells[column] as number | null)));
+      column++;
+    }
+  });
+  summaryRow.push(averageCell(studentRows.map(cells => cells[column] as number | null)));
+
+  const headerRows = hasPeriods ? [periodRow, categoryRow, pointsRow, nameRow] : [categoryRow, pointsRow, nameRow];
+  return {
+    title: subject.name,
+    rows: [...headerRows, ...studentRows, summaryRow],
+    headerRowCount: headerRows.length
+  };
+};
+
+const csvValue = (cell: GradebookCell) => {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes sheets as one CSV file. A single sheet is written as is; several are written one after another, each
+ * below a row with its title and separated by an empty row.
+ */
+export const gradebookToCsv = (sheets: GradebookSheet[]) => {
+  const lines = sheets.flatMap((sheet, index) => [
+    ...(sheets.length > 1 ? [...(index > 0 ? [''] : []), csvValue(sheet.title)] : []),
+    ...sheet.rows.map(row => row.map(csvValue).join(','))
+  ]);
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+// Control characters are not allowed in XML at all, so they are dropped
+const escapeXml = (value: string) =>
+  value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnLetters = (index: number): string =>
+  (index >= 26 ? columnLetters(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Worksheet names are at most 31 characters, unique, and may not contain []:*?/\
+const toSheetNames = (sheets: GradebookSheet[]) => {
+  const used = new Set<string>();
+  return sheets.map(sheet => {
+    const base = sheet.title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      name = `${base.slice(0, 31 - String(copy).length - 1)} ${copy}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const worksheetXml = (sheet: GradebookSheet) => {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    // Header rows and the class average row are bold (style 1)
+    const style = rowIndex < sheet.headerRowCount || rowIndex === sheet.rows.length - 1 ? ' s="1"' : '';
+    const cells = row.map((cell, columnIndex) => {
+      if (cell === null || cell === '') return '';
+      const reference = `${columnLetters(columnIndex)}${rowIndex + 1}`;
+      return typeof cell === 'number'
+        ? `<c r="${reference}"${style}><v>${cell}</v></c>`
+        : `<c r="${reference}"${style} t="inlineStr"><is><t>${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetViews><sheetView workbookViewId="0"><pane xSplit="2" ySplit="${sheet.headerRowCount}" topLeftCell="C${sheet.headerRowCount + 1}" state="frozen"/></sheetView></sheetViews>` +
+    '<cols><col min="1" max="1" width="28" customWidth="1"/><col min="2" max="2" width="16" customWidth="1"/></cols>' +
+    `<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+/**
+ * Writes sheets as an Excel workbook with one worksheet per sheet. Header rows and the first two columns are frozen.
+ */
+export const gradebookToXlsx = async (sheets: GradebookSheet[]): Promise<Buffer> => {
+  const names = toSheetNames(sheets);
+  const zip = new JSZip();
+
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>');
+
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>');
+
+  zip.file('xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+    '</workbook>');
+
+  zip.file('xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>');
+
+  zip.file('xl/styles.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>');
+
+  sheets.forEach((sheet, index) => zip.file(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheet)));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
@@ -0,0 +1,154 @@
+import { loadCategoryPolicies, loadLatePolicy } from './categoryPolicies';
+import { calculateSubjectAverage, calculateOverallAverage, DateRange, roundToTenth } from '../shared/gradeCalculation';
+
+// Category weights of a subject, keyed by category_id
+export const loadSubjectWeights = async (db: any, subjectId: string, schoolYearId: string) => {
+  const weightsResult = await db.query(
+    `SELECT category_id, weight
+     FROM subject_weights sw
+     WHERE sw.subject_id = $1 AND sw.school_year_id = $2`,
+    [subjectId, schoolYearId]
+  );
+
+  const weights: { [key: string]: number } = {};
+  weightsResult.rows.forEach((row: any) => {
+    weights[row.category_id] = row.weight;
+  });
+  return weights;
+};
+
+/**
+ * Calculates one student's average in one subject with the subject's weights, category policies and late policy.
+ * The engine applies status rules (excused, missing, ...).
+ * @param range - Only count grades for lessons dated in this range; all grades when omitted
+ * @returns The calculation, or null when no grade counts towards an average
+ */
+export const loadSubjectAverage = async (
+  db: any,
+  studentId: string,
+  subjectId: string,
+  schoolYearId: string,
+  range?: DateRange | null
+) => {
+  const gradesResult = await db.query(
+    `SELECT g.percentage, g.status, g.submitted_at, l.category_id, l.order_index,
+       COALESCE(l.due_date, l.date) as due_date
+     FROM grades g
+     JOIN lessons l ON g.lesson_id = l.id
+     WHERE g.student_id = $1 AND l.subject_id = $2
+       AND g.school_year_id = $3 AND l.school_year_id = $3
+       AND ($4::date IS NULL OR l.date BETWEEN $4::date AND $5::date)`,
+    [studentId, subjectId, schoolYearId, range?.start || null, range?.end || null]
+  );
+
+  if (gradesResult.rows.length === 0) return null;
+
+  const weights = await loadSubjectWeights(db, subjectId, schoolYearId);
+
+  const calculation = calculateSubjectAverage(
+    gradesResult.rows.map((grade: any) => ({
+      percentage: grade.percentage,
+      categoryId: grade.category_id,
+      order: grade.order_index,
+      status: grade.status,
+      dueDate: grade.due_date,
+      submittedAt: grade.submitted_at
+    })),
+    weights,
+    await loadCategoryPolicies(db, subjectId, schoolYearId),
+    await loadLatePolicy(db, subjectId, schoolYearId)
+  );
+
+  return calculation.average === null ? null : { ...calculation, average: calculation.average };
+};
+
+/**
+ * Builds the report data of a student group: every student with their subject averages and overall average.
+ * Used by GET /reports/group/:groupId and by batch report card rendering. Callers check access to the group.
+ * @param db - Pool or client to query with
+ * @param userId - Owner of the group
+ * @param schoolYearId - The school year to report on
+ * @param groupId - The student group
+ * @param range - Only count grades for lessons dated in this range (a grading period); all grades when omitted
+ * @returns The report, or null when the group does not exist in this school year
+ */
+export const loadGroupReport = async (
+  db: any,
+  userId: string,
+  schoolYearId: string,
+  groupId: string,
+  range?: DateRange | null
+) => {
+  const groupCheck = await db.query(
+    'SELECT * FROM student_groups WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+    [groupId, userId, schoolYearId]
+  );
+
+  if (groupCheck.rows.length === 0) return null;
+
+  const group = groupCheck.rows[0];
+
+  // Get all students in this group
+  const studentsResult = await db.query(
+    `SELECT s.*
+     FROM students s
+     JOIN student_group_links sgl ON s.id = sgl.student_id
+     WHERE sgl.student_group_id = $1
+       AND s.user_id = $2
+       AND s.school_year_id = $3
+       AND sgl.school_year_id = $3
+     ORDER BY s.name`,
+    [groupId, userId, schoolYearId]
+  );
+
+  // Get all subjects for this group
+  const subjectsResult = await db.query(
+    `SELECT DISTINCT s.*
+     FROM subjects s
+     JOIN subject_groups sg ON s.id = sg.subject_id
+     WHERE sg.student_group_id = $1
+       AND s.user_id = $2
+       AND s.school_year_id = $3
+       AND sg.school_year_id = $3
+     ORDER BY s.name`,
+    [groupId, userId, schoolYearId]
+  );
+
+  const reportData = {
+    group,
+    students: [],
+    subjects: subjectsResult.rows
+  };
+
+  // For each student, calculate their overall performance
+  for (const student of studentsResult.rows) {
+    const studentGrades = [];
+    const subjectAverages: number[] = [];
+
+    for (const subject of subjectsResult.rows) {
+      const calculation = await loadSubjectAverage(db, student.id, subject.id, schoolYearId, range);
+
+      if (calculation) {
+        studentGrades.push({
+          subjectId: subject.id,
+          subjectName: subject.name,
+          average: roundToTenth(calculation.average),
+          gradeCount: calculation.countedGrades
+        });
+        subjectAverages.push(calculation.average);
+      }
+    }
+
+    const overall = calculateOverallAverage(subjectAverages);
+    const overallAverage = overall === null ? null : roundToTenth(overall);
+
+    reportData.students.push({
+      ...student,
+      subjectGrades: studentGrades,
+      overallAverage,
+      totalSubjects: subjectAverages.length
+    });
+  }
+
+  return reportData;
+};
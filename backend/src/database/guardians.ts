@@ -0,0 +1,47 @@
+interface ImportedGuardian {
+  name: string;
+  relationship?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+/**
+ * Links a guardian from an import row to a student's person. A guardian already on file with the same email, or
+ * the same name and phone, is reused so that siblings imported with the same contact share one family record.
+ * @returns The id of the linked guardian
+ */
+export const linkImportedGuardian = async (db: any, userId: string, personId: string, guardian: ImportedGuardian) => {
+  const email = guardian.email?.trim() || null;
+  const phone = guardian.phone?.trim() || null;
+
+  const existing = await db.query(
+    `SELECT id FROM guardians
+     WHERE user_id = $1
+       AND (
+         ($2::text IS NOT NULL AND EXISTS (SELECT 1 FROM unnest(emails) e WHERE LOWER(e) = LOWER($2)))
+         OR ($4::text IS NOT NULL AND name = $3 AND $4 = ANY(phones))
+       )
+     ORDER BY created_at
+     LIMIT 1`,
+    [userId, email, guardian.name, phone]
+  );
+
+  let guardianId = existing.rows[0]?.id;
+  if (!guardianId) {
+    const inserted = await db.query(
+      `INSERT INTO guardians (user_id, name, relationship, emails, phones)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [userId, guardian.name, guardian.relationship || null, email ? [email] : [], phone ? [phone] : []]
+    );
+    guardianId = inserted.rows[0].id;
+  }
+
+  await db.query(
+    `INSERT INTO student_guardians (user_id, person_id, guardian_id, is_primary)
+     VALUES ($1, $2, $3, NOT EXISTS (SELECT 1 FROM student_guardians WHERE person_id = $2))
+     ON CONFLICT (person_id, guardian_id) DO NOTHING`,
+    [userId, personId, guardianId]
+  );
+  return guardianId as string;
+};
@@ -1,4 +1,5 @@
 import { getDB, connectDB } from './connection';
+import { createDefaultGradingScales } from './seedDefaults';
 
 export const runMigrations = async (): Promise<void> => {
   const db = getDB();
@@ -53,6 +54,20 @@ export const runMigrations = async (): Promise<void> => {
     await addUniqueConstraintToStudentGroups(db);
     await seedDefaultStudentGroups(db);
     await createRolloverScopesTable(db);
+    await createGradeHistoryTable(db);
+    await createGradingScalesTables(db);
+    await seedDefaultGradingScales(db);
+    await createSubjectCategoryPoliciesTable(db);
+    await addStatusAndNotesToGrades(db);
+    await addLateWorkTracking(db);
+    await addReportTemplateToPreferences(db);
+    await createReportCardIssuesTable(db);
+    await createCommentBankTables(db);
+    await addSubjectCredits(db);
+    await addStudentIdentity(db);
+    await createGuardianTables(db);
+    await createReportEmailLog(db);
+    await createPortalLinks(db);
     
     console.log('All migrations completed successfully');
   } catch (error) {
@@ -1426,6 +1441,460 @@ const addAutoEnrollmentSetting = async (db: any) => {
   }
 };
 
+const createGradeHistoryTable = async (db: any) => {
+  try {
+    console.log('🔧 Creating grade_history table...');
+
+    // No foreign keys on student/lesson/teacher so the trail survives deletes; teacher_id NULL means the account owner
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS grade_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        teacher_id UUID,
+        student_id UUID NOT NULL,
+        lesson_id UUID NOT NULL,
+        school_year_id UUID REFERENCES school_years(id) ON DELETE CASCADE,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+        old_percentage DECIMAL(5,2),
+        old_errors DECIMAL(5,2),
+        old_points INTEGER,
+        new_percentage DECIMAL(5,2),
+        new_errors DECIMAL(5,2),
+        new_points INTEGER,
+        reason TEXT,
+        changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_grade_history_student_lesson ON grade_history(student_id, lesson_id);
+      CREATE INDEX IF NOT EXISTS idx_grade_history_user_id ON grade_history(user_id);
+    `);
+
+    console.log('✅ Grade history table created/verified');
+  } catch (error) {
+    console.error('❌ Error creating grade history table:', error);
+    throw error;
+  }
+};
+
+const createGradingScalesTables = async (db: any) => {
+  try {
+    console.log('🔧 Creating grading scale tables...');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS grading_scales (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        is_default BOOLEAN DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS grading_scale_bands (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        scale_id UUID NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE,
+        min_percent DECIMAL(5,2) NOT NULL,
+        label VARCHAR(20) NOT NULL,
+        gpa_points DECIMAL(4,2),
+        color VARCHAR(20),
+        order_index INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_grading_scales_user_id ON grading_scales(user_id);
+      CREATE INDEX IF NOT EXISTS idx_grading_scale_bands_scale_id ON grading_scale_bands(scale_id);
+    `);
+
+    // Per-subject override; NULL falls back to the user's default scale
+    await db.query(`
+      ALTER TABLE subjects
+      ADD COLUMN IF NOT EXISTS grading_scale_id UUID REFERENCES grading_scales(id) ON DELETE SET NULL
+    `);
+
+    console.log('✅ Grading scale tables created/verified');
+  } catch (error) {
+    console.error('❌ Error creating grading scale tables:', error);
+    throw error;
+  }
+};
+
+const seedDefaultGradingScales = async (db: any) => {
+  try {
+    const usersResult = await db.query('SELECT id FROM users');
+
+    for (const user of usersResult.rows) {
+      await createDefaultGradingScales(user.id);
+    }
+
+    console.log('✅ Seeded default grading scales for all users');
+  } catch (error) {
+    console.error('Error seeding default grading scales:', error);
+    // Don't throw - this is not critical
+  }
+};
+
+const createSubjectCategoryPoliciesTable = async (db: any) => {
+  try {
+    console.log('🔧 Creating subject category policies table...');
+
+    // Per-subject, per-category averaging rules; a missing row means every grade counts as entered
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS subject_category_policies (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+        category_id UUID NOT NULL REFERENCES grade_category_types(id) ON DELETE CASCADE,
+        drop_lowest INTEGER NOT NULL DEFAULT 0,
+        keep_highest INTEGER,
+        cap_at_100 BOOLEAN NOT NULL DEFAULT false,
+        replace_with_category_id UUID REFERENCES grade_category_types(id) ON DELETE SET NULL,
+        school_year_id UUID REFERENCES school_years(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(subject_id, category_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_subject_category_policies_subject_id ON subject_category_policies(subject_id);
+    `);
+
+    console.log('✅ Subject category policies table created/verified');
+  } catch (error) {
+    console.error('❌ Error creating subject category policies table:', error);
+    throw error;
+  }
+};
+
+const addStatusAndNotesToGrades = async (db: any) => {
+  try {
+    console.log('🔧 Adding status and notes to grades...');
+
+    await db.query(`
+      ALTER TABLE grades ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'graded';
+      ALTER TABLE grades ADD COLUMN IF NOT EXISTS notes TEXT;
+      ALTER TABLE grades ALTER COLUMN percentage DROP NOT NULL;
+
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'grades_status_check') THEN
+          ALTER TABLE grades ADD CONSTRAINT grades_status_check
+            CHECK (status IN ('graded', 'missing', 'excused', 'late', 'incomplete'));
+        END IF;
+      END $$;
+
+      ALTER TABLE grade_history ADD COLUMN IF NOT EXISTS old_status VARCHAR(20);
+      ALTER TABLE grade_history ADD COLUMN IF NOT EXISTS new_status VARCHAR(20);
+    `);
+
+    // "S" entries used to be stored as a percentage below 1; they are excused work
+    const backfill = await db.query(`
+      UPDATE grades SET status = 'excused'
+      WHERE status = 'graded' AND percentage IS NOT NULL AND percentage < 1
+    `);
+    if (backfill.rowCount > 0) {
+      console.log(`✅ Marked ${backfill.rowCount} skipped grades as excused`);
+    }
+
+    console.log('✅ Grade status and notes columns added/verified');
+  } catch (error) {
+    console.error('❌ Error adding status and notes to grades:', error);
+    throw error;
+  }
+};
+
+const addLateWorkTracking = async (db: any) => {
+  try {
+    console.log('🔧 Adding late policies, due dates and submission dates...');
+
+    // A subject without a penalty per day has no late policy; a NULL cap means no cap
+    await db.query(`
+      ALTER TABLE subjects ADD COLUMN IF NOT EXISTS late_penalty_per_day DECIMAL(5,2) NOT NULL DEFAULT 0;
+      ALTER TABLE subjects ADD COLUMN IF NOT EXISTS late_penalty_max DECIMAL(5,2);
+      ALTER TABLE subjects ADD COLUMN IF NOT EXISTS late_grace_days INTEGER NOT NULL DEFAULT 0;
+
+      ALTER TABLE lessons ADD COLUMN IF NOT EXISTS due_date DATE;
+      ALTER TABLE grades ADD COLUMN IF NOT EXISTS submitted_at DATE;
+    `);
+
+    console.log('✅ Late work columns added/verified');
+  } catch (error) {
+    console.error('❌ Error adding late work columns:', error);
+    throw error;
+  }
+};
+
+const addReportTemplateToPreferences = async (db: any) => {
+  try {
+    console.log('🔧 Adding report card template to report preferences...');
+
+    // NULL means the built-in layout; the stored JSON is normalized by shared/reportTemplate.ts
+    await db.query(`
+      ALTER TABLE report_preferences ADD COLUMN IF NOT EXISTS template JSONB;
+    `);
+
+    console.log('✅ Report card template column added/verified');
+  } catch (error) {
+    console.error('❌ Error adding report card template column:', error);
+    throw error;
+  }
+};
+
+const createReportCardIssuesTable = async (db: any) => {
+  try {
+    console.log('🔧 Creating report card issues table...');
+
+    // Frozen copies of issued report cards. A reissue adds the next version for the same student and period
+    // and points at the version it replaces; earlier versions are never changed.
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS report_card_issues (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        school_year_id UUID NOT NULL REFERENCES school_years(id) ON DELETE CASCADE,
+        student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+        period_key VARCHAR(100) NOT NULL,
+        period_label VARCHAR(255),
+        version INTEGER NOT NULL,
+        report_card JSONB NOT NULL,
+        pdf BYTEA NOT NULL,
+        reason TEXT,
+        supersedes_id UUID REFERENCES report_card_issues(id) ON DELETE SET NULL,
+        issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(student_id, period_key, version)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_report_card_issues_student
+        ON report_card_issues(user_id, school_year_id, student_id);
+    `);
+
+    console.log('✅ Report card issues table created/verified');
+  } catch (error) {
+    console.error('❌ Error creating report card issues table:', error);
+    throw error;
+  }
+};
+
+const createCommentBankTables = async (db: any) => {
+  try {
+    console.log('🔧 Creating comment bank tables...');
+
+    await db.query(`
+      -- he / she / they, used by the pronoun merge fields of report card comments
+      ALTER TABLE students ADD COLUMN IF NOT EXISTS pronouns VARCHAR(10);
+
+      -- Reusable comments. teacher_id is NULL for the account owner's own bank. The bank is not tied to a school
+      -- year, so comments are grouped by subject name rather than subject id.
+      CREATE TABLE IF NOT EXISTS comment_bank (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        teacher_id UUID REFERENCES teachers(id) ON DELETE CASCADE,
+        tone VARCHAR(20) NOT NULL DEFAULT 'neutral' CHECK (tone IN ('positive', 'neutral', 'concern')),
+        subject_name VARCHAR(255),
+        text TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_comment_bank_owner ON comment_bank(user_id, teacher_id);
+
+      -- The comment printed on a student's report card for one reporting period
+      CREATE TABLE IF NOT EXISTS student_report_comments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        school_year_id UUID NOT NULL REFERENCES school_years(id) ON DELETE CASCADE,
+        student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+        period_key VARCHAR(100) NOT NULL,
+        comment TEXT NOT NULL,
+        teacher_id UUID,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(student_id, period_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_student_report_comments_period
+        ON student_report_comments(user_id, school_year_id, period_key);
+    `);
+
+    console.log('✅ Comment bank tables created/verified');
+  } catch (error) {
+    console.error('❌ Error creating comment bank tables:', error);
+    throw error;
+  }
+};
+
+const addSubjectCredits = async (db: any) => {
+  try {
+    console.log('🔧 Adding credits to subjects...');
+
+    // Credits a subject is worth on a transcript; NULL for subjects that carry no credit
+    await db.query(`
+      ALTER TABLE subjects ADD COLUMN IF NOT EXISTS credits NUMERIC(5,2)
+        CHECK (credits IS NULL OR credits >= 0);
+    `);
+
+    console.log('✅ Subject credits added/verified');
+  } catch (error) {
+    console.error('❌ Error adding subject credits:', error);
+    throw error;
+  }
+};
+
+const addStudentIdentity = async (db: any) => {
+  try {
+    console.log('🔧 Adding stable student identity...');
+
+    // Each school year holds its own copy of a student; person_id links the copies of one person
+    await db.query(`
+      ALTER TABLE students ADD COLUMN IF NOT EXISTS person_id UUID;
+      ALTER TABLE students ADD COLUMN IF NOT EXISTS sis_id VARCHAR(64);
+    `);
+
+    // Link existing copies the way rollover matched them (same name and birthday); when one year holds several
+    // such students, the nth of one year is linked to the nth of the others
+    await db.query(`
+      WITH ranked AS (
+        SELECT s.id, s.user_id, s.name, COALESCE(s.birthday::text, '') AS birthday_key, s.created_at, sy.start_date,
+          ROW_NUMBER() OVER (
+            PARTITION BY s.user_id, s.school_year_id, s.name, COALESCE(s.birthday::text, '')
+            ORDER BY s.created_at, s.id
+          ) AS duplicate_rank
+        FROM students s
+        LEFT JOIN school_years sy ON sy.id = s.school_year_id
+      ), origins AS (
+        SELECT id, FIRST_VALUE(id) OVER (
+          PARTITION BY user_id, name, birthday_key, duplicate_rank
+          ORDER BY start_date NULLS LAST, created_at, id
+        ) AS origin_id
+        FROM ranked
+      )
+      UPDATE students s
+      SET person_id = origins.origin_id
+      FROM origins
+      WHERE origins.id = s.id AND s.person_id IS NULL
+    `);
+
+    await db.query(`
+      ALTER TABLE students ALTER COLUMN person_id SET DEFAULT gen_random_uuid();
+      ALTER TABLE students ALTER COLUMN person_id SET NOT NULL;
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_students_year_person ON students(school_year_id, person_id);
+      CREATE INDEX IF NOT EXISTS idx_students_user_person ON students(user_id, person_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_students_year_sis_id
+        ON students(user_id, school_year_id, sis_id) WHERE sis_id IS NOT NULL;
+    `);
+
+    console.log('✅ Student identity added/verified');
+  } catch (error) {
+    console.error('❌ Error adding student identity:', error);
+    throw error;
+  }
+};
+
+const createGuardianTables = async (db: any) => {
+  try {
+    console.log('🔧 Creating guardian tables...');
+
+    await db.query(`
+      -- Parents and other contacts. Not tied to a school year: contacts stay with the family across years.
+      CREATE TABLE IF NOT EXISTS guardians (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        relationship VARCHAR(50),
+        emails TEXT[] NOT NULL DEFAULT '{}',
+        phones TEXT[] NOT NULL DEFAULT '{}',
+        preferred_language VARCHAR(50),
+        has_custody BOOLEAN NOT NULL DEFAULT true,
+        do_not_contact BOOLEAN NOT NULL DEFAULT false,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_guardians_user_id ON guardians(user_id);
+
+      -- Links a guardian to a student's person id, so every school year of the student shares the contact.
+      -- Siblings linked to the same guardian form a family.
+      CREATE TABLE IF NOT EXISTS student_guardians (
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        person_id UUID NOT NULL,
+        guardian_id UUID NOT NULL REFERENCES guardians(id) ON DELETE CASCADE,
+        is_primary BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (person_id, guardian_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_student_guardians_guardian ON student_guardians(guardian_id);
+    `);
+
+    console.log('✅ Guardian tables created/verified');
+  } catch (error) {
+    console.error('❌ Error creating guardian tables:', error);
+    throw error;
+  }
+};
+
+const createReportEmailLog = async (db: any) => {
+  try {
+    console.log('🔧 Creating report email log...');
+
+    // One row per recipient of an emailed report card or progress report
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS report_email_log (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        school_year_id UUID NOT NULL REFERENCES school_years(id) ON DELETE CASCADE,
+        student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+        guardian_id UUID REFERENCES guardians(id) ON DELETE SET NULL,
+        recipient_name VARCHAR(100) NOT NULL,
+        recipient_email VARCHAR(255) NOT NULL,
+        document_type VARCHAR(20) NOT NULL,
+        period_label VARCHAR(255),
+        subject VARCHAR(255) NOT NULL,
+        status VARCHAR(10) NOT NULL CHECK (status IN ('sent', 'failed')),
+        error TEXT,
+        message_id VARCHAR(255),
+        teacher_id UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_report_email_log_year ON report_email_log(user_id, school_year_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_report_email_log_student ON report_email_log(student_id);
+    `);
+
+    console.log('✅ Report email log created/verified');
+  } catch (error) {
+    console.error('❌ Error creating report email log:', error);
+    throw error;
+  }
+};
+
+const createPortalLinks = async (db: any) => {
+  try {
+    console.log('🔧 Creating portal links...');
+
+    // Read-only links for a parent or student to one student's grades; the signed token only carries the link id,
+    // so revoking or expiring the row cuts off access even before the token itself expires
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS portal_links (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        school_year_id UUID NOT NULL REFERENCES school_years(id) ON DELETE CASCADE,
+        student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+        label VARCHAR(100),
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        teacher_id UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_portal_links_student ON portal_links(student_id);
+    `);
+
+    console.log('✅ Portal links created/verified');
+  } catch (error) {
+    console.error('❌ Error creating portal links:', error);
+    throw error;
+  }
+};
+
 // Run migrations if this file is executed directly
 if (require.main === module) {
   connectDB()
@@ -1438,4 +1907,5 @@ if (require.main === module) {
       console.error('Migration failed:', error);
       process.exit(1);
     });
-}
\ No newline at end of file
+}
+
@@ -0,0 +1,96 @@
+import { loadSubjectAverage } from './groupReport';
+import { loadGradingScales } from './transcript';
+import { roundToTenth, toPercentage } from '../shared/gradeCalculation';
+
+/**
+ * Builds the read-only portal view of one student: current average and letter grade per subject with the lesson
+ * grades behind it, missing work and an attendance summary. Only ever reads the student of the portal link.
+ * @returns The view, or null when the student no longer exists
+ */
+export const loadPortalView = async (db: any, userId: string, schoolYearId: string, studentId: string) => {
+  const studentResult = await db.query(
+    `SELECT s.name, s.grade, sy.label AS school_year_label, u.school_name
+     FROM students s
+     JOIN school_years sy ON sy.id = s.school_year_id
+     JOIN users u ON u.id = s.user_id
+     WHERE s.id = $1 AND s.user_id = $2 AND s.school_year_id = $3`,
+    [studentId, userId, schoolYearId]
+  );
+  if (studentResult.rows.length === 0) return null;
+  const student = studentResult.rows[0];
+
+  const gradesResult = await db.query(
+    `SELECT sub.id AS subject_id, sub.name AS subject_name, sub.report_card_name, sub.grading_scale_id,
+       l.id AS lesson_id, l.name AS lesson_name, TO_CHAR(l.date, 'YYYY-MM-DD') AS date,
+       TO_CHAR(COALESCE(l.due_date, l.date), 'YYYY-MM-DD') AS due_date, gct.name AS category,
+       g.percentage, g.status
+     FROM grades g
+     JOIN lessons l ON l.id = g.lesson_id AND l.school_year_id = $2
+     JOIN subjects sub ON sub.id = l.subject_id
+     LEFT JOIN grade_category_types gct ON gct.id = l.category_id
+     WHERE g.student_id = $1 AND g.school_year_id = $2
+     ORDER BY sub.name, l.order_index`,
+    [studentId, schoolYearId]
+  );
+
+  const { scales, defaultScaleId } = await loadGradingScales(db, userId);
+  const subjects = new Map<string, any>();
+  const missingWork: Array<{ lessonId: string; lessonName: string; subjectName: string; dueDate: string | null }> = [];
+
+  gradesResult.rows.forEach((row: any) => {
+    const subjectName = row.report_card_name?.trim() || row.subject_name;
+    if (!subjects.has(row.subject_id)) {
+      subjects.set(row.subject_id, {
+        subjectId: row.subject_id,
+        subjectName,
+        gradingScaleId: row.grading_scale_id,
+        average: null,
+        letterGrade: null,
+        lessons: []
+      });
+    }
+    subjects.get(row.subject_id).lessons.push({
+      lessonId: row.lesson_id,
+      name: row.lesson_name,
+      date: row.date,
+      dueDate: row.due_date,
+      category: row.category,
+      percentage: toPercentage(row.percentage),
+      status: row.status
+    });
+    if (row.status === 'missing') {
+      missingWork.push({ lessonId: row.lesson_id, lessonName: row.lesson_name, subjectName, dueDate: row.due_date });
+    }
+  });
+
+  for (const subject of subjects.values()) {
+    const calculation = await loadSubjectAverage(db, studentId, subject.subjectId, schoolYearId);
+    if (calculation) {
+      subject.average = roundToTenth(calculation.average);
+      const bands = scales.get(subject.gradingScaleId) || scales.get(defaultScaleId ?? '') || [];
+      subject.letterGrade = bands.find(band => subject.average >= band.minPercent)?.label ?? null;
+    }
+    delete subject.gradingScaleId;
+  }
+
+  const attendanceResult = await db.query(
+    `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date, status
+     FROM attendance_records
+     WHERE student_id = $1 AND user_id = $2 AND school_year_id = $3
+     ORDER BY date DESC`,
+    [studentId, userId, schoolYearId]
+  );
+  const attendance = { present: 0, absent: 0, tardy: 0, excused: 0, recent: attendanceResult.rows.slice(0, 10) };
+  attendanceResult.rows.forEach((row: any) => {
+    if (row.status in attendance) attendance[row.status as 'present' | 'absent' | 'tardy' | 'excused'] += 1;
+  });
+
+  return {
+    student: { name: student.name, grade: student.grade },
+    schoolName: student.school_name,
+    schoolYearLabel: student.school_year_label,
+    subjects: Array.from(subjects.values()),
+    missingWork,
+    attendance
+  };
+};
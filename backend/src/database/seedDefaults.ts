@@ -96,4 +96,93 @@ export const createDefaultGradeCategoryTypes = async (userId: string): Promise<v
     console.error(`Error creating default grade category types for user ${userId}:`, error);
     throw error;
   }
-};
\ No newline at end of file
+};
+export interface GradingScaleBandSeed {
+  minPercent: number;
+  label: string;
+  gpaPoints: number | null;
+  color: string | null;
+}
+
+// Matches the letter cutoffs the app used before scales were configurable
+export const STANDARD_GRADING_SCALE_BANDS: GradingScaleBandSeed[] = [
+  { minPercent: 97, label: 'A+', gpaPoints: 4.0, color: '#059669' },
+  { minPercent: 93, label: 'A', gpaPoints: 4.0, color: '#059669' },
+  { minPercent: 90, label: 'A-', gpaPoints: 3.7, color: '#059669' },
+  { minPercent: 87, label: 'B+', gpaPoints: 3.3, color: '#0d9488' },
+  { minPercent: 83, label: 'B', gpaPoints: 3.0, color: '#0d9488' },
+  { minPercent: 80, label: 'B-', gpaPoints: 2.7, color: '#0d9488' },
+  { minPercent: 77, label: 'C+', gpaPoints: 2.3, color: '#ca8a04' },
+  { minPercent: 73, label: 'C', gpaPoints: 2.0, color: '#ca8a04' },
+  { minPercent: 70, label: 'C-', gpaPoints: 1.7, color: '#ca8a04' },
+  { minPercent: 67, label: 'D+', gpaPoints: 1.3, color: '#dc2626' },
+  { minPercent: 63, label: 'D', gpaPoints: 1.0, color: '#dc2626' },
+  { minPercent: 60, label: 'D-', gpaPoints: 0.7, color: '#dc2626' },
+  { minPercent: 0, label: 'F', gpaPoints: 0.0, color: '#dc2626' }
+];
+
+/**
+ * Creates the default grading scales for a user if they don't already have any
+ * @param userId - The user ID to create scales for
+ */
+export const createDefaultGradingScales = async (userId: string): Promise<void> => {
+  const db = getDB();
+
+  const defaultScales = [
+    { name: 'Standard Letter (A–F)', is_default: true, bands: STANDARD_GRADING_SCALE_BANDS },
+    {
+      name: '4-Point (A–E)',
+      is_default: false,
+      bands: [
+        { minPercent: 90, label: 'A', gpaPoints: 4.0, color: '#059669' },
+        { minPercent: 80, label: 'B', gpaPoints: 3.0, color: '#0d9488' },
+        { minPercent: 70, label: 'C', gpaPoints: 2.0, color: '#ca8a04' },
+        { minPercent: 60, label: 'D', gpaPoints: 1.0, color: '#dc2626' },
+        { minPercent: 0, label: 'E', gpaPoints: 0.0, color: '#dc2626' }
+      ]
+    },
+    {
+      name: 'Standards-Based (1–4)',
+      is_default: false,
+      bands: [
+        { minPercent: 90, label: '4', gpaPoints: 4.0, color: '#059669' },
+        { minPercent: 75, label: '3', gpaPoints: 3.0, color: '#0d9488' },
+        { minPercent: 60, label: '2', gpaPoints: 2.0, color: '#ca8a04' },
+        { minPercent: 0, label: '1', gpaPoints: 1.0, color: '#dc2626' }
+      ]
+    }
+  ];
+
+  try {
+    // Check if user already has scales
+    const existingResult = await db.query(
+      'SELECT COUNT(*) as count FROM grading_scales WHERE user_id = $1',
+      [userId]
+    );
+
+    if (existingResult.rows[0].count === '0') {
+      for (const scale of defaultScales) {
+        const scaleResult = await db.query(`
+          INSERT INTO grading_scales (user_id, name, is_default)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (user_id, name) DO NOTHING
+          RETURNING id
+        `, [userId, scale.name, scale.is_default]);
+
+        const scaleId = scaleResult.rows[0]?.id;
+        if (!scaleId) continue;
+
+        for (const [index, band] of scale.bands.entries()) {
+          await db.query(`
+            INSERT INTO grading_scale_bands (scale_id, min_percent, label, gpa_points, color, order_index)
+            VALUES ($1, $2, $3, $4, $5, $6)
+          `, [scaleId, band.minPercent, band.label, band.gpaPoints, band.color, index]);
+        }
+      }
+      console.log(`✅ Created default grading scales for user ${userId}`);
+    }
+  } catch (error) {
+    console.error(`Error creating default grading scales for user ${userId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface StudentIdentity {
+  personId?: string | null;
+  sisId?: string | null;
+  name: string;
+  birthday?: string | null;
+}
+
+/**
+ * Finds the person a student row added to a school year belongs to, so an imported or restored student continues
+ * the record of their earlier years. A known person id is kept, then the SIS id is matched, then name and birthday
+ * the way rollover matches students. People who already have a row in the school year are never returned.
+ * @returns The person id to store, or null to start a new person
+ */
+export const findPersonId = async (db: any, userId: string, schoolYearId: string, student: StudentIdentity) => {
+  if (student.personId && UUID_PATTERN.test(student.personId)) {
+    const taken = await db.query(
+      'SELECT 1 FROM students WHERE school_year_id = $1 AND person_id = $2',
+      [schoolYearId, student.personId]
+    );
+    if (taken.rows.length === 0) return student.personId;
+  }
+
+  const findLatest = async (condition: string, params: any[]) => {
+    const result = await db.query(
+      `SELECT s.person_id
+       FROM students s
+       LEFT JOIN school_years sy ON sy.id = s.school_year_id
+       WHERE s.user_id = $1 AND ${condition}
+         AND NOT EXISTS (SELECT 1 FROM students t WHERE t.school_year_id = $2 AND t.person_id = s.person_id)
+       ORDER BY sy.start_date DESC NULLS LAST
+       LIMIT 1`,
+      [userId, schoolYearId, ...params]
+    );
+    return result.rows[0]?.person_id as string | undefined;
+  };
+
+  if (student.sisId) {
+    const bySisId = await findLatest('s.sis_id = $3', [student.sisId]);
+    if (bySisId) return bySisId;
+  }
+
+  // A namesake with a different SIS id is a different person
+  const byName = await findLatest(
+    `s.name = $3 AND COALESCE(s.birthday::text, '') = COALESCE($4::text, '')${student.sisId ? ' AND s.sis_id IS NULL' : ''}`,
+    [student.name, student.birthday || null]
+  );
+  return byName || null;
+};
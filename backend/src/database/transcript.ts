@@ -0,0 +1,129 @@
+import { loadSubjectAverage } from './groupReport';
+import { roundToTenth } from '../shared/gradeCalculation';
+
+interface TranscriptBand {
+  minPercent: number;
+  label: string;
+  gpaPoints: number | null;
+}
+
+// Rows of one person in every licensed school year; rollover, imports and restores keep the person id
+const findStudentAcrossYears = async (db: any, userId: string, personId: string) => {
+  const result = await db.query(
+    `SELECT s.id, s.grade, sy.id AS school_year_id, sy.label, TO_CHAR(sy.start_date, 'YYYY-MM-DD') AS start_date
+     FROM students s
+     JOIN school_years sy ON sy.id = s.school_year_id
+     JOIN user_school_year_licenses usyl ON usyl.school_year_id = sy.id AND usyl.user_id = s.user_id
+     WHERE s.user_id = $1 AND s.person_id = $2
+     ORDER BY sy.start_date`,
+    [userId, personId]
+  );
+  return result.rows;
+};
+
+// Bands of every grading scale of the user, highest band first, plus the id of the default scale
+export const loadGradingScales = async (db: any, userId: string) => {
+  const result = await db.query(
+    `SELECT gs.id AS scale_id, gs.is_default, b.min_percent::float AS "minPercent", b.label, b.gpa_points::float AS "gpaPoints"
+     FROM grading_scales gs
+     JOIN grading_scale_bands b ON b.scale_id = gs.id
+     WHERE gs.user_id = $1
+     ORDER BY gs.is_default DESC, gs.created_at ASC, b.min_percent DESC`,
+    [userId]
+  );
+
+  const scales = new Map<string, TranscriptBand[]>();
+  result.rows.forEach((row: any) => {
+    scales.set(row.scale_id, [...(scales.get(row.scale_id) || []), row]);
+  });
+  return { scales, defaultScaleId: result.rows[0]?.scale_id as string | undefined };
+};
+
+/**
+ * Builds a student's transcript over every licensed school year: final average, letter grade, GPA points and
+ * credits per subject, with a GPA per year and a cumulative GPA. Callers check access to the student.
+ * GPAs are weighted by credits; subjects without credits weigh as one credit but earn none.
+ * @param studentId - The student's row in the school year the request is made in
+ * @returns The transcript, or null when the student does not exist in that year
+ */
+export const loadTranscript = async (db: any, userId: string, schoolYearId: string, studentId: string) => {
+  const studentResult = await db.query(
+    `SELECT id, person_id, sis_id, name, grade, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday
+     FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3`,
+    [studentId, userId, schoolYearId]
+  );
+  if (studentResult.rows.length === 0) return null;
+  const student = studentResult.rows[0];
+
+  const { scales, defaultScaleId } = await loadGradingScales(db, userId);
+  const yearRows = await findStudentAcrossYears(db, userId, student.person_id);
+
+  let totalPoints = 0;
+  let totalWeight = 0;
+  let totalCredits = 0;
+
+  const years = [];
+  for (const yearRow of yearRows) {
+    const subjectsResult = await db.query(
+      `SELECT DISTINCT sub.id, sub.name, sub.report_card_name, sub.credits, sub.grading_scale_id
+       FROM subjects sub
+       JOIN lessons l ON l.subject_id = sub.id AND l.school_year_id = $2
+       JOIN grades g ON g.lesson_id = l.id AND g.student_id = $1 AND g.school_year_id = $2
+       WHERE sub.user_id = $3 AND sub.school_year_id = $2
+       ORDER BY sub.name`,
+      [yearRow.id, yearRow.school_year_id, userId]
+    );
+
+    let yearPoints = 0;
+    let yearWeight = 0;
+    let yearCredits = 0;
+    const subjects = [];
+
+    for (const subject of subjectsResult.rows) {
+      const calculation = await loadSubjectAverage(db, yearRow.id, subject.id, yearRow.school_year_id);
+      if (!calculation) continue;
+
+      const average = roundToTenth(calculation.average);
+      const bands = scales.get(subject.grading_scale_id) || scales.get(defaultScaleId ?? '') || [];
+      const band = bands.find(candidate => average >= candidate.minPercent) || null;
+      const credits = subject.credits === null ? null : Number(subject.credits);
+
+      if (band?.gpaPoints !== null && band?.gpaPoints !== undefined) {
+        const weight = credits ?? 1;
+        yearPoints += band.gpaPoints * weight;
+        yearWeight += weight;
+      }
+      yearCredits += credits ?? 0;
+
+      subjects.push({
+        subjectId: subject.id,
+        subjectName: subject.report_card_name?.trim() || subject.name,
+        average,
+        letterGrade: band?.label ?? null,
+        gpaPoints: band?.gpaPoints ?? null,
+        credits
+      });
+    }
+
+    totalPoints += yearPoints;
+    totalWeight += yearWeight;
+    totalCredits += yearCredits;
+
+    years.push({
+      schoolYearId: yearRow.school_year_id,
+      label: yearRow.label,
+      startDate: yearRow.start_date,
+      gradeLevel: yearRow.grade,
+      subjects,
+      gpa: yearWeight > 0 ? Math.round(yearPoints / yearWeight * 100) / 100 : null,
+      credits: yearCredits
+    });
+  }
+
+  return {
+    student: { id: student.id, name: student.name, sisId: student.sis_id, birthday: student.birthday, grade: student.grade },
+    years,
+    cumulativeGpa: totalWeight > 0 ? Math.round(totalPoints / totalWeight * 100) / 100 : null,
+    totalCredits
+  };
+};
@@ -11,6 +11,8 @@ export interface AuthRequest extends Request {
   };
   schoolYearId?: string;
   schoolYearOverride?: boolean;
+  teacherId?: string;
+  teacherGroupIds?: string[];
 }
 
 export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
@@ -24,8 +26,15 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    // Portal links only open the read-only portal of their student
+    if (decoded.purpose === 'student_portal') {
+      res.status(403).json({ error: 'Invalid or expired token' });
+      return;
+    }
     req.userId = decoded.userId;
     req.user = decoded.user;
+    // Teacher sign-in links carry the owner's userId plus the teacher they were issued for
+    req.teacherId = decoded.purpose === 'teacher_signin' && decoded.teacherId ? decoded.teacherId : undefined;
     next();
   } catch (error) {
     res.status(403).json({ error: 'Invalid or expired token' });
@@ -86,4 +95,63 @@ export const resolveSchoolYearContext = async (req: AuthRequest, res: Response,
   } catch (error) {
     res.status(500).json({ error: 'Failed to resolve school year context' });
   }
-};
\ No newline at end of file
+};
+export interface PortalRequest extends Request {
+  portalLink?: {
+    id: string;
+    userId: string;
+    schoolYearId: string;
+    studentId: string;
+    expiresAt: string;
+  };
+}
+
+// Portal links are checked against their row on every request, so a revoked link stops working right away
+export const authenticatePortalToken = async (req: PortalRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+  if (!token) {
+    res.status(401).json({ error: 'Access token required' });
+    return;
+  }
+
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET!);
+  } catch (error) {
+    res.status(403).json({ error: 'This link has expired or is no longer valid' });
+    return;
+  }
+
+  if (decoded?.purpose !== 'student_portal' || !decoded.portalLinkId) {
+    res.status(403).json({ error: 'This link has expired or is no longer valid' });
+    return;
+  }
+
+  try {
+    const result = await getDB().query(
+      `UPDATE portal_links SET last_used_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       RETURNING id, user_id, school_year_id, student_id, expires_at`,
+      [decoded.portalLinkId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(403).json({ error: 'This link has expired or is no longer valid' });
+      return;
+    }
+
+    const link = result.rows[0];
+    req.portalLink = {
+      id: link.id,
+      userId: link.user_id,
+      schoolYearId: link.school_year_id,
+      studentId: link.student_id,
+      expiresAt: link.expires_at
+    };
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify link' });
+  }
+};
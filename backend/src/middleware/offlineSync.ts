@@ -0,0 +1,24 @@
+import { Request } from 'express';
+
+// Edits replayed from the browser's offline queue carry the updated_at of the record as the client last saw it.
+// NO_RECORD means the client saw no record at all; without the header the edit is not version-checked.
+export const BASE_VERSION_HEADER = 'x-base-updated-at';
+export const NO_RECORD = 'none';
+
+// undefined: no version to check, null: the client saw no record, Date: the client saw this version
+export const getBaseVersion = (req: Request): Date | null | undefined => {
+  const raw = req.headers[BASE_VERSION_HEADER];
+  if (!raw || Array.isArray(raw)) return undefined;
+  if (raw === NO_RECORD) return null;
+
+  const baseVersion = new Date(raw);
+  return isNaN(baseVersion.getTime()) ? undefined : baseVersion;
+};
+
+// A replayed edit loses when the record was changed, created or deleted since the client last saw it
+export const isStaleOfflineEdit = (req: Request, updatedAt?: Date | string | null): boolean => {
+  const baseVersion = getBaseVersion(req);
+  if (baseVersion === undefined) return false;
+  if (!updatedAt) return baseVersion !== null;
+  return baseVersion === null || new Date(updatedAt).getTime() !== baseVersion.getTime();
+};
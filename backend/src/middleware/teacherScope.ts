@@ -0,0 +1,112 @@
+import { Response, NextFunction } from 'express';
+import { getDB } from '../database/connection';
+import { AuthRequest } from './auth';
+
+// Loads the student groups a teacher token is allowed to see. Owner tokens pass through untouched.
+export const resolveTeacherScope = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.teacherId) {
+    next();
+    return;
+  }
+
+  try {
+    const db = getDB();
+
+    const teacherResult = await db.query(
+      'SELECT id, is_active FROM teachers WHERE id = $1 AND user_id = $2',
+      [req.teacherId, req.userId]
+    );
+
+    if (teacherResult.rows.length === 0 || !teacherResult.rows[0].is_active) {
+      res.status(403).json({ error: 'Teacher access has been revoked' });
+      return;
+    }
+
+    const groupsResult = await db.query(
+      `SELECT tgl.student_group_id
+       FROM teacher_group_links tgl
+       JOIN student_groups sg ON sg.id = tgl.student_group_id
+       WHERE tgl.teacher_id = $1 AND sg.user_id = $2`,
+      [req.teacherId, req.userId]
+    );
+
+    req.teacherGroupIds = groupsResult.rows.map((row: any) => row.student_group_id);
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to resolve teacher access' });
+  }
+};
+
+export const isTeacherScoped = (req: AuthRequest): boolean => Array.isArray(req.teacherGroupIds);
+
+// Blocks account-wide actions (group management, bulk imports) for teacher tokens
+export const requireOwner = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.teacherId) {
+    res.status(403).json({ error: 'Only the account owner can perform this action' });
+    return;
+  }
+  next();
+};
+
+// SQL fragment limiting a student id column to the teacher's groups. Appends its parameter to `params`.
+export const studentScopeClause = (req: AuthRequest, studentIdColumn: string, params: any[]): string => {
+  if (!isTeacherScoped(req)) return '';
+  params.push(req.teacherGroupIds);
+  return ` AND EXISTS (
+    SELECT 1 FROM student_group_links tsgl
+    WHERE tsgl.student_id = ${studentIdColumn} AND tsgl.student_group_id = ANY($${params.length}::uuid[])
+  )`;
+};
+
+// SQL fragment limiting a subject id column to subjects linked to the teacher's groups, or linked to no group at all
+export const subjectScopeClause = (req: AuthRequest, subjectIdColumn: string, params: any[]): string => {
+  if (!isTeacherScoped(req)) return '';
+  params.push(req.teacherGroupIds);
+  return ` AND (
+    NOT EXISTS (SELECT 1 FROM subject_groups tsg WHERE tsg.subject_id = ${subjectIdColumn})
+    OR EXISTS (
+      SELECT 1 FROM subject_groups tsg
+      WHERE tsg.subject_id = ${subjectIdColumn} AND tsg.student_group_id = ANY($${params.length}::uuid[])
+    )
+  )`;
+};
+
+export const canAccessGroup = (req: AuthRequest, groupId: string): boolean => {
+  if (!isTeacherScoped(req)) return true;
+  return req.teacherGroupIds!.includes(groupId);
+};
+
+export const canAccessGroups = (req: AuthRequest, groupIds: string[]): boolean => {
+  return groupIds.every(groupId => canAccessGroup(req, groupId));
+};
+
+export const canAccessStudent = async (req: AuthRequest, studentId: string): Promise<boolean> => {
+  if (!isTeacherScoped(req)) return true;
+  const params: any[] = [studentId];
+  const result = await getDB().query(
+    `SELECT 1 FROM students s WHERE s.id = $1${studentScopeClause(req, 's.id', params)}`,
+    params
+  );
+  return result.rows.length > 0;
+};
+
+export const canAccessSubject = async (req: AuthRequest, subjectId: string): Promise<boolean> => {
+  if (!isTeacherScoped(req)) return true;
+  const params: any[] = [subjectId];
+  const result = await getDB().query(
+    `SELECT 1 FROM subjects sub WHERE sub.id = $1${subjectScopeClause(req, 'sub.id', params)}`,
+    params
+  );
+  return result.rows.length > 0;
+};
+
+export const canAccessLesson = async (req: AuthRequest, lessonId: string): Promise<boolean> => {
+  if (!isTeacherScoped(req)) return true;
+  const params: any[] = [lessonId];
+  const result = await getDB().query(
+    `SELECT 1 FROM lessons l JOIN subjects sub ON sub.id = l.subject_id
+     WHERE l.id = $1${subjectScopeClause(req, 'sub.id', params)}`,
+    params
+  );
+  return result.rows.length > 0;
+};
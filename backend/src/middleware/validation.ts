@@ -1,5 +1,8 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
+import { GRADE_STATUSES } from '../shared/gradeCalculation';
+import { COMMENT_TONES, STUDENT_PRONOUNS } from '../shared/commentMerge';
+import { REPORT_EMAIL_DOCUMENTS } from '../shared/reportEmail';
 
 export const validateRequest = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -42,6 +45,8 @@ export const schemas = {
     name: Joi.string().min(2).max(100).required(),
     // Keep birthday as a plain YYYY-MM-DD string to avoid timezone shifts when saving to Postgres DATE
     birthday: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional().allow(null, ''),
+    pronouns: Joi.string().valid(...STUDENT_PRONOUNS).optional().allow(null, ''),
+    sisId: Joi.string().trim().max(64).optional().allow(null, ''), // Id of the student in the school's information system
     groupIds: Joi.array().items(Joi.string().uuid()).optional() // Many-to-many format
   }),
 
@@ -54,8 +59,21 @@ export const schemas = {
     name: Joi.string().min(2).max(100).required(),
     report_card_name: Joi.string().min(2).max(100).optional(),
     description: Joi.string().max(500).optional(),
+    grading_scale_id: Joi.string().uuid().allow(null).optional(), // NULL uses the user's default scale
+    credits: Joi.number().min(0).max(99).allow(null).optional(), // Transcript credits; NULL for no credit
     groupIds: Joi.array().items(Joi.string().uuid()).optional(), // Many-to-many format
-    weights: Joi.object().pattern(Joi.string().uuid(), Joi.number().min(0).max(1)).optional() // Weights structure
+    weights: Joi.object().pattern(Joi.string().uuid(), Joi.number().min(0).max(1)).optional(), // Weights structure
+    policies: Joi.object().pattern(Joi.string().uuid(), Joi.object({
+      dropLowest: Joi.number().integer().min(0).max(50).optional(),
+      keepHighest: Joi.number().integer().min(0).max(100).allow(null).optional(),
+      capAt100: Joi.boolean().optional(),
+      replaceWithCategoryId: Joi.string().uuid().allow(null).optional()
+    })).optional(), // Averaging policies per category
+    latePolicy: Joi.object({
+      penaltyPerDay: Joi.number().min(0).max(100).required(),
+      maxPenalty: Joi.number().min(0).max(100).allow(null).optional(),
+      graceDays: Joi.number().integer().min(0).max(365).optional()
+    }).allow(null).optional() // null removes the late policy
   }),
 
   lesson: Joi.object({
@@ -67,7 +85,93 @@ export const schemas = {
   grade: Joi.object({
     percentage: Joi.number().min(0).max(100).optional(),
     errors: Joi.number().min(0).optional(), // Allow decimal errors (e.g., 2.5)
-    points: Joi.number().integer().min(1).optional() // Keep as integer for total points
+    points: Joi.number().integer().min(1).optional(), // Keep as integer for total points
+    status: Joi.string().valid(...GRADE_STATUSES).optional(),
+    notes: Joi.string().max(1000).allow('', null).optional(),
+    submittedAt: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null, '').optional(), // Day the work was handed in
+    reason: Joi.string().max(500).allow('', null).optional()
+  }),
+
+  gradeStatus: Joi.object({
+    status: Joi.string().valid(...GRADE_STATUSES).optional(),
+    notes: Joi.string().max(1000).allow('', null).optional(),
+    submittedAt: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null, '').optional(),
+    reason: Joi.string().max(500).allow('', null).optional()
+  }).or('status', 'notes', 'submittedAt'),
+
+  gradeBulk: Joi.object({
+    grades: Joi.array()
+      .items(
+        Joi.object({
+          studentId: Joi.string().uuid().required(),
+          lessonId: Joi.string().uuid().required(),
+          percentage: Joi.number().min(0).max(100).allow(null).optional(),
+          errors: Joi.number().min(0).allow(null).optional(),
+          points: Joi.number().integer().min(1).allow(null).optional(),
+          status: Joi.string().valid(...GRADE_STATUSES).optional(),
+          notes: Joi.string().max(1000).allow('', null).optional(),
+          submittedAt: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null, '').optional()
+        })
+      )
+      .min(1)
+      .max(1000)
+      .required(),
+    reason: Joi.string().max(500).allow('', null).optional()
+  }),
+
+  gradeImport: Joi.object({
+    csv: Joi.string().max(2000000).required(),
+    lessonMatch: Joi.string().valid('name', 'order').default('name'),
+    createMissingLessons: Joi.boolean().default(false),
+    categoryId: Joi.string().uuid().allow(null).optional(),
+    overwrite: Joi.boolean().default(false),
+    // Sheet row number -> the student picked for it by hand, or null to leave the row out
+    studentMatches: Joi.object().pattern(/^\d+$/, Joi.string().uuid().allow(null)).default({}),
+    dryRun: Joi.boolean().default(true)
+  }),
+
+  gradeRevert: Joi.object({
+    lessons: Joi.array()
+      .items(
+        Joi.object({
+          id: Joi.string().uuid().required(),
+          subjectId: Joi.string().uuid().required(),
+          name: Joi.string().min(1).max(255).required(),
+          categoryId: Joi.string().uuid().allow(null).optional(),
+          points: Joi.number().integer().min(1).required(),
+          orderIndex: Joi.number().integer().min(0).required(),
+          date: Joi.string().allow(null, '').optional(),
+          dueDate: Joi.string().allow(null, '').optional()
+        })
+      )
+      .optional(),
+    removeLessonIds: Joi.array().items(Joi.string().uuid()).optional(),
+    lessonPoints: Joi.array()
+      .items(
+        Joi.object({
+          lessonId: Joi.string().uuid().required(),
+          points: Joi.number().integer().min(1).required()
+        })
+      )
+      .optional(),
+    grades: Joi.array()
+      .items(
+        Joi.object({
+          studentId: Joi.string().uuid().required(),
+          lessonId: Joi.string().uuid().required(),
+          grade: Joi.object({
+            percentage: Joi.number().min(0).max(100).allow(null).required(),
+            errors: Joi.number().min(0).allow(null).required(),
+            points: Joi.number().integer().min(1).allow(null).required(),
+            status: Joi.string().valid(...GRADE_STATUSES).optional(),
+            notes: Joi.string().max(1000).allow('', null).optional(),
+            submittedAt: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null, '').optional()
+          }).allow(null).required()
+        })
+      )
+      .max(1000)
+      .optional(),
+    reason: Joi.string().max(500).allow('', null).optional()
   }),
 
   attendanceBulk: Joi.object({
@@ -100,6 +204,104 @@ export const schemas = {
       .required()
   }),
 
+  gradingScale: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    isDefault: Joi.boolean().optional(),
+    bands: Joi.array()
+      .items(
+        Joi.object({
+          minPercent: Joi.number().min(0).max(100).required(),
+          label: Joi.string().min(1).max(20).required(),
+          gpaPoints: Joi.number().min(0).max(10).allow(null).optional(),
+          color: Joi.string().pattern(/^#[0-9A-F]{6}$/i).allow(null, '').optional()
+        })
+      )
+      .min(1)
+      .unique('minPercent')
+      .unique('label')
+      .required()
+  }),
+
+  // No group renders every group of the school year; no grading period counts the whole year
+  reportBatch: Joi.object({
+    groupId: Joi.string().uuid().allow(null).optional(),
+    gradingPeriodId: Joi.string().uuid().allow(null).optional(),
+    format: Joi.string().valid('zip', 'merged').default('zip')
+  }),
+
+  reportCardIssue: Joi.object({
+    studentId: Joi.string().uuid().required(),
+    periodKey: Joi.string().min(1).max(100).required(),
+    periodLabel: Joi.string().max(255).allow('', null).optional(),
+    reportCard: Joi.object().unknown(true).required(),
+    // The PDF exactly as the teacher saw it, base64 encoded; must fit the 10mb JSON body limit
+    pdfBase64: Joi.string().base64().max(9 * 1024 * 1024).required(),
+    reason: Joi.string().trim().max(500).allow('', null).optional()
+  }),
+
+  commentBankEntry: Joi.object({
+    tone: Joi.string().valid(...COMMENT_TONES).required(),
+    subjectName: Joi.string().trim().max(255).allow('', null).optional(),
+    text: Joi.string().trim().min(1).max(2000).required()
+  }),
+
+  studentReportComment: Joi.object({
+    periodKey: Joi.string().min(1).max(100).required(),
+    // An empty comment clears the saved one
+    comment: Joi.string().max(4000).allow('').required()
+  }),
+
+  guardian: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    relationship: Joi.string().trim().max(50).allow('', null).optional(),
+    emails: Joi.array().items(Joi.string().trim().email()).max(5).default([]),
+    phones: Joi.array().items(Joi.string().trim().min(1).max(30)).max(5).default([]),
+    preferredLanguage: Joi.string().trim().max(50).allow('', null).optional(),
+    hasCustody: Joi.boolean().default(true),
+    doNotContact: Joi.boolean().default(false),
+    isPrimary: Joi.boolean().default(false),
+    notes: Joi.string().max(2000).allow('', null).optional()
+  }),
+
+  guardianLink: Joi.object({
+    guardianId: Joi.string().uuid().required(),
+    isPrimary: Joi.boolean().default(false)
+  }),
+
+  reportEmailPreview: Joi.object({
+    studentIds: Joi.array().items(Joi.string().uuid()).min(1).max(500).required(),
+    document: Joi.string().valid(...REPORT_EMAIL_DOCUMENTS).required(),
+    periodLabel: Joi.string().max(255).allow('', null).optional(),
+    subject: Joi.string().trim().min(1).max(255).required(),
+    body: Joi.string().trim().min(1).max(10000).required()
+  }),
+
+  reportEmailSend: Joi.object({
+    studentId: Joi.string().uuid().required(),
+    document: Joi.string().valid(...REPORT_EMAIL_DOCUMENTS).required(),
+    periodLabel: Joi.string().max(255).allow('', null).optional(),
+    subject: Joi.string().trim().min(1).max(255).required(),
+    body: Joi.string().trim().min(1).max(10000).required(),
+    fileName: Joi.string().trim().min(1).max(255).required(),
+    // Rendered in the browser like the downloads; must fit the 10mb JSON body limit
+    pdfBase64: Joi.string().base64().max(9 * 1024 * 1024).required()
+  }),
+
+  // Rows of a two-phase spreadsheet import, already mapped to field keys; the route checks the values
+  bulkImport: Joi.object({
+    rows: Joi.array().items(Joi.object({
+      row: Joi.number().integer().min(1).required(),
+      values: Joi.object().pattern(Joi.string(), Joi.string().allow('')).required()
+    })).min(1).max(5000).required(),
+    dryRun: Joi.boolean().default(true),
+    updateExisting: Joi.boolean().default(true)
+  }),
+
+  portalLink: Joi.object({
+    label: Joi.string().trim().max(100).allow('', null).optional(),
+    expiresInDays: Joi.number().integer().min(1).max(365).default(30)
+  }),
+
   kv: Joi.object({
     key: Joi.string().min(1).max(255).required(),
     value: Joi.any().required()
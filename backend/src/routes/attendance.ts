@@ -2,6 +2,8 @@ import express from 'express'
 import { getDB } from '../database/connection'
 import { AuthRequest } from '../middleware/auth'
 import { validateRequest, schemas } from '../middleware/validation'
+import { studentScopeClause, canAccessStudent } from '../middleware/teacherScope'
+import { getBaseVersion, isStaleOfflineEdit } from '../middleware/offlineSync'
 
 const router = express.Router()
 
@@ -28,6 +30,7 @@ router.get('/', async (req: AuthRequest, res, next) => {
       JOIN students s ON ar.student_id = s.id
       WHERE ar.user_id = $1 AND ar.school_year_id = $2
     `
+    query += studentScopeClause(req, 'ar.student_id', params)
 
     if (date) {
       params.push(date)
@@ -54,6 +57,10 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
     const { limit = '50' } = req.query
     const schoolYearId = req.schoolYearId
 
+    if (!(await canAccessStudent(req, studentId))) {
+      return res.status(404).json({ error: 'Student not found' })
+    }
+
     const result = await db.query(
       `SELECT 
          ar.id,
@@ -86,16 +93,42 @@ router.post('/bulk', validateRequest(schemas.attendanceBulk), async (req: AuthRe
     const { records } = req.body as { records: Array<{ studentId: string; date: string; status: string; notes?: string }> }
     const schoolYearId = req.schoolYearId
 
+    for (const studentId of new Set(records.map(record => record.studentId))) {
+      if (!(await canAccessStudent(req, studentId))) {
+        return res.status(404).json({ error: 'Student not found' })
+      }
+    }
+
+    // Replayed offline edits must not overwrite attendance taken on another device since
+    if (getBaseVersion(req) !== undefined) {
+      const existingResult = await db.query(
+        `SELECT student_id, date::text AS date, updated_at
+         FROM attendance_records
+         WHERE user_id = $1 AND student_id = ANY($2::uuid[]) AND date = ANY($3::date[])`,
+        [req.userId, records.map(record => record.studentId), records.map(record => record.date)]
+      )
+      const conflicts = records.filter(record => isStaleOfflineEdit(
+        req,
+        existingResult.rows.find(row => row.student_id === record.studentId && row.date === record.date)?.updated_at
+      ))
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: 'Attendance was changed after the offline edit was made', conflicts })
+      }
+    }
+
+    const saved: Array<{ studentId: string; date: string; updated_at: Date }> = []
     await db.query('BEGIN')
     try {
       for (const record of records) {
-        await db.query(
+        const result = await db.query(
           `INSERT INTO attendance_records (user_id, student_id, date, status, notes, school_year_id, updated_at)
            VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
            ON CONFLICT (user_id, student_id, date)
-           DO UPDATE SET status = EXCLUDED.status, notes = EXCLUDED.notes, school_year_id = EXCLUDED.school_year_id, updated_at = CURRENT_TIMESTAMP`,
+           DO UPDATE SET status = EXCLUDED.status, notes = EXCLUDED.notes, school_year_id = EXCLUDED.school_year_id, updated_at = CURRENT_TIMESTAMP
+           RETURNING student_id AS "studentId", date::text AS date, updated_at`,
           [req.userId, record.studentId, record.date, record.status, record.notes ?? null, schoolYearId]
         )
+        saved.push(result.rows[0])
       }
       await db.query('COMMIT')
     } catch (error) {
@@ -103,7 +136,8 @@ router.post('/bulk', validateRequest(schemas.attendanceBulk), async (req: AuthRe
       throw error
     }
 
-    res.status(201).json({ success: true, count: records.length })
+    // updated_at lets the client version its next offline edit of these records
+    res.status(201).json({ success: true, count: records.length, records: saved })
   } catch (error) {
     next(error)
   }
@@ -6,7 +6,7 @@ import nodemailer from 'nodemailer';
 import { getDB } from '../database/connection';
 import { validateRequest, schemas } from '../middleware/validation';
 import { AuthRequest, authenticateToken } from '../middleware/auth';
-import { createDefaultStudentGroups, createDefaultGradeCategoryTypes } from '../database/seedDefaults';
+import { createDefaultStudentGroups, createDefaultGradeCategoryTypes, createDefaultGradingScales } from '../database/seedDefaults';
 
 const router = express.Router();
 
@@ -169,6 +169,7 @@ router.post('/register', validateRequest(schemas.register), async (req, res, nex
     try {
       await createDefaultStudentGroups(user.id);
       await createDefaultGradeCategoryTypes(user.id);
+      await createDefaultGradingScales(user.id);
     } catch (error) {
       // Log but don't fail registration if default data creation fails
       console.error(`Failed to create default data for user ${user.id}:`, error);
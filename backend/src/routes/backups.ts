@@ -1,11 +1,12 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { requireOwner } from '../middleware/teacherScope';
 
 const router = express.Router();
 
 // Create a backup
-router.post('/create', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/create', authenticateToken, requireOwner, async (req: AuthRequest, res) => {
   const db = getDB();
   try {
     const timestamp = new Date().toISOString();
@@ -72,7 +73,7 @@ router.post('/create', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // List all backups for user
-router.get('/list', authenticateToken, async (req: AuthRequest, res) => {
+router.get('/list', authenticateToken, requireOwner, async (req: AuthRequest, res) => {
   const db = getDB();
   try {
     const { rows } = await db.query(`
@@ -98,7 +99,7 @@ router.get('/list', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Restore from backup
-router.post('/restore/:timestamp', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/restore/:timestamp', authenticateToken, requireOwner, async (req: AuthRequest, res) => {
   const { timestamp } = req.params;
   const db = getDB();
   
@@ -134,9 +135,10 @@ router.post('/restore/:timestamp', authenticateToken, async (req: AuthRequest, r
       
       // Restore students
       for (const student of backupData.data.students) {
+        // Backups taken before students had a person id start a new person
         await db.query(
-          'INSERT INTO students (id, user_id, school_year_id, name, grade, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7)',
-          [student.id, student.user_id, student.school_year_id || schoolYearId, student.name, student.grade, student.created_at, student.updated_at]
+          'INSERT INTO students (id, user_id, school_year_id, name, grade, created_at, updated_at, person_id, sis_id) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::uuid, gen_random_uuid()), $9)',
+          [student.id, student.user_id, student.school_year_id || schoolYearId, student.name, student.grade, student.created_at, student.updated_at, student.person_id || null, student.sis_id || null]
         );
       }
       
@@ -151,8 +153,8 @@ router.post('/restore/:timestamp', authenticateToken, async (req: AuthRequest, r
       // Restore grades
       for (const grade of backupData.data.grades) {
         await db.query(
-          'INSERT INTO grades (id, student_id, lesson_id, percentage, errors, points, school_year_id, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)',
-          [grade.id, grade.student_id, grade.lesson_id, grade.percentage, grade.errors, grade.points, grade.school_year_id || schoolYearId, grade.created_at, grade.updated_at]
+          'INSERT INTO grades (id, student_id, lesson_id, percentage, errors, points, school_year_id, created_at, updated_at, status, notes, submitted_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)',
+          [grade.id, grade.student_id, grade.lesson_id, grade.percentage, grade.errors, grade.points, grade.school_year_id || schoolYearId, grade.created_at, grade.updated_at, grade.status || 'graded', grade.notes || null, grade.submitted_at || null]
         );
       }
       
@@ -182,7 +184,7 @@ router.post('/restore/:timestamp', authenticateToken, async (req: AuthRequest, r
 });
 
 // Delete a backup
-router.delete('/:timestamp', authenticateToken, async (req: AuthRequest, res) => {
+router.delete('/:timestamp', authenticateToken, requireOwner, async (req: AuthRequest, res) => {
   const { timestamp } = req.params;
   const db = getDB();
   
@@ -0,0 +1,149 @@
+import express from 'express';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { canAccessStudent, studentScopeClause } from '../middleware/teacherScope';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = express.Router();
+
+const BANK_COLUMNS = `id, tone, subject_name AS "subjectName", text, created_at AS "createdAt", updated_at AS "updatedAt"`;
+
+// Each teacher has their own bank; the account owner's bank is the one without a teacher
+const bankOwnerClause = (req: AuthRequest, params: any[]) => {
+  params.push(req.teacherId || null);
+  return `user_id = $1 AND teacher_id IS NOT DISTINCT FROM $${params.length}`;
+};
+
+// Get the comment bank of the signed-in teacher
+router.get('/bank', async (req: AuthRequest, res, next) => {
+  try {
+    const params: any[] = [req.userId];
+    const result = await getDB().query(
+      `SELECT ${BANK_COLUMNS}
+       FROM comment_bank
+       WHERE ${bankOwnerClause(req, params)}
+       ORDER BY subject_name NULLS FIRST, tone, created_at`,
+      params
+    );
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a comment to the bank
+router.post('/bank', validateRequest(schemas.commentBankEntry), async (req: AuthRequest, res, next) => {
+  try {
+    const { tone, subjectName, text } = req.body;
+    const result = await getDB().query(
+      `INSERT INTO comment_bank (user_id, teacher_id, tone, subject_name, text)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${BANK_COLUMNS}`,
+      [req.userId, req.teacherId || null, tone, subjectName || null, text]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a bank comment
+router.put('/bank/:id', validateRequest(schemas.commentBankEntry), async (req: AuthRequest, res, next) => {
+  try {
+    const { tone, subjectName, text } = req.body;
+    const params: any[] = [req.userId, tone, subjectName || null, text, req.params.id];
+    const result = await getDB().query(
+      `UPDATE comment_bank
+         SET tone = $2, subject_name = $3, text = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND ${bankOwnerClause(req, params)}
+       RETURNING ${BANK_COLUMNS}`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    res.json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a bank comment
+router.delete('/bank/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const params: any[] = [req.userId, req.params.id];
+    const result = await getDB().query(
+      `DELETE FROM comment_bank WHERE id = $2 AND ${bankOwnerClause(req, params)} RETURNING id`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the saved report card comments of every visible student for one reporting period
+router.get('/students', async (req: AuthRequest, res, next) => {
+  try {
+    const periodKey = typeof req.query.periodKey === 'string' ? req.query.periodKey : '';
+    if (!periodKey) {
+      return res.status(400).json({ error: 'periodKey is required' });
+    }
+
+    const params: any[] = [req.userId, req.schoolYearId, periodKey];
+    const result = await getDB().query(
+      `SELECT c.student_id AS "studentId", c.comment, c.updated_at AS "updatedAt"
+       FROM student_report_comments c
+       WHERE c.user_id = $1 AND c.school_year_id = $2 AND c.period_key = $3${studentScopeClause(req, 'c.student_id', params)}`,
+      params
+    );
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Save a student's report card comment for one reporting period; an empty comment removes it
+router.put('/students/:studentId', validateRequest(schemas.studentReportComment), async (req: AuthRequest, res, next) => {
+  try {
+    const { studentId } = req.params;
+    const { periodKey, comment } = req.body;
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    const studentCheck = await db.query(
+      'SELECT id FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+      [studentId, req.userId, schoolYearId]
+    );
+    if (studentCheck.rows.length === 0 || !(await canAccessStudent(req, studentId))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    if (!comment.trim()) {
+      await db.query(
+        'DELETE FROM student_report_comments WHERE student_id = $1 AND period_key = $2',
+        [studentId, periodKey]
+      );
+      return res.json({ studentId, comment: '', updatedAt: null });
+    }
+
+    const result = await db.query(
+      `INSERT INTO student_report_comments (user_id, school_year_id, student_id, period_key, comment, teacher_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (student_id, period_key)
+       DO UPDATE SET comment = EXCLUDED.comment, teacher_id = EXCLUDED.teacher_id, updated_at = CURRENT_TIMESTAMP
+       RETURNING student_id AS "studentId", comment, updated_at AS "updatedAt"`,
+      [req.userId, schoolYearId, studentId, periodKey, comment, req.teacherId || null]
+    );
+    res.json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
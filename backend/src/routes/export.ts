@@ -0,0 +1,109 @@
+import express from 'express';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { canAccessGroup, studentScopeClause, subjectScopeClause } from '../middleware/teacherScope';
+import { gradebookToCsv, gradebookToXlsx, loadGradebookSheet } from '../database/gradebookExport';
+
+const router = express.Router();
+
+const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+const toFileName = (name: string) => name.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '_') || 'Gradebook';
+
+/**
+ * Download the gradebook as a spreadsheet, the grid of the grade table: one sheet per subject.
+ * ?subjectId= exports one subject, ?groupId= the subjects and students of one group, neither the whole year.
+ * ?format=csv|xlsx (default xlsx); a CSV of several subjects lists them one below the other.
+ */
+router.get('/gradebook', async (req: AuthRequest, res, next) => {
+  try {
+    const format = typeof req.query.format === 'string' ? req.query.format : 'xlsx';
+    const subjectId = typeof req.query.subjectId === 'string' && req.query.subjectId ? req.query.subjectId : null;
+    const groupId = typeof req.query.groupId === 'string' && req.query.groupId ? req.query.groupId : null;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'format must be "csv" or "xlsx"' });
+    }
+
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    let scopeName = 'All_Subjects';
+    if (groupId) {
+      const groupResult = canAccessGroup(req, groupId)
+        ? await db.query(
+          'SELECT name FROM student_groups WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+          [groupId, req.userId, schoolYearId]
+        )
+        : { rows: [] };
+      if (groupResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Student group not found' });
+      }
+      scopeName = groupResult.rows[0].name;
+    }
+
+    const subjectParams: any[] = [req.userId, schoolYearId];
+    let subjectFilter = '';
+    if (subjectId) {
+      subjectParams.push(subjectId);
+      subjectFilter += ` AND s.id = $${subjectParams.length}`;
+    }
+    if (groupId) {
+      subjectParams.push(groupId);
+      subjectFilter += ` AND EXISTS (
+        SELECT 1 FROM subject_groups sg WHERE sg.subject_id = s.id AND sg.student_group_id = $${subjectParams.length}
+      )`;
+    }
+    const subjectsResult = await db.query(
+      `SELECT s.id, s.name
+       FROM subjects s
+       WHERE s.user_id = $1 AND s.school_year_id = $2${subjectFilter}${subjectScopeClause(req, 's.id', subjectParams)}
+       ORDER BY s.name`,
+      subjectParams
+    );
+    if (subjectsResult.rows.length === 0) {
+      return res.status(404).json({ error: subjectId ? 'Subject not found' : 'No subjects to export' });
+    }
+    if (subjectId) scopeName = subjectsResult.rows[0].name;
+
+    const studentParams: any[] = [req.userId, schoolYearId];
+    let studentFilter = '';
+    if (groupId) {
+      studentParams.push(groupId);
+      studentFilter = ` AND EXISTS (
+        SELECT 1 FROM student_group_links gsgl WHERE gsgl.student_id = s.id AND gsgl.student_group_id = $${studentParams.length}
+      )`;
+    }
+    const studentsResult = await db.query(
+      `SELECT s.id, s.name, string_agg(g.name, ', ' ORDER BY g.name) AS groups
+       FROM students s
+       LEFT JOIN student_group_links sgl ON sgl.student_id = s.id
+       LEFT JOIN student_groups g ON g.id = sgl.student_group_id AND g.school_year_id = s.school_year_id
+       WHERE s.user_id = $1 AND s.school_year_id = $2${studentFilter}${studentScopeClause(req, 's.id', studentParams)}
+       GROUP BY s.id, s.name
+       ORDER BY s.name`,
+      studentParams
+    );
+
+    const userResult = await db.query('SELECT grading_mode FROM users WHERE id = $1', [req.userId]);
+    const gradingMode = userResult.rows[0]?.grading_mode || 'dates';
+
+    const sheets = [];
+    for (const subject of subjectsResult.rows) {
+      sheets.push(await loadGradebookSheet(db, req.userId, schoolYearId, subject, studentsResult.rows, gradingMode));
+    }
+
+    const fileName = `Gradebook_${toFileName(scopeName)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(gradebookToCsv(sheets));
+    } else {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(await gradebookToXlsx(sheets));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Response } from 'express';
 import { getDB } from '../database/connection';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { requireOwner } from '../middleware/teacherScope';
 
 const router = Router();
 
@@ -42,7 +43,7 @@ router.get('/active', async (req: AuthRequest, res: Response) => {
 });
 
 // POST /api/grade-category-types - Create new grade category type
-router.post('/', async (req: AuthRequest, res: Response) => {
+router.post('/', requireOwner, async (req: AuthRequest, res: Response) => {
   try {
     const { name, description, is_active, is_default, color } = req.body;
 
@@ -86,7 +87,7 @@ router.post('/', async (req: AuthRequest, res: Response) => {
 });
 
 // PUT /api/grade-category-types/:id - Update grade category type
-router.put('/:id', async (req: AuthRequest, res: Response) => {
+router.put('/:id', requireOwner, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const { name, description, is_active, is_default, color } = req.body;
@@ -136,7 +137,7 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
 });
 
 // DELETE /api/grade-category-types/:id - Delete grade category type
-router.delete('/:id', async (req: AuthRequest, res: Response) => {
+router.delete('/:id', requireOwner, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
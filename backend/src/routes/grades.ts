@@ -2,32 +2,173 @@ import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
 import { validateRequest, schemas } from '../middleware/validation';
+import { studentScopeClause, subjectScopeClause, canAccessStudent, canAccessSubject, canAccessLesson } from '../middleware/teacherScope';
+import { isStaleOfflineEdit } from '../middleware/offlineSync';
+import { parseDelimited } from '../shared/importMapping';
+import {
+  describeStoredGrade,
+  GradeImportCell,
+  GradeImportCellAction,
+  GradeImportColumn,
+  GradeImportPreview,
+  GradeImportRow,
+  ImportedGrade,
+  MatchableStudent,
+  matchStudentName,
+  parseImportedGrade,
+  readGradeSheetLayout
+} from '../shared/gradeImport';
 
 const router = express.Router();
 
+interface StoredGradeValues {
+  percentage: number | null;
+  errors: number | null;
+  points: number | null;
+  status?: string | null;
+}
+
+// Append a row to grade_history. teacher_id stays NULL when the account owner made the change.
+const recordGradeChange = async (
+  db: any,
+  req: AuthRequest,
+  change: {
+    studentId: string;
+    lessonId: string;
+    action: 'create' | 'update' | 'delete';
+    oldGrade?: StoredGradeValues | null;
+    newGrade?: StoredGradeValues | null;
+    reason?: string | null;
+  }
+) => {
+  await db.query(
+    `INSERT INTO grade_history (
+       user_id, teacher_id, student_id, lesson_id, school_year_id, action,
+       old_percentage, old_errors, old_points, new_percentage, new_errors, new_points, reason,
+       old_status, new_status
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+    [
+      req.userId,
+      req.teacherId || null,
+      change.studentId,
+      change.lessonId,
+      req.schoolYearId,
+      change.action,
+      change.oldGrade?.percentage ?? null,
+      change.oldGrade?.errors ?? null,
+      change.oldGrade?.points ?? null,
+      change.newGrade?.percentage ?? null,
+      change.newGrade?.errors ?? null,
+      change.newGrade?.points ?? null,
+      change.reason?.trim() || null,
+      change.oldGrade?.status ?? null,
+      change.newGrade?.status ?? null,
+    ]
+  );
+};
+
+// Statuses that describe work without a score; graded and late work needs a percentage or errors/points
+const UNSCORED_STATUSES = ['missing', 'excused', 'incomplete'];
+
+// Entering a score for missing, excused or incomplete work turns it into a normal grade; late work stays late
+const resolveGradeStatus = (requested: string | undefined, existing?: string | null): string => {
+  if (requested) return requested;
+  return existing === 'late' ? 'late' : 'graded';
+};
+
+// Notes are not part of the history, so a note-only edit does not count as a change here
+const hasGradeChanged = (oldGrade: StoredGradeValues | null, newGrade: StoredGradeValues): boolean =>
+  !oldGrade ||
+  Number(oldGrade.percentage) !== Number(newGrade.percentage) ||
+  Number(oldGrade.errors) !== Number(newGrade.errors) ||
+  Number(oldGrade.points) !== Number(newGrade.points) ||
+  (oldGrade.status ?? 'graded') !== (newGrade.status ?? 'graded');
+
+const normalizeNotes = (notes: string | null | undefined, existing?: string | null): string | null =>
+  notes === undefined ? existing ?? null : notes?.trim() || null;
+
+// Like notes, the hand-in date is kept unless the request sends one; null clears it
+const resolveSubmittedAt = (submittedAt: string | null | undefined, existing?: string | null): string | null =>
+  submittedAt === undefined ? existing ?? null : submittedAt || null;
+
+const TRIAL_GRADE_LIMIT = 100;
+
+// How many more grades a trial license may save (negative once over the limit); null when there is no limit
+const getTrialGradeAllowance = async (db: any, req: AuthRequest): Promise<number | null> => {
+  const licenseResult = await db.query(
+    `SELECT grant_source, license_tier
+     FROM user_school_year_licenses
+     WHERE user_id = $1 AND school_year_id = $2
+     LIMIT 1`,
+    [req.userId, req.schoolYearId]
+  )
+
+  const grantSource = String(licenseResult.rows[0]?.grant_source || '').toLowerCase()
+  const licenseTier = String(licenseResult.rows[0]?.license_tier || '').toLowerCase()
+  if (grantSource !== 'trial' && licenseTier !== 'trial') return null
+
+  const gradeCountResult = await db.query(
+    `SELECT COUNT(*)::int AS grade_count
+     FROM grades g
+     JOIN students s ON s.id = g.student_id
+     WHERE s.user_id = $1 AND g.school_year_id = $2`,
+    [req.userId, req.schoolYearId]
+  )
+
+  return TRIAL_GRADE_LIMIT - Number(gradeCountResult.rows[0]?.grade_count || 0)
+};
+
+const trialLimitError = () =>
+  `Trial limit reached: you can save up to ${TRIAL_GRADE_LIMIT} grades. Upgrade your license to continue.`;
+
+// Fills in whichever of percentage / errors is missing. Returns null when neither form was given.
+const resolveGradeValues = (
+  lessonPoints: number,
+  input: { percentage?: number | null; errors?: number | null; points?: number | null }
+): { percentage: number; errors: number; points: number } | null => {
+  const { percentage, errors, points } = input;
+
+  if (percentage !== undefined && percentage !== null) {
+    // Percentage provided, calculate errors (preserve decimal precision)
+    return {
+      percentage,
+      errors: Math.round((lessonPoints * (1 - percentage / 100)) * 2) / 2, // Round to nearest 0.5
+      points: lessonPoints
+    };
+  }
+  if (errors !== undefined && errors !== null && points !== undefined && points !== null) {
+    // Errors and points provided, calculate percentage (round to nearest 0.5%)
+    return { percentage: Math.round(((points - errors) / points) * 100 * 2) / 2, errors, points };
+  }
+  return null;
+};
+
 // Get all grades for the authenticated user
 router.get('/', async (req: AuthRequest, res, next) => {
   try {
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+    const params: any[] = [req.userId, schoolYearId];
+    const scopeClause = studentScopeClause(req, 's.id', params) + subjectScopeClause(req, 'sub.id', params);
 
     // Fetch all grades for the user
     const result = await db.query(
       `SELECT 
         g.id as grade_id, g.percentage, g.errors, g.points as grade_points,
-        g.created_at, g.updated_at,
+        g.status, g.notes, g.submitted_at, g.created_at, g.updated_at,
         s.id as student_id, s.name as student_name,
         sub.id as subject_id, sub.name as subject_name,
-        l.id as lesson_id, l.name as lesson_name, gct.name as lesson_type, 
-        l.points as lesson_points, l.order_index
+        l.id as lesson_id, l.name as lesson_name, gct.name as lesson_type, l.category_id,
+        l.points as lesson_points, l.order_index, COALESCE(l.due_date, l.date) as due_date
        FROM grades g
        JOIN students s ON g.student_id = s.id
        JOIN lessons l ON g.lesson_id = l.id
        LEFT JOIN grade_category_types gct ON l.category_id = gct.id
        JOIN subjects sub ON l.subject_id = sub.id
-       WHERE s.user_id = $1 AND s.school_year_id = $2
+       WHERE s.user_id = $1 AND s.school_year_id = $2${scopeClause}
        ORDER BY sub.name, s.name, l.order_index`,
-      [req.userId, schoolYearId]
+      params
     );
 
     // Transform the data to match frontend interface
@@ -36,12 +177,17 @@ router.get('/', async (req: AuthRequest, res, next) => {
       studentId: row.student_id,
       lessonId: row.lesson_id,
       subjectId: row.subject_id,
+      categoryId: row.category_id,
+      orderIndex: row.order_index,
       percentage: row.percentage,
       points: row.grade_points, // This is the earned points
       maxPoints: row.lesson_points, // This is the total possible points from the lesson
       errors: row.errors,
+      status: row.status,
+      dueDate: row.due_date, // Falls back to the lesson date when the lesson has no due date
+      submittedAt: row.submitted_at,
       date: row.created_at, // Use the actual created_at timestamp
-      notes: undefined,
+      notes: row.notes || undefined,
       created_at: row.created_at,
       updated_at: row.updated_at
     }));
@@ -68,7 +214,11 @@ router.get('/student/:studentId/subject/:subjectId', async (req: AuthRequest, re
       [studentId, subjectId, req.userId, schoolYearId]
     );
     
-    if (verifyResult.rows.length === 0) {
+    if (
+      verifyResult.rows.length === 0 ||
+      !(await canAccessStudent(req, studentId)) ||
+      !(await canAccessSubject(req, subjectId))
+    ) {
       return res.status(404).json({ error: 'Student or subject not found' });
     }
     
@@ -101,23 +251,27 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res, next) => {
       [subjectId, req.userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
+
+    const params: any[] = [subjectId, req.userId, schoolYearId];
+    const scopeClause = studentScopeClause(req, 's.id', params);
     
     const result = await db.query(
       `SELECT 
         s.id as student_id, s.name as student_name,
         l.id as lesson_id, l.name as lesson_name, gct.name as lesson_type, 
         l.points as lesson_points, l.order_index,
-        g.id as grade_id, g.percentage, g.errors, g.points as grade_points
+        g.id as grade_id, g.percentage, g.errors, g.points as grade_points, g.status, g.notes, g.submitted_at,
+        COALESCE(l.due_date, l.date) as due_date
        FROM students s
        CROSS JOIN lessons l
        LEFT JOIN grade_category_types gct ON l.category_id = gct.id
        LEFT JOIN grades g ON s.id = g.student_id AND l.id = g.lesson_id
-       WHERE l.subject_id = $1 AND s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3
+       WHERE l.subject_id = $1 AND s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3${scopeClause}
        ORDER BY s.name, l.order_index`,
-      [subjectId, req.userId, schoolYearId]
+      params
     );
     
     // Group by student
@@ -139,7 +293,11 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res, next) => {
         orderIndex: row.order_index,
         percentage: row.percentage,
         errors: row.errors,
-        gradePoints: row.grade_points
+        gradePoints: row.grade_points,
+        status: row.status,
+        notes: row.notes,
+        dueDate: row.due_date,
+        submittedAt: row.submitted_at
       });
       
       return acc;
@@ -155,7 +313,7 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res, next) => {
 router.put('/student/:studentId/lesson/:lessonId', validateRequest(schemas.grade), async (req: AuthRequest, res, next) => {
   try {
     const { studentId, lessonId } = req.params;
-    const { percentage, errors, points } = req.body;
+    const { percentage, errors, points, reason, status, notes, submittedAt } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
     
@@ -169,31 +327,27 @@ router.put('/student/:studentId/lesson/:lessonId', validateRequest(schemas.grade
       [studentId, lessonId, req.userId, schoolYearId]
     );
     
-    if (verifyResult.rows.length === 0) {
+    if (
+      verifyResult.rows.length === 0 ||
+      !(await canAccessStudent(req, studentId)) ||
+      !(await canAccessLesson(req, lessonId))
+    ) {
       return res.status(404).json({ error: 'Student or lesson not found' });
     }
     
     const lessonPoints = verifyResult.rows[0].lesson_points;
     
     // Calculate missing values
-    let finalPercentage = percentage;
-    let finalErrors = errors;
-    let finalPoints = points;
-    
-    if (finalPercentage !== undefined && finalPercentage !== null) {
-      // Percentage provided, calculate errors (preserve decimal precision)
-      finalErrors = Math.round((lessonPoints * (1 - finalPercentage / 100)) * 2) / 2; // Round to nearest 0.5
-      finalPoints = lessonPoints;
-    } else if (finalErrors !== undefined && finalErrors !== null && finalPoints !== undefined && finalPoints !== null) {
-      // Errors and points provided, calculate percentage (round to nearest 0.5%)
-      finalPercentage = Math.round(((finalPoints - finalErrors) / finalPoints) * 100 * 2) / 2;
-    } else {
+    const resolved = resolveGradeValues(lessonPoints, { percentage, errors, points });
+    if (!resolved && !UNSCORED_STATUSES.includes(status)) {
       return res.status(400).json({ error: 'Must provide either percentage or both errors and points' });
     }
+    const { percentage: finalPercentage, errors: finalErrors, points: finalPoints } =
+      resolved || { percentage: null, errors: null, points: lessonPoints };
     
     // Determine whether this is a new grade insert or an update.
     const existingGradeResult = await db.query(
-      `SELECT id
+      `SELECT id, percentage, errors, points, status, notes, submitted_at, updated_at
        FROM grades
        WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3
        LIMIT 1`,
@@ -202,53 +356,62 @@ router.put('/student/:studentId/lesson/:lessonId', validateRequest(schemas.grade
 
     const isInsert = existingGradeResult.rows.length === 0
 
+    if (isStaleOfflineEdit(req, existingGradeResult.rows[0]?.updated_at)) {
+      return res.status(409).json({
+        error: 'This grade was changed after the offline edit was made',
+        current: existingGradeResult.rows[0] || null
+      })
+    }
+
     if (isInsert) {
-      const licenseResult = await db.query(
-        `SELECT grant_source, license_tier
-         FROM user_school_year_licenses
-         WHERE user_id = $1 AND school_year_id = $2
-         LIMIT 1`,
-        [req.userId, schoolYearId]
-      )
-
-      const grantSource = String(licenseResult.rows[0]?.grant_source || '').toLowerCase()
-      const licenseTier = String(licenseResult.rows[0]?.license_tier || '').toLowerCase()
-      const isTrialLicense = grantSource === 'trial' || licenseTier === 'trial'
-
-      if (isTrialLicense) {
-        const gradeCountResult = await db.query(
-          `SELECT COUNT(*)::int AS grade_count
-           FROM grades g
-           JOIN students s ON s.id = g.student_id
-           WHERE s.user_id = $1 AND g.school_year_id = $2`,
-          [req.userId, schoolYearId]
-        )
-
-        const gradeCount = Number(gradeCountResult.rows[0]?.grade_count || 0)
-        const trialGradeLimit = 100
-
-        if (gradeCount >= trialGradeLimit) {
-          return res.status(403).json({
-            error: `Trial limit reached: you can save up to ${trialGradeLimit} grades. Upgrade your license to continue.`
-          })
-        }
+      const allowance = await getTrialGradeAllowance(db, req)
+      if (allowance !== null && allowance <= 0) {
+        return res.status(403).json({ error: trialLimitError() })
       }
     }
 
+    const oldGrade = existingGradeResult.rows[0] || null
+
     // Upsert the grade
     const result = await db.query(
-      `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id)
-       VALUES ($1, $2, $3, $4, $5, $6)
+      `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, status, notes, submitted_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
        ON CONFLICT (student_id, lesson_id)
        DO UPDATE SET 
          percentage = $3, 
          errors = $4, 
          points = $5,
          school_year_id = $6,
+         status = $7,
+         notes = $8,
+         submitted_at = $9,
          updated_at = CURRENT_TIMESTAMP
        RETURNING *`,
-      [studentId, lessonId, finalPercentage, finalErrors, finalPoints, schoolYearId]
+      [
+        studentId,
+        lessonId,
+        finalPercentage,
+        finalErrors,
+        finalPoints,
+        schoolYearId,
+        resolveGradeStatus(status, oldGrade?.status),
+        normalizeNotes(notes, oldGrade?.notes),
+        resolveSubmittedAt(submittedAt, oldGrade?.submitted_at),
+      ]
     );
+
+    const newGrade = result.rows[0]
+
+    if (hasGradeChanged(oldGrade, newGrade)) {
+      await recordGradeChange(db, req, {
+        studentId,
+        lessonId,
+        action: isInsert ? 'create' : 'update',
+        oldGrade,
+        newGrade,
+        reason,
+      })
+    }
     
     res.json(result.rows[0]);
   } catch (error) {
@@ -256,6 +419,592 @@ router.put('/student/:studentId/lesson/:lessonId', validateRequest(schemas.grade
   }
 });
 
+// Set a grade's status and/or note without touching its score. Work without a grade yet can only be
+// marked missing, excused or incomplete.
+router.patch('/student/:studentId/lesson/:lessonId', validateRequest(schemas.gradeStatus), async (req: AuthRequest, res, next) => {
+  try {
+    const { studentId, lessonId } = req.params;
+    const { status, notes, submittedAt, reason } = req.body;
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    // Verify student and lesson belong to user
+    const verifyResult = await db.query(
+      `SELECT s.id as student_id, l.id as lesson_id, l.points as lesson_points
+       FROM students s, lessons l, subjects sub
+       WHERE s.id = $1 AND l.id = $2 AND l.subject_id = sub.id 
+       AND s.user_id = $3 AND sub.user_id = $3
+       AND s.school_year_id = $4 AND l.school_year_id = $4 AND sub.school_year_id = $4`,
+      [studentId, lessonId, req.userId, schoolYearId]
+    );
+
+    if (
+      verifyResult.rows.length === 0 ||
+      !(await canAccessStudent(req, studentId)) ||
+      !(await canAccessLesson(req, lessonId))
+    ) {
+      return res.status(404).json({ error: 'Student or lesson not found' });
+    }
+
+    const existingResult = await db.query(
+      'SELECT id, percentage, errors, points, status, notes, submitted_at, updated_at FROM grades WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3',
+      [studentId, lessonId, schoolYearId]
+    );
+    const oldGrade = existingResult.rows[0] || null;
+
+    if (isStaleOfflineEdit(req, oldGrade?.updated_at)) {
+      return res.status(409).json({
+        error: 'This grade was changed after the offline edit was made',
+        current: oldGrade
+      });
+    }
+
+    if (!oldGrade) {
+      if (!UNSCORED_STATUSES.includes(status)) {
+        return res.status(400).json({ error: 'Enter a score first, or mark the work missing, excused or incomplete' });
+      }
+      const allowance = await getTrialGradeAllowance(db, req);
+      if (allowance !== null && allowance <= 0) {
+        return res.status(403).json({ error: trialLimitError() });
+      }
+    } else if (status && !UNSCORED_STATUSES.includes(status) && oldGrade.percentage === null) {
+      return res.status(400).json({ error: 'Enter a score before marking this work graded or late' });
+    }
+
+    const result = await db.query(
+      `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, status, notes, submitted_at)
+       VALUES ($1, $2, NULL, NULL, $3, $4, $5, $6, $7)
+       ON CONFLICT (student_id, lesson_id)
+       DO UPDATE SET status = $5, notes = $6, submitted_at = $7, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        studentId,
+        lessonId,
+        verifyResult.rows[0].lesson_points,
+        schoolYearId,
+        status || oldGrade?.status || 'graded',
+        normalizeNotes(notes, oldGrade?.notes),
+        resolveSubmittedAt(submittedAt, oldGrade?.submitted_at),
+      ]
+    );
+
+    const newGrade = result.rows[0];
+    if (hasGradeChanged(oldGrade, newGrade)) {
+      await recordGradeChange(db, req, {
+        studentId,
+        lessonId,
+        action: oldGrade ? 'update' : 'create',
+        oldGrade,
+        newGrade,
+        reason,
+      });
+    }
+
+    res.json(newGrade);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set or update many grades at once. Ownership, license and trial checks run once for the whole batch and
+// all valid rows are written in one transaction. Rows that fail validation are reported and skipped.
+router.post('/bulk', validateRequest(schemas.gradeBulk), async (req: AuthRequest, res, next) => {
+  const { grades: entries, reason } = req.body;
+  const db = getDB();
+  const schoolYearId = req.schoolYearId;
+  let client: any;
+
+  try {
+    const studentIds = Array.from(new Set<string>(entries.map((entry: any) => entry.studentId)));
+    const lessonIds = Array.from(new Set<string>(entries.map((entry: any) => entry.lessonId)));
+
+    const studentParams: any[] = [studentIds, req.userId, schoolYearId];
+    const studentsResult = await db.query(
+      `SELECT s.id FROM students s
+       WHERE s.id = ANY($1::uuid[]) AND s.user_id = $2 AND s.school_year_id = $3${studentScopeClause(req, 's.id', studentParams)}`,
+      studentParams
+    );
+    const allowedStudents = new Set(studentsResult.rows.map((row: any) => row.id));
+
+    const lessonParams: any[] = [lessonIds, req.userId, schoolYearId];
+    const lessonsResult = await db.query(
+      `SELECT l.id, l.points FROM lessons l
+       JOIN subjects sub ON l.subject_id = sub.id
+       WHERE l.id = ANY($1::uuid[]) AND sub.user_id = $2
+       AND l.school_year_id = $3 AND sub.school_year_id = $3${subjectScopeClause(req, 'sub.id', lessonParams)}`,
+      lessonParams
+    );
+    const lessonPointsById = new Map<string, number>(lessonsResult.rows.map((row: any) => [row.id, row.points]));
+
+    const existingResult = await db.query(
+      `SELECT id, student_id, lesson_id, percentage, errors, points, status, notes, submitted_at
+       FROM grades
+       WHERE school_year_id = $1 AND student_id = ANY($2::uuid[]) AND lesson_id = ANY($3::uuid[])`,
+      [schoolYearId, studentIds, lessonIds]
+    );
+    const existingByCell = new Map<string, any>(
+      existingResult.rows.map((row: any) => [`${row.student_id}:${row.lesson_id}`, row])
+    );
+
+    // The last entry for a cell wins
+    const lastIndexByCell = new Map<string, number>();
+    entries.forEach((entry: any, index: number) => lastIndexByCell.set(`${entry.studentId}:${entry.lessonId}`, index));
+
+    const results: any[] = [];
+    const toWrite: Array<{
+      index: number;
+      studentId: string;
+      lessonId: string;
+      values: { percentage: number | null; errors: number | null; points: number };
+      status?: string;
+      notes?: string | null;
+      submittedAt?: string | null;
+    }> = [];
+
+    entries.forEach((entry: any, index: number) => {
+      const { studentId, lessonId } = entry;
+      const cell = `${studentId}:${lessonId}`;
+      const fail = (error: string) => results.push({ index, studentId, lessonId, status: 'error', error });
+
+      if (lastIndexByCell.get(cell) !== index) return fail('Superseded by a later entry for the same grade');
+      if (!allowedStudents.has(studentId) || !lessonPointsById.has(lessonId)) return fail('Student or lesson not found');
+
+      const lessonPoints = lessonPointsById.get(lessonId)!;
+      const values = resolveGradeValues(lessonPoints, entry);
+      if (!values && !UNSCORED_STATUSES.includes(entry.status)) {
+        return fail('Must provide either percentage or both errors and points');
+      }
+
+      toWrite.push({
+        index,
+        studentId,
+        lessonId,
+        values: values || { percentage: null, errors: null, points: lessonPoints },
+        status: entry.status,
+        notes: entry.notes,
+        submittedAt: entry.submittedAt
+      });
+    });
+
+    const newGradeCount = toWrite.filter(row => !existingByCell.has(`${row.studentId}:${row.lessonId}`)).length;
+    if (newGradeCount > 0) {
+      const allowance = await getTrialGradeAllowance(db, req);
+      if (allowance !== null && newGradeCount > allowance) {
+        return res.status(403).json({ error: trialLimitError() });
+      }
+    }
+
+    client = await db.connect();
+    await client.query('BEGIN');
+
+    for (const row of toWrite) {
+      const oldGrade = existingByCell.get(`${row.studentId}:${row.lessonId}`) || null;
+      const { rows } = await client.query(
+        `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, status, notes, submitted_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (student_id, lesson_id)
+         DO UPDATE SET 
+           percentage = $3, 
+           errors = $4, 
+           points = $5,
+           school_year_id = $6,
+           status = $7,
+           notes = $8,
+           submitted_at = $9,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        [
+          row.studentId,
+          row.lessonId,
+          row.values.percentage,
+          row.values.errors,
+          row.values.points,
+          schoolYearId,
+          resolveGradeStatus(row.status, oldGrade?.status),
+          normalizeNotes(row.notes, oldGrade?.notes),
+          resolveSubmittedAt(row.submittedAt, oldGrade?.submitted_at),
+        ]
+      );
+
+      const newGrade = rows[0];
+      const valueChanged = hasGradeChanged(oldGrade, newGrade);
+
+      if (valueChanged) {
+        await recordGradeChange(client, req, {
+          studentId: row.studentId,
+          lessonId: row.lessonId,
+          action: oldGrade ? 'update' : 'create',
+          oldGrade,
+          newGrade,
+          reason,
+        });
+      }
+
+      results.push({
+        index: row.index,
+        studentId: row.studentId,
+        lessonId: row.lessonId,
+        status: !oldGrade ? 'created' : valueChanged ? 'updated' : 'unchanged',
+        grade: newGrade
+      });
+    }
+
+    await client.query('COMMIT');
+
+    results.sort((a, b) => a.index - b.index);
+    res.json({
+      results,
+      saved: toWrite.length,
+      failed: results.length - toWrite.length
+    });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK');
+    }
+    next(error);
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+const emptyImportSummary = (): Record<GradeImportCellAction, number> => ({ create: 0, update: 0, unchanged: 0, keep: 0, error: 0 });
+
+/**
+ * Import a CSV of grades into a subject: a student column (name, SIS id or student id) against one column per lesson.
+ * Students are matched loosely by name, lessons by name or by position; missing lessons can be created under a chosen
+ * category. Existing grades are only replaced with overwrite. A dry run returns the preview grid; otherwise every
+ * valid cell is saved in one transaction and cells with errors are left out.
+ */
+router.post('/import/subject/:subjectId', validateRequest(schemas.gradeImport), async (req: AuthRequest, res, next) => {
+  const { subjectId } = req.params;
+  const { csv, lessonMatch, createMissingLessons, categoryId, overwrite, studentMatches, dryRun } = req.body;
+  const db = getDB();
+  const schoolYearId = req.schoolYearId;
+  let client: any;
+
+  try {
+    const subjectResult = await db.query(
+      'SELECT id FROM subjects WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+      [subjectId, req.userId, schoolYearId]
+    );
+    if (subjectResult.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
+      return res.status(404).json({ error: 'Subject not found' });
+    }
+
+    if (createMissingLessons) {
+      const categoryResult = categoryId
+        ? await db.query('SELECT id FROM grade_category_types WHERE id = $1 AND user_id = $2', [categoryId, req.userId])
+        : { rows: [] };
+      if (categoryResult.rows.length === 0) {
+        return res.status(400).json({ error: 'Choose the category for new lessons' });
+      }
+    }
+
+    const sheet = parseDelimited(csv);
+    const { gradeColumns, studentRows } = readGradeSheetLayout(sheet);
+    if (studentRows.length === 0 || gradeColumns.length === 0) {
+      return res.status(400).json({ error: 'The file needs a header row of lesson names and a row per student' });
+    }
+
+    // The subject's roster: enrolled students the user may see
+    const studentParams: any[] = [subjectId, req.userId, schoolYearId];
+    const studentsResult = await db.query(
+      `SELECT s.id, s.name, s.sis_id AS "sisId"
+       FROM students s
+       JOIN student_subjects ss ON ss.student_id = s.id AND ss.subject_id = $1 AND ss.school_year_id = $3
+       WHERE s.user_id = $2 AND s.school_year_id = $3${studentScopeClause(req, 's.id', studentParams)}
+       ORDER BY s.name`,
+      studentParams
+    );
+    const roster: MatchableStudent[] = studentsResult.rows;
+    const rosterById = new Map(roster.map(student => [student.id, student]));
+
+    const lessonsResult = await db.query(
+      'SELECT id, name, points FROM lessons WHERE subject_id = $1 AND school_year_id = $2 ORDER BY order_index ASC',
+      [subjectId, schoolYearId]
+    );
+    const lessons = lessonsResult.rows;
+
+    // Columns to lessons: by position among the grade columns, or by name ignoring case and spacing
+    const lessonKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+    const newLessonNames = new Set<string>();
+    const columns: GradeImportColumn[] = gradeColumns.map(({ column, header }, position) => {
+      const matches = lessonMatch === 'order'
+        ? (lessons[position] ? [lessons[position]] : [])
+        : lessons.filter((lesson: any) => lessonKey(lesson.name) === lessonKey(header));
+      if (matches.length === 1) {
+        return { column, header, lessonId: matches[0].id, lessonName: matches[0].name, action: 'match' };
+      }
+      if (matches.length > 1) {
+        return { column, header, lessonId: null, lessonName: header, action: 'error', message: `Several lessons are named "${header}"` };
+      }
+      if (!createMissingLessons) {
+        const message = lessonMatch === 'order' ? 'The subject has fewer lessons than the file' : 'No lesson with this name';
+        return { column, header, lessonId: null, lessonName: header, action: 'error', message };
+      }
+      if (newLessonNames.has(lessonKey(header))) {
+        return { column, header, lessonId: null, lessonName: header, action: 'error', message: 'Repeats an earlier column' };
+      }
+      newLessonNames.add(lessonKey(header));
+      return { column, header, lessonId: null, lessonName: header, action: 'create', message: 'Creates a new lesson' };
+    });
+
+    // Rows to students; a student the user picked by hand wins, and a student only takes grades from one row
+    const rowStudent = new Map<string, number>();
+    const rows = studentRows.map(({ row, cells }): GradeImportRow => {
+      const value = cells[0].trim();
+      const chosenId = studentMatches[String(row)];
+      if (chosenId !== undefined) {
+        const chosen = chosenId ? rosterById.get(chosenId) : undefined;
+        if (chosenId && !chosen) {
+          return { row, value, studentId: null, studentName: null, match: 'none', message: 'The chosen student is not in this subject' };
+        }
+        if (!chosen) return { row, value, studentId: null, studentName: null, match: 'chosen', message: 'Left out' };
+        return { row, value, studentId: chosen.id, studentName: chosen.name, match: 'chosen' };
+      }
+
+      const { student, match, candidates } = matchStudentName(value, roster);
+      if (!student) {
+        const message = match === 'ambiguous'
+          ? `Could be ${candidates.map(candidate => candidate.name).join(' or ')}`
+          : 'No student in this subject matches';
+        return { row, value, studentId: null, studentName: null, match, message };
+      }
+      return { row, value, studentId: student.id, studentName: student.name, match };
+    }).map((entry): GradeImportRow => {
+      if (!entry.studentId) return entry;
+      const earlier = rowStudent.get(entry.studentId);
+      if (earlier !== undefined) {
+        return { ...entry, studentId: null, match: 'none', message: `${entry.studentName} already has grades in row ${earlier}` };
+      }
+      rowStudent.set(entry.studentId, entry.row);
+      return entry;
+    });
+
+    const existingResult = await db.query(
+      `SELECT g.student_id, g.lesson_id, g.percentage, g.errors, g.points, g.status
+       FROM grades g
+       JOIN lessons l ON l.id = g.lesson_id
+       WHERE l.subject_id = $1 AND l.school_year_id = $2 AND g.school_year_id = $2`,
+      [subjectId, schoolYearId]
+    );
+    const existingByCell = new Map<string, any>(
+      existingResult.rows.map((row: any) => [`${row.student_id}:${row.lesson_id}`, row])
+    );
+
+    const pointsByLesson = new Map<string, number | null>(lessons.map((lesson: any) => [lesson.id, lesson.points]));
+    // New lessons take the max points of the first score ("8/10") in their column, else 100
+    const newLessonPoints = new Map<number, number>();
+    columns.filter(column => column.action === 'create').forEach(column => {
+      for (const { cells: rowCells } of studentRows) {
+        const score = (rowCells[column.column] || '').match(/\/\s*(\d+)\s*$/);
+        if (score && parseInt(score[1], 10) > 0) {
+          newLessonPoints.set(column.column, parseInt(score[1], 10));
+          break;
+        }
+      }
+    });
+
+    const summary = emptyImportSummary();
+    const cells: GradeImportCell[] = [];
+    const toWrite: Array<{ studentId: string; column: GradeImportColumn; grade: ImportedGrade; oldGrade: any }> = [];
+    const sheetRowsByNumber = new Map(studentRows.map(({ row, cells: rowCells }) => [row, rowCells]));
+
+    columns.filter(column => column.action !== 'error').forEach(column => {
+      rows.filter(entry => entry.studentId).forEach(entry => {
+        const value = (sheetRowsByNumber.get(entry.row)?.[column.column] || '').trim();
+        if (!value) return;
+
+        const cell: GradeImportCell = { row: entry.row, column: column.column, value, action: 'create' };
+        const lessonPoints = column.lessonId
+          ? pointsByLesson.get(column.lessonId) ?? null
+          : newLessonPoints.get(column.column) ?? 100;
+        const parsed = parseImportedGrade(value, lessonPoints);
+        if (parsed === null) return;
+        if ('error' in parsed) {
+          cell.action = 'error';
+          cell.message = parsed.error;
+        } else {
+          const oldGrade = column.lessonId ? existingByCell.get(`${entry.studentId}:${column.lessonId}`) : null;
+          if (oldGrade) {
+            cell.previous = describeStoredGrade(oldGrade);
+            const newGrade = {
+              ...parsed,
+              points: parsed.points ?? lessonPoints,
+              status: parsed.status === 'graded' ? resolveGradeStatus(undefined, oldGrade.status) : parsed.status
+            };
+            if (!hasGradeChanged(oldGrade, newGrade)) {
+              cell.action = 'unchanged';
+            } else if (!overwrite) {
+              cell.action = 'keep';
+              cell.message = 'Already graded';
+            } else {
+              cell.action = 'update';
+            }
+          }
+          if (cell.action === 'create' || cell.action === 'update') {
+            toWrite.push({ studentId: entry.studentId!, column, grade: parsed, oldGrade });
+          }
+        }
+        summary[cell.action] += 1;
+        cells.push(cell);
+      });
+    });
+
+    const preview: GradeImportPreview = {
+      committed: false,
+      columns,
+      rows,
+      cells,
+      summary,
+      students: roster.map(({ id, name }) => ({ id, name }))
+    };
+    if (dryRun || toWrite.length === 0) {
+      return res.json(preview);
+    }
+
+    if (summary.create > 0) {
+      const allowance = await getTrialGradeAllowance(db, req);
+      if (allowance !== null && summary.create > allowance) {
+        return res.status(403).json({ error: trialLimitError() });
+      }
+    }
+
+    client = await db.connect();
+    await client.query('BEGIN');
+
+    // New lessons go after every lesson and marker of the subject, in the file's column order
+    const lessonIdByColumn = new Map<number, string>();
+    const writtenColumns = new Set(toWrite.map(row => row.column.column));
+    const newColumns = columns.filter(column => column.action === 'create' && writtenColumns.has(column.column));
+    if (newColumns.length > 0) {
+      const maxOrderResult = await client.query(
+        `SELECT COALESCE(MAX(order_index), 0) as max_order FROM (
+          SELECT order_index FROM lessons WHERE subject_id = $1
+          UNION ALL
+          SELECT order_index FROM grading_period_markers WHERE subject_id = $1 AND school_year_id = $2
+        ) AS combined`,
+        [subjectId, schoolYearId]
+      );
+      for (const [index, column] of newColumns.entries()) {
+        const inserted = await client.query(
+          `INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index)
+           VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+          [subjectId, schoolYearId, column.header, categoryId, newLessonPoints.get(column.column) ?? 100, maxOrderResult.rows[0].max_order + index + 1]
+        );
+        lessonIdByColumn.set(column.column, inserted.rows[0].id);
+        column.lessonId = inserted.rows[0].id;
+      }
+    }
+
+    for (const row of toWrite) {
+      const lessonId = row.column.lessonId || lessonIdByColumn.get(row.column.column)!;
+      const lessonPoints = row.column.action === 'create'
+        ? newLessonPoints.get(row.column.column) ?? 100
+        : pointsByLesson.get(lessonId) ?? null;
+      const { rows: saved } = await client.query(
+        `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (student_id, lesson_id)
+         DO UPDATE SET
+           percentage = $3,
+           errors = $4,
+           points = $5,
+           school_year_id = $6,
+           status = $7,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        [
+          row.studentId,
+          lessonId,
+          row.grade.percentage,
+          row.grade.errors,
+          row.grade.points ?? lessonPoints,
+          schoolYearId,
+          row.grade.status === 'graded' ? resolveGradeStatus(undefined, row.oldGrade?.status) : row.grade.status
+        ]
+      );
+
+      await recordGradeChange(client, req, {
+        studentId: row.studentId,
+        lessonId,
+        action: row.oldGrade ? 'update' : 'create',
+        oldGrade: row.oldGrade,
+        newGrade: saved[0],
+        reason: 'Imported from a spreadsheet'
+      });
+    }
+
+    await client.query('COMMIT');
+    res.json({ ...preview, committed: true });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK');
+    }
+    next(error);
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+// Get the change history for a single grade, newest first
+router.get('/student/:studentId/lesson/:lessonId/history', async (req: AuthRequest, res, next) => {
+  try {
+    const { studentId, lessonId } = req.params;
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    // Verify student and lesson belong to user
+    const verifyResult = await db.query(
+      `SELECT s.id as student_id, l.id as lesson_id
+       FROM students s, lessons l, subjects sub
+       WHERE s.id = $1 AND l.id = $2 AND l.subject_id = sub.id 
+       AND s.user_id = $3 AND sub.user_id = $3
+       AND s.school_year_id = $4 AND l.school_year_id = $4 AND sub.school_year_id = $4`,
+      [studentId, lessonId, req.userId, schoolYearId]
+    );
+
+    if (
+      verifyResult.rows.length === 0 ||
+      !(await canAccessStudent(req, studentId)) ||
+      !(await canAccessLesson(req, lessonId))
+    ) {
+      return res.status(404).json({ error: 'Student or lesson not found' });
+    }
+
+    const result = await db.query(
+      `SELECT
+         gh.id,
+         gh.action,
+         gh.old_percentage AS "oldPercentage",
+         gh.old_errors AS "oldErrors",
+         gh.old_points AS "oldPoints",
+         gh.new_percentage AS "newPercentage",
+         gh.new_errors AS "newErrors",
+         gh.new_points AS "newPoints",
+         gh.old_status AS "oldStatus",
+         gh.new_status AS "newStatus",
+         gh.reason,
+         gh.teacher_id AS "teacherId",
+         t.name AS "teacherName",
+         gh.changed_at AS "changedAt"
+       FROM grade_history gh
+       LEFT JOIN teachers t ON t.id = gh.teacher_id
+       WHERE gh.user_id = $1 AND gh.student_id = $2 AND gh.lesson_id = $3 AND gh.school_year_id = $4
+       ORDER BY gh.changed_at DESC`,
+      [req.userId, studentId, lessonId, schoolYearId]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete a grade
 router.delete('/student/:studentId/lesson/:lessonId', async (req: AuthRequest, res, next) => {
   try {
@@ -273,18 +1022,43 @@ router.delete('/student/:studentId/lesson/:lessonId', async (req: AuthRequest, r
       [studentId, lessonId, req.userId, schoolYearId]
     );
     
-    if (verifyResult.rows.length === 0) {
+    if (
+      verifyResult.rows.length === 0 ||
+      !(await canAccessStudent(req, studentId)) ||
+      !(await canAccessLesson(req, lessonId))
+    ) {
       return res.status(404).json({ error: 'Student or lesson not found' });
     }
     
+    const existingResult = await db.query(
+      'SELECT id, percentage, errors, points, status, updated_at FROM grades WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3',
+      [studentId, lessonId, schoolYearId]
+    );
+    
+    if (existingResult.rows.length > 0 && isStaleOfflineEdit(req, existingResult.rows[0].updated_at)) {
+      return res.status(409).json({
+        error: 'This grade was changed after the offline edit was made',
+        current: existingResult.rows[0]
+      });
+    }
+    
     const result = await db.query(
-      'DELETE FROM grades WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3 RETURNING id',
+      'DELETE FROM grades WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3 RETURNING id, percentage, errors, points, status',
       [studentId, lessonId, schoolYearId]
     );
     
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Grade not found' });
     }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : null;
+    await recordGradeChange(db, req, {
+      studentId,
+      lessonId,
+      action: 'delete',
+      oldGrade: result.rows[0],
+      reason,
+    });
     
     res.json({ message: 'Grade deleted successfully' });
   } catch (error) {
@@ -292,6 +1066,176 @@ router.delete('/student/:studentId/lesson/:lessonId', async (req: AuthRequest, r
   }
 });
 
+// Put grades and lessons back to the given snapshots in one transaction. Used by undo/redo in grade entry:
+// `lessons` re-inserts deleted lessons under their old id, `removeLessonIds` takes inserted ones out again,
+// `lessonPoints` restores max points and `grades` sets each cell to an exact state (null deletes it).
+router.post('/revert', validateRequest(schemas.gradeRevert), async (req: AuthRequest, res, next) => {
+  const { lessons = [], removeLessonIds = [], lessonPoints = [], grades = [], reason } = req.body;
+  const db = getDB();
+  const schoolYearId = req.schoolYearId;
+  let client: any;
+
+  try {
+    for (const lesson of lessons) {
+      const subjectCheck = await db.query(
+        'SELECT id FROM subjects WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+        [lesson.subjectId, req.userId, schoolYearId]
+      );
+      if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, lesson.subjectId))) {
+        return res.status(404).json({ error: 'Subject not found' });
+      }
+    }
+
+    // Grades on a lesson restored by this batch are checked through its subject above; every other lesson must exist
+    const restoredLessonIds = new Set(lessons.map((lesson: any) => lesson.id));
+    const lessonIds = Array.from(new Set<string>([
+      ...removeLessonIds,
+      ...lessonPoints.map((entry: any) => entry.lessonId),
+      ...grades.map((grade: any) => grade.lessonId).filter((lessonId: string) => !restoredLessonIds.has(lessonId))
+    ]));
+    for (const lessonId of lessonIds) {
+      const lessonCheck = await db.query(
+        `SELECT l.id FROM lessons l
+         JOIN subjects sub ON l.subject_id = sub.id
+         WHERE l.id = $1 AND sub.user_id = $2 AND l.school_year_id = $3`,
+        [lessonId, req.userId, schoolYearId]
+      );
+      if (lessonCheck.rows.length === 0 || !(await canAccessLesson(req, lessonId))) {
+        return res.status(404).json({ error: 'Lesson not found' });
+      }
+    }
+
+    for (const grade of grades) {
+      const studentCheck = await db.query(
+        'SELECT id FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+        [grade.studentId, req.userId, schoolYearId]
+      );
+      if (studentCheck.rows.length === 0 || !(await canAccessStudent(req, grade.studentId))) {
+        return res.status(404).json({ error: 'Student not found' });
+      }
+    }
+
+    client = await db.connect();
+    await client.query('BEGIN');
+
+    // Re-insert lessons at their old position, shifting later lessons and markers like a normal insert
+    for (const lesson of lessons) {
+      await client.query(
+        'UPDATE lessons SET order_index = order_index + 1 WHERE subject_id = $1 AND school_year_id = $3 AND order_index >= $2',
+        [lesson.subjectId, lesson.orderIndex, schoolYearId]
+      );
+      await client.query(
+        'UPDATE grading_period_markers SET order_index = order_index + 1 WHERE subject_id = $1 AND school_year_id = $3 AND order_index >= $2',
+        [lesson.subjectId, lesson.orderIndex, schoolYearId]
+      );
+      await client.query(
+        `INSERT INTO lessons (id, subject_id, school_year_id, name, category_id, points, order_index, date, due_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          lesson.id, lesson.subjectId, schoolYearId, lesson.name, lesson.categoryId || null, lesson.points, lesson.orderIndex,
+          lesson.date || null, lesson.dueDate || null
+        ]
+      );
+    }
+
+    for (const entry of lessonPoints) {
+      await client.query(
+        'UPDATE lessons SET points = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND school_year_id = $3',
+        [entry.points, entry.lessonId, schoolYearId]
+      );
+    }
+
+    let insertedGrades = 0;
+    let deletedGrades = 0;
+    for (const grade of grades) {
+      const existingResult = await client.query(
+        'SELECT id, percentage, errors, points, status FROM grades WHERE student_id = $1 AND lesson_id = $2 AND school_year_id = $3',
+        [grade.studentId, grade.lessonId, schoolYearId]
+      );
+      const oldGrade = existingResult.rows[0] || null;
+
+      if (!grade.grade) {
+        if (!oldGrade) continue;
+        await client.query('DELETE FROM grades WHERE id = $1', [oldGrade.id]);
+        await recordGradeChange(client, req, { studentId: grade.studentId, lessonId: grade.lessonId, action: 'delete', oldGrade, reason });
+        deletedGrades += 1;
+        continue;
+      }
+
+      const { rows } = await client.query(
+        `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, status, notes, submitted_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (student_id, lesson_id)
+         DO UPDATE SET percentage = $3, errors = $4, points = $5, school_year_id = $6, status = $7, notes = $8,
+           submitted_at = $9, updated_at = CURRENT_TIMESTAMP
+         RETURNING percentage, errors, points, status`,
+        [
+          grade.studentId,
+          grade.lessonId,
+          grade.grade.percentage,
+          grade.grade.errors,
+          grade.grade.points,
+          schoolYearId,
+          grade.grade.status || 'graded',
+          grade.grade.notes || null,
+          grade.grade.submittedAt || null
+        ]
+      );
+      await recordGradeChange(client, req, {
+        studentId: grade.studentId,
+        lessonId: grade.lessonId,
+        action: oldGrade ? 'update' : 'create',
+        oldGrade,
+        newGrade: rows[0],
+        reason,
+      });
+      if (!oldGrade) insertedGrades += 1;
+    }
+
+    // Lessons go last so their grades (removed by the cascade) are not written back above
+    for (const lessonId of removeLessonIds) {
+      const { rows } = await client.query(
+        'DELETE FROM lessons WHERE id = $1 AND school_year_id = $2 RETURNING subject_id, order_index',
+        [lessonId, schoolYearId]
+      );
+      if (rows.length === 0) continue;
+      await client.query(
+        'UPDATE lessons SET order_index = order_index - 1 WHERE subject_id = $1 AND school_year_id = $3 AND order_index > $2',
+        [rows[0].subject_id, rows[0].order_index, schoolYearId]
+      );
+      await client.query(
+        'UPDATE grading_period_markers SET order_index = order_index - 1 WHERE subject_id = $1 AND school_year_id = $3 AND order_index > $2',
+        [rows[0].subject_id, rows[0].order_index, schoolYearId]
+      );
+    }
+
+    // Restoring deleted grades must not take a trial license past its limit
+    if (insertedGrades > deletedGrades) {
+      const allowance = await getTrialGradeAllowance(client, req);
+      if (allowance !== null && allowance < 0) {
+        await client.query('ROLLBACK');
+        return res.status(403).json({ error: trialLimitError() });
+      }
+    }
+
+    await client.query('COMMIT');
+    res.json({
+      lessonsRestored: lessons.length,
+      lessonsRemoved: removeLessonIds.length,
+      gradesReverted: grades.length
+    });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK');
+    }
+    next(error);
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
 // Get grade statistics for a subject
 router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
   try {
@@ -305,9 +1249,16 @@ router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
       [subjectId, req.userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
+
+    const statsParams: any[] = [subjectId, req.userId, schoolYearId];
+    const statsScopeClause = studentScopeClause(req, 's.id', statsParams);
+    const lessonTypesParams: any[] = [subjectId, schoolYearId];
+    const lessonTypesScopeClause = studentScopeClause(req, 'g.student_id', lessonTypesParams);
+    const studentStatsParams: any[] = [req.userId, subjectId, schoolYearId];
+    const studentStatsScopeClause = studentScopeClause(req, 's.id', studentStatsParams);
     
     // Get overall statistics
     const statsResult = await db.query(
@@ -321,8 +1272,8 @@ router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
        FROM students s
        CROSS JOIN lessons l
        LEFT JOIN grades g ON s.id = g.student_id AND l.id = g.lesson_id
-       WHERE l.subject_id = $1 AND s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3`,
-      [subjectId, req.userId, schoolYearId]
+       WHERE l.subject_id = $1 AND s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3${statsScopeClause}`,
+      statsParams
     );
     
     // Get lesson type breakdown
@@ -333,11 +1284,11 @@ router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
         AVG(g.percentage) as average_percentage
        FROM lessons l
        LEFT JOIN grade_category_types gct ON l.category_id = gct.id
-       LEFT JOIN grades g ON l.id = g.lesson_id
+       LEFT JOIN grades g ON l.id = g.lesson_id${lessonTypesScopeClause}
        WHERE l.subject_id = $1 AND l.school_year_id = $2
        GROUP BY gct.name
        ORDER BY gct.name`,
-      [subjectId, schoolYearId]
+      lessonTypesParams
     );
     
     // Get student performance summary
@@ -350,10 +1301,10 @@ router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
        FROM students s
        LEFT JOIN grades g ON s.id = g.student_id
        LEFT JOIN lessons l ON g.lesson_id = l.id
-       WHERE s.user_id = $1 AND s.school_year_id = $3 AND (l.subject_id = $2 OR l.subject_id IS NULL)
+       WHERE s.user_id = $1 AND s.school_year_id = $3 AND (l.subject_id = $2 OR l.subject_id IS NULL)${studentStatsScopeClause}
        GROUP BY s.id, s.name
        ORDER BY s.name`,
-      [req.userId, subjectId, schoolYearId]
+      studentStatsParams
     );
     
     res.json({
@@ -369,12 +1320,13 @@ router.get('/subject/:subjectId/stats', async (req: AuthRequest, res, next) => {
 
 // Bulk update lesson points for a subject
 router.patch('/subject/:subjectId/lessons/points', async (req: AuthRequest, res, next) => {
+  const { subjectId } = req.params;
+  const { lessonId, points, reason } = req.body;
+  const db = getDB();
+  const schoolYearId = req.schoolYearId;
+  let client: any;
+
   try {
-    const { subjectId } = req.params;
-    const { lessonId, points } = req.body;
-    const db = getDB();
-    const schoolYearId = req.schoolYearId;
-    
     if (!lessonId || !points || points < 1) {
       return res.status(400).json({ error: 'Valid lessonId and points are required' });
     }
@@ -387,29 +1339,63 @@ router.patch('/subject/:subjectId/lessons/points', async (req: AuthRequest, res,
       [lessonId, subjectId, req.userId, schoolYearId]
     );
     
-    if (lessonCheck.rows.length === 0) {
+    if (lessonCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Lesson not found' });
     }
+
+    client = await db.connect();
+    await client.query('BEGIN');
     
     // Update lesson points
-    await db.query(
+    await client.query(
       'UPDATE lessons SET points = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND school_year_id = $3',
       [points, lessonId, schoolYearId]
     );
+
+    const { rows: oldGrades } = await client.query(
+      `SELECT * FROM grades
+       WHERE lesson_id = $1 AND school_year_id = $2 AND errors IS NOT NULL
+       FOR UPDATE`,
+      [lessonId, schoolYearId]
+    );
     
-    // Recalculate all percentages for grades on this lesson
-    await db.query(
+    // Recalculate all percentages for grades on this lesson against the new maximum
+    const { rows: newGrades } = await client.query(
       `UPDATE grades SET 
-        percentage = ROUND(((points - errors) / points::DECIMAL) * 1000) / 10,
+        percentage = ROUND((($1 - errors) / $1::DECIMAL) * 1000) / 10,
         points = $1,
         updated_at = CURRENT_TIMESTAMP
-         WHERE lesson_id = $2 AND school_year_id = $3 AND errors IS NOT NULL`,
-        [points, lessonId, schoolYearId]
+       WHERE lesson_id = $2 AND school_year_id = $3 AND errors IS NOT NULL
+       RETURNING *`,
+      [points, lessonId, schoolYearId]
     );
+
+    const oldById = new Map(oldGrades.map((grade: any) => [grade.id, grade]));
+    for (const newGrade of newGrades) {
+      const oldGrade: any = oldById.get(newGrade.id) || null;
+      if (!hasGradeChanged(oldGrade, newGrade)) continue;
+      await recordGradeChange(client, req, {
+        studentId: newGrade.student_id,
+        lessonId,
+        action: 'update',
+        oldGrade,
+        newGrade,
+        reason: typeof reason === 'string' && reason.trim() ? reason : `Lesson points changed to ${points}`
+      });
+    }
+
+    await client.query('COMMIT');
     
     res.json({ message: 'Lesson points updated and grades recalculated' });
   } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK');
+    }
     next(error);
+  } finally {
+    if (client) {
+      client.release();
+    }
   }
 });
 
@@ -1,6 +1,7 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
+import { canAccessSubject, requireOwner } from '../middleware/teacherScope';
 
 const router = express.Router();
 
@@ -17,7 +18,7 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res) => {
       [subjectId, userId, schoolYearId]
     );
 
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
 
@@ -32,7 +33,7 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res) => {
 });
 
 // Create a new grading period marker
-router.post('/', async (req: AuthRequest, res) => {
+router.post('/', requireOwner, async (req: AuthRequest, res) => {
   const { subjectId, name, orderIndex } = req.body;
   const userId = req.userId;
   const db = getDB();
@@ -98,7 +99,7 @@ router.post('/', async (req: AuthRequest, res) => {
 });
 
 // Update a grading period marker
-router.put('/:markerId', async (req: AuthRequest, res) => {
+router.put('/:markerId', requireOwner, async (req: AuthRequest, res) => {
   const { markerId } = req.params;
   const { name, orderIndex } = req.body;
   const userId = req.userId;
@@ -159,7 +160,7 @@ router.put('/:markerId', async (req: AuthRequest, res) => {
 });
 
 // Delete a grading period marker
-router.delete('/:markerId', async (req: AuthRequest, res) => {
+router.delete('/:markerId', requireOwner, async (req: AuthRequest, res) => {
   const { markerId } = req.params;
   const userId = req.userId;
   const db = getDB();
@@ -1,6 +1,7 @@
 import express from 'express'
 import { getDB } from '../database/connection'
 import { AuthRequest } from '../middleware/auth'
+import { requireOwner } from '../middleware/teacherScope'
 import { validateRequest, schemas } from '../middleware/validation'
 
 const router = express.Router()
@@ -24,7 +25,7 @@ router.get('/', async (req: AuthRequest, res, next) => {
 })
 
 // Replace all grading periods for the user (idempotent upsert style)
-router.put('/', validateRequest(schemas.gradingPeriodsBulk), async (req: AuthRequest, res, next) => {
+router.put('/', requireOwner, validateRequest(schemas.gradingPeriodsBulk), async (req: AuthRequest, res, next) => {
   const { periods } = req.body as { periods: Array<{ id?: string; name: string; startDate: string; endDate: string; orderIndex: number }> }
   try {
     const db = getDB()
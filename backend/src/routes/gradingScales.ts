@@ -0,0 +1,210 @@
+import { Router, Response } from 'express';
+import { PoolClient } from 'pg';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { validateRequest, schemas } from '../middleware/validation';
+import { requireOwner } from '../middleware/teacherScope';
+
+const router = Router();
+
+interface GradingScaleBandInput {
+  minPercent: number;
+  label: string;
+  gpaPoints?: number | null;
+  color?: string | null;
+}
+
+const SCALE_SELECT = `
+  SELECT
+    gs.id,
+    gs.name,
+    gs.is_default AS "isDefault",
+    gs.created_at,
+    gs.updated_at,
+    COALESCE(
+      (
+        SELECT json_agg(json_build_object(
+          'id', b.id,
+          'minPercent', b.min_percent::float,
+          'label', b.label,
+          'gpaPoints', b.gpa_points::float,
+          'color', b.color
+        ) ORDER BY b.min_percent DESC)
+        FROM grading_scale_bands b
+        WHERE b.scale_id = gs.id
+      ),
+      '[]'::json
+    ) AS bands
+  FROM grading_scales gs
+`;
+
+const fetchScale = async (id: string, userId: string) => {
+  const result = await getDB().query(`${SCALE_SELECT} WHERE gs.id = $1 AND gs.user_id = $2`, [id, userId]);
+  return result.rows[0] || null;
+};
+
+const replaceBands = async (client: PoolClient, scaleId: string, bands: GradingScaleBandInput[]) => {
+  await client.query('DELETE FROM grading_scale_bands WHERE scale_id = $1', [scaleId]);
+
+  const sortedBands = [...bands].sort((a, b) => b.minPercent - a.minPercent);
+  for (const [index, band] of sortedBands.entries()) {
+    await client.query(
+      `INSERT INTO grading_scale_bands (scale_id, min_percent, label, gpa_points, color, order_index)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [scaleId, band.minPercent, band.label.trim(), band.gpaPoints ?? null, band.color || null, index]
+    );
+  }
+};
+
+// Every percentage must land in a band, so the lowest band has to start at 0
+const hasFloorBand = (bands: GradingScaleBandInput[]) => bands.some(band => Number(band.minPercent) === 0);
+
+// GET /api/grading-scales - Get all grading scales (with bands) for current user
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await getDB().query(
+      `${SCALE_SELECT} WHERE gs.user_id = $1 ORDER BY gs.is_default DESC, gs.created_at ASC, gs.name ASC`,
+      [req.userId]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Error fetching grading scales:', error);
+    res.status(500).json({ error: 'Failed to fetch grading scales' });
+  }
+});
+
+// POST /api/grading-scales - Create a new grading scale
+router.post('/', requireOwner, validateRequest(schemas.gradingScale), async (req: AuthRequest, res: Response) => {
+  const db = getDB();
+
+  try {
+    const { name, isDefault, bands } = req.body;
+
+    if (!hasFloorBand(bands)) {
+      return res.status(400).json({ error: 'The lowest band must start at 0%' });
+    }
+
+    const client = await db.connect();
+    let scaleId: string;
+    try {
+      await client.query('BEGIN');
+
+      // If setting this as default, clear other defaults first
+      if (isDefault) {
+        await client.query('UPDATE grading_scales SET is_default = false WHERE user_id = $1 AND is_default = true', [req.userId]);
+      }
+
+      const result = await client.query(
+        `INSERT INTO grading_scales (user_id, name, is_default)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [req.userId, name.trim(), isDefault || false]
+      );
+      scaleId = result.rows[0].id;
+
+      await replaceBands(client, scaleId, bands);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.status(201).json(await fetchScale(scaleId, req.userId!));
+  } catch (error: any) {
+    console.error('Error creating grading scale:', error);
+
+    if (error.code === '23505' && error.constraint === 'grading_scales_user_id_name_key') {
+      return res.status(400).json({ error: 'A grading scale with this name already exists' });
+    }
+
+    res.status(500).json({ error: 'Failed to create grading scale' });
+  }
+});
+
+// PUT /api/grading-scales/:id - Update a grading scale and replace its bands
+router.put('/:id', requireOwner, validateRequest(schemas.gradingScale), async (req: AuthRequest, res: Response) => {
+  const db = getDB();
+
+  try {
+    const { id } = req.params;
+    const { name, isDefault, bands } = req.body;
+
+    if (!hasFloorBand(bands)) {
+      return res.status(400).json({ error: 'The lowest band must start at 0%' });
+    }
+
+    const existing = await fetchScale(id, req.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Grading scale not found' });
+    }
+
+    if (existing.isDefault && isDefault === false) {
+      return res.status(400).json({ error: 'Choose another default scale instead of unsetting this one' });
+    }
+
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (isDefault) {
+        await client.query(
+          'UPDATE grading_scales SET is_default = false WHERE user_id = $1 AND is_default = true AND id != $2',
+          [req.userId, id]
+        );
+      }
+
+      await client.query(
+        `UPDATE grading_scales
+         SET name = $1, is_default = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3 AND user_id = $4`,
+        [name.trim(), isDefault ?? existing.isDefault, id, req.userId]
+      );
+
+      await replaceBands(client, id, bands);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.json(await fetchScale(id, req.userId!));
+  } catch (error: any) {
+    console.error('Error updating grading scale:', error);
+
+    if (error.code === '23505' && error.constraint === 'grading_scales_user_id_name_key') {
+      return res.status(400).json({ error: 'A grading scale with this name already exists' });
+    }
+
+    res.status(500).json({ error: 'Failed to update grading scale' });
+  }
+});
+
+// DELETE /api/grading-scales/:id - Delete a grading scale (subjects using it fall back to the default)
+router.delete('/:id', requireOwner, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await fetchScale(id, req.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Grading scale not found' });
+    }
+
+    if (existing.isDefault) {
+      return res.status(400).json({ error: 'Cannot delete the default grading scale' });
+    }
+
+    await getDB().query('DELETE FROM grading_scales WHERE id = $1 AND user_id = $2', [id, req.userId]);
+
+    res.json({ message: 'Grading scale deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting grading scale:', error);
+    res.status(500).json({ error: 'Failed to delete grading scale' });
+  }
+});
+
+export default router;
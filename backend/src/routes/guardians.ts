@@ -0,0 +1,229 @@
+import express from 'express';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { canAccessStudent, studentScopeClause } from '../middleware/teacherScope';
+import { validateRequest, schemas } from '../middleware/validation';
+
+// Mounted under /api/students/:id/guardians
+const router = express.Router({ mergeParams: true });
+
+// Guardian columns plus the link to one person ($3) and the siblings sharing the guardian in this year ($1, $2)
+const GUARDIAN_COLUMNS = `g.id, g.name, g.relationship, g.emails, g.phones,
+  g.preferred_language AS "preferredLanguage", g.has_custody AS "hasCustody",
+  g.do_not_contact AS "doNotContact", g.notes, sg.is_primary AS "isPrimary",
+  (SELECT COALESCE(json_agg(json_build_object('id', s.id, 'name', s.name) ORDER BY s.name), '[]')
+   FROM student_guardians other
+   JOIN students s ON s.person_id = other.person_id AND s.user_id = $1 AND s.school_year_id = $2
+   WHERE other.guardian_id = g.id AND other.person_id <> $3) AS siblings`;
+
+// Person id of the student in the route, or null when the student is not visible in this school year
+const findStudentPerson = async (req: AuthRequest): Promise<string | null> => {
+  const studentId = req.params.id;
+  if (!(await canAccessStudent(req, studentId))) return null;
+
+  const result = await getDB().query(
+    'SELECT person_id FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+    [studentId, req.userId, req.schoolYearId]
+  );
+  return result.rows[0]?.person_id || null;
+};
+
+const findGuardian = async (db: any, req: AuthRequest, personId: string, guardianId: string) => {
+  const result = await db.query(
+    `SELECT ${GUARDIAN_COLUMNS}
+     FROM guardians g
+     JOIN student_guardians sg ON sg.guardian_id = g.id AND sg.person_id = $3
+     WHERE g.id = $4 AND g.user_id = $1`,
+    [req.userId, req.schoolYearId, personId, guardianId]
+  );
+  return result.rows[0] || null;
+};
+
+// A student has one primary contact at most
+const setPrimary = async (db: any, personId: string, guardianId: string, isPrimary: boolean) => {
+  if (isPrimary) {
+    await db.query(
+      'UPDATE student_guardians SET is_primary = false WHERE person_id = $1 AND guardian_id <> $2',
+      [personId, guardianId]
+    );
+  }
+  await db.query(
+    'UPDATE student_guardians SET is_primary = $3 WHERE person_id = $1 AND guardian_id = $2',
+    [personId, guardianId, isPrimary]
+  );
+};
+
+// Get the guardians of a student
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const personId = await findStudentPerson(req);
+    if (!personId) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await getDB().query(
+      `SELECT ${GUARDIAN_COLUMNS}
+       FROM guardians g
+       JOIN student_guardians sg ON sg.guardian_id = g.id AND sg.person_id = $3
+       WHERE g.user_id = $1
+       ORDER BY sg.is_primary DESC, g.name`,
+      [req.userId, req.schoolYearId, personId]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the guardians of other visible students, to link a sibling into the same family
+router.get('/available', async (req: AuthRequest, res, next) => {
+  try {
+    const personId = await findStudentPerson(req);
+    if (!personId) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const params: any[] = [req.userId, req.schoolYearId, personId];
+    const result = await getDB().query(
+      `SELECT g.id, g.name, g.relationship,
+         json_agg(DISTINCT s.name) AS "studentNames"
+       FROM guardians g
+       JOIN student_guardians sg ON sg.guardian_id = g.id
+       JOIN students s ON s.person_id = sg.person_id AND s.user_id = $1 AND s.school_year_id = $2
+       WHERE g.user_id = $1
+         AND NOT EXISTS (SELECT 1 FROM student_guardians own WHERE own.guardian_id = g.id AND own.person_id = $3)${studentScopeClause(req, 's.id', params)}
+       GROUP BY g.id
+       ORDER BY g.name`,
+      params
+    );
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a new guardian to a student
+router.post('/', validateRequest(schemas.guardian), async (req: AuthRequest, res, next) => {
+  const db = getDB();
+  const client = await db.connect();
+  try {
+    const personId = await findStudentPerson(req);
+    if (!personId) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const { name, relationship, emails, phones, preferredLanguage, hasCustody, doNotContact, isPrimary, notes } = req.body;
+
+    await client.query('BEGIN');
+    const inserted = await client.query(
+      `INSERT INTO guardians (user_id, name, relationship, emails, phones, preferred_language, has_custody, do_not_contact, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [req.userId, name, relationship || null, emails, phones, preferredLanguage || null, hasCustody, doNotContact, notes || null]
+    );
+    const guardianId = inserted.rows[0].id;
+
+    await client.query(
+      'INSERT INTO student_guardians (user_id, person_id, guardian_id) VALUES ($1, $2, $3)',
+      [req.userId, personId, guardianId]
+    );
+    await setPrimary(client, personId, guardianId, isPrimary);
+    await client.query('COMMIT');
+
+    res.status(201).json(await findGuardian(db, req, personId, guardianId));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Link an existing guardian, usually a sibling's, to a student
+router.post('/link', validateRequest(schemas.guardianLink), async (req: AuthRequest, res, next) => {
+  try {
+    const db = getDB();
+    const personId = await findStudentPerson(req);
+    if (!personId) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const { guardianId, isPrimary } = req.body;
+    const guardianCheck = await db.query(
+      'SELECT id FROM guardians WHERE id = $1 AND user_id = $2',
+      [guardianId, req.userId]
+    );
+    if (guardianCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Guardian not found' });
+    }
+
+    await db.query(
+      `INSERT INTO student_guardians (user_id, person_id, guardian_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (person_id, guardian_id) DO NOTHING`,
+      [req.userId, personId, guardianId]
+    );
+    await setPrimary(db, personId, guardianId, isPrimary);
+
+    res.status(201).json(await findGuardian(db, req, personId, guardianId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a guardian; the change applies to every student linked to them
+router.put('/:guardianId', validateRequest(schemas.guardian), async (req: AuthRequest, res, next) => {
+  try {
+    const db = getDB();
+    const { guardianId } = req.params;
+    const personId = await findStudentPerson(req);
+    if (!personId || !(await findGuardian(db, req, personId, guardianId))) {
+      return res.status(404).json({ error: 'Guardian not found' });
+    }
+
+    const { name, relationship, emails, phones, preferredLanguage, hasCustody, doNotContact, isPrimary, notes } = req.body;
+    await db.query(
+      `UPDATE guardians
+         SET name = $1, relationship = $2, emails = $3, phones = $4, preferred_language = $5,
+             has_custody = $6, do_not_contact = $7, notes = $8, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $9 AND user_id = $10`,
+      [name, relationship || null, emails, phones, preferredLanguage || null, hasCustody, doNotContact, notes || null, guardianId, req.userId]
+    );
+    await setPrimary(db, personId, guardianId, isPrimary);
+
+    res.json(await findGuardian(db, req, personId, guardianId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a guardian from a student; a guardian no student is linked to any more is deleted
+router.delete('/:guardianId', async (req: AuthRequest, res, next) => {
+  try {
+    const db = getDB();
+    const { guardianId } = req.params;
+    const personId = await findStudentPerson(req);
+    if (!personId) {
+      return res.status(404).json({ error: 'Guardian not found' });
+    }
+
+    const result = await db.query(
+      'DELETE FROM student_guardians WHERE person_id = $1 AND guardian_id = $2 AND user_id = $3 RETURNING guardian_id',
+      [personId, guardianId, req.userId]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Guardian not found' });
+    }
+
+    await db.query(
+      `DELETE FROM guardians g
+       WHERE g.id = $1 AND NOT EXISTS (SELECT 1 FROM student_guardians sg WHERE sg.guardian_id = g.id)`,
+      [guardianId]
+    );
+    res.json({ message: 'Guardian removed successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
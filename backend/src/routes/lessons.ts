@@ -1,9 +1,25 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
+import { isStaleOfflineEdit } from '../middleware/offlineSync';
+import { canAccessLesson, canAccessSubject, requireOwner } from '../middleware/teacherScope';
+import { validateRequest, schemas } from '../middleware/validation';
+import { Importer, runImport } from '../database/bulkImport';
 
 const router = express.Router();
 
+// The category new lessons get when none is given: the default category, else the first active one, else any
+const findDefaultCategoryId = async (db: any, userId: string): Promise<string | null> => {
+  const result = await db.query(
+    `SELECT id FROM grade_category_types
+     WHERE user_id = $1
+     ORDER BY COALESCE(is_default, false) DESC, COALESCE(is_active, false) DESC, created_at
+     LIMIT 1`,
+    [userId]
+  );
+  return result.rows[0]?.id || null;
+};
+
 // Add multiple lessons to a subject (bulk create)
 // MUST come before any parameterized routes to avoid matching issues
 router.post('/bulk', async (req: AuthRequest, res, next) => {
@@ -26,41 +42,14 @@ router.post('/bulk', async (req: AuthRequest, res, next) => {
       [subjectId, req.userId, schoolYearId]
     );
 
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
 
-    let finalCategoryId = categoryId;
-    
     // If no category provided, use the first available category (prefer default, then active, then any)
+    const finalCategoryId = categoryId || await findDefaultCategoryId(db, req.userId!);
     if (!finalCategoryId) {
-      const defaultCategoryResult = await db.query(
-        'SELECT id FROM grade_category_types WHERE user_id = $1 AND is_default = true ORDER BY created_at LIMIT 1',
-        [req.userId]
-      );
-      if (defaultCategoryResult.rows.length > 0) {
-        finalCategoryId = defaultCategoryResult.rows[0].id;
-      } else {
-        // No default found, try active categories
-        const activeCategoryResult = await db.query(
-          'SELECT id FROM grade_category_types WHERE user_id = $1 AND is_active = true ORDER BY created_at LIMIT 1',
-          [req.userId]
-        );
-        if (activeCategoryResult.rows.length > 0) {
-          finalCategoryId = activeCategoryResult.rows[0].id;
-        } else {
-          // No active found, use any category
-          const anyCategoryResult = await db.query(
-            'SELECT id FROM grade_category_types WHERE user_id = $1 ORDER BY created_at LIMIT 1',
-            [req.userId]
-          );
-          if (anyCategoryResult.rows.length > 0) {
-            finalCategoryId = anyCategoryResult.rows[0].id;
-          } else {
-            return res.status(400).json({ error: 'No grade categories found. Please create grade categories first.' });
-          }
-        }
-      }
+      return res.status(400).json({ error: 'No grade categories found. Please create grade categories first.' });
     }
 
     // Get the lesson with the highest order_index to extract its number
@@ -135,6 +124,149 @@ router.post('/bulk', async (req: AuthRequest, res, next) => {
   }
 });
 
+interface LessonImportData {
+  existingId: string | null;
+  subjectId: string;
+  name: string;
+  categoryId: string | null;
+  points: number | null;
+  date: string | null;
+  dueDate: string | null;
+}
+
+// Lessons are matched by subject and name; subjects and categories must already exist
+const lessonImporter = (req: AuthRequest, updateExisting: boolean): Importer<LessonImportData> => {
+  let defaultCategoryId: string | null | undefined;
+
+  return {
+    kind: 'lessons',
+    plan: async (client, values, previous) => {
+      const subjectName = String(values.subject);
+      const name = String(values.name);
+      const label = `${subjectName} › ${name}`;
+      const points = typeof values.points === 'number' ? values.points : null;
+      const date = typeof values.date === 'string' ? values.date : null;
+      const dueDate = typeof values.dueDate === 'string' ? values.dueDate : null;
+
+      if (points !== null && (!Number.isInteger(points) || points < 0)) {
+        return { action: 'error', label, messages: ['Points must be a whole number of 0 or more'] };
+      }
+
+      const subjectResult = await client.query(
+        `SELECT id FROM subjects
+         WHERE user_id = $1 AND school_year_id = $2
+           AND (LOWER(TRIM(name)) = LOWER($3) OR LOWER(TRIM(report_card_name)) = LOWER($3))
+         ORDER BY LOWER(TRIM(name)) = LOWER($3) DESC
+         LIMIT 1`,
+        [req.userId, req.schoolYearId, subjectName]
+      );
+      if (subjectResult.rows.length === 0) {
+        return { action: 'error', label, messages: [`No subject named "${subjectName}"`] };
+      }
+      const subjectId = subjectResult.rows[0].id;
+
+      let categoryId: string | null = null;
+      if (values.category !== undefined) {
+        const categoryResult = await client.query(
+          'SELECT id FROM grade_category_types WHERE user_id = $1 AND LOWER(TRIM(name)) = LOWER($2) LIMIT 1',
+          [req.userId, String(values.category)]
+        );
+        if (categoryResult.rows.length === 0) {
+          return { action: 'error', label, messages: [`No grade category named "${values.category}"`] };
+        }
+        categoryId = categoryResult.rows[0].id;
+      }
+
+      const repeated = previous.find(row =>
+        row.data?.subjectId === subjectId && row.data.name.toLowerCase() === name.toLowerCase()
+      );
+      if (repeated) {
+        return { action: 'duplicate', label, messages: [`Repeats row ${repeated.row}; skipped`] };
+      }
+
+      const existingResult = await client.query(
+        `SELECT l.id, l.category_id, l.points, TO_CHAR(l.date, 'YYYY-MM-DD') AS date,
+           TO_CHAR(l.due_date, 'YYYY-MM-DD') AS due_date
+         FROM lessons l
+         WHERE l.subject_id = $1 AND l.school_year_id = $2 AND LOWER(TRIM(l.name)) = LOWER($3)
+         ORDER BY l.order_index
+         LIMIT 1`,
+        [subjectId, req.schoolYearId, name]
+      );
+      const existing = existingResult.rows[0];
+      const data = { existingId: existing?.id || null, subjectId, name, categoryId, points, date, dueDate };
+
+      if (!existing) {
+        if (!categoryId) {
+          if (defaultCategoryId === undefined) defaultCategoryId = await findDefaultCategoryId(client, req.userId!);
+          if (!defaultCategoryId) {
+            return { action: 'error', label, messages: ['No grade categories found. Please create grade categories first.'] };
+          }
+        }
+        return { action: 'create', label, messages: [], data };
+      }
+
+      const changes: string[] = [];
+      if (categoryId && categoryId !== existing.category_id) changes.push(`Category → ${values.category}`);
+      if (points !== null && points !== existing.points) changes.push(`Points ${existing.points ?? 'empty'} → ${points}`);
+      if (date && date !== existing.date) changes.push(`Date ${existing.date || 'empty'} → ${date}`);
+      if (dueDate && dueDate !== existing.due_date) changes.push(`Due date ${existing.due_date || 'empty'} → ${dueDate}`);
+
+      if (!updateExisting || changes.length === 0) {
+        return {
+          action: 'duplicate',
+          label,
+          messages: [changes.length === 0 ? 'Already exists with these details' : 'Already exists; skipped']
+        };
+      }
+      return { action: 'update', label, messages: changes, data };
+    },
+    apply: async (client, planned) => {
+      const data = planned.data!;
+
+      if (data.existingId) {
+        await client.query(
+          `UPDATE lessons
+             SET category_id = COALESCE($1, category_id), points = COALESCE($2, points),
+                 date = COALESCE($3::date, date), due_date = COALESCE($4::date, due_date), updated_at = CURRENT_TIMESTAMP
+           WHERE id = $5 AND school_year_id = $6`,
+          [data.categoryId, data.points, data.date, data.dueDate, data.existingId, req.schoolYearId]
+        );
+        return;
+      }
+
+      // Appended after every lesson and marker of the subject
+      const maxOrderResult = await client.query(
+        `SELECT COALESCE(MAX(order_index), 0) as max_order FROM (
+          SELECT order_index FROM lessons WHERE subject_id = $1
+          UNION ALL
+          SELECT order_index FROM grading_period_markers WHERE subject_id = $1 AND school_year_id = $2
+        ) AS combined`,
+        [data.subjectId, req.schoolYearId]
+      );
+      await client.query(
+        `INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index, date, due_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          data.subjectId, req.schoolYearId, data.name, data.categoryId || defaultCategoryId, data.points ?? 100,
+          maxOrderResult.rows[0].max_order + 1, data.date, data.dueDate
+        ]
+      );
+    }
+  };
+};
+
+// Import lessons from a mapped spreadsheet: a dry run returns what each row would do, otherwise every row is
+// imported in one transaction, or none when any row has an error
+router.post('/bulk-import', requireOwner, validateRequest(schemas.bulkImport), async (req: AuthRequest, res, next) => {
+  try {
+    const { rows, dryRun, updateExisting } = req.body;
+    res.json(await runImport(lessonImporter(req, updateExisting), rows, dryRun));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get all lessons for a subject
 router.get('/subject/:subjectId', async (req: AuthRequest, res) => {
   const { subjectId } = req.params;
@@ -148,7 +280,7 @@ router.get('/subject/:subjectId', async (req: AuthRequest, res) => {
       [subjectId, userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
 
@@ -178,7 +310,7 @@ router.get('/:lessonId', async (req: AuthRequest, res) => {
       [lessonId, userId, schoolYearId]
     );
     const lesson = rows[0];
-    if (!lesson) return res.status(404).json({ error: 'Lesson not found' });
+    if (!lesson || !(await canAccessLesson(req, lessonId))) return res.status(404).json({ error: 'Lesson not found' });
     res.json(lesson);
   } catch (err) {
     res.status(500).json({ error: 'Failed to fetch lesson' });
@@ -188,7 +320,7 @@ router.get('/:lessonId', async (req: AuthRequest, res) => {
 // Add a lesson to a subject
 router.post('/subject/:subjectId', async (req: AuthRequest, res) => {
   const { subjectId } = req.params;
-  const { name, categoryId, maxPoints, orderIndex, date } = req.body;
+  const { name, categoryId, maxPoints, orderIndex, date, dueDate } = req.body;
   const userId = req.userId;
   const db = getDB();
   const schoolYearId = req.schoolYearId;
@@ -201,7 +333,7 @@ router.post('/subject/:subjectId', async (req: AuthRequest, res) => {
       [subjectId, userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, subjectId))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
 
@@ -223,8 +355,8 @@ router.post('/subject/:subjectId', async (req: AuthRequest, res) => {
     console.log('📈 Shifted markers:', markersShifted.rows);
 
     const { rows } = await db.query(
-      'INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index, date) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
-      [subjectId, schoolYearId, name, categoryId, maxPoints, orderIndex ?? 1, date || null]
+      'INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index, date, due_date) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
+      [subjectId, schoolYearId, name, categoryId, maxPoints, orderIndex ?? 1, date || null, dueDate || null]
     );
     
     console.log('✅ Inserted lesson:', { id: rows[0].id, name: rows[0].name, order_index: rows[0].order_index });
@@ -245,7 +377,7 @@ router.post('/subject/:subjectId', async (req: AuthRequest, res) => {
 // Update a lesson
 router.put('/:lessonId', async (req: AuthRequest, res) => {
   const { lessonId } = req.params;
-  const { name, categoryId, maxPoints, points, orderIndex, date } = req.body;
+  const { name, categoryId, maxPoints, points, orderIndex, date, dueDate } = req.body;
   const userId = req.userId;
   const db = getDB();
   const schoolYearId = req.schoolYearId;
@@ -262,10 +394,14 @@ router.put('/:lessonId', async (req: AuthRequest, res) => {
     );
     const currentLesson = currentRows[0];
     
-    if (!currentLesson) {
+    if (!currentLesson || !(await canAccessLesson(req, lessonId))) {
       return res.status(404).json({ error: 'Lesson not found' });
     }
     
+    if (isStaleOfflineEdit(req, currentLesson.updated_at)) {
+      return res.status(409).json({ error: 'This lesson was changed after the offline edit was made', current: currentLesson });
+    }
+    
     // Use current values as defaults for any undefined fields
     const updatedName = name !== undefined ? name : currentLesson.name;
     const updatedCategoryId = categoryId !== undefined ? categoryId : currentLesson.category_id;
@@ -273,10 +409,12 @@ router.put('/:lessonId', async (req: AuthRequest, res) => {
     // Accept either 'points' or 'maxPoints' for backwards compatibility
     const updatedMaxPoints = (maxPoints !== undefined ? maxPoints : points !== undefined ? points : currentLesson.points);
     const updatedOrderIndex = orderIndex !== undefined ? orderIndex : currentLesson.order_index;
+    // Unlike the lesson date, the due date can be cleared; without one the lesson date is the due date
+    const updatedDueDate = dueDate !== undefined ? dueDate || null : currentLesson.due_date ?? null;
     
     const { rows } = await db.query(
-      'UPDATE lessons SET name = $1, category_id = $2, points = $3, order_index = $4, date = $5 WHERE id = $6 AND school_year_id = $7 RETURNING *',
-      [updatedName, updatedCategoryId, updatedMaxPoints, updatedOrderIndex, date ?? currentLesson.date ?? null, lessonId, schoolYearId]
+      'UPDATE lessons SET name = $1, category_id = $2, points = $3, order_index = $4, date = $5, due_date = $8, updated_at = CURRENT_TIMESTAMP WHERE id = $6 AND school_year_id = $7 RETURNING *',
+      [updatedName, updatedCategoryId, updatedMaxPoints, updatedOrderIndex, date ?? currentLesson.date ?? null, lessonId, schoolYearId, updatedDueDate]
     );
     
     // Fetch the updated lesson with category name for response
@@ -307,7 +445,7 @@ router.delete('/:lessonId', async (req: AuthRequest, res) => {
       [lessonId, userId, schoolYearId]
     );
     
-    if (rows.length === 0) {
+    if (rows.length === 0 || !(await canAccessLesson(req, lessonId))) {
       return res.status(404).json({ error: 'Lesson not found' });
     }
     
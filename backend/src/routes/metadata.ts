@@ -1,6 +1,8 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
+import { requireOwner } from '../middleware/teacherScope';
+import { normalizeReportTemplate } from '../shared/reportTemplate';
 
 const router = express.Router();
 
@@ -126,7 +128,7 @@ router.get('/report-preferences', async (req: AuthRequest, res) => {
 });
 
 // Save report preferences for the active/requested school year
-router.put('/report-preferences', async (req: AuthRequest, res) => {
+router.put('/report-preferences', requireOwner, async (req: AuthRequest, res) => {
   const db = getDB();
 
   if (!req.userId || !req.schoolYearId) {
@@ -179,4 +181,61 @@ router.put('/report-preferences', async (req: AuthRequest, res) => {
   }
 });
 
+// Get the report card template for the active/requested school year
+router.get('/report-template', async (req: AuthRequest, res) => {
+  const db = getDB();
+
+  if (!req.userId || !req.schoolYearId) {
+    return res.status(401).json({ error: 'Missing user or school year context' });
+  }
+
+  try {
+    const result = await db.query(
+      `SELECT template
+       FROM report_preferences
+       WHERE user_id = $1 AND school_year_id = $2
+       LIMIT 1`,
+      [req.userId, req.schoolYearId]
+    );
+
+    res.json({ template: normalizeReportTemplate(result.rows[0]?.template) });
+  } catch (err) {
+    console.error('Error fetching report template:', err);
+    res.status(500).json({ error: 'Failed to fetch report template' });
+  }
+});
+
+// Save the report card template for the active/requested school year; null restores the built-in layout
+router.put('/report-template', requireOwner, async (req: AuthRequest, res) => {
+  const db = getDB();
+
+  if (!req.userId || !req.schoolYearId) {
+    return res.status(401).json({ error: 'Missing user or school year context' });
+  }
+
+  const input = req.body?.template;
+  if (input !== null && (!input || typeof input !== 'object')) {
+    return res.status(400).json({ error: 'template object is required' });
+  }
+
+  const template = input === null ? null : normalizeReportTemplate(input);
+
+  try {
+    await db.query(
+      `INSERT INTO report_preferences (user_id, school_year_id, preferences, template)
+       VALUES ($1, $2, $3::jsonb, $4::jsonb)
+       ON CONFLICT (user_id, school_year_id)
+       DO UPDATE SET
+         template = EXCLUDED.template,
+         updated_at = CURRENT_TIMESTAMP`,
+      [req.userId, req.schoolYearId, JSON.stringify(defaultReportPreferences), template ? JSON.stringify(template) : null]
+    );
+
+    res.json({ template: normalizeReportTemplate(template) });
+  } catch (err) {
+    console.error('Error saving report template:', err);
+    res.status(500).json({ error: 'Failed to save report template' });
+  }
+});
+
 export default router;
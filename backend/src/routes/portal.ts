@@ -0,0 +1,23 @@
+import express from 'express';
+import { getDB } from '../database/connection';
+import { PortalRequest } from '../middleware/auth';
+import { loadPortalView } from '../database/portal';
+
+// Read-only parent/student portal. Mounted behind authenticatePortalToken, so every request is limited to the one
+// student of the link and nothing here writes data.
+const router = express.Router();
+
+router.get('/', async (req: PortalRequest, res, next) => {
+  try {
+    const link = req.portalLink!;
+    const view = await loadPortalView(getDB(), link.userId, link.schoolYearId, link.studentId);
+    if (!view) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    res.json({ ...view, expiresAt: link.expiresAt });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { canAccessStudent } from '../middleware/teacherScope';
+import { validateRequest, schemas } from '../middleware/validation';
+
+// Mounted under /api/students/:id/portal-links
+const router = express.Router({ mergeParams: true });
+
+const getFrontendUrl = () => {
+  return (process.env.FRONTEND_URL || 'https://gradeflowapp.com').replace(/\/$/, '');
+};
+
+// The token only names the link; the student, owner and year are read from the row on every portal request.
+// It expires together with the link, so a link can be shown again without extending it.
+const getPortalUrl = (linkId: string, expiresAt: Date) => {
+  const expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  const token = jwt.sign({ portalLinkId: linkId, purpose: 'student_portal' }, process.env.JWT_SECRET!, { expiresIn });
+  return `${getFrontendUrl()}/portal?token=${encodeURIComponent(token)}`;
+};
+
+const toPortalLink = (row: any) => {
+  const expiresAt = new Date(row.expires_at);
+  const active = !row.revoked_at && expiresAt.getTime() > Date.now();
+  return {
+    id: row.id,
+    label: row.label,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+    active,
+    url: active ? getPortalUrl(row.id, expiresAt) : null
+  };
+};
+
+const findStudent = async (req: AuthRequest): Promise<boolean> => {
+  const studentId = req.params.id;
+  if (!(await canAccessStudent(req, studentId))) return false;
+
+  const result = await getDB().query(
+    'SELECT id FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+    [studentId, req.userId, req.schoolYearId]
+  );
+  return result.rows.length > 0;
+};
+
+// Get the portal links of a student, newest first
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    if (!(await findStudent(req))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await getDB().query(
+      `SELECT id, label, created_at, expires_at, revoked_at, last_used_at
+       FROM portal_links
+       WHERE student_id = $1 AND user_id = $2
+       ORDER BY created_at DESC`,
+      [req.params.id, req.userId]
+    );
+    res.json(result.rows.map(toPortalLink));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a read-only portal link for a student
+router.post('/', validateRequest(schemas.portalLink), async (req: AuthRequest, res, next) => {
+  try {
+    if (!(await findStudent(req))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const { label, expiresInDays } = req.body;
+    const result = await getDB().query(
+      `INSERT INTO portal_links (user_id, school_year_id, student_id, label, expires_at, teacher_id)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(days => $5), $6)
+       RETURNING id, label, created_at, expires_at, revoked_at, last_used_at`,
+      [req.userId, req.schoolYearId, req.params.id, label || null, expiresInDays, req.teacherId || null]
+    );
+    res.status(201).json(toPortalLink(result.rows[0]));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke a portal link; it stops working on the next request made with it
+router.delete('/:linkId', async (req: AuthRequest, res, next) => {
+  try {
+    if (!(await findStudent(req))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await getDB().query(
+      `UPDATE portal_links SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND student_id = $2 AND user_id = $3
+       RETURNING id, label, created_at, expires_at, revoked_at, last_used_at`,
+      [req.params.linkId, req.params.id, req.userId]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Portal link not found' });
+    }
+    res.json(toPortalLink(result.rows[0]));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
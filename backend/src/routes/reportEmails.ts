@@ -0,0 +1,231 @@
+import express from 'express';
+import nodemailer from 'nodemailer';
+import { getDB } from '../database/connection';
+import { AuthRequest } from '../middleware/auth';
+import { studentScopeClause } from '../middleware/teacherScope';
+import { validateRequest, schemas } from '../middleware/validation';
+import { applyReportEmailFields, ReportEmailDocument } from '../shared/reportEmail';
+
+const router = express.Router();
+
+// Without SMTP_USER no login is attempted, so a local SMTP catcher (Mailpit, MailHog) works in development
+const createMailerTransport = () => {
+  const smtpPort = parseInt(process.env.SMTP_PORT || '587', 10);
+  const smtpSecure = process.env.SMTP_SECURE
+    ? process.env.SMTP_SECURE.toLowerCase() === 'true'
+    : smtpPort === 465;
+
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: smtpPort,
+    secure: smtpSecure,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+};
+
+const getFromAddress = () =>
+  `"${process.env.FROM_NAME || 'GradeFlow'}" <${process.env.FROM_EMAIL || process.env.SMTP_USER || 'no-reply@localhost'}>`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface ReportEmailRecipient {
+  guardianId: string;
+  guardianName: string;
+  email: string;
+}
+
+interface StudentRecipients {
+  studentId: string;
+  studentName: string;
+  recipients: ReportEmailRecipient[];
+  skipped: Array<{ guardianName: string; reason: string }>;
+}
+
+/**
+ * Resolves who receives each student's report: every email address of every linked guardian, except guardians
+ * marked do-not-contact. Students outside the teacher's groups are left out.
+ */
+const loadRecipients = async (req: AuthRequest, studentIds: string[]): Promise<StudentRecipients[]> => {
+  const params: any[] = [req.userId, req.schoolYearId, studentIds];
+  const result = await getDB().query(
+    `SELECT s.id AS student_id, s.name AS student_name,
+       g.id AS guardian_id, g.name AS guardian_name, g.emails, g.do_not_contact
+     FROM students s
+     LEFT JOIN student_guardians sg ON sg.person_id = s.person_id
+     LEFT JOIN guardians g ON g.id = sg.guardian_id
+     WHERE s.user_id = $1 AND s.school_year_id = $2 AND s.id = ANY($3::uuid[])${studentScopeClause(req, 's.id', params)}
+     ORDER BY s.name, sg.is_primary DESC, g.name`,
+    params
+  );
+
+  const byStudent = new Map<string, StudentRecipients>();
+  result.rows.forEach((row: any) => {
+    if (!byStudent.has(row.student_id)) {
+      byStudent.set(row.student_id, { studentId: row.student_id, studentName: row.student_name, recipients: [], skipped: [] });
+    }
+    const entry = byStudent.get(row.student_id)!;
+    if (!row.guardian_id) return;
+
+    if (row.do_not_contact) {
+      entry.skipped.push({ guardianName: row.guardian_name, reason: 'Do not contact' });
+    } else if (!row.emails || row.emails.length === 0) {
+      entry.skipped.push({ guardianName: row.guardian_name, reason: 'No email address' });
+    } else {
+      row.emails.forEach((email: string) => {
+        entry.recipients.push({ guardianId: row.guardian_id, guardianName: row.guardian_name, email });
+      });
+    }
+  });
+  return Array.from(byStudent.values());
+};
+
+// School name and the sender's name for the signature, and the sender's address for replies
+const loadSender = async (req: AuthRequest) => {
+  const db = getDB();
+  const userResult = await db.query('SELECT name, email, school_name FROM users WHERE id = $1', [req.userId]);
+  const user = userResult.rows[0] || {};
+
+  if (req.teacherId) {
+    const teacherResult = await db.query('SELECT name, email FROM teachers WHERE id = $1', [req.teacherId]);
+    const teacher = teacherResult.rows[0];
+    if (teacher) return { name: teacher.name, email: teacher.email, schoolName: user.school_name };
+  }
+  return { name: user.name, email: user.email, schoolName: user.school_name };
+};
+
+const buildMessages = (
+  student: StudentRecipients,
+  sender: { name: string; schoolName: string },
+  options: { document: ReportEmailDocument; periodLabel?: string | null; subject: string; body: string }
+) =>
+  student.recipients.map(recipient => {
+    const context = {
+      guardianName: recipient.guardianName,
+      studentName: student.studentName,
+      document: options.document,
+      periodLabel: options.periodLabel,
+      schoolName: sender.schoolName,
+      teacherName: sender.name
+    };
+    return {
+      ...recipient,
+      subject: applyReportEmailFields(options.subject, context),
+      text: applyReportEmailFields(options.body, context)
+    };
+  });
+
+// Dry run: every message that would be sent, per student, without sending anything
+router.post('/preview', validateRequest(schemas.reportEmailPreview), async (req: AuthRequest, res, next) => {
+  try {
+    const { studentIds, document, periodLabel, subject, body } = req.body;
+    const sender = await loadSender(req);
+    const students = await loadRecipients(req, studentIds);
+
+    res.json({
+      configured: Boolean(process.env.SMTP_HOST),
+      from: getFromAddress(),
+      replyTo: sender.email || null,
+      students: students.map(student => ({
+        studentId: student.studentId,
+        studentName: student.studentName,
+        skipped: student.skipped,
+        messages: buildMessages(student, sender, { document, periodLabel, subject, body })
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Email one student's report to their guardians and log the outcome per recipient
+router.post('/send', validateRequest(schemas.reportEmailSend), async (req: AuthRequest, res, next) => {
+  try {
+    if (!process.env.SMTP_HOST) {
+      return res.status(503).json({ error: 'Email is not configured on this server' });
+    }
+
+    const { studentId, document, periodLabel, subject, body, fileName, pdfBase64 } = req.body;
+    const [student] = await loadRecipients(req, [studentId]);
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const sender = await loadSender(req);
+    const messages = buildMessages(student, sender, { document, periodLabel, subject, body });
+    const attachment = { filename: fileName, content: Buffer.from(pdfBase64, 'base64'), contentType: 'application/pdf' };
+    const transporter = createMailerTransport();
+    const db = getDB();
+
+    const results = [];
+    for (const message of messages) {
+      let status: 'sent' | 'failed' = 'sent';
+      let error: string | null = null;
+      let messageId: string | null = null;
+
+      try {
+        const info = await transporter.sendMail({
+          from: getFromAddress(),
+          replyTo: sender.email || undefined,
+          to: `"${message.guardianName.replace(/"/g, '')}" <${message.email}>`,
+          subject: message.subject,
+          text: message.text,
+          html: `<div style="font-family: Arial, sans-serif; max-width: 600px;">${escapeHtml(message.text).replace(/\n/g, '<br>')}</div>`,
+          attachments: [attachment],
+        });
+        messageId = info.messageId || null;
+      } catch (sendError: any) {
+        console.error(`[REPORT EMAIL ERROR] Failed to send to ${message.email}:`, sendError);
+        status = 'failed';
+        error = sendError?.message || 'Unknown error';
+      }
+
+      await db.query(
+        `INSERT INTO report_email_log (user_id, school_year_id, student_id, guardian_id, recipient_name, recipient_email,
+           document_type, period_label, subject, status, error, message_id, teacher_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          req.userId, req.schoolYearId, studentId, message.guardianId, message.guardianName, message.email,
+          document, periodLabel || null, message.subject.slice(0, 255), status, error, messageId, req.teacherId || null
+        ]
+      );
+      results.push({ guardianName: message.guardianName, email: message.email, status, error });
+    }
+
+    res.json({ studentId, results, skipped: student.skipped });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Recent deliveries, newest first, optionally for one student
+router.get('/log', async (req: AuthRequest, res, next) => {
+  try {
+    const params: any[] = [req.userId, req.schoolYearId];
+    let filter = '';
+    if (typeof req.query.studentId === 'string' && req.query.studentId) {
+      params.push(req.query.studentId);
+      filter = ` AND l.student_id = $${params.length}`;
+    }
+    filter += studentScopeClause(req, 'l.student_id', params);
+
+    const result = await getDB().query(
+      `SELECT l.id, l.student_id AS "studentId", s.name AS "studentName", l.recipient_name AS "recipientName",
+         l.recipient_email AS "recipientEmail", l.document_type AS "document", l.period_label AS "periodLabel",
+         l.subject, l.status, l.error, l.created_at AS "sentAt"
+       FROM report_email_log l
+       JOIN students s ON s.id = l.student_id
+       WHERE l.user_id = $1 AND l.school_year_id = $2${filter}
+       ORDER BY l.created_at DESC
+       LIMIT 200`,
+      params
+    );
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
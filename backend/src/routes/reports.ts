@@ -1,6 +1,22 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
+import { studentScopeClause, subjectScopeClause, canAccessStudent, canAccessGroup } from '../middleware/teacherScope';
+import { loadCategoryPolicies, loadLatePolicy, toLatePolicy } from '../database/categoryPolicies';
+import { loadGroupReport } from '../database/groupReport';
+import { loadGradingScales, loadTranscript } from '../database/transcript';
+import { validateRequest, schemas } from '../middleware/validation';
+import { normalizeReportTemplate } from '../shared/reportTemplate';
+import { ReportCardBand, ReportCardData } from '../shared/reportCardDocument';
+import { getReportBatch, releaseReportBatchFile, startReportBatch, toReportBatchSummary } from '../workers/reportBatch';
+import {
+  calculateSubjectAverage,
+  getDaysLate,
+  getEffectivePercentage,
+  isCountedGrade,
+  roundToTenth,
+  toPercentage
+} from '../shared/gradeCalculation';
 
 const router = express.Router();
 
@@ -17,11 +33,13 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
       [studentId, req.userId, schoolYearId]
     );
     
-    if (studentCheck.rows.length === 0) {
+    if (studentCheck.rows.length === 0 || !(await canAccessStudent(req, studentId))) {
       return res.status(404).json({ error: 'Student not found' });
     }
     
     const student = studentCheck.rows[0];
+    const subjectParams: any[] = [studentId, req.userId, schoolYearId];
+    const subjectScope = subjectScopeClause(req, 's.id', subjectParams);
     
     // Get all subjects and grades for this student
     const subjectsResult = await db.query(
@@ -29,9 +47,9 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
        FROM subjects s
        JOIN lessons l ON s.id = l.subject_id
        LEFT JOIN grades g ON l.id = g.lesson_id AND g.student_id = $1 AND g.school_year_id = $3
-       WHERE s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3
+       WHERE s.user_id = $2 AND s.school_year_id = $3 AND l.school_year_id = $3${subjectScope}
        ORDER BY s.name`,
-      [studentId, req.userId, schoolYearId]
+      subjectParams
     );
     
     const reportData = {
@@ -43,8 +61,9 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
     for (const subject of subjectsResult.rows) {
       const gradesResult = await db.query(
         `SELECT 
-          l.id as lesson_id, l.name as lesson_name, l.category_id, l.points as lesson_points,
-          g.percentage, g.errors, g.points as grade_points,
+          l.id as lesson_id, l.name as lesson_name, l.category_id, l.order_index, l.points as lesson_points,
+          g.percentage, g.errors, g.points as grade_points, g.status, g.notes, g.submitted_at,
+          COALESCE(l.due_date, l.date) as due_date,
           gct.name as lesson_type
          FROM lessons l
            LEFT JOIN grades g ON l.id = g.lesson_id AND g.student_id = $1 AND g.school_year_id = $3
@@ -68,51 +87,37 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
         weights[row.category_id] = row.weight;
       });
       
-      // Group grades by category_id (not lesson_type string)
-      // Skip grades with percentage < 1 (these represent skipped/not attempted grades)
-      const gradesByCategory = {};
-      gradesResult.rows.forEach(grade => {
-        if (grade.percentage !== null && grade.percentage >= 1 && grade.category_id) {
-          if (!gradesByCategory[grade.category_id]) {
-            gradesByCategory[grade.category_id] = [];
-          }
-          gradesByCategory[grade.category_id].push(grade.percentage);
-        }
-      });
+      const gradeInputs = gradesResult.rows.map(grade => ({
+        percentage: grade.percentage,
+        categoryId: grade.category_id,
+        order: grade.order_index,
+        status: grade.status,
+        dueDate: grade.due_date,
+        submittedAt: grade.submitted_at
+      }));
+      const calculation = calculateSubjectAverage(
+        gradeInputs,
+        weights,
+        await loadCategoryPolicies(db, subject.id, schoolYearId),
+        await loadLatePolicy(db, subject.id, schoolYearId)
+      );
       
-      // Calculate averages by category and apply weights - direct lookup!
-      let totalWeightedPoints = 0;
-      let totalWeight = 0;
+      // Category averages keyed by lesson type name for display purposes
       const typeAverages = {};
-      
-      Object.keys(gradesByCategory).forEach(categoryId => {
-        const categoryGrades = gradesByCategory[categoryId];
-        if (categoryGrades.length > 0) {
-          const avg = categoryGrades.reduce((sum, grade) => sum + grade, 0) / categoryGrades.length;
-          
-          // Get the lesson type name for display purposes
-          const sampleGrade = gradesResult.rows.find(g => g.category_id === categoryId);
-          const lessonTypeName = sampleGrade?.lesson_type || 'Unknown';
-          typeAverages[lessonTypeName] = Math.round(avg * 10) / 10;
-          
-          // Use direct weight lookup by category_id - no guessing needed!
-          const weight = weights[categoryId] || 0;
-          totalWeightedPoints += avg * weight;
-          totalWeight += weight;
-        }
+      calculation.categories.forEach(category => {
+        const sampleGrade = gradesResult.rows.find(g => g.category_id === category.categoryId);
+        const lessonTypeName = sampleGrade?.lesson_type || 'Unknown';
+        typeAverages[lessonTypeName] = roundToTenth(category.average);
       });
       
-      let weightedAverage = null;
-      if (totalWeight > 0) {
-        weightedAverage = Math.round((totalWeightedPoints / totalWeight) * 10) / 10;
-      } 
+      const weightedAverage = calculation.average === null ? null : roundToTenth(calculation.average);
       
       reportData.subjects.push({
         ...subject,
         grades: gradesResult.rows,
         typeAverages,
         weightedAverage,
-        totalGrades: gradesResult.rows.filter(g => g.percentage !== null && g.percentage >= 1).length,
+        totalGrades: gradeInputs.filter(grade => isCountedGrade(grade)).length,
         totalLessons: gradesResult.rows.length
       });
     }
@@ -127,133 +132,15 @@ router.get('/student/:studentId', async (req: AuthRequest, res, next) => {
 router.get('/group/:groupId', async (req: AuthRequest, res, next) => {
   try {
     const { groupId } = req.params;
-    const db = getDB();
-    const schoolYearId = req.schoolYearId;
-    
-    // Verify group belongs to user
-    const groupCheck = await db.query(
-      'SELECT * FROM student_groups WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
-      [groupId, req.userId, schoolYearId]
-    );
-    
-    if (groupCheck.rows.length === 0) {
+
+    const reportData = canAccessGroup(req, groupId)
+      ? await loadGroupReport(getDB(), req.userId, req.schoolYearId, groupId)
+      : null;
+
+    if (!reportData) {
       return res.status(404).json({ error: 'Student group not found' });
     }
-    
-    const group = groupCheck.rows[0];
-    
-    // Get all students in this group
-    const studentsResult = await db.query(
-      `SELECT s.*
-       FROM students s
-       JOIN student_group_links sgl ON s.id = sgl.student_id
-       WHERE sgl.student_group_id = $1
-         AND s.user_id = $2
-         AND s.school_year_id = $3
-         AND sgl.school_year_id = $3
-       ORDER BY s.name`,
-      [groupId, req.userId, schoolYearId]
-    );
-    
-    // Get all subjects for this group
-    const subjectsResult = await db.query(
-      `SELECT DISTINCT s.*
-       FROM subjects s
-       JOIN subject_groups sg ON s.id = sg.subject_id
-       WHERE sg.student_group_id = $1
-         AND s.user_id = $2
-         AND s.school_year_id = $3
-         AND sg.school_year_id = $3
-       ORDER BY s.name`,
-      [groupId, req.userId, schoolYearId]
-    );
-    
-    const reportData = {
-      group,
-      students: [],
-      subjects: subjectsResult.rows
-    };
-    
-    // For each student, calculate their overall performance
-    for (const student of studentsResult.rows) {
-      const studentGrades = [];
-      let totalWeightedScore = 0;
-      let totalSubjects = 0;
-      
-      for (const subject of subjectsResult.rows) {
-        // Get grades for this student in this subject
-        // Exclude grades with percentage < 1 (skipped grades)
-        const gradesResult = await db.query(
-          `SELECT g.percentage, l.category_id
-           FROM grades g
-           JOIN lessons l ON g.lesson_id = l.id
-           WHERE g.student_id = $1 AND l.subject_id = $2 AND g.percentage >= 1
-             AND g.school_year_id = $3 AND l.school_year_id = $3`,
-          [student.id, subject.id, schoolYearId]
-        );
-        
-        if (gradesResult.rows.length > 0) {
-          // Get weights for this subject using category_id directly
-          const weightsResult = await db.query(
-            `SELECT category_id, weight
-             FROM subject_weights sw
-             WHERE sw.subject_id = $1 AND sw.school_year_id = $2`,
-            [subject.id, schoolYearId]
-          );
-          
-          // Convert weights to a map for direct lookup by category_id
-          const weights: { [key: string]: number } = {};
-          weightsResult.rows.forEach((row: any) => {
-            weights[row.category_id] = row.weight;
-          });
-          
-          // Group grades by category_id directly
-          const gradesByCategory: { [key: string]: number[] } = {};
-          gradesResult.rows.forEach((grade: any) => {
-            if (grade.category_id) {
-              if (!gradesByCategory[grade.category_id]) {
-                gradesByCategory[grade.category_id] = [];
-              }
-              gradesByCategory[grade.category_id].push(grade.percentage);
-            }
-          });
-          
-          let subjectWeightedPoints = 0;
-          let subjectWeight = 0;
-          
-          Object.keys(gradesByCategory).forEach((categoryId: string) => {
-            if (gradesByCategory[categoryId].length > 0) {
-              const avg = gradesByCategory[categoryId].reduce((sum: number, grade: number) => sum + grade, 0) / gradesByCategory[categoryId].length;
-              const weight = weights[categoryId] || 0; // Direct lookup by category_id
-              subjectWeightedPoints += avg * weight;
-              subjectWeight += weight;
-            }
-          });
-          
-          if (subjectWeight > 0) {
-            const subjectAverage = subjectWeightedPoints / subjectWeight;
-            studentGrades.push({
-              subjectId: subject.id,
-              subjectName: subject.name,
-              average: Math.round(subjectAverage * 10) / 10,
-              gradeCount: gradesResult.rows.length
-            });
-            totalWeightedScore += subjectAverage;
-            totalSubjects++;
-          }
-        }
-      }
-      
-      const overallAverage = totalSubjects > 0 ? Math.round((totalWeightedScore / totalSubjects) * 10) / 10 : null;
-      
-      reportData.students.push({
-        ...student,
-        subjectGrades: studentGrades,
-        overallAverage,
-        totalSubjects
-      });
-    }
-    
+
     res.json(reportData);
   } catch (error) {
     next(error);
@@ -265,6 +152,15 @@ router.get('/dashboard', async (req: AuthRequest, res, next) => {
   try {
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+    const overallParams: any[] = [req.userId, schoolYearId];
+    const overallScope = studentScopeClause(req, 's.id', overallParams);
+    const activityParams: any[] = [req.userId, schoolYearId];
+    const activityScope = studentScopeClause(req, 's.id', activityParams) + subjectScopeClause(req, 'sub.id', activityParams);
+    const performanceParams: any[] = [req.userId, schoolYearId];
+    const performanceGradeScope = studentScopeClause(req, 'g.student_id', performanceParams);
+    const performanceSubjectScope = subjectScopeClause(req, 'sub.id', performanceParams);
+    const distributionParams: any[] = [req.userId, schoolYearId];
+    const distributionScope = studentScopeClause(req, 's.id', distributionParams);
     
     // Get overall statistics
     const overallStats = await db.query(
@@ -282,8 +178,8 @@ router.get('/dashboard', async (req: AuthRequest, res, next) => {
        LEFT JOIN teachers t ON t.user_id = s.user_id
        LEFT JOIN lessons l ON l.subject_id = sub.id AND l.school_year_id = $2
        LEFT JOIN grades g ON g.student_id = s.id AND g.lesson_id = l.id AND g.school_year_id = $2
-       WHERE s.user_id = $1 AND s.school_year_id = $2`,
-      [req.userId, schoolYearId]
+       WHERE s.user_id = $1 AND s.school_year_id = $2${overallScope}`,
+      overallParams
     );
     
     // Get recent activity (last 10 grades entered)
@@ -301,14 +197,14 @@ router.get('/dashboard', async (req: AuthRequest, res, next) => {
          AND s.school_year_id = $2
          AND l.school_year_id = $2
          AND sub.school_year_id = $2
-         AND g.school_year_id = $2
+         AND g.school_year_id = $2${activityScope}
        ORDER BY g.updated_at DESC
        LIMIT 10`,
-      [req.userId, schoolYearId]
+      activityParams
     );
     
     // Get subject performance summary
-    // Exclude grades with percentage < 1 (skipped grades) from averages
+    // Only scored work (graded or late) goes into these averages
     const subjectPerformance = await db.query(
       `SELECT 
         sub.name as subject_name,
@@ -317,39 +213,39 @@ router.get('/dashboard', async (req: AuthRequest, res, next) => {
         AVG(g.percentage) as average_percentage
        FROM subjects sub
        LEFT JOIN lessons l ON l.subject_id = sub.id AND l.school_year_id = $2
-       LEFT JOIN grades g ON g.lesson_id = l.id AND g.percentage >= 1 AND g.school_year_id = $2
+       LEFT JOIN grades g ON g.lesson_id = l.id AND g.percentage IS NOT NULL AND g.status IN ('graded', 'late') AND g.school_year_id = $2${performanceGradeScope}
        LEFT JOIN students s ON g.student_id = s.id AND s.school_year_id = $2
-       WHERE sub.user_id = $1 AND sub.school_year_id = $2
+       WHERE sub.user_id = $1 AND sub.school_year_id = $2${performanceSubjectScope}
        GROUP BY sub.id, sub.name
        ORDER BY sub.name`,
-      [req.userId, schoolYearId]
+      performanceParams
     );
     
-    // Get grade distribution
-    // Exclude grades with percentage < 1 (skipped grades)
+    // Get grade distribution, bucketed by each subject's grading scale (or the user's default scale)
+    // Only scored work (graded or late) is bucketed
     const gradeDistribution = await db.query(
       `SELECT 
-        CASE 
-          WHEN percentage >= 90 THEN 'A (90-100%)'
-          WHEN percentage >= 80 THEN 'B (80-89%)'
-          WHEN percentage >= 70 THEN 'C (70-79%)'
-          WHEN percentage >= 60 THEN 'D (60-69%)'
-          ELSE 'F (Below 60%)'
-        END as grade_range,
+        COALESCE(band.label, 'Unscaled') as grade_range,
         COUNT(*) as count
        FROM grades g
        JOIN students s ON g.student_id = s.id
-       WHERE s.user_id = $1 AND s.school_year_id = $2 AND g.school_year_id = $2 AND g.percentage IS NOT NULL AND g.percentage >= 1
-       GROUP BY 
-         CASE 
-           WHEN percentage >= 90 THEN 'A (90-100%)'
-           WHEN percentage >= 80 THEN 'B (80-89%)'
-           WHEN percentage >= 70 THEN 'C (70-79%)'
-           WHEN percentage >= 60 THEN 'D (60-69%)'
-           ELSE 'F (Below 60%)'
-         END
-       ORDER BY MIN(percentage) DESC`,
-      [req.userId, schoolYearId]
+       JOIN lessons l ON l.id = g.lesson_id
+       JOIN subjects sub ON sub.id = l.subject_id
+       LEFT JOIN LATERAL (
+         SELECT b.label
+         FROM grading_scale_bands b
+         WHERE b.scale_id = COALESCE(
+             sub.grading_scale_id,
+             (SELECT gs.id FROM grading_scales gs WHERE gs.user_id = $1 AND gs.is_default = true LIMIT 1)
+           )
+           AND g.percentage >= b.min_percent
+         ORDER BY b.min_percent DESC
+         LIMIT 1
+       ) band ON true
+       WHERE s.user_id = $1 AND s.school_year_id = $2 AND g.school_year_id = $2 AND g.percentage IS NOT NULL AND g.status IN ('graded', 'late')${distributionScope}
+       GROUP BY band.label
+       ORDER BY MIN(g.percentage) DESC`,
+      distributionParams
     );
     
     res.json({
@@ -363,4 +259,405 @@ router.get('/dashboard', async (req: AuthRequest, res, next) => {
   }
 });
 
+// Missing and late work per student. Late work is anything marked late or handed in after its due date;
+// each item carries the raw score and the score after the subject's late penalty.
+router.get('/missing-work', async (req: AuthRequest, res, next) => {
+  try {
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+    const params: any[] = [req.userId, schoolYearId];
+    const scope = studentScopeClause(req, 's.id', params) + subjectScopeClause(req, 'sub.id', params);
+
+    const result = await db.query(
+      `SELECT
+        s.id as student_id, s.name as student_name,
+        sub.id as subject_id, sub.name as subject_name,
+        sub.late_penalty_per_day, sub.late_penalty_max, sub.late_grace_days,
+        l.id as lesson_id, l.name as lesson_name, COALESCE(l.due_date, l.date) as due_date,
+        g.percentage, g.status, g.submitted_at
+       FROM grades g
+       JOIN students s ON g.student_id = s.id
+       JOIN lessons l ON g.lesson_id = l.id
+       JOIN subjects sub ON l.subject_id = sub.id
+       WHERE s.user_id = $1 AND s.school_year_id = $2 AND g.school_year_id = $2 AND l.school_year_id = $2
+         AND (
+           g.status IN ('missing', 'late')
+           OR (g.status = 'graded' AND g.submitted_at > COALESCE(l.due_date, l.date))
+         )${scope}
+       ORDER BY s.name, COALESCE(l.due_date, l.date) NULLS LAST, sub.name, l.order_index`,
+      params
+    );
+
+    const students = new Map<string, any>();
+    result.rows.forEach((row: any) => {
+      if (!students.has(row.student_id)) {
+        students.set(row.student_id, {
+          studentId: row.student_id,
+          studentName: row.student_name,
+          missingCount: 0,
+          lateCount: 0,
+          items: []
+        });
+      }
+      const entry = students.get(row.student_id);
+      const status = row.status === 'missing' ? 'missing' : 'late';
+      const grade = {
+        percentage: row.percentage,
+        status: row.status,
+        dueDate: row.due_date,
+        submittedAt: row.submitted_at
+      };
+
+      if (status === 'missing') entry.missingCount += 1;
+      else entry.lateCount += 1;
+
+      entry.items.push({
+        lessonId: row.lesson_id,
+        lessonName: row.lesson_name,
+        subjectId: row.subject_id,
+        subjectName: row.subject_name,
+        status,
+        dueDate: row.due_date,
+        submittedAt: row.submitted_at,
+        daysLate: getDaysLate(row.due_date, row.submitted_at),
+        percentage: toPercentage(row.percentage),
+        effectivePercentage: getEffectivePercentage(grade, toLatePolicy(row))
+      });
+    });
+
+    res.json(Array.from(students.values()));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Render report cards for a group, or every group of the school year, in a background worker
+router.post('/batch', validateRequest(schemas.reportBatch), async (req: AuthRequest, res, next) => {
+  try {
+    const { groupId, gradingPeriodId, format } = req.body;
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    let groupIds: string[];
+    if (groupId) {
+      if (!canAccessGroup(req, groupId)) {
+        return res.status(404).json({ error: 'Student group not found' });
+      }
+      groupIds = [groupId];
+    } else {
+      const groupsResult = await db.query(
+        'SELECT id FROM student_groups WHERE user_id = $1 AND school_year_id = $2 ORDER BY name',
+        [req.userId, schoolYearId]
+      );
+      groupIds = groupsResult.rows.map((row: any) => row.id).filter((id: string) => canAccessGroup(req, id));
+    }
+
+    let range = null;
+    let periodLabel = null;
+    if (gradingPeriodId) {
+      const periodResult = await db.query(
+        `SELECT name, start_date::text AS start_date, end_date::text AS end_date
+         FROM grading_periods
+         WHERE id = $1 AND user_id = $2 AND school_year_id = $3`,
+        [gradingPeriodId, req.userId, schoolYearId]
+      );
+      if (periodResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Grading period not found' });
+      }
+      range = { start: periodResult.rows[0].start_date, end: periodResult.rows[0].end_date };
+      periodLabel = periodResult.rows[0].name;
+    }
+
+    const [settingsResult, yearResult, templateResult] = await Promise.all([
+      db.query('SELECT school_name FROM users WHERE id = $1', [req.userId]),
+      db.query(
+        'SELECT label, start_date::text AS start_date, end_date::text AS end_date FROM school_years WHERE id = $1',
+        [schoolYearId]
+      ),
+      db.query(
+        'SELECT template FROM report_preferences WHERE user_id = $1 AND school_year_id = $2',
+        [req.userId, schoolYearId]
+      )
+    ]);
+    const schoolName = settingsResult.rows[0]?.school_name || '';
+    const schoolYearLabel = yearResult.rows[0]?.label || '';
+    const attendanceRange = range || { start: yearResult.rows[0]?.start_date, end: yearResult.rows[0]?.end_date };
+
+    // Each subject is graded on its own scale, falling back to the default scale like the portal does
+    const { scales, defaultScaleId } = await loadGradingScales(db, req.userId);
+    const defaultBands = scales.get(defaultScaleId ?? '') || [];
+
+    // Same data path as GET /reports/group/:groupId; a student in several groups gets one card
+    const cards: ReportCardData[] = [];
+    let firstGroupName = '';
+    for (const id of groupIds) {
+      const report = await loadGroupReport(db, req.userId, schoolYearId, id, range);
+      if (!report) continue;
+      firstGroupName = firstGroupName || report.group.name;
+      const subjectBands = new Map<string, ReportCardBand[]>(
+        report.subjects.map((subject: any) => [subject.id, scales.get(subject.grading_scale_id) || defaultBands])
+      );
+      report.students.forEach((student: any) => {
+        if (cards.some(card => card.studentId === student.id)) return;
+        cards.push({
+          studentId: student.id,
+          studentName: student.name,
+          className: report.group.name,
+          schoolName,
+          periodLabel: periodLabel || 'Full Year',
+          schoolYearLabel,
+          subjects: student.subjectGrades.map((grade: any) => ({
+            subjectId: grade.subjectId,
+            subjectName: grade.subjectName,
+            average: grade.average,
+            gradingScaleBands: subjectBands.get(grade.subjectId) || defaultBands
+          })),
+          overallAverage: student.overallAverage,
+          gradingScaleBands: defaultBands
+        });
+      });
+    }
+
+    if (cards.length === 0) {
+      return res.status(400).json({ error: 'No students to create report cards for' });
+    }
+
+    // Comments are saved per grading period on the Reports screen; a full-year batch has none
+    const studentIds = cards.map(card => card.studentId);
+    const [commentsResult, attendanceResult] = await Promise.all([
+      gradingPeriodId
+        ? db.query(
+          `SELECT student_id, comment FROM student_report_comments
+           WHERE user_id = $1 AND school_year_id = $2 AND period_key = $3 AND student_id = ANY($4::uuid[])`,
+          [req.userId, schoolYearId, gradingPeriodId, studentIds]
+        )
+        : { rows: [] },
+      db.query(
+        `SELECT student_id,
+                COUNT(*) FILTER (WHERE status = 'present')::int AS present,
+                COUNT(*) FILTER (WHERE status = 'absent')::int AS absent,
+                COUNT(*) FILTER (WHERE status = 'tardy')::int AS tardy,
+                COUNT(*) FILTER (WHERE status = 'excused')::int AS excused,
+                COUNT(*)::int AS total
+         FROM attendance_records
+         WHERE user_id = $1 AND student_id = ANY($2::uuid[]) AND date BETWEEN $3 AND $4
+         GROUP BY student_id`,
+        [req.userId, studentIds, attendanceRange.start, attendanceRange.end]
+      )
+    ]);
+    const comments = new Map<string, string>(commentsResult.rows.map((row: any) => [row.student_id, row.comment]));
+    const attendance = new Map<string, any>(attendanceResult.rows.map((row: any) => [row.student_id, row]));
+    cards.forEach(card => {
+      const counts = attendance.get(card.studentId);
+      card.comments = comments.get(card.studentId);
+      card.attendanceSummary = {
+        startDate: attendanceRange.start,
+        endDate: attendanceRange.end,
+        present: counts?.present ?? 0,
+        absent: counts?.absent ?? 0,
+        tardy: counts?.tardy ?? 0,
+        excused: counts?.excused ?? 0,
+        total: counts?.total ?? 0
+      };
+    });
+
+    const fileBaseName = ['Report_Cards', groupId ? firstGroupName : schoolYearLabel, periodLabel]
+      .filter(Boolean)
+      .map(part => part.replace(/[^\w-]+/g, '_'))
+      .join('_');
+    const job = startReportBatch(
+      req.userId,
+      req.teacherId,
+      cards,
+      normalizeReportTemplate(templateResult.rows[0]?.template),
+      format,
+      fileBaseName
+    );
+
+    res.status(202).json(toReportBatchSummary(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Progress of a batch render
+router.get('/batch/:jobId', (req: AuthRequest, res) => {
+  const job = getReportBatch(req.params.jobId, req.userId, req.teacherId);
+  if (!job) {
+    return res.status(404).json({ error: 'Report card batch not found' });
+  }
+  res.json(toReportBatchSummary(job));
+});
+
+// Download the ZIP or merged PDF of a finished batch
+router.get('/batch/:jobId/download', (req: AuthRequest, res) => {
+  const job = getReportBatch(req.params.jobId, req.userId, req.teacherId);
+  if (!job) {
+    return res.status(404).json({ error: 'Report card batch not found' });
+  }
+  if (job.status !== 'done' || !job.file) {
+    return res.status(409).json({ error: 'Report cards are not ready yet' });
+  }
+
+  res.setHeader('Content-Type', job.format === 'zip' ? 'application/zip' : 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${job.fileName}"`);
+  res.send(job.file);
+  releaseReportBatchFile(job.id);
+});
+
+// Transcript of a student over every licensed school year, following them across rollovers
+router.get('/transcript/:studentId', async (req: AuthRequest, res, next) => {
+  try {
+    const { studentId } = req.params;
+    if (!(await canAccessStudent(req, studentId))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const transcript = await loadTranscript(getDB(), req.userId, req.schoolYearId, studentId);
+    if (!transcript) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    res.json(transcript);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Columns of an issued report card without the frozen data, for lists
+const ISSUE_SUMMARY_COLUMNS = `id, student_id AS "studentId", period_key AS "periodKey", period_label AS "periodLabel",
+  version, reason, supersedes_id AS "supersedesId", issued_at AS "issuedAt"`;
+
+// Freeze a report card and its PDF; issuing the same student and period again adds a new version
+router.post('/issues', validateRequest(schemas.reportCardIssue), async (req: AuthRequest, res, next) => {
+  let client;
+  try {
+    const { studentId, periodKey, periodLabel, reportCard, pdfBase64, reason } = req.body;
+    const db = getDB();
+    const schoolYearId = req.schoolYearId;
+
+    const studentCheck = await db.query(
+      'SELECT id FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3',
+      [studentId, req.userId, schoolYearId]
+    );
+    if (studentCheck.rows.length === 0 || !(await canAccessStudent(req, studentId))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    client = await db.connect();
+    await client.query('BEGIN');
+
+    const latestResult = await client.query(
+      `SELECT id, version FROM report_card_issues
+       WHERE student_id = $1 AND period_key = $2 AND school_year_id = $3
+       ORDER BY version DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [studentId, periodKey, schoolYearId]
+    );
+    const previous = latestResult.rows[0];
+
+    if (previous && !reason) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'A reason is required to reissue a report card' });
+    }
+
+    const result = await client.query(
+      `INSERT INTO report_card_issues
+         (user_id, school_year_id, student_id, period_key, period_label, version, report_card, pdf, reason, supersedes_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING ${ISSUE_SUMMARY_COLUMNS}`,
+      [
+        req.userId,
+        schoolYearId,
+        studentId,
+        periodKey,
+        periodLabel || null,
+        previous ? previous.version + 1 : 1,
+        JSON.stringify(reportCard),
+        Buffer.from(pdfBase64, 'base64'),
+        reason || null,
+        previous?.id || null
+      ]
+    );
+
+    await client.query('COMMIT');
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK');
+    }
+    next(error);
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+// List issued report cards of a student, newest first
+router.get('/issues', async (req: AuthRequest, res, next) => {
+  try {
+    const studentId = typeof req.query.studentId === 'string' ? req.query.studentId : '';
+    if (!studentId) {
+      return res.status(400).json({ error: 'studentId is required' });
+    }
+    if (!(await canAccessStudent(req, studentId))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await getDB().query(
+      `SELECT ${ISSUE_SUMMARY_COLUMNS}
+       FROM report_card_issues
+       WHERE student_id = $1 AND user_id = $2 AND school_year_id = $3
+       ORDER BY issued_at DESC, version DESC`,
+      [studentId, req.userId, req.schoolYearId]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const findIssue = async (req: AuthRequest, columns: string) => {
+  const result = await getDB().query(
+    `SELECT ${columns}
+     FROM report_card_issues
+     WHERE id = $1 AND user_id = $2 AND school_year_id = $3`,
+    [req.params.issueId, req.userId, req.schoolYearId]
+  );
+  const issue = result.rows[0];
+  return issue && (await canAccessStudent(req, issue.studentId)) ? issue : null;
+};
+
+// One issued report card with its frozen data
+router.get('/issues/:issueId', async (req: AuthRequest, res, next) => {
+  try {
+    const issue = await findIssue(req, `${ISSUE_SUMMARY_COLUMNS}, report_card AS "reportCard"`);
+    if (!issue) {
+      return res.status(404).json({ error: 'Issued report card not found' });
+    }
+    res.json(issue);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The PDF exactly as it was issued
+router.get('/issues/:issueId/pdf', async (req: AuthRequest, res, next) => {
+  try {
+    const issue = await findIssue(req, `${ISSUE_SUMMARY_COLUMNS}, pdf`);
+    if (!issue) {
+      return res.status(404).json({ error: 'Issued report card not found' });
+    }
+
+    const fileName = `Report_Card_${String(issue.periodLabel || issue.periodKey).replace(/[^\w-]+/g, '_')}_v${issue.version}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(issue.pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -5,7 +5,9 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { getDB } from '../database/connection';
 import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { requireOwner } from '../middleware/teacherScope';
 import { PoolClient } from 'pg';
+import { findPersonId } from '../database/studentIdentity';
 
 // Extend AuthRequest to include multer file
 interface RestoreRequest extends AuthRequest {
@@ -63,7 +65,7 @@ const upload = multer({
 });
 
 // Create full database backup (PostgreSQL dump)
-router.post('/backup/sql', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/backup/sql', authenticateToken, requireOwner, async (req: AuthRequest, res) => {
   try {
     const pgDumpBinary = await resolvePgDumpBinary()
     if (!pgDumpBinary) {
@@ -137,7 +139,7 @@ router.post('/backup/sql', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Restore from SQL dump (ADMIN ONLY - full database restore)
-router.post('/restore/sql', authenticateToken, upload.single('backupFile'), async (req: RestoreRequest, res) => {
+router.post('/restore/sql', authenticateToken, requireOwner, upload.single('backupFile'), async (req: RestoreRequest, res) => {
   try {
     // Check if user is admin (you may want to add an admin check here)
     if (!req.file) {
@@ -187,7 +189,7 @@ router.post('/restore/sql', authenticateToken, upload.single('backupFile'), asyn
 });
 
 // Restore data from JSON backup (user-specific data only)
-router.post('/restore/json', authenticateToken, upload.single('backupFile'), async (req: RestoreRequest, res) => {
+router.post('/restore/json', authenticateToken, requireOwner, upload.single('backupFile'), async (req: RestoreRequest, res) => {
   const db = getDB();
   let client: PoolClient | null = null;
 
@@ -250,14 +252,20 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
 
       const studentBirthday = student.birthday || student.birthdate || null;
       const studentGrade = student.grade || student.grade_level || null;
+      const studentPersonId = student.person_id || student.personId || null;
+      const studentSisId = student.sis_id || student.sisId || null;
 
       if (restoreOptions.mergeData) {
         const existing = await client.query(
           `SELECT id FROM students
-           WHERE user_id = $1 AND school_year_id = $2 AND name = $3
-             AND COALESCE(birthday::text, '') = COALESCE($4::text, '')
+           WHERE user_id = $1 AND school_year_id = $2
+             AND (
+               person_id::text = $5
+               OR (name = $3 AND COALESCE(birthday::text, '') = COALESCE($4::text, ''))
+             )
+           ORDER BY person_id::text = $5 DESC
            LIMIT 1`,
-          [userId, schoolYearId, studentName, studentBirthday]
+          [userId, schoolYearId, studentName, studentBirthday, studentPersonId]
         );
         if (existing.rows.length > 0) {
           if (student.id) studentMap.set(String(student.id), existing.rows[0].id);
@@ -265,11 +273,18 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
         }
       }
 
+      // Keep the student's person id so the restored year stays linked to their other years
+      const personId = await findPersonId(client, userId, schoolYearId, {
+        personId: studentPersonId,
+        sisId: studentSisId,
+        name: studentName,
+        birthday: studentBirthday
+      });
       const inserted = await client.query(
-        `INSERT INTO students (user_id, school_year_id, name, grade, birthday, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5::date, $6, $7)
+        `INSERT INTO students (user_id, school_year_id, name, grade, birthday, created_at, updated_at, person_id, sis_id)
+         VALUES ($1, $2, $3, $4, $5::date, $6, $7, COALESCE($8::uuid, gen_random_uuid()), $9)
          RETURNING id`,
-        [userId, schoolYearId, studentName, studentGrade, studentBirthday, student.created_at || nowIso, student.updated_at || nowIso]
+        [userId, schoolYearId, studentName, studentGrade, studentBirthday, student.created_at || nowIso, student.updated_at || nowIso, personId, studentSisId]
       );
 
       if (student.id) studentMap.set(String(student.id), inserted.rows[0].id);
@@ -430,8 +445,8 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
       }
 
       const inserted = await client.query(
-        `INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index, date, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, COALESCE($5, 100), COALESCE($6, 1), $7::date, $8, $9)
+        `INSERT INTO lessons (subject_id, school_year_id, name, category_id, points, order_index, date, created_at, updated_at, due_date)
+         VALUES ($1, $2, $3, $4, COALESCE($5, 100), COALESCE($6, 1), $7::date, $8, $9, $10::date)
          RETURNING id`,
         [
           newSubjectId,
@@ -443,6 +458,7 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
           lesson.date || lesson.lesson_date || null,
           lesson.created_at || nowIso,
           lesson.updated_at || nowIso,
+          lesson.due_date || lesson.dueDate || null,
         ]
       );
 
@@ -476,15 +492,18 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
       }
 
       await client.query(
-        `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `INSERT INTO grades (student_id, lesson_id, percentage, errors, points, school_year_id, created_at, updated_at, status, notes, submitted_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::date)
          ON CONFLICT (student_id, lesson_id)
          DO UPDATE SET
            percentage = EXCLUDED.percentage,
            errors = EXCLUDED.errors,
            points = EXCLUDED.points,
            school_year_id = EXCLUDED.school_year_id,
-           updated_at = EXCLUDED.updated_at`,
+           updated_at = EXCLUDED.updated_at,
+           status = EXCLUDED.status,
+           notes = EXCLUDED.notes,
+           submitted_at = EXCLUDED.submitted_at`,
         [
           newStudentId,
           newLessonId,
@@ -494,6 +513,9 @@ router.post('/restore/json', authenticateToken, upload.single('backupFile'), asy
           schoolYearId,
           grade.created_at || nowIso,
           grade.updated_at || nowIso,
+          grade.status || 'graded',
+          grade.notes || null,
+          grade.submitted_at || grade.submittedAt || null,
         ]
       );
       restoredCounts.grades++;
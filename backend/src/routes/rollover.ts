@@ -93,7 +93,7 @@ router.get('/scopes', async (req: AuthRequest, res, next) => {
              ON g.student_id = ss.id
             AND g.school_year_id = $2
             AND g.percentage IS NOT NULL
-            AND g.percentage >= 1
+            AND g.status IN ('graded', 'late')
            GROUP BY ss.id
          )
          SELECT
@@ -324,7 +324,7 @@ router.get('/scopes/:scopeId/preview', async (req: AuthRequest, res, next) => {
            s.id,
            s.name,
            s.grade,
-           AVG(g.percentage) FILTER (WHERE g.percentage IS NOT NULL AND g.percentage >= 1) AS average_percentage
+           AVG(g.percentage) FILTER (WHERE g.percentage IS NOT NULL AND g.status IN ('graded', 'late')) AS average_percentage
          FROM students s
          LEFT JOIN grades g ON g.student_id = s.id AND g.school_year_id = $2
          WHERE s.user_id = $1
@@ -399,7 +399,7 @@ router.post('/scopes/:scopeId/execute/students', async (req: AuthRequest, res, n
     const holdBackSet = new Set((Array.isArray(holdBackStudentIds) ? holdBackStudentIds : []).map((id: any) => String(id)));
 
     const sourceStudentsResult = await db.query(
-      `SELECT s.id, s.name, s.birthday, s.grade, s.created_at, s.updated_at
+      `SELECT s.id, s.name, s.birthday, s.pronouns, s.person_id, s.sis_id, s.grade, s.created_at, s.updated_at
        FROM students s
        WHERE s.user_id = $1
          AND s.school_year_id = $2
@@ -434,6 +434,10 @@ router.post('/scopes/:scopeId/execute/students', async (req: AuthRequest, res, n
           `DELETE FROM subject_weights WHERE school_year_id = $1`,
           [targetSchoolYearId]
         );
+        await db.query(
+          `DELETE FROM subject_category_policies WHERE school_year_id = $1`,
+          [targetSchoolYearId]
+        );
         await db.query(
           `DELETE FROM lessons WHERE school_year_id = $1`,
           [targetSchoolYearId]
@@ -479,15 +483,19 @@ router.post('/scopes/:scopeId/execute/students', async (req: AuthRequest, res, n
         if (shouldPromote) promotedStudents += 1;
         else heldBackStudents += 1;
 
+        // The same person first; a same-named student added by hand before the rollover is linked to them
         const existingStudent = await db.query(
           `SELECT id
            FROM students
            WHERE user_id = $1
              AND school_year_id = $2
-             AND name = $3
-             AND COALESCE(birthday::text, '') = COALESCE($4::text, '')
+             AND (
+               person_id = $5
+               OR (name = $3 AND COALESCE(birthday::text, '') = COALESCE($4::text, ''))
+             )
+           ORDER BY person_id = $5 DESC
            LIMIT 1`,
-          [req.userId, targetSchoolYearId, student.name, student.birthday || null]
+          [req.userId, targetSchoolYearId, student.name, student.birthday || null, student.person_id]
         );
 
         let targetStudentId: string;
@@ -497,14 +505,16 @@ router.post('/scopes/:scopeId/execute/students', async (req: AuthRequest, res, n
           await db.query(
             `UPDATE students
              SET grade = COALESCE($1, grade),
+                 person_id = $3,
+                 sis_id = COALESCE(sis_id, $4),
                  updated_at = CURRENT_TIMESTAMP
              WHERE id = $2`,
-            [nextGrade, targetStudentId]
+            [nextGrade, targetStudentId, student.person_id, student.sis_id || null]
           );
         } else {
           const insertStudent = await db.query(
-            `INSERT INTO students (user_id, school_year_id, name, birthday, grade, created_at, updated_at)
-             VALUES ($1, $2, $3, $4::date, $5, $6, $7)
+            `INSERT INTO students (user_id, school_year_id, name, birthday, grade, created_at, updated_at, pronouns, person_id, sis_id)
+             VALUES ($1, $2, $3, $4::date, $5, $6, $7, $8, $9, $10)
              RETURNING id`,
             [
               req.userId,
@@ -514,6 +524,9 @@ router.post('/scopes/:scopeId/execute/students', async (req: AuthRequest, res, n
               nextGrade,
               student.created_at || new Date().toISOString(),
               student.updated_at || new Date().toISOString(),
+              student.pronouns || null,
+              student.person_id,
+              student.sis_id || null,
             ]
           );
           targetStudentId = insertStudent.rows[0].id;
@@ -627,7 +640,7 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
     }
 
     const scopedStudentsResult = await db.query(
-      `SELECT s.id, s.name, s.birthday
+      `SELECT s.id, s.name, s.birthday, s.person_id
        FROM students s
        WHERE s.user_id = $1
          AND s.school_year_id = $2
@@ -655,10 +668,13 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
            FROM students
            WHERE user_id = $1
              AND school_year_id = $2
-             AND name = $3
-             AND COALESCE(birthday::text, '') = COALESCE($4::text, '')
+             AND (
+               person_id = $5
+               OR (name = $3 AND COALESCE(birthday::text, '') = COALESCE($4::text, ''))
+             )
+           ORDER BY person_id = $5 DESC
            LIMIT 1`,
-          [req.userId, targetSchoolYearId, s.name, s.birthday || null]
+          [req.userId, targetSchoolYearId, s.name, s.birthday || null, s.person_id]
         );
         if (targetStudent.rows.length > 0) {
           sourceToTargetStudentMap.set(String(s.id), targetStudent.rows[0].id);
@@ -671,7 +687,7 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
         : [];
 
       const sourceSubjectsResult = await db.query(
-        `SELECT sub.id, sub.name, sub.report_card_name, sub.description
+        `SELECT sub.id, sub.name, sub.report_card_name, sub.description, sub.credits
          FROM subjects sub
          WHERE sub.user_id = $1
            AND sub.school_year_id = $2
@@ -699,8 +715,8 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
           subjectsReused += 1;
         } else {
           const inserted = await db.query(
-            `INSERT INTO subjects (user_id, school_year_id, name, report_card_name, description)
-             VALUES ($1, $2, $3, $4, $5)
+            `INSERT INTO subjects (user_id, school_year_id, name, report_card_name, description, credits)
+             VALUES ($1, $2, $3, $4, $5, $6)
              RETURNING id`,
             [
               req.userId,
@@ -708,6 +724,7 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
               sourceSubject.name,
               sourceSubject.report_card_name || sourceSubject.name,
               sourceSubject.description || null,
+              sourceSubject.credits ?? null,
             ]
           );
           targetSubjectId = inserted.rows[0].id;
@@ -776,6 +793,22 @@ router.post('/scopes/:scopeId/execute/subjects', async (req: AuthRequest, res, n
           weightsUpserted += 1;
         }
 
+        await db.query(
+          `INSERT INTO subject_category_policies
+             (subject_id, category_id, drop_lowest, keep_highest, cap_at_100, replace_with_category_id, school_year_id)
+           SELECT $1, category_id, drop_lowest, keep_highest, cap_at_100, replace_with_category_id, $2
+           FROM subject_category_policies
+           WHERE subject_id = $3 AND school_year_id = $4
+           ON CONFLICT (subject_id, category_id)
+           DO UPDATE SET
+             drop_lowest = EXCLUDED.drop_lowest,
+             keep_highest = EXCLUDED.keep_highest,
+             cap_at_100 = EXCLUDED.cap_at_100,
+             replace_with_category_id = EXCLUDED.replace_with_category_id,
+             school_year_id = EXCLUDED.school_year_id`,
+          [targetSubjectId, targetSchoolYearId, sourceSubject.id, schoolYearId]
+        );
+
         const sourceMarkers = await db.query(
           `SELECT name, order_index
            FROM grading_period_markers
@@ -2,9 +2,26 @@ import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
 import { validateRequest, schemas } from '../middleware/validation';
+import { findPersonId } from '../database/studentIdentity';
+import { linkImportedGuardian } from '../database/guardians';
+import { ensureImportGroup, Importer, planImportGroups, runImport } from '../database/bulkImport';
+import guardianRoutes from './guardians';
+import portalLinkRoutes from './portalLinks';
+import {
+  isTeacherScoped,
+  requireOwner,
+  studentScopeClause,
+  canAccessGroup,
+  canAccessGroups,
+  canAccessStudent,
+  canAccessSubject
+} from '../middleware/teacherScope';
 
 const router = express.Router();
 
+router.use('/:id/guardians', guardianRoutes);
+router.use('/:id/portal-links', portalLinkRoutes);
+
 // Normalize birthday outputs to plain YYYY-MM-DD strings across all endpoints
 const formatStudentRow = (row: any) => {
   if (!row) return row;
@@ -26,10 +43,13 @@ const formatStudentRow = (row: any) => {
   };
 };
 
+// SIS ids are unique within a school year
+const isDuplicateSisId = (error: any) => error?.code === '23505' && error.constraint === 'idx_students_year_sis_id';
+
 // Helper function to auto-enroll student in subjects based on their groups
-const autoEnrollStudentInSubjects = async (studentId: string, userId: string, schoolYearId: string) => {
+// Imports pass their transaction client as db
+const autoEnrollStudentInSubjects = async (studentId: string, userId: string, schoolYearId: string, db: any = getDB()) => {
   try {
-    const db = getDB();
     
     // Check if user has auto-enrollment enabled
     const userResult = await db.query(
@@ -87,10 +107,15 @@ router.get('/groups', async (req: AuthRequest, res, next) => {
   try {
     const db = getDB();
     const schoolYearId = req.schoolYearId;
-    const result = await db.query(
-      'SELECT * FROM student_groups WHERE user_id = $1 AND school_year_id = $2 ORDER BY name',
-      [req.userId, schoolYearId]
-    );
+    const params: any[] = [req.userId, schoolYearId];
+    let query = 'SELECT * FROM student_groups WHERE user_id = $1 AND school_year_id = $2';
+
+    if (isTeacherScoped(req)) {
+      params.push(req.teacherGroupIds);
+      query += ` AND id = ANY($${params.length}::uuid[])`;
+    }
+
+    const result = await db.query(query + ' ORDER BY name', params);
     res.json(result.rows);
   } catch (error) {
     next(error);
@@ -98,7 +123,7 @@ router.get('/groups', async (req: AuthRequest, res, next) => {
 });
 
 // Create a new student group
-router.post('/groups', validateRequest(schemas.studentGroup), async (req: AuthRequest, res, next) => {
+router.post('/groups', requireOwner, validateRequest(schemas.studentGroup), async (req: AuthRequest, res, next) => {
   try {
     const { name, description } = req.body;
     const db = getDB();
@@ -122,6 +147,10 @@ router.put('/groups/:id', validateRequest(schemas.studentGroup), async (req: Aut
     const { name, description } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!canAccessGroup(req, id)) {
+      return res.status(404).json({ error: 'Student group not found' });
+    }
     
     const result = await db.query(
       'UPDATE student_groups SET name = $1, description = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3 AND user_id = $4 AND school_year_id = $5 RETURNING *',
@@ -139,7 +168,7 @@ router.put('/groups/:id', validateRequest(schemas.studentGroup), async (req: Aut
 });
 
 // Delete a student group
-router.delete('/groups/:id', async (req: AuthRequest, res, next) => {
+router.delete('/groups/:id', requireOwner, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
     const db = getDB();
@@ -176,6 +205,15 @@ router.get('/', async (req: AuthRequest, res, next) => {
         s.created_at,
         s.updated_at,
         TO_CHAR(s.birthday::date, 'YYYY-MM-DD') AS birthday,
+        s.pronouns,
+        s.person_id,
+        s.sis_id,
+        (SELECT json_build_object('name', g.name, 'relationship', g.relationship, 'email', g.emails[1], 'phone', g.phones[1])
+         FROM student_guardians sg
+         JOIN guardians g ON g.id = sg.guardian_id
+         WHERE sg.person_id = s.person_id
+         ORDER BY sg.is_primary DESC, g.name
+         LIMIT 1) AS primary_guardian,
         groups.group_names as group_name,
         COALESCE(json_agg(ss.subject_id) FILTER (WHERE ss.subject_id IS NOT NULL), '[]') AS subjects
       FROM students s 
@@ -190,12 +228,14 @@ router.get('/', async (req: AuthRequest, res, next) => {
       LEFT JOIN student_subjects ss ON s.id = ss.student_id AND ss.school_year_id = $2
       WHERE s.user_id = $1 AND s.school_year_id = $2
     `;
-    let params = [req.userId, schoolYearId];
+    let params: any[] = [req.userId, schoolYearId];
     
     if (groupId) {
-      query += ' AND EXISTS (SELECT 1 FROM student_group_links sgl2 WHERE sgl2.student_id = s.id AND sgl2.student_group_id = $3 AND sgl2.school_year_id = $2)';
       params.push(groupId as string);
+      query += ` AND EXISTS (SELECT 1 FROM student_group_links sgl2 WHERE sgl2.student_id = s.id AND sgl2.student_group_id = $${params.length} AND sgl2.school_year_id = $2)`;
     }
+
+    query += studentScopeClause(req, 's.id', params);
     
     query += ' GROUP BY s.id, groups.group_names ORDER BY s.name';
     
@@ -212,6 +252,8 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
     const { id } = req.params;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+    const params: any[] = [id, req.userId, schoolYearId];
+    const scopeClause = studentScopeClause(req, 's.id', params);
     
     const result = await db.query(
       `SELECT 
@@ -222,13 +264,16 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
           s.created_at,
           s.updated_at,
           TO_CHAR(s.birthday::date, 'YYYY-MM-DD') AS birthday,
+          s.pronouns,
+          s.person_id,
+          s.sis_id,
           STRING_AGG(DISTINCT sg.name, ', ' ORDER BY sg.name) as group_name
        FROM students s 
        LEFT JOIN student_group_links sgl ON s.id = sgl.student_id
        LEFT JOIN student_groups sg ON sgl.student_group_id = sg.id
-       WHERE s.id = $1 AND s.user_id = $2 AND s.school_year_id = $3
+       WHERE s.id = $1 AND s.user_id = $2 AND s.school_year_id = $3${scopeClause}
        GROUP BY s.id`,
-      [id, req.userId, schoolYearId]
+      params
     );
     
     if (result.rows.length === 0) {
@@ -241,19 +286,68 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
   }
 });
 
+// Get the student's rows in every licensed school year, linked through their person id
+router.get('/:id/history', async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const db = getDB();
+
+    if (!(await canAccessStudent(req, id))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const result = await db.query(
+      `SELECT
+          s.id,
+          s.name,
+          s.grade,
+          s.sis_id,
+          sy.id AS school_year_id,
+          sy.label AS school_year_label,
+          TO_CHAR(sy.start_date, 'YYYY-MM-DD') AS start_date,
+          (SELECT STRING_AGG(DISTINCT sg.name, ', ' ORDER BY sg.name)
+           FROM student_group_links sgl
+           JOIN student_groups sg ON sg.id = sgl.student_group_id
+           WHERE sgl.student_id = s.id) AS group_name,
+          (SELECT COUNT(*)::int FROM grades g WHERE g.student_id = s.id) AS grade_count
+       FROM students current_year
+       JOIN students s ON s.user_id = current_year.user_id AND s.person_id = current_year.person_id
+       JOIN school_years sy ON sy.id = s.school_year_id
+       JOIN user_school_year_licenses usyl ON usyl.school_year_id = sy.id AND usyl.user_id = s.user_id
+       WHERE current_year.id = $1 AND current_year.user_id = $2 AND current_year.school_year_id = $3
+       ORDER BY sy.start_date DESC`,
+      [id, req.userId, req.schoolYearId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Create a new student
 router.post('/', validateRequest(schemas.student), async (req: AuthRequest, res, next) => {
   try {
-    const { name, birthday, groupName, groupIds } = req.body;
+    const { name, birthday, pronouns, sisId, groupName, groupIds } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    // Teachers may only place students into their own groups, and only by id
+    if (isTeacherScoped(req) && (!Array.isArray(groupIds) || groupIds.length === 0 || !canAccessGroups(req, groupIds))) {
+      return res.status(403).json({ error: 'Students can only be added to your assigned groups' });
+    }
     
-    // Create the student first
+    // Create the student first, continuing the record of a student from an earlier year
+    const personId = await findPersonId(db, req.userId, schoolYearId, { sisId, name, birthday });
     const result = await db.query(
-      `INSERT INTO students (user_id, school_year_id, name, birthday)
-       VALUES ($1, $2, $3, $4::date)
-       RETURNING id, user_id, name, grade, created_at, updated_at, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday`,
-      [req.userId, schoolYearId, name, birthday || null]
+      `INSERT INTO students (user_id, school_year_id, name, birthday, pronouns, sis_id, person_id)
+       VALUES ($1, $2, $3, $4::date, $5, $6, COALESCE($7::uuid, gen_random_uuid()))
+       RETURNING id, user_id, name, grade, pronouns, person_id, sis_id, created_at, updated_at, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday`,
+      [req.userId, schoolYearId, name, birthday || null, pronouns || null, sisId || null, personId]
     );
     
     const studentId = result.rows[0].id;
@@ -294,87 +388,159 @@ router.post('/', validateRequest(schemas.student), async (req: AuthRequest, res,
     await autoEnrollStudentInSubjects(studentId, req.userId, schoolYearId);
     
     res.status(201).json(formatStudentRow(result.rows[0]));
-  } catch (error) {
+  } catch (error: any) {
+    if (isDuplicateSisId(error)) {
+      return res.status(400).json({ error: 'Another student in this school year already has this SIS id' });
+    }
     next(error);
   }
 });
 
-// Bulk import students from CSV data
-router.post('/bulk-import', async (req: AuthRequest, res, next) => {
-  try {
-    const { students } = req.body;
-    
-    if (!Array.isArray(students)) {
-      return res.status(400).json({ error: 'Students must be an array' });
-    }
+interface StudentImportData {
+  existingId: string | null;
+  name: string;
+  birthday: string | null;
+  sisId: string | null;
+  groups: string[];
+  guardians: Array<{ name: string; relationship?: string; email?: string; phone?: string }>;
+}
 
-    const db = getDB();
-    const schoolYearId = req.schoolYearId;
-    const results = [];
-    const createdGroups = new Set<string>();
+// Students are matched by SIS id, then by name and birthday; a row repeating an earlier row is a duplicate
+const studentImporter = (req: AuthRequest, updateExisting: boolean): Importer<StudentImportData> => {
+  const plannedGroups = new Set<string>();
+
+  return {
+    kind: 'students',
+    plan: async (client, values, previous) => {
+      const name = String(values.name);
+      const birthday = typeof values.birthday === 'string' ? values.birthday : null;
+      const sisId = values.sisId === undefined ? null : String(values.sisId);
+      const messages: string[] = [];
 
-    for (const studentData of students) {
-      // Validate that all required fields are provided
-      if (!studentData.name || studentData.name.trim() === '') {
-        return res.status(400).json({ error: 'Student name is required for all entries' });
+      const repeated = previous.find(row => {
+        if (!row.data) return false;
+        if (sisId && row.data.sisId) return row.data.sisId === sisId;
+        return row.data.name.toLowerCase() === name.toLowerCase() && row.data.birthday === birthday;
+      });
+      if (repeated) {
+        return { action: 'duplicate', label: name, messages: [`Repeats row ${repeated.row}; skipped`] };
       }
-      
-      if (!studentData.group || studentData.group.trim() === '') {
-        return res.status(400).json({ error: 'Student group is required for all entries' });
+
+      let existing: any = null;
+      if (sisId) {
+        const bySisId = await client.query(
+          `SELECT id, name, sis_id, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday
+           FROM students WHERE user_id = $1 AND school_year_id = $2 AND sis_id = $3`,
+          [req.userId, req.schoolYearId, sisId]
+        );
+        existing = bySisId.rows[0] || null;
       }
-      
-      if (!studentData.birthday || studentData.birthday.trim() === '') {
-        return res.status(400).json({ error: 'Student birthday is required for all entries' });
+      if (!existing) {
+        const byName = await client.query(
+          `SELECT id, name, sis_id, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday
+           FROM students WHERE user_id = $1 AND school_year_id = $2 AND LOWER(TRIM(name)) = LOWER($3)`,
+          [req.userId, req.schoolYearId, name]
+        );
+        existing = byName.rows.find((row: any) =>
+          (!sisId || !row.sis_id) && (!birthday || !row.birthday || row.birthday === birthday)
+        ) || null;
+        if (!existing && byName.rows.length > 0) {
+          messages.push(`Another student named ${byName.rows[0].name} is already on the roster`);
+        }
       }
 
-      // Create the student
-      const studentResult = await db.query(
-        `INSERT INTO students (user_id, school_year_id, name, birthday)
-         VALUES ($1, $2, $3, $4::date)
-         RETURNING id, user_id, name, grade, created_at, updated_at, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday`,
-        [req.userId, schoolYearId, studentData.name.trim(), studentData.birthday]
-      );
-      
-      const student = formatStudentRow(studentResult.rows[0]);
-      results.push(student);
-
-      // Handle group assignment (now always provided)
-      const groupName = studentData.group.trim();
-      
-      // Check if group exists, create if not
-      let groupResult = await db.query(
-        'SELECT id FROM student_groups WHERE user_id = $1 AND school_year_id = $2 AND name = $3',
-        [req.userId, schoolYearId, groupName]
-      );
-      
-      if (groupResult.rows.length === 0) {
-        groupResult = await db.query(
-          'INSERT INTO student_groups (user_id, school_year_id, name) VALUES ($1, $2, $3) RETURNING id, name',
-          [req.userId, schoolYearId, groupName]
+      const groupPlan = await planImportGroups(client, req.userId!, req.schoolYearId!, values.group, plannedGroups);
+      const guardians = [1, 2]
+        .map(index => ({
+          name: values[`guardian${index}Name`] as string,
+          relationship: values[`guardian${index}Relationship`] as string | undefined,
+          email: values[`guardian${index}Email`] as string | undefined,
+          phone: values[`guardian${index}Phone`] as string | undefined
+        }))
+        .filter(guardian => guardian.name);
+      const data = { existingId: existing?.id || null, name, birthday, sisId, groups: groupPlan.names, guardians };
+
+      if (!existing) {
+        return { action: 'create', label: name, messages: [...messages, ...groupPlan.messages], data };
+      }
+
+      const changes: string[] = [];
+      if (birthday && birthday !== existing.birthday) changes.push(`Birthday ${existing.birthday || 'empty'} → ${birthday}`);
+      if (sisId && sisId !== existing.sis_id) changes.push(`SIS ID ${existing.sis_id || 'empty'} → ${sisId}`);
+      if (groupPlan.names.length > 0) {
+        const linked = await client.query(
+          `SELECT sg.name FROM student_group_links sgl
+           JOIN student_groups sg ON sg.id = sgl.student_group_id
+           WHERE sgl.student_id = $1 AND sgl.school_year_id = $2`,
+          [existing.id, req.schoolYearId]
         );
-        createdGroups.add(groupName);
+        const linkedNames = new Set(linked.rows.map((row: any) => row.name));
+        groupPlan.names.filter(group => !linkedNames.has(group)).forEach(group => changes.push(`Adds to group "${group}"`));
       }
-      
-      // Link student to group
-      await db.query(
-        'INSERT INTO student_group_links (student_id, student_group_id, school_year_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
-        [student.id, groupResult.rows[0].id, schoolYearId]
-      );
-      
-      // Auto-enroll student in subjects based on their groups (if setting is enabled)
-      await autoEnrollStudentInSubjects(student.id, req.userId, schoolYearId);
-    }
+      guardians.forEach(guardian => changes.push(`Links guardian ${guardian.name}`));
 
-    const message = `Successfully imported ${results.length} students`;
-    const groupMessage = createdGroups.size > 0 
-      ? ` and created ${createdGroups.size} new groups: ${Array.from(createdGroups).join(', ')}`
-      : '';
+      if (!updateExisting || changes.length === 0) {
+        return {
+          action: 'duplicate',
+          label: name,
+          messages: [changes.length === 0 ? 'Already on the roster with these details' : 'Already on the roster; skipped']
+        };
+      }
+      return { action: 'update', label: name, messages: [...changes, ...groupPlan.messages], data };
+    },
+    apply: async (client, planned) => {
+      const data = planned.data!;
+      let student: any;
 
-    res.status(201).json({
-      message: message + groupMessage,
-      students: results,
-      createdGroups: Array.from(createdGroups)
-    });
+      if (data.existingId) {
+        const result = await client.query(
+          `UPDATE students
+             SET birthday = COALESCE($1::date, birthday), sis_id = COALESCE($2, sis_id), updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3 AND user_id = $4 AND school_year_id = $5
+           RETURNING id, person_id`,
+          [data.birthday, data.sisId, data.existingId, req.userId, req.schoolYearId]
+        );
+        student = result.rows[0];
+      } else {
+        // Linked to their earlier years by SIS id or by name and birthday
+        const personId = await findPersonId(client, req.userId!, req.schoolYearId!, {
+          sisId: data.sisId,
+          name: data.name,
+          birthday: data.birthday
+        });
+        const result = await client.query(
+          `INSERT INTO students (user_id, school_year_id, name, birthday, sis_id, person_id)
+           VALUES ($1, $2, $3, $4::date, $5, COALESCE($6::uuid, gen_random_uuid()))
+           RETURNING id, person_id`,
+          [req.userId, req.schoolYearId, data.name, data.birthday, data.sisId, personId]
+        );
+        student = result.rows[0];
+      }
+
+      // Siblings listing the same guardian end up in one family
+      for (const guardian of data.guardians) {
+        await linkImportedGuardian(client, req.userId!, student.person_id, guardian);
+      }
+
+      for (const groupName of data.groups) {
+        const groupId = await ensureImportGroup(client, req.userId!, req.schoolYearId!, groupName);
+        await client.query(
+          'INSERT INTO student_group_links (student_id, student_group_id, school_year_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+          [student.id, groupId, req.schoolYearId]
+        );
+      }
+
+      await autoEnrollStudentInSubjects(student.id, req.userId!, req.schoolYearId!, client);
+    }
+  };
+};
+
+// Import students from a mapped spreadsheet: a dry run returns what each row would do, otherwise every row is
+// imported in one transaction, or none when any row has an error
+router.post('/bulk-import', requireOwner, validateRequest(schemas.bulkImport), async (req: AuthRequest, res, next) => {
+  try {
+    const { rows, dryRun, updateExisting } = req.body;
+    res.json(await runImport(studentImporter(req, updateExisting), rows, dryRun));
   } catch (error) {
     next(error);
   }
@@ -384,20 +550,30 @@ router.post('/bulk-import', async (req: AuthRequest, res, next) => {
 router.put('/:id', validateRequest(schemas.student), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { name, birthday, groupName, groupIds } = req.body;
+    const { name, birthday, pronouns, sisId, groupName, groupIds } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!(await canAccessStudent(req, id))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    if (isTeacherScoped(req) && (!Array.isArray(groupIds) || groupIds.length === 0 || !canAccessGroups(req, groupIds))) {
+      return res.status(403).json({ error: 'Students can only be assigned to your assigned groups' });
+    }
     
     // Update the student record
     const result = await db.query(
       `UPDATE students
          SET name = $1,
              birthday = $2::date,
+             pronouns = CASE WHEN $7::boolean THEN $6 ELSE pronouns END,
+             sis_id = CASE WHEN $9::boolean THEN $8 ELSE sis_id END,
              updated_at = CURRENT_TIMESTAMP
        WHERE id = $3 AND user_id = $4
        AND school_year_id = $5
-       RETURNING id, user_id, name, grade, created_at, updated_at, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday`,
-      [name, birthday || null, id, req.userId, schoolYearId]
+       RETURNING id, user_id, name, grade, pronouns, person_id, sis_id, created_at, updated_at, TO_CHAR(birthday::date, 'YYYY-MM-DD') AS birthday`,
+      [name, birthday || null, id, req.userId, schoolYearId, pronouns || null, pronouns !== undefined, sisId || null, sisId !== undefined]
     );
     
     if (result.rows.length === 0) {
@@ -443,7 +619,10 @@ router.put('/:id', validateRequest(schemas.student), async (req: AuthRequest, re
     }
     
     res.json(formatStudentRow(result.rows[0]));
-  } catch (error) {
+  } catch (error: any) {
+    if (isDuplicateSisId(error)) {
+      return res.status(400).json({ error: 'Another student in this school year already has this SIS id' });
+    }
     next(error);
   }
 });
@@ -454,6 +633,10 @@ router.delete('/:id', async (req: AuthRequest, res, next) => {
     const { id } = req.params;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!(await canAccessStudent(req, id))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
     
     const result = await db.query(
       'DELETE FROM students WHERE id = $1 AND user_id = $2 AND school_year_id = $3 RETURNING id',
@@ -483,6 +666,16 @@ router.put('/:id/subjects', async (req: AuthRequest, res, next) => {
       return res.status(400).json({ error: 'Subjects must be an array of subject IDs' });
     }
 
+    if (!(await canAccessStudent(req, id))) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    for (const subjectId of subjects) {
+      if (!(await canAccessSubject(req, subjectId))) {
+        return res.status(400).json({ error: 'One or more subjects are invalid' });
+      }
+    }
+
     // Verify all subjects belong to the user
     const subjectCheck = await db.query(
       'SELECT id FROM subjects WHERE id = ANY($1) AND user_id = $2 AND school_year_id = $3',
@@ -2,13 +2,15 @@ import express from 'express';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
 import { validateRequest, schemas } from '../middleware/validation';
+import { isTeacherScoped, requireOwner, subjectScopeClause, canAccessGroups, canAccessSubject } from '../middleware/teacherScope';
+import { latePolicyColumns, loadCategoryPolicies, saveCategoryPolicies, toLatePolicy } from '../database/categoryPolicies';
+import { ensureImportGroup, Importer, planImportGroups, runImport } from '../database/bulkImport';
 
 const router = express.Router();
 
 // Helper function to auto-enroll students in a new subject based on their groups
-const autoEnrollStudentsInSubject = async (subjectId: string, userId: string, schoolYearId: string) => {
+const autoEnrollStudentsInSubject = async (subjectId: string, userId: string, schoolYearId: string, db: any = getDB()) => {
   try {
-    const db = getDB();
     
     // Check if user has auto-enrollment enabled
     const userResult = await db.query(
@@ -68,6 +70,11 @@ const autoEnrollStudentsInSubject = async (subjectId: string, userId: string, sc
   }
 };
 
+const ownsGradingScale = async (req: AuthRequest, scaleId: string) => {
+  const result = await getDB().query('SELECT 1 FROM grading_scales WHERE id = $1 AND user_id = $2', [scaleId, req.userId]);
+  return result.rows.length > 0;
+};
+
 // Get all subjects for the authenticated user
 router.get('/', async (req: AuthRequest, res, next) => {
   try {
@@ -85,12 +92,14 @@ router.get('/', async (req: AuthRequest, res, next) => {
       LEFT JOIN student_groups sg ON sg_rel.student_group_id = sg.id
       WHERE s.user_id = $1 AND s.school_year_id = $2
     `;
-    let params = [req.userId, schoolYearId];
+    let params: any[] = [req.userId, schoolYearId];
     
     if (groupId) {
-      query += ' AND sg_rel.student_group_id = $3';
       params.push(groupId as string);
+      query += ` AND sg_rel.student_group_id = $${params.length}`;
     }
+
+    query += subjectScopeClause(req, 's.id', params);
     
     query += ' GROUP BY s.id ORDER BY s.name';
     
@@ -110,7 +119,9 @@ router.get('/', async (req: AuthRequest, res, next) => {
         weights[row.category_id] = parseFloat(row.weight);
       });
       
-      return { ...subject, weights };
+      const policies = await loadCategoryPolicies(db, subject.id, schoolYearId);
+      
+      return { ...subject, credits: subject.credits === null ? null : Number(subject.credits), weights, policies, latePolicy: toLatePolicy(subject) };
     }));
     
     res.json(subjects);
@@ -125,6 +136,8 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
     const { id } = req.params;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+    const params: any[] = [id, req.userId, schoolYearId];
+    const scopeClause = subjectScopeClause(req, 's.id', params);
     
     // Get subject details with associated groups
     const subjectResult = await db.query(
@@ -133,9 +146,9 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
        FROM subjects s 
        LEFT JOIN subject_groups sg_rel ON s.id = sg_rel.subject_id AND sg_rel.school_year_id = $3
        LEFT JOIN student_groups sg ON sg_rel.student_group_id = sg.id
-       WHERE s.id = $1 AND s.user_id = $2 AND s.school_year_id = $3
+       WHERE s.id = $1 AND s.user_id = $2 AND s.school_year_id = $3${scopeClause}
        GROUP BY s.id`,
-      [id, req.userId, schoolYearId]
+      params
     );
     
     if (subjectResult.rows.length === 0) {
@@ -158,6 +171,9 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
     });
 
     subjectData.weights = weights;
+    subjectData.policies = await loadCategoryPolicies(db, id, schoolYearId);
+    subjectData.latePolicy = toLatePolicy(subjectData);
+    subjectData.credits = subjectData.credits === null ? null : Number(subjectData.credits);
 
     // Get lessons for this subject
     const lessonsResult = await db.query(
@@ -180,18 +196,28 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
 // Create a new subject
 router.post('/', validateRequest(schemas.subject), async (req: AuthRequest, res, next) => {
   try {
-    const { name, report_card_name, description, groupName, groupIds = [], weights = {} } = req.body;
+    const { name, report_card_name, description, groupName, groupIds = [], weights = {}, policies = {}, latePolicy = null, grading_scale_id = null, credits = null } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (grading_scale_id && !(await ownsGradingScale(req, grading_scale_id))) {
+      return res.status(400).json({ error: 'Grading scale not found' });
+    }
+
+    // Teachers may only create subjects for their own groups (an ungrouped subject would be visible to everyone)
+    if (isTeacherScoped(req) && (groupName || groupIds.length === 0 || !canAccessGroups(req, groupIds))) {
+      return res.status(403).json({ error: 'Subjects can only be assigned to your assigned groups' });
+    }
     
     await db.query('BEGIN');
     
     try {
       // Create the subject (now includes report_card_name)
       const subjectResult = await db.query(
-        `INSERT INTO subjects (user_id, school_year_id, name, report_card_name, description)
-         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
-        [req.userId, schoolYearId, name, report_card_name, description]
+        `INSERT INTO subjects (user_id, school_year_id, name, report_card_name, description, grading_scale_id,
+           late_penalty_per_day, late_penalty_max, late_grace_days, credits)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+        [req.userId, schoolYearId, name, report_card_name, description, grading_scale_id, ...latePolicyColumns(latePolicy), credits]
       );
       
       const subject = subjectResult.rows[0];
@@ -241,6 +267,8 @@ router.post('/', validateRequest(schemas.subject), async (req: AuthRequest, res,
         }
       }
 
+      await saveCategoryPolicies(db, subject.id, policies, schoolYearId);
+
       await db.query('COMMIT');
       
       // Auto-enroll students in this subject based on groups (if setting is enabled)
@@ -272,9 +300,24 @@ router.post('/', validateRequest(schemas.subject), async (req: AuthRequest, res,
 router.put('/:id', validateRequest(schemas.subject), async (req: AuthRequest, res, next): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, report_card_name, description, groupName, groupIds = [], weights = {} } = req.body;
+    const { name, report_card_name, description, groupName, groupIds = [], weights = {}, policies, latePolicy, grading_scale_id, credits } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!(await canAccessSubject(req, id))) {
+      res.status(404).json({ error: 'Subject not found' });
+      return;
+    }
+
+    if (grading_scale_id && !(await ownsGradingScale(req, grading_scale_id))) {
+      res.status(400).json({ error: 'Grading scale not found' });
+      return;
+    }
+
+    if (isTeacherScoped(req) && (groupName || groupIds.length === 0 || !canAccessGroups(req, groupIds))) {
+      res.status(403).json({ error: 'Subjects can only be assigned to your assigned groups' });
+      return;
+    }
     
     await db.query('BEGIN');
     
@@ -282,9 +325,20 @@ router.put('/:id', validateRequest(schemas.subject), async (req: AuthRequest, re
       // Update the subject (now includes report_card_name)
       const result = await db.query(
         `UPDATE subjects SET 
-          name = $1, report_card_name = $2, description = $3, updated_at = CURRENT_TIMESTAMP 
+          name = $1, report_card_name = $2, description = $3,
+          grading_scale_id = CASE WHEN $7::boolean THEN $8::uuid ELSE grading_scale_id END,
+          late_penalty_per_day = CASE WHEN $9::boolean THEN $10::numeric ELSE late_penalty_per_day END,
+          late_penalty_max = CASE WHEN $9::boolean THEN $11::numeric ELSE late_penalty_max END,
+          late_grace_days = CASE WHEN $9::boolean THEN $12::integer ELSE late_grace_days END,
+          credits = CASE WHEN $13::boolean THEN $14::numeric ELSE credits END,
+          updated_at = CURRENT_TIMESTAMP 
          WHERE id = $4 AND user_id = $5 AND school_year_id = $6 RETURNING *`,
-        [name, report_card_name, description, id, req.userId, schoolYearId]
+        [
+          name, report_card_name, description, id, req.userId, schoolYearId, grading_scale_id !== undefined, grading_scale_id ?? null,
+          // Like policies, the late policy is optional on update so older clients don't wipe it
+          latePolicy !== undefined, ...latePolicyColumns(latePolicy ?? null),
+          credits !== undefined, credits ?? null
+        ]
       );
       
       if (result.rows.length === 0) {
@@ -292,8 +346,15 @@ router.put('/:id', validateRequest(schemas.subject), async (req: AuthRequest, re
         return;
       }
       
-      // Remove existing group associations
-      await db.query('DELETE FROM subject_groups WHERE subject_id = $1', [id]);
+      // Remove existing group associations (a teacher only replaces links to their own groups)
+      if (isTeacherScoped(req)) {
+        await db.query(
+          'DELETE FROM subject_groups WHERE subject_id = $1 AND student_group_id = ANY($2::uuid[])',
+          [id, req.teacherGroupIds]
+        );
+      } else {
+        await db.query('DELETE FROM subject_groups WHERE subject_id = $1', [id]);
+      }
       
       // Handle new group associations
       let finalGroupIds = groupIds;
@@ -345,6 +406,11 @@ router.put('/:id', validateRequest(schemas.subject), async (req: AuthRequest, re
         }
       }
       
+      // Policies are optional on update so older clients don't wipe them
+      if (policies) {
+        await saveCategoryPolicies(db, id, policies, schoolYearId);
+      }
+      
       await db.query('COMMIT');
       
       // Return subject with group names
@@ -375,6 +441,10 @@ router.delete('/:id', async (req: AuthRequest, res, next) => {
     const { id } = req.params;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!(await canAccessSubject(req, id))) {
+      return res.status(404).json({ error: 'Subject not found' });
+    }
     
     const result = await db.query(
       'DELETE FROM subjects WHERE id = $1 AND user_id = $2 AND school_year_id = $3 RETURNING id',
@@ -404,7 +474,7 @@ router.get('/:id/lessons', async (req: AuthRequest, res, next) => {
       [id, req.userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, id))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
     
@@ -437,7 +507,7 @@ router.post('/:id/lessons', validateRequest(schemas.lesson), async (req: AuthReq
       [id, req.userId, schoolYearId]
     );
     
-    if (subjectCheck.rows.length === 0) {
+    if (subjectCheck.rows.length === 0 || !(await canAccessSubject(req, id))) {
       return res.status(404).json({ error: 'Subject not found' });
     }
 
@@ -505,6 +575,10 @@ router.put('/:subjectId/lessons/:lessonId', validateRequest(schemas.lesson), asy
     const { name, categoryId, points } = req.body;
     const db = getDB();
     const schoolYearId = req.schoolYearId;
+
+    if (!(await canAccessSubject(req, subjectId))) {
+      return res.status(404).json({ error: 'Lesson not found' });
+    }
     
     // Verify subject belongs to user and lesson belongs to subject, then update
     const result = await db.query(
@@ -529,133 +603,174 @@ router.put('/:subjectId/lessons/:lessonId', validateRequest(schemas.lesson), asy
   }
 });
 
-// Bulk import subjects from CSV data
-router.post('/bulk-import', async (req: AuthRequest, res, next) => {
-  try {
-    const { subjects } = req.body;
-    
-    if (!Array.isArray(subjects)) {
-      return res.status(400).json({ error: 'Subjects must be an array' });
-    }
-
-    const db = getDB();
-    const schoolYearId = req.schoolYearId;
-    const results = [];
-    const createdGroups = new Set<string>();
-
-    // Get grade category types for default weights (same logic as frontend)
-    const categoriesResult = await db.query(
-      'SELECT id, name, is_active FROM grade_category_types WHERE user_id = $1',
-      [req.userId]
+// Default weights of an imported subject: 34% to a homework-like category and 66% to a test-like one
+const findDefaultImportWeights = async (db: any, userId: string) => {
+  const categoriesResult = await db.query(
+    'SELECT id, name, is_active FROM grade_category_types WHERE user_id = $1',
+    [userId]
+  );
+  const activeCategories = categoriesResult.rows.filter(cat => cat.is_active !== false);
+
+  // Helper function to normalize names for comparison
+  const normalizeName = (name: string) => name.toLowerCase().replace(/[\s\-_]/g, '');
+
+  // Find homework-like category for 34% weight
+  let homeworkCategory = activeCategories.find(cat =>
+    normalizeName(cat.name) === 'homework'
+  );
+
+  if (!homeworkCategory) {
+    homeworkCategory = activeCategories.find(cat =>
+      ['lesson', 'normal'].includes(normalizeName(cat.name))
     );
-    const categories = categoriesResult.rows;
-    const activeCategories = categories.filter(cat => cat.is_active !== false);
-
-    // Helper function to normalize names for comparison
-    const normalizeName = (name: string) => name.toLowerCase().replace(/[\s\-_]/g, '');
+  }
 
-    // Find homework-like category for 34% weight
-    let homeworkCategory = activeCategories.find(cat => 
-      normalizeName(cat.name) === 'homework'
+  if (!homeworkCategory) {
+    // Find first category that's not test/quiz/project/participation
+    const excludeNames = ['test', 'tests', 'quiz', 'quizzes', 'project', 'projects', 'participation'];
+    homeworkCategory = activeCategories.find(cat =>
+      !excludeNames.includes(normalizeName(cat.name))
     );
+  }
 
-    if (!homeworkCategory) {
-      homeworkCategory = activeCategories.find(cat => 
-        ['lesson', 'normal'].includes(normalizeName(cat.name))
-      );
-    }
+  // Find test-like category for 66% weight
+  const testCategory = activeCategories.find(cat =>
+    ['test', 'tests'].includes(normalizeName(cat.name))
+  );
 
-    if (!homeworkCategory) {
-      // Find first category that's not test/quiz/project/participation
-      const excludeNames = ['test', 'tests', 'quiz', 'quizzes', 'project', 'projects', 'participation'];
-      homeworkCategory = activeCategories.find(cat => 
-        !excludeNames.includes(normalizeName(cat.name))
-      );
+  const weights: Array<{ categoryId: string; weight: number }> = [];
+  if (homeworkCategory) {
+    weights.push({ categoryId: homeworkCategory.id, weight: 0.34 });
+  }
+  if (testCategory && testCategory.id !== homeworkCategory?.id) {
+    weights.push({ categoryId: testCategory.id, weight: 0.66 });
+  } else if (!testCategory && activeCategories.length > 1) {
+    // If no test category found, give 66% to the last active category (if different from homework)
+    const lastCategory = activeCategories[activeCategories.length - 1];
+    if (lastCategory.id !== homeworkCategory?.id) {
+      weights.push({ categoryId: lastCategory.id, weight: 0.66 });
     }
+  }
+  return weights;
+};
 
-    // Find test-like category for 66% weight
-    let testCategory = activeCategories.find(cat => 
-      ['test', 'tests'].includes(normalizeName(cat.name))
-    );
+interface SubjectImportData {
+  existingId: string | null;
+  name: string;
+  reportCardName: string | null;
+  credits: number | null;
+  groups: string[];
+}
+
+// Subjects are matched by name; a row repeating an earlier row is a duplicate
+const subjectImporter = (req: AuthRequest, updateExisting: boolean): Importer<SubjectImportData> => {
+  const plannedGroups = new Set<string>();
+  let defaultWeights: Array<{ categoryId: string; weight: number }> | null = null;
+
+  return {
+    kind: 'subjects',
+    plan: async (client, values, previous) => {
+      const name = String(values.name);
+      const reportCardName = values.reportCardName === undefined ? null : String(values.reportCardName);
+      const credits = typeof values.credits === 'number' ? values.credits : null;
+
+      if (credits !== null && (credits < 0 || credits > 99)) {
+        return { action: 'error', label: name, messages: ['Credits must be between 0 and 99'] };
+      }
 
-    for (const subjectData of subjects) {
-      // Validate that required fields are provided
-      if (!subjectData.name || subjectData.name.trim() === '') {
-        return res.status(400).json({ error: 'Subject name is required for all entries' });
+      const repeated = previous.find(row => row.data?.name.toLowerCase() === name.toLowerCase());
+      if (repeated) {
+        return { action: 'duplicate', label: name, messages: [`Repeats row ${repeated.row}; skipped`] };
       }
 
-      // Create the subject
-      const subjectResult = await db.query(
-        'INSERT INTO subjects (user_id, school_year_id, name, report_card_name) VALUES ($1, $2, $3, $4) RETURNING *',
-        [req.userId, schoolYearId, subjectData.name.trim(), subjectData.reportCardName || subjectData.name.trim()]
+      const existingResult = await client.query(
+        `SELECT id, name, report_card_name, credits::float AS credits
+         FROM subjects WHERE user_id = $1 AND school_year_id = $2 AND LOWER(TRIM(name)) = LOWER($3)`,
+        [req.userId, req.schoolYearId, name]
       );
-      
-      const subject = subjectResult.rows[0];
-      results.push(subject);
+      const existing = existingResult.rows[0];
+      const groupPlan = await planImportGroups(client, req.userId!, req.schoolYearId!, values.group, plannedGroups);
+      const data = { existingId: existing?.id || null, name, reportCardName, credits, groups: groupPlan.names };
 
-      // Set default weights (34% homework-like, 66% test-like)
-      if (homeworkCategory) {
-        await db.query(
-          'INSERT INTO subject_weights (subject_id, category_id, weight, school_year_id) VALUES ($1, $2, $3, $4)',
-          [subject.id, homeworkCategory.id, 0.34, schoolYearId]
+      if (!existing) {
+        return { action: 'create', label: name, messages: groupPlan.messages, data };
+      }
+
+      const changes: string[] = [];
+      if (reportCardName && reportCardName !== existing.report_card_name) {
+        changes.push(`Report card name ${existing.report_card_name || 'empty'} → ${reportCardName}`);
+      }
+      if (credits !== null && credits !== existing.credits) {
+        changes.push(`Credits ${existing.credits ?? 'none'} → ${credits}`);
+      }
+      if (groupPlan.names.length > 0) {
+        const linked = await client.query(
+          `SELECT g.name FROM subject_groups sg
+           JOIN student_groups g ON g.id = sg.student_group_id
+           WHERE sg.subject_id = $1 AND sg.school_year_id = $2`,
+          [existing.id, req.schoolYearId]
         );
+        const linkedNames = new Set(linked.rows.map((row: any) => row.name));
+        groupPlan.names.filter(group => !linkedNames.has(group)).forEach(group => changes.push(`Adds group "${group}"`));
       }
 
-      if (testCategory && testCategory.id !== homeworkCategory?.id) {
-        await db.query(
-          'INSERT INTO subject_weights (subject_id, category_id, weight, school_year_id) VALUES ($1, $2, $3, $4)',
-          [subject.id, testCategory.id, 0.66, schoolYearId]
+      if (!updateExisting || changes.length === 0) {
+        return {
+          action: 'duplicate',
+          label: name,
+          messages: [changes.length === 0 ? 'Already exists with these details' : 'Already exists; skipped']
+        };
+      }
+      return { action: 'update', label: name, messages: [...changes, ...groupPlan.messages], data };
+    },
+    apply: async (client, planned) => {
+      const data = planned.data!;
+      let subjectId = data.existingId;
+
+      if (subjectId) {
+        await client.query(
+          `UPDATE subjects
+             SET report_card_name = COALESCE($1, report_card_name), credits = COALESCE($2, credits), updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3 AND user_id = $4 AND school_year_id = $5`,
+          [data.reportCardName, data.credits, subjectId, req.userId, req.schoolYearId]
         );
-      } else if (!testCategory && activeCategories.length > 1) {
-        // If no test category found, give 66% to the last active category (if different from homework)
-        const lastCategory = activeCategories[activeCategories.length - 1];
-        if (lastCategory.id !== homeworkCategory?.id) {
-          await db.query(
+      } else {
+        const inserted = await client.query(
+          `INSERT INTO subjects (user_id, school_year_id, name, report_card_name, credits)
+           VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+          [req.userId, req.schoolYearId, data.name, data.reportCardName || data.name, data.credits]
+        );
+        subjectId = inserted.rows[0].id as string;
+
+        defaultWeights = defaultWeights || await findDefaultImportWeights(client, req.userId!);
+        for (const { categoryId, weight } of defaultWeights) {
+          await client.query(
             'INSERT INTO subject_weights (subject_id, category_id, weight, school_year_id) VALUES ($1, $2, $3, $4)',
-            [subject.id, lastCategory.id, 0.66, schoolYearId]
+            [subjectId, categoryId, weight, req.schoolYearId]
           );
         }
       }
 
-      // Handle group assignment if provided
-      if (subjectData.group && subjectData.group.trim()) {
-        const groupName = subjectData.group.trim();
-        
-        // Check if group exists, create if not
-        let groupResult = await db.query(
-          'SELECT id FROM student_groups WHERE user_id = $1 AND school_year_id = $2 AND name = $3',
-          [req.userId, schoolYearId, groupName]
-        );
-        
-        if (groupResult.rows.length === 0) {
-          groupResult = await db.query(
-            'INSERT INTO student_groups (user_id, school_year_id, name) VALUES ($1, $2, $3) RETURNING id, name',
-            [req.userId, schoolYearId, groupName]
-          );
-          createdGroups.add(groupName);
-        }
-        
-        // Link subject to group
-        await db.query(
+      for (const groupName of data.groups) {
+        const groupId = await ensureImportGroup(client, req.userId!, req.schoolYearId!, groupName);
+        await client.query(
           'INSERT INTO subject_groups (subject_id, student_group_id, school_year_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
-          [subject.id, groupResult.rows[0].id, schoolYearId]
+          [subjectId, groupId, req.schoolYearId]
         );
       }
 
       // Auto-enroll students if user has auto-enrollment enabled
-      await autoEnrollStudentsInSubject(subject.id, req.userId, schoolYearId);
+      await autoEnrollStudentsInSubject(subjectId, req.userId!, req.schoolYearId!, client);
     }
+  };
+};
 
-    const message = `Successfully imported ${results.length} subjects`;
-    const groupMessage = createdGroups.size > 0 
-      ? ` and created ${createdGroups.size} new groups: ${Array.from(createdGroups).join(', ')}`
-      : '';
-
-    res.status(201).json({
-      message: message + groupMessage,
-      subjects: results,
-      createdGroups: Array.from(createdGroups)
-    });
+// Import subjects from a mapped spreadsheet: a dry run returns what each row would do, otherwise every row is
+// imported in one transaction, or none when any row has an error
+router.post('/bulk-import', requireOwner, validateRequest(schemas.bulkImport), async (req: AuthRequest, res, next) => {
+  try {
+    const { rows, dryRun, updateExisting } = req.body;
+    res.json(await runImport(subjectImporter(req, updateExisting), rows, dryRun));
   } catch (error) {
     next(error);
   }
@@ -31,10 +31,22 @@ const createMailerTransport = () => {
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Teacher sign-in tokens may look themselves up but never manage teachers or group assignments
+router.use((req: Request, res: Response, next) => {
+  if ((req as any).teacherId && req.method !== 'GET') {
+    return res.status(403).json({
+      success: false,
+      message: 'Only the account owner can manage teachers'
+    });
+  }
+  next();
+});
+
 // Get all teachers for the current user (organization)
 router.get('/', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
+    const teacherId = (req as any).teacherId || null;
     const db = getDB();
     
     console.log('Teachers API - userId:', userId);
@@ -55,12 +67,12 @@ router.get('/', async (req: Request, res: Response) => {
       FROM teachers t
       LEFT JOIN teacher_group_links tgl ON t.id = tgl.teacher_id
       LEFT JOIN student_groups sg ON tgl.student_group_id = sg.id
-      WHERE t.user_id = $1
+      WHERE t.user_id = $1 AND ($2::uuid IS NULL OR t.id = $2)
       GROUP BY t.id, t.user_id, t.name, t.email, t.password_hash, t.is_active, t.created_at, t.updated_at, t.created_by
       ORDER BY t.name ASC
     `;
 
-    const result = await db.query(query, [userId]);
+    const result = await db.query(query, [userId, teacherId]);
     
     console.log('Teachers query result:', result.rows);
     
@@ -97,6 +109,13 @@ router.get('/:id', async (req: Request, res: Response) => {
     const teacherId = req.params.id;
     const db = getDB();
 
+    if ((req as any).teacherId && (req as any).teacherId !== teacherId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Teacher not found'
+      });
+    }
+
     const query = `
       SELECT 
         t.*,
@@ -408,7 +427,8 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
 // Send a sign-in link to a teacher's email
 // Note: teachers do not have a separate login - the link signs them into the
-// admin's account and pre-selects the teacher's name so filtered views apply.
+// admin's account with a teacherId claim, and resolveTeacherScope limits every
+// student/subject/grade/attendance/report request to the teacher's groups.
 router.post('/:id/send-signin-link', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
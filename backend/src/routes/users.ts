@@ -2,6 +2,7 @@ import express from 'express';
 import bcrypt from 'bcryptjs';
 import { getDB } from '../database/connection';
 import { AuthRequest } from '../middleware/auth';
+import { requireOwner } from '../middleware/teacherScope';
 
 const router = express.Router();
 
@@ -95,7 +96,7 @@ router.get('/profile', async (req: AuthRequest, res, next) => {
 });
 
 // Update user profile
-router.put('/profile', async (req: AuthRequest, res, next) => {
+router.put('/profile', requireOwner, async (req: AuthRequest, res, next) => {
   try {
     const { name, school_name, first_day_of_school, grading_periods, auto_enroll_subjects, grading_mode, active_school_year_id } = req.body;
     const db = getDB();
@@ -225,7 +226,7 @@ router.get('/school-years', async (req: AuthRequest, res, next) => {
 });
 
 // Grant a trial license for a selected school year (self-service)
-router.post('/licenses/trial', async (req: AuthRequest, res, next) => {
+router.post('/licenses/trial', requireOwner, async (req: AuthRequest, res, next) => {
   try {
     const { schoolYearId } = req.body;
     const db = getDB();
@@ -277,8 +278,8 @@ router.post('/licenses/trial', async (req: AuthRequest, res, next) => {
   }
 });
 
-// Set active school year for current user
-router.put('/active-school-year', async (req: AuthRequest, res, next) => {
+// Set active school year for current user; it is the account's year, so teachers work in the year the owner picks
+router.put('/active-school-year', requireOwner, async (req: AuthRequest, res, next) => {
   try {
     const { schoolYearId } = req.body;
     const db = getDB();
@@ -517,7 +518,7 @@ router.delete('/admin/licenses/:licenseId', async (req: AuthRequest, res, next)
 });
 
 // Change user password
-router.put('/change-password', async (req: AuthRequest, res, next) => {
+router.put('/change-password', requireOwner, async (req: AuthRequest, res, next) => {
   try {
     const { currentPassword, newPassword } = req.body;
     const db = getDB();
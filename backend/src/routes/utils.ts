@@ -1,7 +1,7 @@
 import express from 'express';
 import { getDB } from '../database/connection';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { createDefaultStudentGroups, createDefaultGradeCategoryTypes } from '../database/seedDefaults';
+import { createDefaultStudentGroups, createDefaultGradeCategoryTypes, createDefaultGradingScales } from '../database/seedDefaults';
 
 const router = express.Router();
 
@@ -13,6 +13,7 @@ router.post('/fix-defaults', authenticateToken, async (req: AuthRequest, res): P
     
     await createDefaultStudentGroups(userId, schoolYearId);
     await createDefaultGradeCategoryTypes(userId);
+    await createDefaultGradingScales(userId);
     
     res.json({ 
       message: 'Default data created successfully',
@@ -38,6 +39,7 @@ router.post('/admin/fix-all-defaults', authenticateToken, async (req: AuthReques
       try {
         await createDefaultStudentGroups(user.id);
         await createDefaultGradeCategoryTypes(user.id);
+        await createDefaultGradingScales(user.id);
         fixed++;
       } catch (error) {
         console.error(`Failed to fix defaults for user ${user.id}:`, error);
@@ -13,6 +13,7 @@ import subjectRoutes from './routes/subjects';
 import lessonsRoutes from './routes/lessons';
 import gradeRoutes from './routes/grades';
 import gradeCategoryTypesRoutes from './routes/gradeCategoryTypes';
+import gradingScalesRoutes from './routes/gradingScales';
 import reportRoutes from './routes/reports';
 import restoreRoutes from './routes/restore';
 import metadataRoutes from './routes/metadata';
@@ -24,9 +25,14 @@ import utilsRoutes from './routes/utils';
 import teachersRoutes from './routes/teachers';
 import attendanceRoutes from './routes/attendance';
 import rolloverRoutes from './routes/rollover';
+import commentRoutes from './routes/comments';
+import reportEmailRoutes from './routes/reportEmails';
+import portalRoutes from './routes/portal';
+import exportRoutes from './routes/export';
 import { billingRoutes, billingWebhookRoutes } from './routes/billing';
 import { errorHandler } from './middleware/errorHandler';
-import { authenticateToken, resolveSchoolYearContext } from './middleware/auth';
+import { authenticateToken, authenticatePortalToken, resolveSchoolYearContext } from './middleware/auth';
+import { requireOwner, resolveTeacherScope } from './middleware/teacherScope';
 
 dotenv.config();
 
@@ -53,7 +59,7 @@ const corsConfig = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'x-admin-passcode', 'x-school-year-id'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'x-admin-passcode', 'x-school-year-id', 'x-base-updated-at'],
   exposedHeaders: ['Content-Type', 'Authorization'],
   preflightContinue: false,
   optionsSuccessStatus: 204
@@ -101,18 +107,23 @@ app.use('/api/auth', authRoutes);
 
 // Protected routes
 app.use('/api/users', authenticateToken, userRoutes);
-app.use('/api/students', authenticateToken, resolveSchoolYearContext, studentRoutes);
-app.use('/api/subjects', authenticateToken, resolveSchoolYearContext, subjectRoutes);
-app.use('/api/grades', authenticateToken, resolveSchoolYearContext, gradeRoutes);
+app.use('/api/students', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, studentRoutes);
+app.use('/api/subjects', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, subjectRoutes);
+app.use('/api/grades', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, gradeRoutes);
 app.use('/api/grade-category-types', authenticateToken, gradeCategoryTypesRoutes);
-app.use('/api/reports', authenticateToken, resolveSchoolYearContext, reportRoutes);
-app.use('/api/lessons', authenticateToken, resolveSchoolYearContext, lessonsRoutes);
-app.use('/api/grading-period-markers', authenticateToken, resolveSchoolYearContext, gradingPeriodMarkersRoutes);
+app.use('/api/grading-scales', authenticateToken, gradingScalesRoutes);
+app.use('/api/reports', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, reportRoutes);
+app.use('/api/lessons', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, lessonsRoutes);
+app.use('/api/grading-period-markers', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, gradingPeriodMarkersRoutes);
 app.use('/api/grading-periods', authenticateToken, resolveSchoolYearContext, gradingPeriodsRoutes);
 app.use('/api/feedback', authenticateToken, feedbackRoutes);
 app.use('/api/teachers', authenticateToken, teachersRoutes);
-app.use('/api/attendance', authenticateToken, resolveSchoolYearContext, attendanceRoutes);
-app.use('/api/rollover', authenticateToken, resolveSchoolYearContext, rolloverRoutes);
+app.use('/api/attendance', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, attendanceRoutes);
+app.use('/api/rollover', authenticateToken, resolveSchoolYearContext, requireOwner, rolloverRoutes);
+app.use('/api/comments', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, commentRoutes);
+app.use('/api/report-emails', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, reportEmailRoutes);
+app.use('/api/portal', authenticatePortalToken, portalRoutes);
+app.use('/api/export', authenticateToken, resolveSchoolYearContext, resolveTeacherScope, exportRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/utils', utilsRoutes);
 app.use('/api/metadata', authenticateToken, resolveSchoolYearContext, metadataRoutes);
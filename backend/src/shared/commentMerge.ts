@@ -0,0 +1,83 @@
+// Report card comment bank: tones, student pronouns and the merge fields a bank comment may contain. Shared by
+// the comments route (validation) and the Reports screen (imported there as @shared/commentMerge).
+// Like gradeCalculation.ts this file must stay free of imports.
+
+export const COMMENT_TONES = ['positive', 'neutral', 'concern'] as const;
+export type CommentTone = typeof COMMENT_TONES[number];
+
+export const STUDENT_PRONOUNS = ['he', 'she', 'they'] as const;
+export type StudentPronouns = typeof STUDENT_PRONOUNS[number];
+
+export type CommentTrend = 'improving' | 'steady' | 'declining';
+
+export interface CommentMergeContext {
+  fullName: string;
+  subject?: string | null;
+  average?: number | null;
+  trend?: CommentTrend | null;
+  pronouns?: StudentPronouns | null; // 'they' when not set
+}
+
+const PRONOUN_FORMS: Record<StudentPronouns, { subject: string; object: string; possessive: string; reflexive: string }> = {
+  he: { subject: 'he', object: 'him', possessive: 'his', reflexive: 'himself' },
+  she: { subject: 'she', object: 'her', possessive: 'her', reflexive: 'herself' },
+  they: { subject: 'they', object: 'them', possessive: 'their', reflexive: 'themselves' }
+};
+
+// Shown in the comment editor; {He/she} etc. with a capital letter give a capitalized pronoun
+export const COMMENT_MERGE_FIELDS = [
+  { field: '{firstName}', description: 'First name' },
+  { field: '{fullName}', description: 'Full name' },
+  { field: '{subject}', description: 'Subject of the comment' },
+  { field: '{average}', description: 'Subject average, or overall average for general comments' },
+  { field: '{trend}', description: 'improving, steady or declining over the last two periods' },
+  { field: '{he/she}', description: 'he, she or they' },
+  { field: '{him/her}', description: 'him, her or them' },
+  { field: '{his/her}', description: 'his, her or their' },
+  { field: '{himself/herself}', description: 'himself, herself or themselves' }
+] as const;
+
+// Points between the last two period values before a change counts as a trend
+const TREND_THRESHOLD = 2;
+
+/**
+ * Describes how a student's values moved between the last two periods that have one
+ * @param periodValues - Period values in order; nulls are skipped
+ * @returns The trend, or null with fewer than two values
+ */
+export const describeTrend = (periodValues: Array<number | null | undefined>): CommentTrend | null => {
+  const values = periodValues.filter((value): value is number => typeof value === 'number' && !isNaN(value));
+  if (values.length < 2) return null;
+  const change = values[values.length - 1] - values[values.length - 2];
+  if (change > TREND_THRESHOLD) return 'improving';
+  if (change < -TREND_THRESHOLD) return 'declining';
+  return 'steady';
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Fills the merge fields of a bank comment for one student. Fields without a value (an unknown field, or
+ * {average} when there are no grades) are left as typed so the teacher notices them before printing.
+ */
+export const applyCommentMergeFields = (text: string, context: CommentMergeContext): string => {
+  const pronouns = PRONOUN_FORMS[context.pronouns || 'they'];
+  const values: Record<string, string | null> = {
+    firstname: context.fullName.trim().split(/\s+/)[0] || null,
+    fullname: context.fullName.trim() || null,
+    subject: context.subject || null,
+    average: typeof context.average === 'number' && !isNaN(context.average) ? `${context.average.toFixed(1)}%` : null,
+    trend: context.trend || null,
+    'he/she': pronouns.subject,
+    'him/her': pronouns.object,
+    'his/her': pronouns.possessive,
+    'himself/herself': pronouns.reflexive
+  };
+
+  return text.replace(/\{([A-Za-z/]+)\}/g, (match, field: string) => {
+    const value = values[field.toLowerCase()];
+    if (value === null || value === undefined) return match;
+    // Pronouns follow the capitalization of the placeholder; names and subjects keep their own
+    return field.includes('/') && field[0] === field[0].toUpperCase() ? capitalize(value) : value;
+  });
+};
@@ -0,0 +1,274 @@
+import {
+  calculateOverallAverage,
+  calculateSubjectAverage,
+  getDaysLate,
+  getEffectivePercentage,
+  getLatePenalty,
+  isDateInRange,
+  isLateGrade,
+  isOrderInMarkerPeriod,
+  GradeInput,
+  LatePolicy
+} from './gradeCalculation';
+
+// Worked examples for the grade engine; every expected value is computed by hand in the comment above it
+describe('calculateSubjectAverage', () => {
+  const homeworkAndTests: GradeInput[] = [
+    { percentage: 80, categoryId: 'homework' },
+    { percentage: 90, categoryId: 'homework' },
+    { percentage: 70, categoryId: 'test' }
+  ];
+
+  it('combines category averages using the subject weights', () => {
+    // homework (80 + 90) / 2 = 85, test 70 -> (85 * 40 + 70 * 60) / 100 = 76
+    const result = calculateSubjectAverage(homeworkAndTests, { homework: 40, test: 60 });
+    expect(result.average).toBeCloseTo(76);
+    expect(result.countedGrades).toBe(3);
+    expect(result.categories.find(category => category.categoryId === 'homework')?.average).toBe(85);
+  });
+
+  it('accepts weights stored as DECIMAL strings', () => {
+    expect(calculateSubjectAverage(homeworkAndTests, { homework: '40.00', test: '60.00' }).average).toBeCloseTo(76);
+  });
+
+  it('weights graded categories equally when none has a weight', () => {
+    // (85 + 70) / 2 = 77.5
+    expect(calculateSubjectAverage(homeworkAndTests).average).toBeCloseTo(77.5);
+  });
+
+  it('leaves out unweighted categories once any category has a weight', () => {
+    // test has no weight, so only homework (85) counts
+    const result = calculateSubjectAverage(homeworkAndTests, { homework: 50 });
+    expect(result.average).toBeCloseTo(85);
+    expect(result.categories.find(category => category.categoryId === 'test')?.weight).toBe(0);
+  });
+
+  it('returns no average without counted grades', () => {
+    expect(calculateSubjectAverage([]).average).toBeNull();
+    expect(calculateSubjectAverage([{ percentage: 90, categoryId: null }]).average).toBeNull();
+  });
+
+  it('ignores skipped grades and legacy grades below 1', () => {
+    // Only 80 and 60 count -> 70
+    const grades: GradeInput[] = [
+      { percentage: 80, categoryId: 'homework' },
+      { percentage: 100, categoryId: 'homework', skipped: true },
+      { percentage: 0.5, categoryId: 'homework' },
+      { percentage: 0, categoryId: 'homework' },
+      { percentage: '60', categoryId: 'homework' }
+    ];
+    const result = calculateSubjectAverage(grades);
+    expect(result.average).toBeCloseTo(70);
+    expect(result.countedGrades).toBe(2);
+  });
+
+  it('counts a zero that carries a graded status', () => {
+    // (80 + 0) / 2 = 40
+    const grades: GradeInput[] = [
+      { percentage: 80, categoryId: 'homework', status: 'graded' },
+      { percentage: 0, categoryId: 'homework', status: 'graded' }
+    ];
+    expect(calculateSubjectAverage(grades).average).toBeCloseTo(40);
+  });
+
+  describe('drop lowest and keep highest', () => {
+    const quizzes: GradeInput[] = [60, 80, 90, 100].map(percentage => ({ percentage, categoryId: 'quiz' }));
+
+    it('drops the lowest grades', () => {
+      // 60 is dropped -> (80 + 90 + 100) / 3 = 90
+      const result = calculateSubjectAverage(quizzes, {}, { quiz: { dropLowest: 1 } });
+      expect(result.average).toBeCloseTo(90);
+      expect(result.categories[0].dropped).toEqual([60]);
+      expect(result.countedGrades).toBe(3);
+    });
+
+    it('always keeps at least one grade', () => {
+      const result = calculateSubjectAverage(quizzes.slice(0, 2), {}, { quiz: { dropLowest: 5 } });
+      expect(result.categories[0].grades).toEqual([80]);
+      expect(result.average).toBe(80);
+    });
+
+    it('keeps only the highest grades', () => {
+      // 90 and 100 are kept -> 95
+      const result = calculateSubjectAverage(quizzes, {}, { quiz: { keepHighest: 2 } });
+      expect(result.average).toBeCloseTo(95);
+      expect(result.categories[0].dropped).toEqual([60, 80]);
+    });
+
+    it('keeps every grade when keepHighest is null or 0', () => {
+      // (60 + 80 + 90 + 100) / 4 = 82.5
+      expect(calculateSubjectAverage(quizzes, {}, { quiz: { keepHighest: null } }).average).toBeCloseTo(82.5);
+      expect(calculateSubjectAverage(quizzes, {}, { quiz: { keepHighest: 0 } }).average).toBeCloseTo(82.5);
+    });
+
+    it('drops the lowest before keeping the highest', () => {
+      // drop 60, then keep the two highest of 80, 90, 100 -> 95
+      const result = calculateSubjectAverage(quizzes, {}, { quiz: { dropLowest: 1, keepHighest: 2 } });
+      expect(result.average).toBeCloseTo(95);
+    });
+  });
+
+  it('caps extra credit at 100 when the category asks for it', () => {
+    const grades: GradeInput[] = [
+      { percentage: 110, categoryId: 'project' },
+      { percentage: 80, categoryId: 'project' }
+    ];
+    // (110 + 80) / 2 = 95 without the cap, (100 + 80) / 2 = 90 with it
+    expect(calculateSubjectAverage(grades).average).toBeCloseTo(95);
+    expect(calculateSubjectAverage(grades, {}, { project: { capAt100: true } }).average).toBeCloseTo(90);
+  });
+
+  it('replaces a grade with a later, higher grade from the replacement category', () => {
+    const grades: GradeInput[] = [
+      { percentage: 50, categoryId: 'quiz', order: 1 },
+      { percentage: 70, categoryId: 'exam', order: 2 },
+      { percentage: 90, categoryId: 'quiz', order: 3 },
+      { percentage: 40, categoryId: 'quiz', order: 4 }
+    ];
+    // quiz 1 (50) is raised to the exam's 70; quiz 3 (90) is higher; quiz 4 has no later exam
+    // quiz (70 + 90 + 40) / 3 = 66.67, exam 70 -> equal weights (66.67 + 70) / 2 = 68.33
+    const result = calculateSubjectAverage(grades, {}, { quiz: { replaceWithCategoryId: 'exam' } });
+    const quiz = result.categories.find(category => category.categoryId === 'quiz');
+    expect(quiz?.grades).toEqual([70, 90, 40]);
+    expect(quiz?.replaced).toBe(1);
+    expect(result.average).toBeCloseTo(68.333, 2);
+  });
+
+  it('applies replacement before drop-lowest', () => {
+    const grades: GradeInput[] = [
+      { percentage: 50, categoryId: 'quiz', order: 1 },
+      { percentage: 60, categoryId: 'quiz', order: 2 },
+      { percentage: 75, categoryId: 'exam', order: 3 }
+    ];
+    // both quizzes become 75, one of them is dropped -> quiz 75
+    const result = calculateSubjectAverage(grades, { quiz: 1 }, { quiz: { replaceWithCategoryId: 'exam', dropLowest: 1 } });
+    expect(result.categories.find(category => category.categoryId === 'quiz')?.grades).toEqual([75]);
+    expect(result.average).toBeCloseTo(75);
+  });
+
+  it('applies statuses and late penalties before averaging', () => {
+    const latePolicy: LatePolicy = { penaltyPerDay: 10 };
+    const grades: GradeInput[] = [
+      { percentage: 90, categoryId: 'homework', status: 'graded' },
+      { percentage: null, categoryId: 'homework', status: 'excused' },
+      { percentage: null, categoryId: 'homework', status: 'missing', dueDate: '2024-09-01' },
+      { percentage: 80, categoryId: 'homework', status: 'late', dueDate: '2024-09-01', submittedAt: '2024-09-03' }
+    ];
+    // excused is left out, missing counts as 0, the late 80 loses 2 * 10 -> (90 + 0 + 60) / 3 = 50
+    expect(calculateSubjectAverage(grades, {}, {}, latePolicy, '2024-10-01').average).toBeCloseTo(50);
+  });
+});
+
+describe('getEffectivePercentage', () => {
+  const asOf = '2024-10-01';
+
+  it('leaves excused and incomplete work out', () => {
+    expect(getEffectivePercentage({ percentage: 95, status: 'excused' }, null, asOf)).toBeNull();
+    expect(getEffectivePercentage({ percentage: 95, status: 'incomplete' }, null, asOf)).toBeNull();
+  });
+
+  it('counts missing work as zero once the due date has passed', () => {
+    expect(getEffectivePercentage({ percentage: null, status: 'missing' }, null, asOf)).toBe(0);
+    expect(getEffectivePercentage({ percentage: null, status: 'missing', dueDate: '2024-09-30' }, null, asOf)).toBe(0);
+    expect(getEffectivePercentage({ percentage: null, status: 'missing', dueDate: '2024-10-01' }, null, asOf)).toBeNull();
+    expect(getEffectivePercentage({ percentage: null, status: 'missing', dueDate: '2024-10-15' }, null, asOf)).toBeNull();
+  });
+
+  it('keeps the legacy below-1 rule only for grades without a status', () => {
+    expect(getEffectivePercentage({ percentage: 0.5 }, null, asOf)).toBeNull();
+    expect(getEffectivePercentage({ percentage: 0.5, status: 'graded' }, null, asOf)).toBe(0.5);
+    expect(getEffectivePercentage({ percentage: '87.5' }, null, asOf)).toBe(87.5);
+  });
+
+  it('subtracts the late penalty and never goes below zero', () => {
+    const latePolicy: LatePolicy = { penaltyPerDay: 5, graceDays: 1, maxPenalty: 20 };
+    // 3 days late, 1 grace day -> 2 * 5 = 10 off
+    expect(getEffectivePercentage({ percentage: 90, dueDate: '2024-09-10', submittedAt: '2024-09-13' }, latePolicy, asOf)).toBe(80);
+    // 20 days late -> 19 * 5 = 95, capped at 20
+    expect(getEffectivePercentage({ percentage: 10, dueDate: '2024-09-10', submittedAt: '2024-09-30' }, latePolicy, asOf)).toBe(0);
+  });
+});
+
+describe('late penalties', () => {
+  it('counts whole days between the due date and the hand-in date', () => {
+    expect(getDaysLate('2024-09-10', '2024-09-13')).toBe(3);
+    expect(getDaysLate('2024-09-10', '2024-09-13T23:59:00Z')).toBe(3);
+    expect(getDaysLate('2024-09-10', '2024-09-08')).toBe(0);
+    expect(getDaysLate(null, '2024-09-13')).toBe(0);
+    expect(getDaysLate('2024-09-10', null)).toBe(0);
+  });
+
+  it('treats work as late by status or by hand-in date', () => {
+    expect(isLateGrade({ percentage: 80, status: 'late' })).toBe(true);
+    expect(isLateGrade({ percentage: 80, dueDate: '2024-09-10', submittedAt: '2024-09-11' })).toBe(true);
+    expect(isLateGrade({ percentage: 80, dueDate: '2024-09-10', submittedAt: '2024-09-10' })).toBe(false);
+  });
+
+  it('applies the grace period and the maximum penalty', () => {
+    const grade: GradeInput = { percentage: 80, dueDate: '2024-09-10', submittedAt: '2024-09-16' };
+    // 6 days late
+    expect(getLatePenalty(grade, { penaltyPerDay: 5 })).toBe(30);
+    expect(getLatePenalty(grade, { penaltyPerDay: 5, graceDays: 2 })).toBe(20);
+    expect(getLatePenalty(grade, { penaltyPerDay: '5.00', graceDays: 2, maxPenalty: '15.00' })).toBe(15);
+    expect(getLatePenalty(grade, { penaltyPerDay: 5, graceDays: 6 })).toBe(0);
+  });
+
+  it('does not penalize without a policy or hand-in date', () => {
+    expect(getLatePenalty({ percentage: 80, dueDate: '2024-09-10', submittedAt: '2024-09-16' }, null)).toBe(0);
+    expect(getLatePenalty({ percentage: 80, status: 'late' }, { penaltyPerDay: 5 })).toBe(0);
+  });
+});
+
+describe('calculateOverallAverage', () => {
+  it('averages subjects that have an average', () => {
+    expect(calculateOverallAverage([80, null, 90, undefined])).toBe(85);
+    expect(calculateOverallAverage([null])).toBeNull();
+  });
+});
+
+describe('isDateInRange', () => {
+  const range = { start: '2024-09-01', end: '2024-09-15' };
+
+  it('includes both ends of the range', () => {
+    expect(isDateInRange('2024-09-01', range)).toBe(true);
+    expect(isDateInRange('2024-09-15', range)).toBe(true);
+    expect(isDateInRange('2024-09-16', range)).toBe(false);
+    expect(isDateInRange('2024-08-31', range)).toBe(false);
+  });
+
+  it('compares timestamps by their day only', () => {
+    expect(isDateInRange('2024-09-15T22:30:00.000Z', range)).toBe(true);
+    expect(isDateInRange('2024-09-10', { start: '2024-09-01T00:00:00Z', end: '2024-09-15T00:00:00Z' })).toBe(true);
+  });
+
+  it('is false without a date or a complete range', () => {
+    expect(isDateInRange(null, range)).toBe(false);
+    expect(isDateInRange('2024-09-10', { start: '', end: '2024-09-15' })).toBe(false);
+  });
+});
+
+describe('isOrderInMarkerPeriod', () => {
+  // Markers after lessons 5 and 10 (given out of order, in both casings) split the subject into three periods
+  const markers = [{ order_index: 10 }, { orderIndex: 5 }];
+
+  it('ends each period at its marker, inclusive', () => {
+    expect(isOrderInMarkerPeriod(0, markers, 1)).toBe(true);
+    expect(isOrderInMarkerPeriod(5, markers, 1)).toBe(true);
+    expect(isOrderInMarkerPeriod(6, markers, 1)).toBe(false);
+    expect(isOrderInMarkerPeriod(6, markers, 2)).toBe(true);
+    expect(isOrderInMarkerPeriod(10, markers, 2)).toBe(true);
+    expect(isOrderInMarkerPeriod(11, markers, 2)).toBe(false);
+  });
+
+  it('puts everything after the last marker in the last period', () => {
+    expect(isOrderInMarkerPeriod(11, markers, 3)).toBe(true);
+    expect(isOrderInMarkerPeriod(500, markers, 3)).toBe(true);
+    expect(isOrderInMarkerPeriod(10, markers, 3)).toBe(false);
+  });
+
+  it('rejects periods that do not exist', () => {
+    expect(isOrderInMarkerPeriod(3, markers, 0)).toBe(false);
+    expect(isOrderInMarkerPeriod(3, markers, 4)).toBe(false);
+    expect(isOrderInMarkerPeriod(3, [], 1)).toBe(true);
+  });
+});
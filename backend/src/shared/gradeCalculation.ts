@@ -0,0 +1,255 @@
+// Grade math shared by the Express report routes and the React app (imported there as @shared/gradeCalculation).
+// This file must stay free of imports and runtime dependencies so both builds can compile it as-is.
+
+export type WeightMap = { [categoryId: string]: number | string | null | undefined };
+
+export const GRADE_STATUSES = ['graded', 'missing', 'excused', 'late', 'incomplete'] as const;
+export type GradeStatus = typeof GRADE_STATUSES[number];
+
+export interface GradeInput {
+  percentage: number | string | null | undefined;
+  categoryId?: string | null;
+  order?: number | null; // Lesson position in the subject, used to find "later" grades for replacement
+  skipped?: boolean;
+  status?: GradeStatus | string | null; // Rows saved before statuses existed have none
+  dueDate?: string | null; // YYYY-MM-DD; missing work only counts as zero after this day
+  submittedAt?: string | null; // YYYY-MM-DD the work was handed in; compared with dueDate for late penalties
+}
+
+export interface LatePolicy {
+  penaltyPerDay?: number | string | null; // Percentage points taken off for each late day after the grace period
+  maxPenalty?: number | string | null; // Largest total deduction; null/0 means no cap
+  graceDays?: number | null; // Late days that are not penalized
+}
+
+export interface CategoryPolicy {
+  dropLowest?: number;
+  keepHighest?: number | null; // null/0 keeps every grade
+  capAt100?: boolean;
+  replaceWithCategoryId?: string | null; // A later, higher grade in this category replaces an earlier one
+}
+
+export type CategoryPolicies = { [categoryId: string]: CategoryPolicy | undefined };
+
+export interface CategoryResult {
+  categoryId: string;
+  grades: number[]; // Grades that count toward the category average
+  dropped: number[]; // Grades removed by drop-lowest / keep-highest
+  replaced: number; // How many grades were raised by a later replacement grade
+  average: number;
+  weight: number;
+  weightedValue: number;
+}
+
+export interface SubjectAverageResult {
+  categories: CategoryResult[];
+  average: number | null;
+  countedGrades: number;
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface PeriodMarker {
+  orderIndex?: number | null;
+  order_index?: number | null;
+}
+
+// pg returns DECIMAL columns as strings, the frontend mostly as numbers
+export const toPercentage = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const todayISO = (): string => new Date().toISOString().slice(0, 10);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD parses as UTC midnight, so the difference of two days is always a whole number
+const toDayNumber = (date: string): number => Math.floor(Date.parse(String(date).slice(0, 10)) / MS_PER_DAY);
+
+// Whole days between the due date and the hand-in date; 0 when on time or when either date is unknown
+export const getDaysLate = (dueDate?: string | null, submittedAt?: string | null): number => {
+  if (!dueDate || !submittedAt) return 0;
+  const days = toDayNumber(submittedAt) - toDayNumber(dueDate);
+  return isNaN(days) ? 0 : Math.max(0, days);
+};
+
+// Work counts as late when the teacher marked it so or when it was handed in after the due date
+export const isLateGrade = (grade: GradeInput): boolean =>
+  grade.status === 'late' || getDaysLate(grade.dueDate, grade.submittedAt) > 0;
+
+/**
+ * Percentage points deducted from a late grade: penaltyPerDay for every day past the grace period,
+ * capped at maxPenalty. Returns 0 without a policy or when the hand-in date is unknown.
+ */
+export const getLatePenalty = (grade: GradeInput, policy?: LatePolicy | null): number => {
+  const penaltyPerDay = toPercentage(policy?.penaltyPerDay) ?? 0;
+  if (penaltyPerDay <= 0) return 0;
+
+  const penalizedDays = getDaysLate(grade.dueDate, grade.submittedAt) - Math.max(0, policy?.graceDays ?? 0);
+  if (penalizedDays <= 0) return 0;
+
+  const maxPenalty = toPercentage(policy?.maxPenalty) ?? 0;
+  const penalty = penalizedDays * penaltyPerDay;
+  return maxPenalty > 0 ? Math.min(penalty, maxPenalty) : penalty;
+};
+
+// The raw score after the late penalty, never below zero
+const applyLatePenalty = (percentage: number | null, grade: GradeInput, latePolicy?: LatePolicy | null): number | null =>
+  percentage === null ? null : Math.max(0, percentage - getLatePenalty(grade, latePolicy));
+
+/**
+ * The percentage a grade contributes to averages, or null when it is left out. Excused and incomplete
+ * work never counts; missing work counts as zero once its due date has passed (or right away without
+ * one). Grades without a status keep the old convention that a percentage below 1 means "skipped".
+ * Scored work handed in after its due date loses the subject's late penalty.
+ * @param latePolicy - The subject's late policy, if any
+ * @param asOf - YYYY-MM-DD day to compare due dates against, today by default
+ */
+export const getEffectivePercentage = (
+  grade: GradeInput,
+  latePolicy?: LatePolicy | null,
+  asOf: string = todayISO()
+): number | null => {
+  if (grade.skipped) return null;
+
+  switch (grade.status) {
+    case 'excused':
+    case 'incomplete':
+      return null;
+    case 'missing':
+      return !grade.dueDate || String(grade.dueDate).slice(0, 10) < asOf ? 0 : null;
+    case 'graded':
+    case 'late':
+      return applyLatePenalty(toPercentage(grade.percentage), grade, latePolicy);
+  }
+
+  const percentage = toPercentage(grade.percentage);
+  return percentage !== null && percentage >= 1 ? applyLatePenalty(percentage, grade, latePolicy) : null;
+};
+
+// Late penalties never take a grade out of the average, so they don't matter here
+export const isCountedGrade = (grade: GradeInput, asOf?: string): boolean => getEffectivePercentage(grade, null, asOf) !== null;
+
+export const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+interface OrderedGrade {
+  value: number;
+  order: number;
+}
+
+// Each grade is replaced by the first later grade in the replacement category, if that one is higher
+const applyReplacement = (grades: OrderedGrade[], replacements: OrderedGrade[]): { values: number[]; replaced: number } => {
+  let replaced = 0;
+  const values = grades.map(grade => {
+    const later = replacements
+      .filter(candidate => candidate.order > grade.order)
+      .sort((a, b) => a.order - b.order)[0];
+    if (later && later.value > grade.value) {
+      replaced += 1;
+      return later.value;
+    }
+    return grade.value;
+  });
+  return { values, replaced };
+};
+
+// Drops the N lowest grades, then keeps only the N highest, but always leaves at least one grade
+const applyDropRules = (grades: number[], policy?: CategoryPolicy): { kept: number[]; dropped: number[] } => {
+  const dropLowest = Math.max(0, Math.floor(policy?.dropLowest ?? 0));
+  const keepHighest = Math.max(0, Math.floor(policy?.keepHighest ?? 0));
+  const afterDrop = grades.length - dropLowest;
+  const keepCount = Math.max(1, keepHighest > 0 ? Math.min(afterDrop, keepHighest) : afterDrop);
+  const dropCount = Math.max(0, grades.length - keepCount);
+  if (dropCount === 0) return { kept: grades, dropped: [] };
+
+  const ranked = grades.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const droppedIndexes = new Set(ranked.slice(0, dropCount).map(entry => entry.index));
+  return {
+    kept: grades.filter((_, index) => !droppedIndexes.has(index)),
+    dropped: ranked.slice(0, dropCount).map(entry => entry.value)
+  };
+};
+
+/**
+ * Weighted subject average: grades are averaged per category, then combined using the subject's
+ * category weights. Categories without a weight are left out. If none of the graded categories has
+ * a weight, they are weighted equally so an unconfigured subject still gets an average.
+ * Category policies run in order: cap at 100, replacement by later grades, drop lowest, keep highest.
+ * Grade statuses and late penalties are applied first (see getEffectivePercentage).
+ */
+export const calculateSubjectAverage = (
+  grades: GradeInput[],
+  weights: WeightMap = {},
+  policies: CategoryPolicies = {},
+  latePolicy?: LatePolicy | null,
+  asOf?: string
+): SubjectAverageResult => {
+  const gradesByCategory: { [categoryId: string]: OrderedGrade[] } = {};
+  grades.forEach((grade, index) => {
+    const percentage = getEffectivePercentage(grade, latePolicy, asOf);
+    if (!grade.categoryId || percentage === null) return;
+    const value = policies[grade.categoryId]?.capAt100 ? Math.min(100, percentage) : percentage;
+    if (!gradesByCategory[grade.categoryId]) gradesByCategory[grade.categoryId] = [];
+    gradesByCategory[grade.categoryId].push({ value, order: typeof grade.order === 'number' ? grade.order : index });
+  });
+
+  const categoryIds = Object.keys(gradesByCategory);
+  const hasConfiguredWeight = categoryIds.some(categoryId => (toPercentage(weights[categoryId]) ?? 0) > 0);
+
+  const categories: CategoryResult[] = categoryIds.map(categoryId => {
+    const policy = policies[categoryId];
+    const replacementId = policy?.replaceWithCategoryId;
+    const { values, replaced } = replacementId && replacementId !== categoryId
+      ? applyReplacement(gradesByCategory[categoryId], gradesByCategory[replacementId] || [])
+      : { values: gradesByCategory[categoryId].map(grade => grade.value), replaced: 0 };
+    const { kept, dropped } = applyDropRules(values, policy);
+    const average = mean(kept);
+    const weight = hasConfiguredWeight ? Math.max(0, toPercentage(weights[categoryId]) ?? 0) : 1;
+    return { categoryId, grades: kept, dropped, replaced, average, weight, weightedValue: average * weight };
+  });
+
+  const totalWeight = categories.reduce((sum, category) => sum + category.weight, 0);
+  const weightedTotal = categories.reduce((sum, category) => sum + category.weightedValue, 0);
+
+  return {
+    categories,
+    average: totalWeight > 0 ? weightedTotal / totalWeight : null,
+    countedGrades: categories.reduce((sum, category) => sum + category.grades.length, 0)
+  };
+};
+
+// Plain mean of subject averages; subjects without an average are ignored
+export const calculateOverallAverage = (averages: Array<number | null | undefined>): number | null => {
+  const valid = averages.filter((value): value is number => typeof value === 'number' && !isNaN(value));
+  return valid.length > 0 ? mean(valid) : null;
+};
+
+// Compares the YYYY-MM-DD part only, so timestamps and plain dates slice the same way
+export const isDateInRange = (date: string | null | undefined, range: DateRange): boolean => {
+  if (!date || !range.start || !range.end) return false;
+  const day = String(date).slice(0, 10);
+  return day >= range.start.slice(0, 10) && day <= range.end.slice(0, 10);
+};
+
+const getMarkerOrder = (marker: PeriodMarker): number => Number(marker.orderIndex ?? marker.order_index ?? 0);
+
+/**
+ * Whether a lesson position falls in the given 1-based grading period. A marker's order_index is the
+ * last lesson of its period: period 1 runs up to and including the first marker, period N from just
+ * after marker N-1 through marker N, and the last period covers everything after the last marker.
+ */
+export const isOrderInMarkerPeriod = (orderIndex: number, markers: PeriodMarker[], periodNumber: number): boolean => {
+  const boundaries = markers.map(getMarkerOrder).sort((a, b) => a - b);
+  if (periodNumber < 1 || periodNumber > boundaries.length + 1) return false;
+
+  const after = periodNumber > 1 ? boundaries[periodNumber - 2] : -Infinity;
+  const before = periodNumber <= boundaries.length ? boundaries[periodNumber - 1] : Infinity;
+  return orderIndex > after && orderIndex <= before;
+};
@@ -0,0 +1,220 @@
+// Importing a spreadsheet of grades into one subject: reading the sheet's layout, matching its student names to the
+// roster, and reading a cell the way the grade grid reads typed input. The route plans and writes the grades; the
+// preview types are shared with the import dialog. Imported by the frontend as @shared/gradeImport.
+// Like gradeCalculation.ts this file must stay free of imports.
+
+export type GradeImportLessonMatch = 'name' | 'order';
+
+// How a sheet row found its student: by id, SIS id, the exact name, a close name, or the user's own pick
+export type StudentMatchKind = 'id' | 'sis' | 'exact' | 'fuzzy' | 'chosen' | 'ambiguous' | 'none';
+
+// keep: an existing grade left alone because overwriting is off
+export type GradeImportCellAction = 'create' | 'update' | 'unchanged' | 'keep' | 'error';
+
+export interface GradeImportColumn {
+  column: number; // Index in the sheet
+  header: string;
+  lessonId: string | null;
+  lessonName: string;
+  action: 'match' | 'create' | 'error';
+  message?: string;
+}
+
+export interface GradeImportRow {
+  row: number; // 1-based row number in the sheet
+  value: string; // The sheet's student cell
+  studentId: string | null;
+  studentName: string | null;
+  match: StudentMatchKind;
+  message?: string;
+}
+
+export interface GradeImportCell {
+  row: number;
+  column: number;
+  value: string;
+  action: GradeImportCellAction;
+  previous?: string | null; // The stored grade, for updates and kept grades
+  message?: string;
+}
+
+export interface GradeImportPreview {
+  committed: boolean;
+  columns: GradeImportColumn[];
+  rows: GradeImportRow[];
+  cells: GradeImportCell[]; // Non-empty cells of matched rows and columns
+  summary: Record<GradeImportCellAction, number>;
+  students: Array<{ id: string; name: string }>; // The subject's roster, for picking a row's student by hand
+}
+
+// Header cells of the student column, and of columns that hold no grades (several come from the gradebook export)
+const STUDENT_HEADERS = ['student', 'students', 'name', 'student name', 'full name', 'student id'];
+const IGNORED_HEADERS = ['groups', 'group', 'sis id', 'sis', 'id', 'email', 'class', 'homeroom'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Finds the header row (the first row of the top five whose first cell reads like "Student", else the first row) and
+ * the columns that hold grades. Averages and roster columns are skipped, so a gradebook export can be read back.
+ */
+export const readGradeSheetLayout = (rows: string[][]) => {
+  const found = rows.slice(0, 5).findIndex(cells => STUDENT_HEADERS.includes(normalizeHeader(cells[0] || '')));
+  const headerRow = found === -1 ? 0 : found;
+  const headers = rows[headerRow] || [];
+
+  const gradeColumns = headers
+    .map((header, column) => ({ column, header: header.trim() }))
+    .filter(({ column, header }) =>
+      column > 0 && header !== '' && !IGNORED_HEADERS.includes(normalizeHeader(header)) && !/\baverage$/i.test(header)
+    );
+
+  // The export closes with a class average row
+  const studentRows = rows
+    .map((cells, index) => ({ row: index + 1, cells }))
+    .slice(headerRow + 1)
+    .filter(({ cells }) => (cells[0] || '').trim() !== '' && normalizeHeader(cells[0]) !== 'class average');
+
+  return { headerRow: headerRow + 1, gradeColumns, studentRows };
+};
+
+// Lower case without accents or punctuation; "Smith, Ann" reads as "ann smith"
+export const normalizePersonName = (name: string): string => {
+  const plain = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  const parts = plain.split(',');
+  const ordered = parts.length === 2 ? `${parts[1]} ${parts[0]}` : plain;
+  return ordered.replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const sortedTokens = (name: string) => name.split(' ').sort().join(' ');
+
+export interface MatchableStudent {
+  id: string;
+  name: string;
+  sisId?: string | null;
+}
+
+/**
+ * Finds the student a sheet cell names. Tried in order: student id, SIS id, the same name ignoring case, accents and
+ * punctuation, the same words in another order, a name with the cell's words plus others (a middle name), and a name
+ * at most two typos away. A step that finds several students stops the search as ambiguous.
+ */
+export const matchStudentName = (
+  value: string,
+  students: MatchableStudent[]
+): { student: MatchableStudent | null; match: StudentMatchKind; candidates: MatchableStudent[] } => {
+  const text = value.trim();
+  const result = (match: StudentMatchKind, found: MatchableStudent[]) => found.length === 1
+    ? { student: found[0], match, candidates: found }
+    : { student: null, match: found.length > 1 ? 'ambiguous' as const : 'none' as const, candidates: found };
+
+  const byId = students.filter(student => student.id === text);
+  if (byId.length > 0) return result('id', byId);
+
+  const bySis = students.filter(student => student.sisId && student.sisId.trim().toLowerCase() === text.toLowerCase());
+  if (bySis.length > 0) return result('sis', bySis);
+
+  const name = normalizePersonName(text);
+  if (!name) return result('none', []);
+  const normalized = students.map(student => ({ student, name: normalizePersonName(student.name) }));
+
+  const exact = normalized.filter(entry => entry.name === name);
+  if (exact.length > 0) return result('exact', exact.map(entry => entry.student));
+
+  const reordered = normalized.filter(entry => sortedTokens(entry.name) === sortedTokens(name));
+  if (reordered.length > 0) return result('fuzzy', reordered.map(entry => entry.student));
+
+  const words = name.split(' ');
+  const containing = normalized.filter(entry => {
+    const studentWords = entry.name.split(' ');
+    return words.length > 1 && words.every(word => studentWords.includes(word));
+  });
+  if (containing.length > 0) return result('fuzzy', containing.map(entry => entry.student));
+
+  const maxDistance = Math.min(2, Math.floor(name.length / 5));
+  if (maxDistance === 0) return result('none', []);
+  const distances = normalized.map(entry => ({ ...entry, distance: levenshtein(entry.name, name) }));
+  const best = Math.min(...distances.map(entry => entry.distance));
+  if (best > maxDistance) return result('none', []);
+  return result('fuzzy', distances.filter(entry => entry.distance === best).map(entry => entry.student));
+};
+
+export interface ImportedGrade {
+  percentage: number | null;
+  errors: number | null;
+  points: number | null;
+  status: 'graded' | 'missing' | 'excused' | 'incomplete';
+}
+
+const STATUS_VALUES: Record<string, ImportedGrade['status']> = {
+  missing: 'missing',
+  m: 'missing',
+  excused: 'excused',
+  ex: 'excused',
+  incomplete: 'incomplete',
+  inc: 'incomplete'
+};
+
+const roundToNearestHalf = (value: number) => Math.round(value * 2) / 2;
+
+/**
+ * Reads one grade cell like the grade grid reads typed input: a percentage ("92", "92%", "92,5"), a score ("8/10"),
+ * "S" for skipped work, or a status word (Missing/M, Excused/EX, Incomplete/INC).
+ * @param lessonPoints - The lesson's max points, for errors and skipped work
+ * @returns The grade, null for an empty cell, or an error message
+ */
+export const parseImportedGrade = (value: string, lessonPoints: number | null): ImportedGrade | null | { error: string } => {
+  const text = value.trim();
+  if (!text) return null;
+  const lower = text.toLowerCase();
+  const points = lessonPoints && lessonPoints > 0 ? lessonPoints : null;
+
+  // Skipped work is stored as excused with every point lost, as the grid does
+  if (lower === 's') {
+    if (!points) return { error: 'The lesson needs max points before work can be skipped' };
+    return { percentage: 0, errors: points, points, status: 'excused' };
+  }
+  if (STATUS_VALUES[lower]) {
+    return { percentage: null, errors: null, points: null, status: STATUS_VALUES[lower] };
+  }
+
+  // Max points are stored as whole numbers
+  const fraction = lower.match(/^(\d+(?:[.,]\d+)?)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    const scored = parseFloat(fraction[1].replace(',', '.'));
+    const max = parseInt(fraction[2], 10);
+    if (max <= 0) return { error: `"${text}" has no max points` };
+    if (scored > max) return { error: `"${text}" is more than the max points` };
+    return { percentage: roundToNearestHalf(scored / max * 100), errors: max - scored, points: max, status: 'graded' };
+  }
+
+  const percent = lower.replace(/%$/, '').trim().replace(',', '.');
+  if (!/^\d+(\.\d+)?$/.test(percent)) return { error: `"${text}" is not a grade` };
+  const percentage = roundToNearestHalf(parseFloat(percent));
+  if (percentage > 100) return { error: `${text} is more than 100%` };
+  return {
+    percentage,
+    errors: points ? Math.round(points * (1 - percentage / 100) * 2) / 2 : 0,
+    points,
+    status: 'graded'
+  };
+};
+
+// A stored grade as the grid shows it, for the preview's "was" column
+export const describeStoredGrade = (grade: { percentage: number | string | null; status?: string | null }): string => {
+  if (grade.status === 'missing') return 'Missing';
+  if (grade.status === 'incomplete') return 'Incomplete';
+  if (grade.status === 'excused') return grade.percentage !== null && Number(grade.percentage) === 0 ? 'S' : 'Excused';
+  return grade.percentage === null ? '' : `${Number(grade.percentage)}%`;
+};
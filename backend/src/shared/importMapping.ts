@@ -0,0 +1,198 @@
+// Two-phase spreadsheet imports: the fields each import kind accepts, guessing which column holds which field,
+// CSV parsing and the value clean-up shared by the import wizard (which maps columns) and the bulk-import routes (which
+// validate, preview and commit). Imported by the frontend as @shared/importMapping.
+// Like gradeCalculation.ts this file must stay free of imports.
+
+export const IMPORT_KINDS = ['students', 'subjects', 'lessons'] as const;
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export type ImportFieldType = 'text' | 'date' | 'number';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  // Lower-case header names recognised for this field, besides the label itself
+  aliases: string[];
+}
+
+const guardianFields = (index: 1 | 2): ImportField[] => {
+  const prefix = index === 1 ? ['guardian', 'parent', 'guardian 1', 'parent 1'] : ['guardian 2', 'parent 2'];
+  const withPrefix = (suffixes: string[]) => prefix.flatMap(start => suffixes.map(suffix => `${start} ${suffix}`));
+  return [
+    { key: `guardian${index}Name`, label: `Guardian ${index} Name`, type: 'text', aliases: [...prefix, ...withPrefix(['name'])] },
+    { key: `guardian${index}Relationship`, label: `Guardian ${index} Relationship`, type: 'text', aliases: withPrefix(['relationship', 'relation']) },
+    { key: `guardian${index}Email`, label: `Guardian ${index} Email`, type: 'text', aliases: withPrefix(['email', 'e-mail']) },
+    { key: `guardian${index}Phone`, label: `Guardian ${index} Phone`, type: 'text', aliases: withPrefix(['phone', 'telephone', 'mobile']) }
+  ];
+};
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  students: [
+    { key: 'name', label: 'Name', type: 'text', required: true, aliases: ['student', 'student name', 'full name'] },
+    { key: 'group', label: 'Group', type: 'text', aliases: ['groups', 'class', 'homeroom'] },
+    { key: 'birthday', label: 'Birthday', type: 'date', aliases: ['birth date', 'birthdate', 'date of birth', 'dob'] },
+    { key: 'sisId', label: 'SIS ID', type: 'text', aliases: ['sis', 'student id', 'student number', 'id'] },
+    ...guardianFields(1),
+    ...guardianFields(2)
+  ],
+  subjects: [
+    { key: 'name', label: 'Subject Name', type: 'text', required: true, aliases: ['name', 'subject', 'course'] },
+    { key: 'group', label: 'Group', type: 'text', aliases: ['groups', 'class'] },
+    { key: 'reportCardName', label: 'Report Card Name', type: 'text', aliases: ['report name', 'display name'] },
+    { key: 'credits', label: 'Credits', type: 'number', aliases: ['credit'] }
+  ],
+  lessons: [
+    { key: 'subject', label: 'Subject', type: 'text', required: true, aliases: ['subject name', 'course'] },
+    { key: 'name', label: 'Lesson Name', type: 'text', required: true, aliases: ['name', 'lesson', 'assignment', 'title'] },
+    { key: 'category', label: 'Category', type: 'text', aliases: ['type', 'lesson type', 'grade category'] },
+    { key: 'points', label: 'Points', type: 'number', aliases: ['max points', 'possible points'] },
+    { key: 'date', label: 'Date', type: 'date', aliases: ['lesson date', 'assigned'] },
+    { key: 'dueDate', label: 'Due Date', type: 'date', aliases: ['due'] }
+  ]
+};
+
+// Maps field key -> index of the spreadsheet column it is read from
+export type ImportColumnMapping = Record<string, number | null>;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_\-.]+/g, ' ');
+
+/**
+ * Guesses the column of each field from the header row. Every column is used for one field at most;
+ * fields without a recognisable header stay unmapped.
+ */
+export const guessColumnMapping = (kind: ImportKind, headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS[kind].forEach(field => {
+    const names = [normalizeHeader(field.label), normalizeHeader(field.key), ...field.aliases];
+    const index = normalized.findIndex((header, column) => !used.has(column) && names.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+};
+
+/**
+ * Reads one row of values by field key through a column mapping, trimming every cell.
+ */
+export const applyColumnMapping = (kind: ImportKind, mapping: ImportColumnMapping, cells: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+  IMPORT_FIELDS[kind].forEach(field => {
+    const column = mapping[field.key];
+    const value = column === null || column === undefined ? '' : String(cells[column] ?? '').trim();
+    if (value) values[field.key] = value;
+  });
+  return values;
+};
+
+/**
+ * Parses delimited text with quoted fields ("a, b" and doubled "" quotes). The delimiter is guessed from the
+ * first line when not given: tab, semicolon or comma, whichever occurs most.
+ */
+export const parseDelimited = (text: string, delimiter?: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const separator = delimiter || ['\t', ';', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Reads a spreadsheet date as YYYY-MM-DD. Accepts ISO dates (with - or /), US month/day/year dates and the day
+ * numbers spreadsheet programs store dates as. Returns null for anything else.
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [month, day] = [Number(match[1]), Number(match[2])];
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  // Spreadsheet serial day: days since 1899-12-30
+  if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  }
+  return null;
+};
+
+/**
+ * Reads a spreadsheet number, allowing a decimal comma. Returns null when the value is not a number.
+ */
+export const parseImportNumber = (value: string): number | null => {
+  const text = value.trim().replace(',', '.');
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+};
+
+export type ImportRowAction = 'create' | 'update' | 'duplicate' | 'error';
+
+export interface ImportRowResult {
+  row: number;
+  action: ImportRowAction;
+  label: string;
+  messages: string[];
+}
+
+export interface ImportResult {
+  committed: boolean;
+  summary: Record<ImportRowAction, number>;
+  rows: ImportRowResult[];
+}
@@ -0,0 +1,385 @@
+// Report card page shared by the Reports screen (src/components/ReportCardPDF.tsx, imported there as
+// @shared/reportCardDocument) and the batch worker, so a card looks the same however it was printed.
+// Like gradeCalculation.ts this file must stay free of imports: React's createElement and @react-pdf/renderer
+// are passed in by the caller, which lets the worker load them with import().
+import type { ReportCardTemplate, ReportTemplateSection } from './reportTemplate';
+
+// The parts of @react-pdf/renderer the page uses. Typed loosely: the browser and the server each resolve their
+// own copy of the package, and their component types do not match each other.
+interface PdfRenderer {
+  Page: any;
+  View: any;
+  Text: any;
+  Image: any;
+  StyleSheet: { create: (styles: any) => any };
+}
+type CreateElement = (type: any, props?: any, ...children: any[]) => any;
+
+export interface ReportCardBand {
+  minPercent: number; // Inclusive lower bound
+  label: string;
+  gpaPoints: number | null;
+  color?: string | null;
+}
+
+export interface ReportCardSubject {
+  subjectId?: string;
+  subjectName: string;
+  average: number | null;
+  periodValues?: Array<number | null>; // One value per period column; defaults to the average
+  displayMode?: 'percentage' | 'letter' | 'gpa';
+  tier?: 'primary' | 'secondary';
+  gradingScaleBands?: ReportCardBand[]; // The subject's own scale; defaults to the card's
+}
+
+export interface ReportCardAttendance {
+  startDate?: string;
+  endDate?: string;
+  present: number;
+  absent: number;
+  tardy: number;
+  excused: number;
+  total: number;
+}
+
+export interface ReportCardData {
+  studentId: string;
+  studentName: string;
+  className: string;
+  schoolName: string;
+  periodLabel: string; // Grading period, e.g. "2 of 4", or the whole year
+  schoolYearLabel: string; // e.g. "2025-2026"
+  subjects: ReportCardSubject[];
+  overallAverage: number | null;
+  comments?: string;
+  attendanceSummary?: ReportCardAttendance;
+  periodColumns?: Array<{ id: string; label: string }>; // Defaults to one column for the period
+  primaryWeightingEnabled?: boolean;
+  primaryWeightPercent?: number;
+  gradingScaleBands: ReportCardBand[]; // For the overall grade and the legend
+}
+
+// Same band lookup as src/lib/gradingScales.ts: below the lowest cutoff still gets the lowest band
+const sortBands = (bands: ReportCardBand[]) => [...bands].sort((a, b) => Number(b.minPercent) - Number(a.minPercent));
+
+const getBand = (percentage: number, bands: ReportCardBand[]) => {
+  const sorted = sortBands(bands);
+  return sorted.find(band => percentage >= Number(band.minPercent)) || sorted[sorted.length - 1] || null;
+};
+
+const getBandRangeLabel = (sorted: ReportCardBand[], index: number): string => {
+  const lower = Number(sorted[index].minPercent);
+  if (index === 0) return `${lower}-100%`;
+  const upper = Number(sorted[index - 1].minPercent) - 1;
+  if (index === sorted.length - 1 && lower === 0) return `Below ${upper + 1}%`;
+  return `${lower}-${upper}%`;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// Sizes in the stylesheet are written for the default 11pt body and scale with the template's font size
+const createStyles = (renderer: PdfRenderer, template: ReportCardTemplate) => {
+  const size = (points: number) => Math.round(points * template.fontSize / 11 * 10) / 10;
+
+  return renderer.StyleSheet.create({
+    page: {
+      fontSize: size(11),
+      fontFamily: template.fontFamily,
+      paddingTop: 35,
+      paddingBottom: 35,
+      paddingHorizontal: 35,
+      backgroundColor: '#ffffff'
+    },
+    header: {
+      marginBottom: 20,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingBottom: 10,
+      borderBottom: `2px solid ${template.branding.primaryColor}`
+    },
+    headerText: { flex: 1, textAlign: 'center' },
+    logo: { width: 60, height: 60, objectFit: 'contain', marginRight: 12 },
+    schoolName: { fontSize: size(24), color: template.branding.primaryColor, marginBottom: 5 },
+    reportTitle: { fontSize: size(16), color: '#374151' },
+    semester: { fontSize: size(12), color: '#6b7280', marginTop: 5 },
+    studentInfo: {
+      flexDirection: 'row',
+      marginBottom: 20,
+      padding: 15,
+      backgroundColor: '#f8fafc',
+      borderRadius: 6,
+      border: '1px solid #e2e8f0'
+    },
+    studentDetails: { flex: 1 },
+    studentName: { fontSize: size(18), color: '#1f2937', marginBottom: 8 },
+    infoRow: { flexDirection: 'row', marginBottom: 3 },
+    infoLabel: { width: 80, fontSize: size(10), color: '#4b5563' },
+    infoValue: { fontSize: size(10), color: '#1f2937' },
+    gpaSection: {
+      width: 120,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderLeft: '1px solid #d1d5db',
+      paddingLeft: 20
+    },
+    gpaLabel: { fontSize: size(10), color: '#6b7280', marginBottom: 5 },
+    gpa: { fontSize: size(28), color: template.branding.accentColor },
+    gradeLevel: { fontSize: size(16), color: '#374151', marginTop: 5 },
+    gradesSection: { marginBottom: 20 },
+    sectionTitle: {
+      fontSize: size(14),
+      color: '#1f2937',
+      marginBottom: 10,
+      paddingBottom: 5,
+      borderBottom: '1px solid #e5e7eb'
+    },
+    table: { border: '1px solid #d1d5db', borderRadius: 4 },
+    tableHeader: { flexDirection: 'row', backgroundColor: '#f3f4f6', padding: 8, borderBottom: '1px solid #d1d5db' },
+    tableHeaderText: { fontSize: size(10), color: '#374151' },
+    subjectCol: { textAlign: 'left' },
+    periodCol: { textAlign: 'center' },
+    tableRow: { flexDirection: 'row', padding: 8, borderBottom: '1px solid #e5e7eb' },
+    tableCell: { fontSize: size(10), color: '#374151' },
+    tableCellCenter: { fontSize: size(10), color: '#374151', textAlign: 'center' },
+    commentsSection: { marginTop: 20 },
+    commentsBox: { border: '1px solid #d1d5db', borderRadius: 6, padding: 15, backgroundColor: '#fefefe' },
+    commentsText: { fontSize: size(10), color: '#4b5563', lineHeight: 1.4 },
+    attendanceSection: {
+      marginTop: 16,
+      padding: 12,
+      backgroundColor: '#f8fafc',
+      borderRadius: 6,
+      border: '1px solid #e2e8f0'
+    },
+    attendanceHeader: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 },
+    attendanceTitle: { fontSize: size(12), color: '#1f2937' },
+    attendanceRange: { fontSize: size(9), color: '#6b7280' },
+    attendanceGrid: { flexDirection: 'row', flexWrap: 'wrap' },
+    attendanceItem: { width: '50%', paddingVertical: 4, flexDirection: 'row', justifyContent: 'space-between' },
+    attendanceLabel: { fontSize: size(10), color: '#4b5563' },
+    attendanceValue: { fontSize: size(10), color: '#1f2937', fontWeight: 'bold' },
+    signatures: {
+      marginTop: 30,
+      paddingTop: 20,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      borderTop: '1px solid #e5e7eb'
+    },
+    signature: { flex: 1, marginRight: 20 },
+    signatureLine: { borderTop: '1px solid #9ca3af', width: '100%', marginBottom: 5 },
+    signatureLabel: { fontSize: size(9), color: '#6b7280' },
+    dateInfo: { fontSize: size(9), color: '#6b7280', textAlign: 'right' },
+    gradingScale: {
+      marginTop: 20,
+      padding: 15,
+      backgroundColor: '#f8fafc',
+      borderRadius: 6,
+      border: '1px solid #e2e8f0'
+    },
+    scaleTitle: { fontSize: size(12), color: '#374151', marginBottom: 8 },
+    scaleGrid: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-between' },
+    scaleItem: { flexDirection: 'row', justifyContent: 'space-between', width: '48%', marginBottom: 2 },
+    scaleGrade: { fontSize: size(9), color: '#4b5563' },
+    scaleRange: { fontSize: size(9), color: '#6b7280' }
+  });
+};
+
+/**
+ * Builds the <Page> of one student's report card, laid out by the template's enabled sections.
+ * Callers wrap it in a <Document>; a merged batch puts every student's page in one document.
+ * @param showPercentage - Show the overall grade as a percentage rather than GPA points
+ */
+export const buildReportCardPage = (
+  renderer: PdfRenderer,
+  h: CreateElement,
+  card: ReportCardData,
+  template: ReportCardTemplate,
+  showPercentage = true
+) => {
+  const { Page, View, Text, Image } = renderer;
+  const styles = createStyles(renderer, template);
+  const bands = card.gradingScaleBands;
+  const reportDate = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const periodColumns = card.periodColumns && card.periodColumns.length > 0
+    ? card.periodColumns
+    : [{ id: 'current', label: card.periodLabel }];
+  const subjectColumnWidth = periodColumns.length <= 2 ? 42 : periodColumns.length <= 4 ? 34 : 28;
+  const periodColumnWidth = (100 - subjectColumnWidth) / Math.max(periodColumns.length, 1);
+  const subjectCell = [styles.tableCell, styles.subjectCol, { width: `${subjectColumnWidth}%` }];
+  const periodCell = [styles.tableCellCenter, styles.periodCol, { width: `${periodColumnWidth}%` }];
+
+  const enabledSections = template.sections.filter(section => section.enabled);
+  const signatureLabels = [
+    template.signatures.teacher ? 'Teacher Signature' : null,
+    template.signatures.parent ? 'Parent/Guardian Signature' : null,
+    template.signatures.principal
+      ? [template.signatures.principalName, template.signatures.principalTitle].filter(Boolean).join(', ')
+      : null
+  ].filter((label): label is string => !!label);
+
+  const formatOverall = () => {
+    if (!isNumber(card.overallAverage)) return '--';
+    if (showPercentage) return `${card.overallAverage.toFixed(1)}%`;
+    return Number(getBand(card.overallAverage, bands)?.gpaPoints ?? 0).toFixed(2);
+  };
+
+  const renderSubjectRow = (subject: ReportCardSubject, index: number) => {
+    const rowKey = subject.subjectId || `subject-${index}`;
+    const displayMode = subject.displayMode || 'percentage';
+    const periodValues = subject.periodValues || [subject.average];
+    const subjectBands = subject.gradingScaleBands || bands;
+    const tierSuffix = card.primaryWeightingEnabled ? (subject.tier === 'primary' ? ' (P)' : ' (S)') : '';
+
+    return h(View, { key: rowKey, style: styles.tableRow },
+      h(Text, { style: subjectCell }, (subject.subjectName || 'Unknown Subject') + tierSuffix),
+      ...periodColumns.map((column, periodIndex) => {
+        const value = periodValues[periodIndex];
+        if (!isNumber(value)) return h(Text, { key: `${rowKey}-${column.id}`, style: periodCell }, '--');
+
+        const band = getBand(value, subjectBands);
+        const rendered = displayMode === 'letter'
+          ? band?.label ?? 'N/A'
+          : displayMode === 'gpa'
+            ? Number(band?.gpaPoints ?? 0).toFixed(1)
+            : `${value.toFixed(1)}%`;
+        const gradeStyle = displayMode === 'letter' && band?.color ? { color: band.color } : {};
+        return h(Text, { key: `${rowKey}-${column.id}`, style: [...periodCell, gradeStyle] }, rendered);
+      })
+    );
+  };
+
+  const renderSection = (section: ReportTemplateSection, index: number) => {
+    switch (section.type) {
+      case 'header':
+        return h(View, { key: section.type, style: styles.header },
+          template.branding.logoDataUrl ? h(Image, { src: template.branding.logoDataUrl, style: styles.logo }) : null,
+          h(View, { style: styles.headerText },
+            h(Text, { style: styles.schoolName }, card.schoolName),
+            section.title ? h(Text, { style: styles.reportTitle }, section.title) : null,
+            h(Text, { style: styles.semester }, `${card.periodLabel} • ${card.schoolYearLabel} School Year`)
+          )
+        );
+
+      case 'studentInfo':
+        return h(View, { key: section.type },
+          section.title ? h(Text, { style: styles.sectionTitle }, section.title) : null,
+          h(View, { style: styles.studentInfo },
+            h(View, { style: styles.studentDetails },
+              h(Text, { style: styles.studentName }, card.studentName),
+              h(View, { style: styles.infoRow },
+                h(Text, { style: styles.infoLabel }, 'Subjects:'),
+                h(Text, { style: styles.infoValue }, String(card.subjects.length))
+              ),
+              h(View, { style: styles.infoRow },
+                h(Text, { style: styles.infoLabel }, 'Class:'),
+                h(Text, { style: styles.infoValue }, card.className || 'N/A')
+              )
+            ),
+            h(View, { style: styles.gpaSection },
+              h(Text, { style: styles.gpaLabel }, showPercentage ? 'Overall Percentage' : 'Overall GPA'),
+              h(Text, { style: styles.gpa }, formatOverall()),
+              h(Text, { style: styles.gradeLevel },
+                isNumber(card.overallAverage) ? getBand(card.overallAverage, bands)?.label ?? 'N/A' : ''),
+              card.primaryWeightingEnabled
+                ? h(Text, { style: styles.signatureLabel }, `Primary ${Math.round(card.primaryWeightPercent ?? 60)}%`)
+                : null
+            )
+          )
+        );
+
+      case 'grades':
+        return h(View, { key: section.type, style: styles.gradesSection },
+          section.title ? h(Text, { style: styles.sectionTitle }, section.title) : null,
+          h(View, { style: styles.table },
+            h(View, { style: styles.tableHeader },
+              h(Text, { style: [styles.tableHeaderText, styles.subjectCol, { width: `${subjectColumnWidth}%` }] }, 'Subject'),
+              ...periodColumns.map(column => h(Text, {
+                key: `header-${column.id}`,
+                style: [styles.tableHeaderText, styles.periodCol, { width: `${periodColumnWidth}%` }]
+              }, column.label))
+            ),
+            ...(card.subjects.length > 0
+              ? card.subjects.map(renderSubjectRow)
+              : [h(View, { key: 'no-subjects', style: styles.tableRow },
+                h(Text, { style: subjectCell }, 'No subjects available'),
+                ...periodColumns.map(column => h(Text, { key: `empty-${column.id}`, style: periodCell }, '--'))
+              )])
+          )
+        );
+
+      case 'attendance': {
+        const attendance = card.attendanceSummary;
+        if (!attendance) return null;
+        const counts: Array<[string, number]> = [
+          ['Present', attendance.present],
+          ['Tardy', attendance.tardy],
+          ['Absent', attendance.absent],
+          ['Total Days', attendance.total]
+        ];
+        return h(View, { key: section.type, style: styles.attendanceSection },
+          h(View, { style: styles.attendanceHeader },
+            h(Text, { style: styles.attendanceTitle }, section.title || 'Attendance'),
+            h(Text, { style: styles.attendanceRange },
+              `${(attendance.startDate || '').trim() || 'Start'} – ${(attendance.endDate || '').trim() || 'End'}`)
+          ),
+          h(View, { style: styles.attendanceGrid },
+            ...counts.map(([label, count]) => h(View, { key: label, style: styles.attendanceItem },
+              h(Text, { style: styles.attendanceLabel }, label),
+              h(Text, { style: styles.attendanceValue }, String(count ?? 0))
+            ))
+          )
+        );
+      }
+
+      case 'comments':
+        if (!card.comments) return null;
+        return h(View, { key: section.type, style: styles.commentsSection },
+          section.title ? h(Text, { style: styles.sectionTitle }, section.title) : null,
+          h(View, { style: styles.commentsBox },
+            h(Text, { style: styles.commentsText }, card.comments)
+          )
+        );
+
+      case 'gradingScale': {
+        if (bands.length === 0) return null;
+        const sorted = sortBands(bands);
+        return h(View, { key: section.type, style: styles.gradingScale },
+          h(Text, { style: styles.scaleTitle }, section.title || 'Grading Scale'),
+          h(View, { style: styles.scaleGrid },
+            ...sorted.map((band, bandIndex) => h(View, { key: `${band.label}-${band.minPercent}`, style: styles.scaleItem },
+              h(Text, { style: styles.scaleGrade }, band.label),
+              h(Text, { style: styles.scaleRange }, getBandRangeLabel(sorted, bandIndex))
+            ))
+          )
+        );
+      }
+
+      case 'signatures':
+        // As the last section the signature block sits at the bottom of the page like a footer
+        return h(View, {
+          key: section.type,
+          style: [styles.signatures, index === enabledSections.length - 1 ? { marginTop: 'auto' } : {}],
+          wrap: false
+        },
+          ...signatureLabels.map(label => h(View, { key: label, style: styles.signature },
+            h(View, { style: styles.signatureLine }),
+            h(Text, { style: styles.signatureLabel }, label)
+          )),
+          h(View, { style: styles.dateInfo },
+            h(Text, { style: styles.signatureLabel }, `Date: ${reportDate}`)
+          )
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return h(Page, {
+    key: card.studentId,
+    size: template.pageSize,
+    orientation: template.orientation,
+    style: styles.page
+  }, ...enabledSections.map(renderSection));
+};
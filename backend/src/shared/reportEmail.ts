@@ -0,0 +1,61 @@
+// Emails that carry a report card or progress report to a student's guardians: the documents that can be sent,
+// the default message and its merge fields. Shared by the report email route (which fills in the fields, so the
+// dry run shows exactly what is sent) and the Reports screen (imported there as @shared/reportEmail).
+// Like gradeCalculation.ts this file must stay free of imports.
+
+export const REPORT_EMAIL_DOCUMENTS = ['reportCard', 'progress'] as const;
+export type ReportEmailDocument = typeof REPORT_EMAIL_DOCUMENTS[number];
+
+export const REPORT_EMAIL_DOCUMENT_NAMES: Record<ReportEmailDocument, string> = {
+  reportCard: 'report card',
+  progress: 'progress report'
+};
+
+export interface ReportEmailContext {
+  guardianName: string;
+  studentName: string;
+  document: ReportEmailDocument;
+  periodLabel?: string | null;
+  schoolName?: string | null;
+  teacherName?: string | null;
+}
+
+export const REPORT_EMAIL_MERGE_FIELDS = [
+  { field: '{guardianName}', description: "The recipient's name" },
+  { field: '{studentName}', description: "The student's full name" },
+  { field: '{firstName}', description: "The student's first name" },
+  { field: '{documentName}', description: 'report card or progress report' },
+  { field: '{periodLabel}', description: 'The reporting period' },
+  { field: '{schoolName}', description: 'Your school name' },
+  { field: '{teacherName}', description: 'Your name' }
+] as const;
+
+export const DEFAULT_REPORT_EMAIL_SUBJECT = '{studentName}: {documentName} for {periodLabel}';
+
+export const DEFAULT_REPORT_EMAIL_BODY = `Dear {guardianName},
+
+Attached is the {documentName} of {firstName} for {periodLabel}.
+
+If you have any questions, simply reply to this email.
+
+Kind regards,
+{teacherName}
+{schoolName}`;
+
+/**
+ * Fills the merge fields of a report email subject or body for one recipient.
+ * Unknown fields are left as typed so a typo is visible in the dry run.
+ */
+export const applyReportEmailFields = (template: string, context: ReportEmailContext): string => {
+  const values: Record<string, string> = {
+    guardianName: context.guardianName,
+    studentName: context.studentName,
+    firstName: context.studentName.trim().split(/\s+/)[0] || context.studentName,
+    documentName: REPORT_EMAIL_DOCUMENT_NAMES[context.document],
+    periodLabel: context.periodLabel || 'this period',
+    schoolName: context.schoolName || '',
+    teacherName: context.teacherName || ''
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+};
@@ -0,0 +1,155 @@
+// Report card layout shared by the metadata route (which sanitizes what it stores) and the React PDF renderer
+// (imported there as @shared/reportTemplate). Like gradeCalculation.ts this file must stay free of imports.
+
+export const REPORT_SECTION_TYPES = ['header', 'studentInfo', 'grades', 'attendance', 'comments', 'gradingScale', 'signatures'] as const;
+export type ReportSectionType = typeof REPORT_SECTION_TYPES[number];
+
+// Page sizes and the standard PDF fonts @react-pdf/renderer ships without registering font files
+export const REPORT_PAGE_SIZES = ['A4', 'LETTER', 'LEGAL'] as const;
+export type ReportPageSize = typeof REPORT_PAGE_SIZES[number];
+
+export const REPORT_FONT_FAMILIES = ['Helvetica', 'Times-Roman', 'Courier'] as const;
+export type ReportFontFamily = typeof REPORT_FONT_FAMILIES[number];
+
+export type ReportOrientation = 'portrait' | 'landscape';
+
+export interface ReportTemplateSection {
+  type: ReportSectionType;
+  enabled: boolean;
+  title: string; // Heading printed above the section; the header uses it as the report title
+}
+
+export interface ReportTemplateBranding {
+  primaryColor: string; // #rrggbb, used for the school name and header rule
+  accentColor: string; // #rrggbb, used for the overall grade
+  logoDataUrl: string | null; // PNG or JPEG data URL printed in the header
+}
+
+export interface ReportTemplateSignatures {
+  teacher: boolean;
+  parent: boolean;
+  principal: boolean;
+  principalName: string;
+  principalTitle: string;
+}
+
+export interface ReportCardTemplate {
+  pageSize: ReportPageSize;
+  orientation: ReportOrientation;
+  fontFamily: ReportFontFamily;
+  fontSize: number; // Body size in points; headings scale from it
+  branding: ReportTemplateBranding;
+  signatures: ReportTemplateSignatures;
+  sections: ReportTemplateSection[]; // Printed in this order
+}
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionType, string> = {
+  header: 'Header',
+  studentInfo: 'Student information',
+  grades: 'Grades table',
+  attendance: 'Attendance',
+  comments: 'Teacher comments',
+  gradingScale: 'Grading scale',
+  signatures: 'Signatures'
+};
+
+export const MIN_REPORT_FONT_SIZE = 8;
+export const MAX_REPORT_FONT_SIZE = 14;
+
+// Data URLs are stored inline in the preferences row, so logos are kept small
+export const MAX_REPORT_LOGO_LENGTH = 400 * 1024;
+
+const MAX_TITLE_LENGTH = 80;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/;
+
+// Matches the fixed layout report cards had before templates existed
+export const DEFAULT_REPORT_TEMPLATE: ReportCardTemplate = {
+  pageSize: 'A4',
+  orientation: 'portrait',
+  fontFamily: 'Helvetica',
+  fontSize: 11,
+  branding: {
+    primaryColor: '#1e40af',
+    accentColor: '#059669',
+    logoDataUrl: null
+  },
+  signatures: {
+    teacher: true,
+    parent: true,
+    principal: false,
+    principalName: '',
+    principalTitle: 'Principal'
+  },
+  sections: [
+    { type: 'header', enabled: true, title: 'Academic Report Card' },
+    { type: 'studentInfo', enabled: true, title: '' },
+    { type: 'grades', enabled: true, title: 'Academic Performance' },
+    { type: 'attendance', enabled: true, title: 'Attendance' },
+    { type: 'comments', enabled: true, title: 'Teacher Comments' },
+    { type: 'gradingScale', enabled: true, title: 'Grading Scale' },
+    { type: 'signatures', enabled: true, title: '' }
+  ]
+};
+
+const pickOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const cleanText = (value: unknown, fallback: string): string =>
+  typeof value === 'string' ? value.trim().slice(0, MAX_TITLE_LENGTH) : fallback;
+
+/**
+ * Turns stored or submitted JSON into a complete template: unknown values fall back to the defaults,
+ * unknown sections are dropped and sections missing from the order are appended disabled.
+ */
+export const normalizeReportTemplate = (input: unknown): ReportCardTemplate => {
+  const source = input && typeof input === 'object' ? input as Record<string, any> : {};
+  const branding = source.branding && typeof source.branding === 'object' ? source.branding : {};
+  const signatures = source.signatures && typeof source.signatures === 'object' ? source.signatures : {};
+  const defaults = DEFAULT_REPORT_TEMPLATE;
+
+  const fontSize = Number(source.fontSize);
+  const logo = typeof branding.logoDataUrl === 'string' && branding.logoDataUrl.length <= MAX_REPORT_LOGO_LENGTH &&
+    LOGO_DATA_URL.test(branding.logoDataUrl)
+    ? branding.logoDataUrl
+    : null;
+
+  const sections: ReportTemplateSection[] = [];
+  (Array.isArray(source.sections) ? source.sections : []).forEach((section: any) => {
+    if (!section || !REPORT_SECTION_TYPES.includes(section.type) || sections.some(s => s.type === section.type)) return;
+    const fallback = defaults.sections.find(s => s.type === section.type)!;
+    sections.push({
+      type: section.type,
+      enabled: typeof section.enabled === 'boolean' ? section.enabled : fallback.enabled,
+      title: cleanText(section.title, fallback.title)
+    });
+  });
+  const hasStoredOrder = sections.length > 0;
+  defaults.sections.forEach(section => {
+    if (!sections.some(s => s.type === section.type)) {
+      sections.push({ ...section, enabled: hasStoredOrder ? false : section.enabled });
+    }
+  });
+
+  return {
+    pageSize: pickOption(source.pageSize, REPORT_PAGE_SIZES, defaults.pageSize),
+    orientation: source.orientation === 'landscape' ? 'landscape' : 'portrait',
+    fontFamily: pickOption(source.fontFamily, REPORT_FONT_FAMILIES, defaults.fontFamily),
+    fontSize: Number.isFinite(fontSize)
+      ? Math.max(MIN_REPORT_FONT_SIZE, Math.min(MAX_REPORT_FONT_SIZE, Math.round(fontSize)))
+      : defaults.fontSize,
+    branding: {
+      primaryColor: HEX_COLOR.test(branding.primaryColor) ? branding.primaryColor : defaults.branding.primaryColor,
+      accentColor: HEX_COLOR.test(branding.accentColor) ? branding.accentColor : defaults.branding.accentColor,
+      logoDataUrl: logo
+    },
+    signatures: {
+      teacher: typeof signatures.teacher === 'boolean' ? signatures.teacher : defaults.signatures.teacher,
+      parent: typeof signatures.parent === 'boolean' ? signatures.parent : defaults.signatures.parent,
+      principal: typeof signatures.principal === 'boolean' ? signatures.principal : defaults.signatures.principal,
+      principalName: cleanText(signatures.principalName, defaults.signatures.principalName),
+      principalTitle: cleanText(signatures.principalTitle, defaults.signatures.principalTitle) || defaults.signatures.principalTitle
+    },
+    sections
+  };
+};
@@ -0,0 +1,143 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Worker } from 'worker_threads';
+import type { ReportCardData } from '../shared/reportCardDocument';
+import type { ReportCardTemplate } from '../shared/reportTemplate';
+import type { ReportCardWorkerInput } from './reportCardWorker';
+
+// In-memory queue of batch report card jobs. Jobs render one at a time in a worker thread so a large class
+// never blocks the API; finished files are kept for a while for download and then dropped.
+
+export type ReportBatchFormat = 'zip' | 'merged';
+export type ReportBatchStatus = 'queued' | 'rendering' | 'done' | 'failed';
+
+interface ReportBatchJob {
+  id: string;
+  userId: string;
+  teacherId: string | null; // Set when a teacher account started the job
+  status: ReportBatchStatus;
+  format: ReportBatchFormat;
+  total: number;
+  completed: number;
+  fileName: string;
+  error: string | null;
+  createdAt: number;
+  input: ReportCardWorkerInput | null; // Released once rendering starts
+  file: Buffer | null;
+}
+
+const JOB_TTL_MS = 30 * 60 * 1000;
+
+const jobs = new Map<string, ReportBatchJob>();
+const queue: string[] = [];
+let isRendering = false;
+
+// Under ts-node (npm run dev) the worker is a .ts file and needs the ts-node hook; the build runs the .js
+const workerPath = path.join(__dirname, `reportCardWorker${path.extname(__filename)}`);
+const workerExecArgv = path.extname(__filename) === '.ts' ? ['--require', 'ts-node/register'] : [];
+
+const pruneExpiredJobs = () => {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  jobs.forEach((job, id) => {
+    if (job.createdAt < cutoff && (job.status === 'done' || job.status === 'failed')) jobs.delete(id);
+  });
+};
+
+// Finished files are large, so they are dropped on a timer rather than only when the next job starts
+setInterval(pruneExpiredJobs, 5 * 60 * 1000).unref();
+
+const renderNext = () => {
+  if (isRendering) return;
+  const job = jobs.get(queue.shift() ?? '');
+  if (!job) {
+    if (queue.length > 0) renderNext();
+    return;
+  }
+
+  isRendering = true;
+  job.status = 'rendering';
+  const worker = new Worker(workerPath, { workerData: job.input, execArgv: workerExecArgv });
+  job.input = null;
+
+  const finish = (error: string | null, file: Buffer | null = null) => {
+    if (job.status !== 'rendering') return;
+    job.status = error ? 'failed' : 'done';
+    job.error = error;
+    job.file = file;
+    isRendering = false;
+    renderNext();
+  };
+
+  worker.on('message', (message: any) => {
+    if (message.type === 'progress') job.completed = message.completed;
+    if (message.type === 'done') finish(null, Buffer.from(message.file));
+    if (message.type === 'error') finish(message.message || 'Rendering failed');
+  });
+  worker.on('error', error => {
+    console.error('Report card worker crashed:', error);
+    finish(error.message || 'Rendering failed');
+  });
+  worker.on('exit', code => {
+    if (code !== 0) finish(`Rendering stopped unexpectedly (exit code ${code})`);
+  });
+};
+
+export const toReportBatchSummary = (job: ReportBatchJob) => ({
+  id: job.id,
+  status: job.status,
+  format: job.format,
+  total: job.total,
+  completed: job.completed,
+  fileName: job.fileName,
+  error: job.error,
+  createdAt: new Date(job.createdAt).toISOString()
+});
+
+/**
+ * Queues a batch of report cards for rendering
+ * @param userId - Owner of the job; only they can poll or download it
+ * @param teacherId - Teacher account that started the job, if any; only that teacher can poll or download it
+ * @param cards - One entry per student, in print order
+ * @param template - Layout shared by every card
+ * @param format - 'zip' for one PDF per student, 'merged' for one PDF with a page per student
+ * @param fileBaseName - Download name without extension
+ */
+export const startReportBatch = (
+  userId: string,
+  teacherId: string | undefined,
+  cards: ReportCardData[],
+  template: ReportCardTemplate,
+  format: ReportBatchFormat,
+  fileBaseName: string
+) => {
+  pruneExpiredJobs();
+
+  const job: ReportBatchJob = {
+    id: randomUUID(),
+    userId,
+    teacherId: teacherId ?? null,
+    status: 'queued',
+    format,
+    total: cards.length,
+    completed: 0,
+    fileName: `${fileBaseName}.${format === 'zip' ? 'zip' : 'pdf'}`,
+    error: null,
+    createdAt: Date.now(),
+    input: { cards, template, format },
+    file: null
+  };
+  jobs.set(job.id, job);
+  queue.push(job.id);
+  renderNext();
+  return job;
+};
+
+export const getReportBatch = (jobId: string, userId: string, teacherId?: string) => {
+  const job = jobs.get(jobId);
+  return job && job.userId === userId && job.teacherId === (teacherId ?? null) ? job : null;
+};
+
+// The file is only needed until it has been downloaded once
+export const releaseReportBatchFile = (jobId: string) => {
+  jobs.delete(jobId);
+};
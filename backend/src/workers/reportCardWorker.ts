@@ -0,0 +1,51 @@
+import { parentPort, workerData } from 'worker_threads';
+import JSZip from 'jszip';
+import { buildReportCardPage, ReportCardData } from '../shared/reportCardDocument';
+import type { ReportCardTemplate } from '../shared/reportTemplate';
+
+// Worker thread entry for batch report cards: renders the PDFs off the request thread and reports progress.
+// Messages: { type: 'progress', completed } per student, then { type: 'done', file } or { type: 'error', message }.
+
+export interface ReportCardWorkerInput {
+  cards: ReportCardData[];
+  template: ReportCardTemplate;
+  format: 'zip' | 'merged';
+}
+
+const toFileName = (name: string) => `${name.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '_') || 'Student'}_Report_Card.pdf`;
+
+const run = async () => {
+  const { cards, template, format } = workerData as ReportCardWorkerInput;
+  const React = await import('react');
+  const renderer = await import('@react-pdf/renderer');
+  const h = React.createElement as (type: any, props?: any, ...children: any[]) => any;
+
+  if (format === 'merged') {
+    const pages = cards.map(card => buildReportCardPage(renderer, h, card, template));
+    const file = await renderer.renderToBuffer(h(renderer.Document, null, ...pages));
+    parentPort.postMessage({ type: 'progress', completed: cards.length });
+    parentPort.postMessage({ type: 'done', file });
+    return;
+  }
+
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  for (const [index, card] of cards.entries()) {
+    const pdf = await renderer.renderToBuffer(h(renderer.Document, null, buildReportCardPage(renderer, h, card, template)));
+
+    // Two students with the same name must not overwrite each other in the archive
+    let fileName = toFileName(card.studentName);
+    if (usedNames.has(fileName)) fileName = fileName.replace(/\.pdf$/, `_${card.studentId.slice(0, 8)}.pdf`);
+    usedNames.add(fileName);
+
+    zip.file(fileName, pdf, { binary: true });
+    parentPort.postMessage({ type: 'progress', completed: index + 1 });
+  }
+
+  const file = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  parentPort.postMessage({ type: 'done', file });
+};
+
+run().catch(error => {
+  parentPort.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+});
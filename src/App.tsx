@@ -18,6 +18,7 @@ import {
 
 import UserAuth, { UserData } from './components/UserAuth.tsx'
 import TeacherSelector from './components/TeacherSelector.tsx'
+import PendingChangesIndicator from './components/PendingChangesIndicator.tsx'
 import { Toaster, toast } from 'sonner'
 import { apiClient } from '@/lib/api'
 import { SchoolYear } from '@/lib/types'
@@ -34,6 +35,7 @@ const AdminDanger = lazy(() => import('@/components/AdminDanger.tsx'))
 const Purchase = lazy(() => import('./components/Purchase.tsx'))
 const VerifyEmail = lazy(() => import('./components/VerifyEmail.tsx'))
 const TeacherSignIn = lazy(() => import('./components/TeacherSignIn.tsx'))
+const StudentPortal = lazy(() => import('./components/StudentPortal.tsx'))
 const PURCHASE_URL = '/purchase'
 const SALES_EMAIL = 'sales@gradeflowapp.com'
 
@@ -235,6 +237,7 @@ function App() {
         <Route path="/purchase" element={<Suspense fallback={tabFallback}><Purchase /></Suspense>} />
         <Route path="/verify-email" element={<Suspense fallback={tabFallback}><VerifyEmail /></Suspense>} />
         <Route path="/teacher-signin" element={<Suspense fallback={tabFallback}><TeacherSignIn /></Suspense>} />
+        <Route path="/portal" element={<Suspense fallback={tabFallback}><StudentPortal /></Suspense>} />
         <Route path="*" element={
           !currentUser ? (
             <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4 gap-8">
@@ -254,6 +257,7 @@ function App() {
                     </div>
                     <div className="flex flex-col items-end gap-1">
                       <TeacherSelector onTeacherChange={handleTeacherChange} />
+                      <PendingChangesIndicator />
                       {isTrialMode && (
                         <Badge variant="secondary" className="text-[11px]">
                           Trial Mode · 100 grade limit
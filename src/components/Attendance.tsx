@@ -195,6 +195,11 @@ export default function Attendance() {
       return
     }
 
+    if (res.queued) {
+      toast.success(`Attendance for ${payload.length} students saved offline – it will sync when you're back online`)
+      return
+    }
+
     toast.success(`Saved attendance for ${payload.length} students`)
     fetchAttendance(selectedDate)
   }
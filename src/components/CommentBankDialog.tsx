@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { PencilSimple, Trash } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { CommentBankEntry, CommentTone } from '@/lib/types'
+import { COMMENT_MERGE_FIELDS, COMMENT_TONES } from '@shared/commentMerge'
+import { COMMENT_TONE_BADGES, COMMENT_TONE_LABELS } from './CommentBankPicker'
+
+interface CommentBankDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bank: CommentBankEntry[]
+  onBankChange: (bank: CommentBankEntry[]) => void
+  subjectNames: string[]
+}
+
+// Select has no empty value, so general comments get their own
+const GENERAL = 'general'
+
+const emptyDraft = { tone: 'positive' as CommentTone, subjectName: GENERAL, text: '' }
+
+// Add, edit and remove the teacher's reusable report card comments
+export default function CommentBankDialog({ open, onOpenChange, bank, onBankChange, subjectNames }: CommentBankDialogProps) {
+  const [draft, setDraft] = useState(emptyDraft)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const textRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setDraft(emptyDraft)
+    setEditingId(null)
+  }, [open])
+
+  // Subjects of this year plus any a saved comment still refers to
+  const subjectOptions = [...new Set([...subjectNames, ...bank.map(entry => entry.subjectName).filter(Boolean) as string[]])].sort()
+
+  const insertField = (field: string) => {
+    const textarea = textRef.current
+    const start = textarea?.selectionStart ?? draft.text.length
+    const end = textarea?.selectionEnd ?? draft.text.length
+    setDraft(prev => ({ ...prev, text: prev.text.slice(0, start) + field + prev.text.slice(end) }))
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(start + field.length, start + field.length)
+    })
+  }
+
+  const startEditing = (entry: CommentBankEntry) => {
+    setEditingId(entry.id)
+    setDraft({ tone: entry.tone, subjectName: entry.subjectName || GENERAL, text: entry.text })
+  }
+
+  const saveEntry = async () => {
+    if (!draft.text.trim()) {
+      toast.error('Comment text is required')
+      return
+    }
+
+    const payload = {
+      tone: draft.tone,
+      subjectName: draft.subjectName === GENERAL ? null : draft.subjectName,
+      text: draft.text.trim()
+    }
+    setIsSaving(true)
+    const response = editingId
+      ? await apiClient.updateCommentBankEntry(editingId, payload)
+      : await apiClient.createCommentBankEntry(payload)
+    setIsSaving(false)
+
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to save comment')
+      return
+    }
+    const saved = response.data
+    onBankChange(editingId ? bank.map(entry => entry.id === editingId ? saved : entry) : [...bank, saved])
+    setDraft(prev => ({ ...emptyDraft, tone: prev.tone, subjectName: prev.subjectName }))
+    setEditingId(null)
+  }
+
+  const deleteEntry = async (entry: CommentBankEntry) => {
+    const response = await apiClient.deleteCommentBankEntry(entry.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    onBankChange(bank.filter(candidate => candidate.id !== entry.id))
+    if (editingId === entry.id) {
+      setEditingId(null)
+      setDraft(emptyDraft)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comment Bank</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Tone</Label>
+                <Select value={draft.tone} onValueChange={(value: CommentTone) => setDraft(prev => ({ ...prev, tone: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMMENT_TONES.map(tone => (
+                      <SelectItem key={tone} value={tone}>{COMMENT_TONE_LABELS[tone]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Subject</Label>
+                <Select value={draft.subjectName} onValueChange={(value) => setDraft(prev => ({ ...prev, subjectName: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GENERAL}>General</SelectItem>
+                    {subjectOptions.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="comment-bank-text">Comment</Label>
+              <Textarea
+                id="comment-bank-text"
+                ref={textRef}
+                value={draft.text}
+                onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+                placeholder="{firstName} has worked hard in {subject} and {his/her} average is {average}."
+                maxLength={2000}
+                rows={3}
+              />
+              <div className="flex flex-wrap gap-1">
+                {COMMENT_MERGE_FIELDS.map(({ field, description }) => (
+                  <button
+                    key={field}
+                    type="button"
+                    title={description}
+                    onClick={() => insertField(field)}
+                    className="rounded border border-border px-1.5 py-0.5 font-mono text-xs hover:bg-muted"
+                  >
+                    {field}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={() => { setEditingId(null); setDraft(emptyDraft) }}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={saveEntry} disabled={isSaving || !draft.text.trim()}>
+                {isSaving ? 'Saving…' : editingId ? 'Save Changes' : 'Add Comment'}
+              </Button>
+            </div>
+          </div>
+
+          {bank.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments yet. Comments you add here can be reused for every student.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-md border border-border">
+              {bank.map(entry => (
+                <div key={entry.id} className="flex items-start justify-between gap-3 p-2">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={COMMENT_TONE_BADGES[entry.tone]}>{COMMENT_TONE_LABELS[entry.tone]}</Badge>
+                      <span className="text-xs text-muted-foreground">{entry.subjectName || 'General'}</span>
+                    </div>
+                    <p className="text-sm">{entry.text}</p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(entry)}>
+                      <PencilSimple size={14} />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteEntry(entry)}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ChatText } from "@phosphor-icons/react"
+import { CommentBankEntry, CommentTone } from '@/lib/types'
+
+interface CommentBankPickerProps {
+  bank: CommentBankEntry[]
+  // Preview of an entry with the student's merge fields filled in
+  renderEntry: (entry: CommentBankEntry) => string
+  onPick: (entry: CommentBankEntry) => void
+  onManage: () => void
+}
+
+export const COMMENT_TONE_LABELS: Record<CommentTone, string> = {
+  positive: 'Positive',
+  neutral: 'Neutral',
+  concern: 'Concern'
+}
+
+export const COMMENT_TONE_BADGES: Record<CommentTone, 'default' | 'secondary' | 'destructive'> = {
+  positive: 'default',
+  neutral: 'secondary',
+  concern: 'destructive'
+}
+
+// Popover listing the teacher's bank comments by subject, already merged for one student
+export default function CommentBankPicker({ bank, renderEntry, onPick, onManage }: CommentBankPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [search, setSearch] = useState('')
+
+  const groups = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    const grouped = new Map<string, CommentBankEntry[]>()
+    bank
+      .filter(entry => !term || entry.text.toLowerCase().includes(term) || entry.subjectName?.toLowerCase().includes(term))
+      .forEach(entry => {
+        const key = entry.subjectName || 'General'
+        grouped.set(key, [...(grouped.get(key) || []), entry])
+      })
+    return [...grouped.entries()]
+  }, [bank, search])
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <ChatText size={14} className="mr-1" />
+          Comment bank
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="end">
+        <div className="space-y-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search comments..."
+            className="h-8"
+          />
+          <div className="max-h-72 space-y-3 overflow-y-auto">
+            {bank.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Your comment bank is empty.</p>
+            ) : groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No comments match.</p>
+            ) : groups.map(([groupName, entries]) => (
+              <div key={groupName} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">{groupName}</p>
+                {entries.map(entry => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => {
+                      onPick(entry)
+                      setIsOpen(false)
+                    }}
+                    className="w-full rounded-md border border-border p-2 text-left text-sm hover:bg-muted"
+                  >
+                    <Badge variant={COMMENT_TONE_BADGES[entry.tone]} className="mb-1 text-[10px]">
+                      {COMMENT_TONE_LABELS[entry.tone]}
+                    </Badge>
+                    <p>{renderEntry(entry)}</p>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => {
+              setIsOpen(false)
+              onManage()
+            }}
+          >
+            Manage comment bank
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -15,8 +15,10 @@ import {
   Clock,
   AlertTriangle
 } from "lucide-react"
-import { Student, Grade, AttendanceRecord, AttendanceStatus, GradingPeriod } from '@/lib/types'
+import { Student, Grade, Subject, AttendanceRecord, AttendanceStatus, GradingPeriod } from '@/lib/types'
+import { calculateSubjectAverage, calculateOverallAverage, isCountedGrade, isDateInRange } from '@shared/gradeCalculation'
 import { toast } from 'sonner'
+import MissingWorkCard from '@/components/MissingWorkCard'
 
 type DashboardSummary = {
   overview?: {
@@ -46,6 +48,7 @@ export default function Dashboard() {
   const [students, setStudents] = useState<Student[]>([])
   const [filteredStudents, setFilteredStudents] = useState<Student[]>([])
   const [grades, setGrades] = useState<Grade[]>([])
+  const [subjectsById, setSubjectsById] = useState<Record<string, Subject>>({})
   const [studentGroups, setStudentGroups] = useState<any[]>([])
   const [dashboardSummary, setDashboardSummary] = useState<DashboardSummary>({})
   const [loading, setLoading] = useState(true)
@@ -203,10 +206,8 @@ export default function Dashboard() {
     return isNaN(raw) ? 0 : raw
   }
 
-  const isCountableGrade = (grade: Grade) => {
-    // Skip grades flagged as skipped or with percentage < 1 (represents skipped/not attempted)
-    return !grade.skipped && getPercentageValue(grade) >= 1
-  }
+  // Excused and incomplete work never counts; missing work counts as zero once it is due
+  const isCountableGrade = (grade: Grade) => isCountedGrade(grade)
 
   const refreshGradingSettings = useCallback(async () => {
     let sortedGradingPeriods: GradingPeriod[] = []
@@ -251,11 +252,7 @@ export default function Dashboard() {
     const dateRange = getDateRangeForPeriod(periodIndex)
     if (!dateRange) return []
 
-    return grades.filter(grade => {
-      if (!grade.date) return false
-      const dateOnly = grade.date.slice(0, 10)
-      return dateOnly >= dateRange.start && dateOnly <= dateRange.end
-    })
+    return grades.filter(grade => isDateInRange(grade.date, dateRange))
   }
 
   const currentPeriodGrades = getFilteredGradesForPeriod(currentGradingPeriod)
@@ -264,6 +261,7 @@ export default function Dashboard() {
   const countablePeriodGrades = useMemo(() => currentPeriodGrades.filter(isCountableGrade), [currentPeriodGrades])
 
   const studentsForDialog = useMemo(() => (filteredStudents.length > 0 ? filteredStudents : students), [filteredStudents, students])
+  const visibleStudentIds = useMemo(() => studentsForDialog.map(student => student.id), [studentsForDialog])
 
   const teacherGroupNames = useMemo(() => {
     if (studentGroups.length === 0) return []
@@ -425,12 +423,14 @@ export default function Dashboard() {
         groupsRes,
         dashboardRes,
         gradesRes,
+        subjectsRes,
       ] = await Promise.all([
         refreshGradingSettings(),
         apiClient.getStudents(),
         apiClient.getStudentGroups(),
         apiClient.getDashboardStats(),
         apiClient.getGrades(),
+        apiClient.getSubjects(),
       ])
 
       const { configuredPeriods } = gradingSettings
@@ -450,6 +450,9 @@ export default function Dashboard() {
         setGrades(Array.isArray(gradesRes.data) ? gradesRes.data : [])
       }
 
+      const subjectsData: Subject[] = Array.isArray(subjectsRes.data) ? subjectsRes.data : []
+      setSubjectsById(Object.fromEntries(subjectsData.map(subject => [subject.id, subject])))
+
       // Set current grading period to 1 by default
       setCurrentGradingPeriod(prev => Math.min(Math.max(1, prev || 1), configuredPeriods))
 
@@ -834,18 +837,26 @@ export default function Dashboard() {
   const totalStudents = Number(dashboardSummary.overview?.total_students ?? students.length)
   const totalSubjects = Number(dashboardSummary.overview?.total_subjects ?? 0)
   const totalTeachers = Number(dashboardSummary.overview?.total_teachers ?? 0)
+  // Weighted average per subject for the current grading period, then the mean across subjects
+  const getStudentPeriodAverage = (studentId: string) => {
+    const studentGrades = countablePeriodGrades.filter(g => g.studentId === studentId)
+    const subjectIds = [...new Set(studentGrades.map(g => g.subjectId).filter((id): id is string => Boolean(id)))]
+    return calculateOverallAverage(subjectIds.map(subjectId => {
+      const subjectGrades = studentGrades
+        .filter(g => g.subjectId === subjectId)
+        .map(g => ({ ...g, order: g.orderIndex }))
+      return calculateSubjectAverage(subjectGrades, subjectsById[subjectId]?.weights, subjectsById[subjectId]?.policies, subjectsById[subjectId]?.latePolicy).average
+    }))
+  }
+  const studentPeriodAverages = students.map(student => ({ student, average: getStudentPeriodAverage(student.id) }))
+
   // Calculate class average for current grading period
-  const averageGrade = countablePeriodGrades.length > 0 
-    ? countablePeriodGrades.reduce((sum, grade) => sum + getPercentageValue(grade), 0) / countablePeriodGrades.length
-    : 0
+  const averageGrade = calculateOverallAverage(studentPeriodAverages.map(entry => entry.average)) ?? 0
 
   // Students at risk based on current grading period
-  const studentsAtRisk = students.filter(student => {
-    const studentGrades = countablePeriodGrades.filter(g => g.studentId === student.id)
-    if (studentGrades.length === 0) return false
-    const studentAverage = studentGrades.reduce((sum, grade) => sum + getPercentageValue(grade), 0) / studentGrades.length
-    return studentAverage < 70
-  })
+  const studentsAtRisk = studentPeriodAverages
+    .filter(entry => entry.average !== null && entry.average < 70)
+    .map(entry => entry.student)
 
   // Students at risk based on current grading period
   const recentGrades = Array.isArray(dashboardSummary.recentActivity)
@@ -1074,6 +1085,8 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <MissingWorkCard studentIds={visibleStudentIds} />
+
       <Dialog open={attendanceDialogOpen} onOpenChange={(open) => {
         if (open) {
           const newToday = formatLocalISO(new Date())
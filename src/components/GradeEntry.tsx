@@ -8,9 +8,18 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { Table, X, Keyboard, Percent, PencilSimple, Plus, Trash } from "@phosphor-icons/react"
-import { Student, Subject, Lesson, Grade } from '@/lib/types'
+import { Textarea } from "@/components/ui/textarea"
+import { Table, X, Keyboard, Percent, PencilSimple, Plus, Trash, ArrowCounterClockwise, ArrowClockwise, DownloadSimple, Upload, User } from "@phosphor-icons/react"
+import { Student, Subject, Lesson, Grade, GradingScale, GradeRevertBatch, GradeSnapshot, BulkGradeEntry, BulkGradeResult } from '@/lib/types'
+import { EMPTY_UNDO_HISTORY, UndoEntry, UndoHistory, countGradeChanges, gradeToSnapshot, isSameGradeSnapshot, lessonToSnapshot, pushUndoEntry } from '@/lib/gradeUndo'
+import { getPercentageForBandLabel, resolveGradingScaleBands } from '@/lib/gradingScales'
+import { GRADE_STATUS_BADGE_CLASSES, GRADE_STATUS_LABELS, GRADE_STATUS_SHORTCUTS, isUnscoredStatus } from '@/lib/gradeStatus'
+import { getDaysLate, getLatePenalty, isLateGrade } from '@shared/gradeCalculation'
+import type { GradeStatus, LatePolicy } from '@shared/gradeCalculation'
 import { toast } from 'sonner'
+import GradeHistoryPopover from '@/components/GradeHistoryPopover'
+import GradebookExportDialog from '@/components/GradebookExportDialog'
+import GradeImportDialog from '@/components/GradeImportDialog'
 
 // Helper function to round percentage to nearest 0.5%
 const roundToNearestHalf = (percentage: number): number => {
@@ -27,14 +36,28 @@ const formatPercentage = (percentage: number): string => {
   return percentage.toFixed(1);
 };
 
+// A missing, excused or incomplete mark saved without a score
+const isStatusOnlyGrade = (grade: Grade): boolean =>
+  isUnscoredStatus(grade.status) && (grade.percentage === null || grade.percentage === undefined);
+
+// Days late and the percentage points the subject's late policy takes off; null for work handed in on time
+const getLateInfo = (grade: Grade, dueDate: string | undefined, latePolicy?: LatePolicy | null) => {
+  const input = { percentage: grade.percentage, status: grade.status, dueDate, submittedAt: grade.submittedAt };
+  if (!isLateGrade(input)) return null;
+  return { daysLate: getDaysLate(dueDate, grade.submittedAt), penalty: getLatePenalty(input, latePolicy) };
+};
+
 export default function GradeEntry() {
   const [students, setStudents] = useState<Student[]>([])
   const [filteredStudents, setFilteredStudents] = useState<Student[]>([])
   const [subjects, setSubjects] = useState<Subject[]>([])
   const [filteredSubjects, setFilteredSubjects] = useState<Subject[]>([])
   const [studentGroups, setStudentGroups] = useState<any[]>([])
+  const [showExportDialog, setShowExportDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
   const [grades, setGrades] = useState<Grade[]>([])
   const [gradeCategoryTypes, setGradeCategoryTypes] = useState<any[]>([])
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([])
   const [loadingInitialData, setLoadingInitialData] = useState<boolean>(true)
 
   // Refactor to use normalized table system
@@ -48,7 +71,7 @@ export default function GradeEntry() {
   const [gradeValues, setGradeValues] = useState<Record<string, string>>({})
   const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null)
   const [entryMode, setEntryMode] = useState<'percentage' | 'errors'>('percentage')
-  const [activeView, setActiveView] = useState<'entry' | 'table'>('entry')
+  const [activeView, setActiveView] = useState<'entry' | 'table' | 'student'>('entry')
   const [lessonPoints, setLessonPoints] = useState<string>("")
   const [lessonDate, setLessonDate] = useState<string>("")
   const [lessonDatePrefilled, setLessonDatePrefilled] = useState<boolean>(false)
@@ -122,6 +145,9 @@ export default function GradeEntry() {
         if (categoryTypesRes.data) {
           setGradeCategoryTypes(Array.isArray(categoryTypesRes.data) ? categoryTypesRes.data : [])
         }
+
+        const scalesRes = await apiClient.getGradingScales()
+        setGradingScales(Array.isArray(scalesRes.data) ? scalesRes.data : [])
       } catch (error) {
         console.error('Failed to load initial data', error)
         toast.error('An unexpected error occurred while fetching data.')
@@ -162,6 +188,13 @@ export default function GradeEntry() {
 
   // Inline editing state
   const [editingCell, setEditingCell] = useState<{ studentId: string; lessonId: string } | null>(null)
+  // Cells filled by the last paste into the table, keyed studentId:lessonId, with the error for cells that weren't saved
+  const [pastedCells, setPastedCells] = useState<Record<string, string | null> | null>(null)
+  // Student view state: the student whose lessons are shown, their typed values by lesson id and the input per lesson
+  const [studentViewStudentId, setStudentViewStudentId] = useState('')
+  const [studentViewValues, setStudentViewValues] = useState<Record<string, string>>({})
+  const [studentViewFocusPending, setStudentViewFocusPending] = useState(false)
+  const studentViewRefs = useRef<Record<string, HTMLInputElement>>({})
   const [editingLesson, setEditingLesson] = useState<string | null>(null)
   const [lessonEditFocusOnPoints, setLessonEditFocusOnPoints] = useState<boolean>(false)
   const [tempGradeValue, setTempGradeValue] = useState<string>("")
@@ -169,6 +202,12 @@ export default function GradeEntry() {
   const [subjectLessons, setSubjectLessons] = useState<Record<string, Lesson[]>>({});
   const [loadingLessons, setLoadingLessons] = useState<{ [subjectId: string]: boolean }>({});
   const [subjectSelectOpen, setSubjectSelectOpen] = useState(false);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY);
+  const [isApplyingHistory, setIsApplyingHistory] = useState(false);
+  const [noteDialog, setNoteDialog] = useState<{ studentId: string; lessonId: string; notes: string; submittedAt: string } | null>(null);
+  // Optional reason stored in the grade history with every change; a ref so keyboard-triggered saves see the latest text
+  const [changeReason, setChangeReason] = useState('');
+  const changeReasonRef = useRef('');
   const [shouldFocusFirstStudent, setShouldFocusFirstStudent] = useState<boolean>(false);
 
   // Lesson editing state
@@ -349,7 +388,7 @@ export default function GradeEntry() {
   };
 
   // Function to switch between entry and table modes while preserving current selection
-  const switchViewMode = (newMode: 'entry' | 'table') => {
+  const switchViewMode = (newMode: 'entry' | 'table' | 'student') => {
     const currentMode = activeView;
     if (currentMode === newMode) return; // No change needed
     
@@ -379,6 +418,14 @@ export default function GradeEntry() {
     
     // Switch the mode
     setActiveView(newMode);
+
+    if (newMode === 'student') {
+      // The student view starts at the student in focus and finds their first ungraded lesson itself
+      const studentId = currentStudentId || studentViewStudentId || filteredStudents[0]?.id || '';
+      selectStudentForStudentView(studentId);
+      toast.success('Switched to student mode');
+      return;
+    }
     
     // Focus appropriate cell/input in new mode after a brief delay
     setTimeout(() => {
@@ -441,6 +488,11 @@ export default function GradeEntry() {
         return; // Let input field handle the key
       }
 
+      // The student view spans subjects, so only the mode and view switches apply there
+      if (activeView === 'student' && keyboardEvent.key !== 'F1' && keyboardEvent.key !== 'F2') {
+        return;
+      }
+
       switch (keyboardEvent.key) {
         case ' ': {
           if (keyboardEvent.shiftKey) {
@@ -780,6 +832,112 @@ export default function GradeEntry() {
     }, 100)
   }
 
+  // Undo/redo history for this session
+  const recordHistory = (entry: UndoEntry) => {
+    setUndoHistory(prev => pushUndoEntry(prev, entry))
+  }
+
+  const recordGradeEdit = (studentId: string, lessonId: string, before: GradeSnapshot | null, after: GradeSnapshot | null) => {
+    if (isSameGradeSnapshot(before, after)) return
+    // The student view edits lessons of every subject, not just the selected one
+    const lessonName = Object.values(subjectLessons).flat().find(l => l.id === lessonId)?.name || 'lesson'
+    recordHistory({
+      label: `grades in ${lessonName}`,
+      mergeKey: `grades:${lessonId}`,
+      undo: { grades: [{ studentId, lessonId, grade: before }], reason: 'Undo' },
+      redo: { grades: [{ studentId, lessonId, grade: after }], reason: 'Redo' }
+    })
+  }
+
+  const recordLessonInsert = (lesson: Lesson, subjectId: string, orderIndex: number) => {
+    recordHistory({
+      label: `new lesson ${lesson.name}`,
+      undo: { removeLessonIds: [lesson.id] },
+      redo: { lessons: [lessonToSnapshot(lesson, subjectId, orderIndex)] }
+    })
+  }
+
+  // Refetches grades and the selected subject's lessons after a server-side change to many of them
+  const reloadGradesAndLessons = async () => {
+    const gradesRes = await apiClient.getGrades()
+    if (Array.isArray(gradesRes.data)) {
+      setGrades(gradesRes.data)
+    }
+
+    if (selectedSubjectId) {
+      const lessonsRes = await apiClient.getLessonsForSubject(selectedSubjectId)
+      const lessonsData: Lesson[] = Array.isArray(lessonsRes.data) ? lessonsRes.data : []
+      // Other subjects refetch their lessons when selected again
+      setSubjectLessons({ [selectedSubjectId]: lessonsData })
+      if (selectedLessonId && !lessonsData.some(l => l.id === selectedLessonId)) {
+        setSelectedLessonId(lessonsData[lessonsData.length - 1]?.id || '')
+      }
+    }
+  }
+
+  const applyHistoryBatch = async (batch: GradeRevertBatch) => {
+    const response = await apiClient.revertGradeChanges(batch)
+    if (response.error) {
+      toast.error(response.error)
+      return false
+    }
+
+    await reloadGradesAndLessons()
+    return true
+  }
+
+  const describeEntry = (entry: UndoEntry) => {
+    const gradeCount = countGradeChanges(entry)
+    return gradeCount > 1 ? `${entry.label} (${gradeCount} grades)` : entry.label
+  }
+
+  const undoLastChange = async () => {
+    const entry = undoHistory.undo[undoHistory.undo.length - 1]
+    if (!entry || isApplyingHistory) return
+
+    setIsApplyingHistory(true)
+    const applied = await applyHistoryBatch(entry.undo)
+    setIsApplyingHistory(false)
+    if (!applied) return
+
+    setUndoHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }))
+    toast.success(`Undid ${describeEntry(entry)}`)
+  }
+
+  const redoLastChange = async () => {
+    const entry = undoHistory.redo[undoHistory.redo.length - 1]
+    if (!entry || isApplyingHistory) return
+
+    setIsApplyingHistory(true)
+    const applied = await applyHistoryBatch(entry.redo)
+    setIsApplyingHistory(false)
+    if (!applied) return
+
+    setUndoHistory(prev => ({ undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }))
+    toast.success(`Redid ${describeEntry(entry)}`)
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); dialogs keep the browser's own text undo
+  useEffect(() => {
+    const handleUndoKeys = (event: globalThis.KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const key = event.key.toLowerCase()
+      if (key !== 'z' && key !== 'y') return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('[role="dialog"]') || target?.tagName === 'TEXTAREA') return
+
+      event.preventDefault()
+      if (key === 'y' || event.shiftKey) {
+        redoLastChange()
+      } else {
+        undoLastChange()
+      }
+    }
+
+    document.addEventListener('keydown', handleUndoKeys)
+    return () => document.removeEventListener('keydown', handleUndoKeys)
+  })
+
   // Lesson editing functions
   const normalizeDateInput = (value?: string | null) => {
     if (!value) return ''
@@ -809,6 +967,9 @@ export default function GradeEntry() {
       if (updated.date !== undefined) {
         updateData.date = updated.date || null;
       }
+      if (updated.dueDate !== undefined) {
+        updateData.dueDate = updated.dueDate || null;
+      }
       
       await apiClient.updateLesson(editLessonDialog.lesson.id, updateData)
       
@@ -900,6 +1061,7 @@ export default function GradeEntry() {
         // Select the newly added lesson
         if (lessonsData.length > 0) {
           const newLesson = lessonsData[0]
+          recordLessonInsert(newLesson, selectedSubjectId, Number(newLesson.order_index ?? 0))
           setSelectedLessonId(newLesson.id)
           // Open editor for customization
           editLesson(newLesson, selectedSubjectId)
@@ -992,6 +1154,8 @@ export default function GradeEntry() {
           const finalLessonsData = Array.isArray(finalRes.data) ? finalRes.data : []
           setSubjectLessons(prev => ({ ...prev, [selectedSubjectId]: finalLessonsData }))
           
+          recordLessonInsert(newLesson, selectedSubjectId, selectedLessonIndex + 1)
+
           // Select the new lesson and open editor for customization
           setSelectedLessonId(newLesson.id)
           editLesson(newLesson, selectedSubjectId)
@@ -1022,6 +1186,7 @@ export default function GradeEntry() {
 
         // Find and select the newly added lesson
         if (newLesson) {
+          recordLessonInsert(newLesson, selectedSubjectId, Number(newLesson.order_index ?? lessonsData.length - 1))
           setSelectedLessonId(newLesson.id)
         }
       }
@@ -1142,6 +1307,11 @@ export default function GradeEntry() {
     }
   }, [selectedLessonId, selectedSubjectId, subjectLessons]);
 
+  // Paste marks belong to the table they were pasted into
+  useEffect(() => {
+    setPastedCells(null);
+  }, [selectedSubjectId, activeView]);
+
   // Persist selected subject and lesson to localStorage
   useEffect(() => {
     if (selectedSubjectId) {
@@ -1188,19 +1358,20 @@ export default function GradeEntry() {
   }, [shouldFocusFirstStudent, selectedLessonId, enrolledStudents, activeView, grades, entryMode]);
 
   // Handle fraction entry and auto-set lesson points
-  const processFractionEntry = (value: string, lessonId: string) => {
+  const processFractionEntry = (value: string, lessonId: string, announce = true, subjectId = selectedSubjectId) => {
     const fractionMatch = value.match(/^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/)
     if (fractionMatch) {
       const points = parseFloat(fractionMatch[1])
       const maxPoints = parseFloat(fractionMatch[2])
       
       // Auto-update lesson max points if different
-      const currentMaxPoints = selectedLesson ? (selectedLesson.points || selectedLesson.maxPoints) : undefined;
-      if (selectedLesson && currentMaxPoints !== maxPoints) {
+      const lesson = (subjectLessons[subjectId] || []).find(l => l.id === lessonId) || selectedLesson;
+      const currentMaxPoints = lesson ? (lesson.points || lesson.maxPoints) : undefined;
+      if (lesson && currentMaxPoints !== maxPoints) {
         // Update subjectLessons state
         setSubjectLessons(current => ({
           ...current,
-          [selectedSubjectId]: current[selectedSubjectId]?.map(lesson =>
+          [subjectId]: current[subjectId]?.map(lesson =>
             lesson.id === lessonId
               ? { ...lesson, points: maxPoints }
               : lesson
@@ -1210,7 +1381,7 @@ export default function GradeEntry() {
         // Also update subjects state if it has lessons
         setSubjects(current => 
           current.map(subject => 
-            subject.id === selectedSubjectId && subject.lessons
+            subject.id === subjectId && subject.lessons
               ? {
                   ...subject,
                   lessons: subject.lessons.map(lesson =>
@@ -1222,7 +1393,7 @@ export default function GradeEntry() {
               : subject
           )
         );
-        toast.success(`Auto-updated lesson max points to ${maxPoints}`)
+        if (announce) toast.success(`Auto-updated lesson max points to ${maxPoints}`)
       }
       
       return points
@@ -1230,23 +1401,28 @@ export default function GradeEntry() {
     return null
   }
 
-  // Handle letter grade conversion
-  const processLetterGrade = (value: string): number | null => {
-    const letterGradeMap: Record<string, number> = {
-      'A+': 98.5, 'A': 95, 'A-': 91.5,
-      'B+': 88.5, 'B': 85, 'B-': 81.5,
-      'C+': 78.5, 'C': 75, 'C-': 71.5,
-      'D+': 68.5, 'D': 65, 'D-': 61.5,
-      'F': 50
-    };
+  // Handle letter grade conversion using the subject's grading scale
+  const processLetterGrade = (value: string, subject: Subject | undefined = selectedSubject): number | null => {
+    // Numeric input is a percentage or error count, even on scales with numeric labels (e.g. 1–4)
+    if (value.trim() === '' || !isNaN(Number(value.trim()))) return null;
 
-    const upperValue = value.toUpperCase().trim();
-    return letterGradeMap[upperValue] || null;
+    const bands = resolveGradingScaleBands(gradingScales, subject?.grading_scale_id);
+    return getPercentageForBandLabel(value, bands);
   }
 
   const handleKeyNavigation = (e: KeyboardEvent, studentId: string, studentIndex: number) => {
     const totalStudents = displayedStudents.length
     const index = displayedStudentIndex.get(studentId) ?? studentIndex
+
+    if (e.altKey && selectedLessonId) {
+      const status = GRADE_STATUS_SHORTCUTS[e.code]
+      if (status || e.code === 'KeyN') {
+        e.preventDefault()
+        if (status) applyGradeStatus(studentId, selectedLessonId, status)
+        else openNoteDialog(studentId, selectedLessonId)
+        return
+      }
+    }
     
     switch (e.key) {
       case 'ArrowUp':
@@ -1346,6 +1522,13 @@ export default function GradeEntry() {
     }
   }
 
+  const updateChangeReason = (value: string) => {
+    changeReasonRef.current = value
+    setChangeReason(value)
+  }
+
+  const getChangeReason = () => changeReasonRef.current.trim() || undefined
+
   const updateGradeValue = (studentId: string, value: string) => {
     setGradeValues(prev => ({ ...prev, [studentId]: value }))
   }
@@ -1355,7 +1538,19 @@ export default function GradeEntry() {
     
     try {
       // Update the backend first
-      await apiClient.updateLesson(selectedLessonId, { points: newMaxPoints });
+      const previousPoints = Number(selectedLesson.points || selectedLesson.maxPoints || 0);
+      const response = await apiClient.updateLesson(selectedLessonId, { points: newMaxPoints });
+      if (response.error) {
+        toast.error(response.error);
+        return;
+      }
+      if (!response.queued && previousPoints > 0 && previousPoints !== newMaxPoints) {
+        recordHistory({
+          label: `max points of ${selectedLesson.name}`,
+          undo: { lessonPoints: [{ lessonId: selectedLessonId, points: previousPoints }] },
+          redo: { lessonPoints: [{ lessonId: selectedLessonId, points: newMaxPoints }] }
+        });
+      }
       
       // Update subjectLessons state (primary source)
       setSubjectLessons(current => ({
@@ -1446,11 +1641,37 @@ export default function GradeEntry() {
     ? (selectedLesson.points || selectedLesson.maxPoints || 0).toString()
     : "0";
 
-  // Save all pending grades for the current lesson
+  // The grid's copy of a grade saved through POST /grades/bulk
+  const bulkEntryToGrade = (
+    entry: BulkGradeEntry,
+    saved: BulkGradeResult['grade'],
+    existingGrade: Grade | undefined,
+    skipped: boolean,
+    subjectId = selectedSubjectId
+  ): Grade => ({
+    id: saved?.id || `${entry.studentId}-${entry.lessonId}`,
+    studentId: entry.studentId,
+    lessonId: entry.lessonId,
+    subjectId,
+    percentage: Number(entry.percentage ?? 0),
+    points: Number(entry.points ?? 0) - Number(entry.errors ?? 0),
+    maxPoints: Number(entry.points ?? 0),
+    errors: Number(entry.errors ?? 0),
+    date: new Date().toISOString(),
+    status: saved?.status || entry.status,
+    notes: saved?.notes ?? undefined,
+    submittedAt: saved?.submitted_at ?? existingGrade?.submittedAt ?? null,
+    skipped,
+    created_at: saved?.created_at,
+    updated_at: saved?.updated_at
+  } as Grade);
+
+  // Save all pending grades for the current lesson in one bulk request
   const saveAllPendingGrades = async () => {
     if (!selectedLessonId) return;
     
-    const savePromises = [];
+    const entries: BulkGradeEntry[] = [];
+    const skippedStudentIds = new Set<string>();
     
     // Find all students with unsaved grade values
     for (const studentId of Object.keys(gradeValues)) {
@@ -1463,23 +1684,341 @@ export default function GradeEntry() {
         const existingValue = getGradeDisplayValue(existingGrade);
         
         if (currentValue !== existingValue) {
-          savePromises.push(saveGrade(studentId));
+          const parsed = parseGradeInput(currentValue);
+          if (parsed && 'gradeData' in parsed) {
+            entries.push({ studentId, lessonId: selectedLessonId, ...parsed.gradeData });
+            if (currentValue.toLowerCase() === 's') skippedStudentIds.add(studentId);
+          }
         }
       }
     }
     
-    // Save all grades in parallel
-    if (savePromises.length > 0) {
-      try {
-        await Promise.all(savePromises);
-        console.log(`Auto-saved ${savePromises.length} pending grades before lesson switch`);
-      } catch (error) {
-        console.error('Error auto-saving grades:', error);
-        toast.error('Failed to save some grades before switching lessons');
+    if (entries.length === 0) return;
+
+    await ensureLessonDateForActiveLesson('grade');
+    const response = await apiClient.bulkSetGrades(entries, getChangeReason());
+    if (response.error) {
+      console.error('Error auto-saving grades:', response.error);
+      toast.error('Failed to save some grades before switching lessons');
+      return;
+    }
+
+    // Results come back in request order
+    const results = response.data?.results || [];
+    const savedEntries = response.queued
+      ? entries
+      : entries.filter((_, index) => results[index] && results[index].status !== 'error');
+    const savedGrades: Grade[] = savedEntries.map(entry => {
+      const saved = results[entries.indexOf(entry)]?.grade;
+      const existingGrade = grades.find(g => g.studentId === entry.studentId && g.lessonId === entry.lessonId);
+      if (!response.queued) {
+        recordGradeEdit(entry.studentId, entry.lessonId, gradeToSnapshot(existingGrade), gradeToSnapshot(saved));
+      }
+      return bulkEntryToGrade(entry, saved, existingGrade, skippedStudentIds.has(entry.studentId));
+    });
+
+    setGrades(current => [
+      ...current.filter(g => !savedGrades.some(saved => saved.studentId === g.studentId && saved.lessonId === g.lessonId)),
+      ...savedGrades
+    ]);
+
+    const failedResults = results.filter(result => result.status === 'error');
+    if (failedResults.length > 0) {
+      toast.error(`${failedResults.length} ${failedResults.length === 1 ? 'grade' : 'grades'} could not be saved`, {
+        description: failedResults[0].error
+      });
+    } else if (response.queued) {
+      toast.success(`${entries.length} grades saved offline – they will sync when you're back online`);
+    }
+    console.log(`Auto-saved ${savedGrades.length} pending grades before lesson switch`);
+  };
+
+  // Pastes a tab-separated block (rows of students, columns of lessons, as copied from a spreadsheet) into the table
+  // from the given cell down and to the right. Each value is read like typed input; empty values leave the cell alone.
+  // Everything valid saves in one bulk request and the pasted cells stay marked, with the reason on any that failed.
+  const pasteGradeBlock = async (text: string, startStudentId: string, startLessonId: string) => {
+    const lessons = [...(subjectLessons[selectedSubjectId] || [])].sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+    const startRow = displayedStudents.findIndex(s => s.id === startStudentId);
+    const startCol = lessons.findIndex(l => l.id === startLessonId);
+    if (startRow === -1 || startCol === -1) return;
+
+    const block = text.replace(/(\r?\n)+$/, '').split(/\r?\n/).map(line => line.split('\t'));
+    const cellResults: Record<string, string | null> = {};
+    const entries: BulkGradeEntry[] = [];
+    const skippedKeys = new Set<string>();
+    let outsideGrid = 0;
+
+    block.forEach((values, rowOffset) => {
+      values.forEach((rawValue, colOffset) => {
+        const value = rawValue.trim();
+        if (!value) return;
+        const student = displayedStudents[startRow + rowOffset];
+        const lesson = lessons[startCol + colOffset];
+        if (!student || !lesson) {
+          outsideGrid++;
+          return;
+        }
+
+        const key = `${student.id}:${lesson.id}`;
+        const parsed = parseGradeInput(value, lesson, false);
+        if (!parsed) {
+          cellResults[key] = `"${value}" is not a grade`;
+        } else if ('error' in parsed) {
+          cellResults[key] = parsed.error;
+        } else {
+          cellResults[key] = null;
+          entries.push({ studentId: student.id, lessonId: lesson.id, ...parsed.gradeData });
+          if (value.toLowerCase() === 's') skippedKeys.add(key);
+        }
+      });
+    });
+
+    setPastedCells(cellResults);
+    if (outsideGrid > 0) {
+      toast.warning(`${outsideGrid} pasted ${outsideGrid === 1 ? 'value falls' : 'values fall'} outside the table and ${outsideGrid === 1 ? 'was' : 'were'} left out`);
+    }
+    if (entries.length === 0) {
+      if (Object.keys(cellResults).length > 0) toast.error('None of the pasted values could be read as grades');
+      return;
+    }
+
+    await ensureLessonDateForActiveLesson('grade');
+    const response = await apiClient.bulkSetGrades(entries, getChangeReason());
+    if (response.error) {
+      toast.error(`Failed to save the pasted grades: ${response.error}`);
+      setPastedCells(current => ({
+        ...current,
+        ...Object.fromEntries(entries.map(entry => [`${entry.studentId}:${entry.lessonId}`, response.error || 'Not saved']))
+      }));
+      return;
+    }
+
+    const results = response.data?.results || [];
+    const undoGrades: NonNullable<GradeRevertBatch['grades']> = [];
+    const redoGrades: NonNullable<GradeRevertBatch['grades']> = [];
+    const savedGrades: Grade[] = [];
+    entries.forEach((entry, index) => {
+      const key = `${entry.studentId}:${entry.lessonId}`;
+      const result = results[index];
+      if (!response.queued && (!result || result.status === 'error')) {
+        cellResults[key] = result?.error || 'Not saved';
+        return;
       }
+      const existingGrade = grades.find(g => g.studentId === entry.studentId && g.lessonId === entry.lessonId);
+      if (!response.queued && !isSameGradeSnapshot(gradeToSnapshot(existingGrade), gradeToSnapshot(result.grade))) {
+        undoGrades.push({ studentId: entry.studentId, lessonId: entry.lessonId, grade: gradeToSnapshot(existingGrade) });
+        redoGrades.push({ studentId: entry.studentId, lessonId: entry.lessonId, grade: gradeToSnapshot(result.grade) });
+      }
+      savedGrades.push(bulkEntryToGrade(entry, result?.grade, existingGrade, skippedKeys.has(key)));
+    });
+
+    setGrades(current => [
+      ...current.filter(g => !savedGrades.some(saved => saved.studentId === g.studentId && saved.lessonId === g.lessonId)),
+      ...savedGrades
+    ]);
+    setPastedCells({ ...cellResults });
+    if (undoGrades.length > 0) {
+      recordHistory({
+        label: 'pasted grades',
+        undo: { grades: undoGrades, reason: 'Undo' },
+        redo: { grades: redoGrades, reason: 'Redo' }
+      });
+    }
+
+    const failed = Object.values(cellResults).filter(Boolean).length;
+    const savedText = response.queued
+      ? `${savedGrades.length} pasted grades saved offline – they will sync when you're back online`
+      : `Pasted ${savedGrades.length} ${savedGrades.length === 1 ? 'grade' : 'grades'}`;
+    if (failed > 0) {
+      toast.error(`${savedText}; ${failed} ${failed === 1 ? 'cell has' : 'cells have'} errors`, {
+        description: 'Hover a marked cell to see why'
+      });
+    } else {
+      toast.success(savedText);
     }
   };
 
+  // Student view: every lesson of the chosen student's subjects, in subject then lesson order
+  const studentViewStudent = filteredStudents.find(s => s.id === studentViewStudentId)
+  const studentViewSubjects = useMemo(() => filteredSubjects
+    .filter(subject => studentViewStudent?.subjects?.includes(subject.id))
+    .sort((a, b) => a.name.localeCompare(b.name)), [filteredSubjects, studentViewStudent])
+  const studentViewLessons = useMemo(() => studentViewSubjects.flatMap(subject =>
+    [...(subjectLessons[subject.id] || [])]
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+      .map(lesson => ({ subject, lesson }))
+  ), [studentViewSubjects, subjectLessons])
+  const studentViewLessonsLoaded = studentViewSubjects.every(subject => subjectLessons[subject.id])
+
+  // The grid only keeps the selected subject's lessons, so fetch the others the student takes
+  useEffect(() => {
+    if (activeView !== 'student') return
+    studentViewSubjects
+      .filter(subject => !subjectLessons[subject.id] && !loadingLessons[subject.id])
+      .forEach(async subject => {
+        setLoadingLessons(prev => ({ ...prev, [subject.id]: true }))
+        try {
+          const res = await apiClient.getLessonsForSubject(subject.id)
+          setSubjectLessons(prev => ({ ...prev, [subject.id]: Array.isArray(res.data) ? res.data : [] }))
+        } catch (error) {
+          console.error('Failed to fetch lessons for subject:', error)
+          toast.error(`Failed to load lessons for ${subject.name}`)
+        } finally {
+          setLoadingLessons(prev => ({ ...prev, [subject.id]: false }))
+        }
+      })
+  }, [activeView, studentViewSubjects, subjectLessons])
+
+  const studentViewDisplayValue = (lessonId: string) =>
+    getGradeDisplayValue(grades.find(g => g.studentId === studentViewStudentId && g.lessonId === lessonId))
+
+  // A new student, entry mode or undo/redo starts from the saved grades; lessons loading later only add their own values
+  useEffect(() => {
+    if (isApplyingHistory) return
+    setStudentViewValues(Object.fromEntries(studentViewLessons.map(({ lesson }) => [lesson.id, studentViewDisplayValue(lesson.id)])))
+  }, [studentViewStudentId, entryMode, isApplyingHistory])
+
+  useEffect(() => {
+    setStudentViewValues(prev => {
+      const missing = studentViewLessons.filter(({ lesson }) => !(lesson.id in prev))
+      if (missing.length === 0) return prev
+      return { ...prev, ...Object.fromEntries(missing.map(({ lesson }) => [lesson.id, studentViewDisplayValue(lesson.id)])) }
+    })
+  }, [studentViewLessons])
+
+  // Focuses the first lesson after the given row that has no grade yet, wrapping around; skipLessonId was just graded
+  const focusNextUngradedLesson = (afterIndex: number, skipLessonId?: string) => {
+    const count = studentViewLessons.length
+    for (let step = 1; step <= count; step++) {
+      const { lesson } = studentViewLessons[(afterIndex + step + count) % count]
+      const graded = lesson.id === skipLessonId ||
+        (studentViewValues[lesson.id] || '').trim() !== '' ||
+        grades.some(g => g.studentId === studentViewStudentId && g.lessonId === lesson.id)
+      if (!graded) {
+        studentViewRefs.current[lesson.id]?.focus()
+        return
+      }
+    }
+    if (count > 0) toast.info(`Every lesson is graded for ${studentViewStudent?.name || 'this student'}`)
+  }
+
+  // Picking a student jumps to their first ungraded lesson once every subject's lessons are in
+  useEffect(() => {
+    if (!studentViewFocusPending || activeView !== 'student' || !studentViewLessonsLoaded) return
+    setStudentViewFocusPending(false)
+    setTimeout(() => focusNextUngradedLesson(-1), 0)
+  }, [studentViewFocusPending, activeView, studentViewLessonsLoaded, studentViewLessons])
+
+  const selectStudentForStudentView = (studentId: string) => {
+    setStudentViewStudentId(studentId)
+    setStudentViewFocusPending(true)
+  }
+
+  // Autosaves one lesson of the student view; the entry view's saveGrade does the same for the selected lesson
+  const saveStudentViewGrade = async (subject: Subject, lesson: Lesson, value = studentViewValues[lesson.id] || '') => {
+    const studentId = studentViewStudentId
+    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lesson.id)
+    const trimmed = value.trim()
+    if (!studentId || trimmed === getGradeDisplayValue(existingGrade)) return
+
+    if (!trimmed) {
+      if (existingGrade && !isStatusOnlyGrade(existingGrade)) {
+        await deleteGrade(studentId, lesson.id)
+      }
+      return
+    }
+
+    const parsed = parseGradeInput(trimmed, lesson, true, subject)
+    if (!parsed) {
+      toast.error(`"${trimmed}" is not a grade`)
+      return
+    }
+    if ('error' in parsed) {
+      toast.error(parsed.error)
+      return
+    }
+
+    try {
+      const response = await apiClient.setGrade(studentId, lesson.id, { ...parsed.gradeData, reason: getChangeReason() })
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      const saved = response.data as BulkGradeResult['grade']
+      if (!response.queued) {
+        recordGradeEdit(studentId, lesson.id, gradeToSnapshot(existingGrade), gradeToSnapshot(saved))
+      }
+      const entry: BulkGradeEntry = { studentId, lessonId: lesson.id, ...parsed.gradeData }
+      const newGrade = bulkEntryToGrade(entry, saved, existingGrade, trimmed.toLowerCase() === 's', subject.id)
+      setGrades(current => [...current.filter(g => !(g.studentId === studentId && g.lessonId === lesson.id)), newGrade])
+      toast.success(response.queued
+        ? `Grade saved offline for ${lesson.name} – it will sync when you're back online`
+        : `Grade saved for ${lesson.name}`)
+    } catch (error) {
+      console.error('Failed to save grade:', error)
+      toast.error('Failed to save grade')
+    }
+  }
+
+  // Same keys as the entry view, down the student's lessons instead of a lesson's students
+  const handleStudentViewKeyDown = (e: KeyboardEvent, subject: Subject, lesson: Lesson, index: number) => {
+    if (e.altKey) {
+      const status = GRADE_STATUS_SHORTCUTS[e.code]
+      if (status || e.code === 'KeyN') {
+        e.preventDefault()
+        if (status) applyGradeStatus(studentViewStudentId, lesson.id, status)
+        else openNoteDialog(studentViewStudentId, lesson.id)
+        return
+      }
+    }
+
+    switch (e.key) {
+      case 'ArrowUp':
+        e.preventDefault()
+        if (index > 0) studentViewRefs.current[studentViewLessons[index - 1].lesson.id]?.focus()
+        break
+
+      case 'ArrowDown':
+        e.preventDefault()
+        if (index < studentViewLessons.length - 1) studentViewRefs.current[studentViewLessons[index + 1].lesson.id]?.focus()
+        break
+
+      case 'Enter':
+        // Save first: when this was the last ungraded lesson focus stays here, so no blur would save it.
+        // Moving on after the save has rendered keeps the blur from saving the same value again.
+        e.preventDefault()
+        saveStudentViewGrade(subject, lesson).then(() => {
+          setTimeout(() => focusNextUngradedLesson(index, lesson.id), 0)
+        })
+        break
+
+      case 's':
+      case 'S':
+        e.preventDefault()
+        setStudentViewValues(prev => ({ ...prev, [lesson.id]: 'S' }))
+        setTimeout(() => saveStudentViewGrade(subject, lesson, 'S'), 100)
+        toast.success('Lesson skipped for this student')
+        break
+    }
+  }
+
+  // The percentage a typed value will save as, without the side effects of parseGradeInput
+  const previewStudentViewValue = (value: string, subject: Subject, lesson: Lesson): number | null => {
+    const trimmed = value.trim()
+    if (!trimmed || trimmed.toLowerCase() === 's') return null
+    const letterPercentage = processLetterGrade(trimmed, subject)
+    if (letterPercentage !== null) return roundToNearestHalf(letterPercentage)
+    const fraction = trimmed.match(/^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/)
+    if (fraction) {
+      const maxPoints = parseFloat(fraction[2])
+      return maxPoints > 0 ? roundToNearestHalf(parseFloat(fraction[1]) / maxPoints * 100) : null
+    }
+    const numericValue = parseFloat(trimmed)
+    if (isNaN(numericValue)) return null
+    if (entryMode === 'percentage') return roundToNearestHalf(numericValue)
+    return lesson.points ? roundToNearestHalf((lesson.points - numericValue) / lesson.points * 100) : null
+  }
+
   // Helper function to get display value from a grade (for comparison)
   const getGradeDisplayValue = (grade: any): string => {
     if (!grade) return '';
@@ -1494,46 +2033,35 @@ export default function GradeEntry() {
     }
   };
 
-const saveGrade = async (studentId: string) => {
-  const currentValue = gradeValues[studentId];
-
-  if (!selectedLesson || !selectedLessonId) {
-    return;
-  }
-
-  // If value is empty or undefined, check if there's an existing grade to delete
-  if (!currentValue || !currentValue.trim()) {
-    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === selectedLessonId);
-    if (existingGrade) {
-      // Delete the existing grade
-      await deleteGrade(studentId, selectedLessonId);
-    }
-    return;
-  }
-
-  // Auto-set lesson date if missing when a grade is being saved (only when we have data to save)
-  await ensureLessonDateForActiveLesson('grade')
-
-  try {
-    let gradeData: any = {};
+  // Turns a typed cell value (percentage, errors, letter, fraction or S) into the grade payload for a lesson of a
+  // subject, the selected ones unless given. Returns an error to show for values that can't be saved yet, or null for
+  // input that is simply not a grade.
+  const parseGradeInput = (
+    value: string,
+    lesson: Lesson | undefined = selectedLesson,
+    announce = true,
+    subject: Subject | undefined = selectedSubject
+  ): { gradeData: any } | { error: string } | null => {
+    if (!lesson) return null;
 
-    const lowerValue = currentValue.toLowerCase();
+    const gradeData: any = {};
+    const lowerValue = value.toLowerCase();
 
     // Handle skip case
     if (lowerValue === 's') {
-      const lessonMaxPoints = selectedLesson.points || 0;
+      const lessonMaxPoints = lesson.points || 0;
       if (lessonMaxPoints <= 0) {
-        toast.error('Please set lesson points before skipping grades');
-        return;
+        return { error: 'Please set lesson points before skipping grades' };
       }
       gradeData.percentage = 0;
       gradeData.errors = lessonMaxPoints;
       gradeData.points = lessonMaxPoints;
+      gradeData.status = 'excused';
     } else {
       // Handle letter grade
-      const letterPercentage = processLetterGrade(currentValue);
+      const letterPercentage = processLetterGrade(value, subject);
       if (letterPercentage !== null) {
-        const lessonMaxPoints = selectedLesson.points || 0;
+        const lessonMaxPoints = lesson.points || 0;
         gradeData.percentage = letterPercentage;
         gradeData.errors = lessonMaxPoints > 0
           ? Math.round(lessonMaxPoints * (1 - letterPercentage / 100))
@@ -1541,25 +2069,23 @@ const saveGrade = async (studentId: string) => {
         gradeData.points = lessonMaxPoints;
       } else {
         // Handle fraction entry
-        const fractionPoints = processFractionEntry(currentValue, selectedLessonId);
+        const fractionPoints = processFractionEntry(value, lesson.id, announce, subject?.id ?? selectedSubjectId);
         if (fractionPoints !== null) {
-          const maxPoints = parseFloat(currentValue.split('/')[1]);
+          const maxPoints = parseFloat(value.split('/')[1]);
           if (maxPoints <= 0) {
-            toast.error('Invalid fraction - denominator must be greater than 0');
-            return;
+            return { error: 'Invalid fraction - denominator must be greater than 0' };
           }
           gradeData.percentage = roundToNearestHalf(((fractionPoints / maxPoints) * 100));
           gradeData.errors = Math.max(0, maxPoints - fractionPoints);
           gradeData.points = maxPoints;
         } else {
           // Handle numeric entry
-          const numericValue = parseFloat(currentValue);
+          const numericValue = parseFloat(value);
           if (!isNaN(numericValue)) {
-            const lessonMaxPoints = selectedLesson.points || 0;
+            const lessonMaxPoints = lesson.points || 0;
 
             if (entryMode === 'errors' && lessonMaxPoints <= 0) {
-              toast.error('Please set lesson points before entering grades in errors mode');
-              return;
+              return { error: 'Please set lesson points before entering grades in errors mode' };
             }
 
             if (entryMode === 'errors') {
@@ -1577,19 +2103,60 @@ const saveGrade = async (studentId: string) => {
               gradeData.points = lessonMaxPoints;
             }
           } else {
-            return; // Invalid input
+            return null; // Invalid input
           }
         }
       }
     }
 
+    return { gradeData };
+  };
+
+const saveGrade = async (studentId: string) => {
+  const currentValue = gradeValues[studentId];
+
+  if (!selectedLesson || !selectedLessonId) {
+    return;
+  }
+
+  // If value is empty or undefined, check if there's an existing grade to delete
+  if (!currentValue || !currentValue.trim()) {
+    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === selectedLessonId);
+    // Missing, excused and incomplete marks have no score to show, so an empty cell keeps them
+    if (existingGrade && !isStatusOnlyGrade(existingGrade)) {
+      // Delete the existing grade
+      await deleteGrade(studentId, selectedLessonId);
+    }
+    return;
+  }
+
+  // Auto-set lesson date if missing when a grade is being saved (only when we have data to save)
+  await ensureLessonDateForActiveLesson('grade')
+
+  try {
+    const lowerValue = currentValue.toLowerCase();
+    const parsed = parseGradeInput(currentValue);
+    if (!parsed) return;
+    if ('error' in parsed) {
+      toast.error(parsed.error);
+      return;
+    }
+    const { gradeData } = parsed;
+
     // Save grade to backend
-    const response = await apiClient.setGrade(studentId, selectedLessonId, gradeData);
+    const response = await apiClient.setGrade(studentId, selectedLessonId, { ...gradeData, reason: getChangeReason() });
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
 
     // Update local state
     const existingGradeIndex = grades.findIndex(
       g => g.studentId === studentId && g.lessonId === selectedLessonId
     );
+    if (!response.queued) {
+      recordGradeEdit(studentId, selectedLessonId, gradeToSnapshot(grades[existingGradeIndex]), gradeToSnapshot(response.data));
+    }
 
     const newGrade: Grade = {
       id: (response.data as any)?.id || `${studentId}-${selectedLessonId}`,
@@ -1601,7 +2168,9 @@ const saveGrade = async (studentId: string) => {
       maxPoints: gradeData.points,
       errors: gradeData.errors,
       date: new Date().toISOString(),
-      notes: undefined,
+      status: (response.data as any)?.status || gradeData.status,
+      notes: (response.data as any)?.notes ?? undefined,
+      submittedAt: (response.data as any)?.submitted_at ?? grades[existingGradeIndex]?.submittedAt ?? null,
       skipped: lowerValue === 's',
       created_at: (response.data as any)?.created_at,
       updated_at: (response.data as any)?.updated_at
@@ -1616,7 +2185,9 @@ const saveGrade = async (studentId: string) => {
     }
 
     const studentName = students.find(s => s.id === studentId)?.name;
-    toast.success(`Grade saved for ${studentName}`);
+    toast.success(response.queued
+      ? `Grade saved offline for ${studentName} – it will sync when you're back online`
+      : `Grade saved for ${studentName}`);
   } catch (error) {
     console.error('Failed to save grade:', error);
     toast.error('Failed to save grade');
@@ -1627,7 +2198,15 @@ const saveGrade = async (studentId: string) => {
   const deleteGrade = async (studentId: string, lessonId: string) => {
     try {
       // Call backend API to delete the grade
-      await apiClient.deleteGrade(studentId, lessonId);
+      const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lessonId);
+      const response = await apiClient.deleteGrade(studentId, lessonId, getChangeReason());
+      if (response.error) {
+        toast.error(response.error);
+        return;
+      }
+      if (!response.queued) {
+        recordGradeEdit(studentId, lessonId, gradeToSnapshot(existingGrade), null);
+      }
 
       // Update local state - remove the grade
       setGrades(current => current.filter(
@@ -1650,12 +2229,99 @@ const saveGrade = async (studentId: string) => {
     }
   };
 
+  // Stores a status or note change returned by PATCH /grades/.../lesson/... in local state and the undo history
+  const applyGradeStatusResponse = (studentId: string, lessonId: string, existingGrade: Grade | undefined, saved: any) => {
+    recordGradeEdit(studentId, lessonId, gradeToSnapshot(existingGrade), gradeToSnapshot(saved));
+    const percentage = saved.percentage === null ? null : Number(saved.percentage);
+    const maxPoints = Number(saved.points ?? 0);
+    const updatedGrade = {
+      ...(existingGrade || { date: new Date().toISOString(), subjectId: selectedSubjectId }),
+      id: saved.id,
+      studentId,
+      lessonId,
+      percentage,
+      errors: saved.errors === null ? undefined : Number(saved.errors),
+      maxPoints,
+      points: maxPoints - Number(saved.errors ?? 0),
+      status: saved.status,
+      notes: saved.notes ?? undefined,
+      submittedAt: saved.submitted_at ?? null,
+      created_at: saved.created_at,
+      updated_at: saved.updated_at
+    } as Grade;
+    setGrades(current => existingGrade
+      ? current.map(g => g.studentId === studentId && g.lessonId === lessonId ? updatedGrade : g)
+      : [...current, updatedGrade]);
+  };
+
+  // Alt+G/M/E/L/I: marks the work graded, missing, excused, late or incomplete without touching its score
+  const applyGradeStatus = async (studentId: string, lessonId: string, status: GradeStatus) => {
+    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lessonId);
+    if (existingGrade && (existingGrade.status || 'graded') === status) return;
+
+    // A status-only mark has no score to fall back on, so marking it graded removes it
+    if (status === 'graded' && existingGrade && isStatusOnlyGrade(existingGrade)) {
+      await deleteGrade(studentId, lessonId);
+      return;
+    }
+    if (!isUnscoredStatus(status) && (!existingGrade || isStatusOnlyGrade(existingGrade))) {
+      toast.error(`Enter a score before marking this work ${GRADE_STATUS_LABELS[status].toLowerCase()}`);
+      return;
+    }
+
+    const response = await apiClient.setGradeStatus(studentId, lessonId, { status, reason: getChangeReason() });
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+
+    const studentName = students.find(s => s.id === studentId)?.name;
+    if (response.queued) {
+      toast.success(`Marked ${GRADE_STATUS_LABELS[status].toLowerCase()} offline for ${studentName} – it will sync when you're back online`);
+      return;
+    }
+    applyGradeStatusResponse(studentId, lessonId, existingGrade, response.data);
+    toast.success(`${GRADE_STATUS_LABELS[status]} – ${studentName}`);
+  };
+
+  const openNoteDialog = (studentId: string, lessonId: string) => {
+    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lessonId);
+    if (!existingGrade) {
+      toast.error('Enter a grade or status before adding a note');
+      return;
+    }
+    setNoteDialog({ studentId, lessonId, notes: existingGrade.notes || '', submittedAt: existingGrade.submittedAt || '' });
+  };
+
+  const saveGradeNote = async () => {
+    if (!noteDialog) return;
+    const { studentId, lessonId, notes, submittedAt } = noteDialog;
+    const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lessonId);
+
+    const response = await apiClient.setGradeStatus(studentId, lessonId, {
+      notes: notes.trim() || null,
+      submittedAt: submittedAt || null,
+      reason: getChangeReason()
+    });
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+    setNoteDialog(null);
+    if (response.queued) {
+      toast.success('Grade details saved offline – they will sync when you\'re back online');
+      return;
+    }
+    applyGradeStatusResponse(studentId, lessonId, existingGrade, response.data);
+    toast.success('Grade details saved');
+  };
+
   // Inline editing functions  
   const saveGradeInline = async (studentId: string, lessonId: string, keepEditing = false) => {
     if (!tempGradeValue.trim()) {
       // If value is empty, check if there's an existing grade to delete
       const existingGrade = grades.find(g => g.studentId === studentId && g.lessonId === lessonId);
-      if (existingGrade) {
+      if (existingGrade && !isStatusOnlyGrade(existingGrade)) {
         // Delete the existing grade
         await deleteGrade(studentId, lessonId);
       }
@@ -1687,6 +2353,7 @@ const saveGrade = async (studentId: string) => {
         gradeData.percentage = 0;
         gradeData.errors = lessonMaxPoints;
         gradeData.points = lessonMaxPoints;
+        gradeData.status = 'excused';
       } else {
         // Handle letter grade
         const letterPercentage = processLetterGrade(tempGradeValue);
@@ -1743,12 +2410,19 @@ const saveGrade = async (studentId: string) => {
       }
 
       // Save grade to backend
-      const response = await apiClient.setGrade(studentId, lessonId, gradeData);
+      const response = await apiClient.setGrade(studentId, lessonId, { ...gradeData, reason: getChangeReason() });
+      if (response.error) {
+        toast.error(response.error);
+        return;
+      }
 
       // Update local state
       const existingGradeIndex = grades.findIndex(
         g => g.studentId === studentId && g.lessonId === lessonId
       );
+      if (!response.queued) {
+        recordGradeEdit(studentId, lessonId, gradeToSnapshot(grades[existingGradeIndex]), gradeToSnapshot(response.data));
+      }
 
       const newGrade: Grade = {
         id: (response.data as any)?.id || `${studentId}-${lessonId}`,
@@ -1760,7 +2434,9 @@ const saveGrade = async (studentId: string) => {
         maxPoints: gradeData.points,
         errors: gradeData.errors,
         date: new Date().toISOString(),
-        notes: undefined,
+        status: (response.data as any)?.status || gradeData.status,
+        notes: (response.data as any)?.notes ?? undefined,
+        submittedAt: (response.data as any)?.submitted_at ?? grades[existingGradeIndex]?.submittedAt ?? null,
         skipped: lowerValue === 's',
         created_at: (response.data as any)?.created_at,
         updated_at: (response.data as any)?.updated_at
@@ -1777,7 +2453,7 @@ const saveGrade = async (studentId: string) => {
       if (!keepEditing) {
         setEditingCell(null);
       }
-      toast.success('Grade updated');
+      toast.success(response.queued ? 'Grade saved offline – it will sync when you\'re back online' : 'Grade updated');
     } catch (error) {
       console.error('Failed to save grade:', error);
       toast.error('Failed to save grade');
@@ -1995,6 +2671,59 @@ const saveGrade = async (studentId: string) => {
           </p>
         </div>
         <div className="flex gap-2">
+          <Input
+            value={changeReason}
+            onChange={(e) => updateChangeReason(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep typing here away from the grade entry shortcuts and Ctrl+Z
+              e.stopPropagation()
+              if (e.key === 'Escape') {
+                updateChangeReason('')
+                e.currentTarget.blur()
+              }
+            }}
+            maxLength={500}
+            placeholder="Reason for changes (optional)"
+            title="Saved in the grade history with every change until cleared (Esc)"
+            aria-label="Reason for grade changes"
+            className="w-64"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={undoLastChange}
+            disabled={undoHistory.undo.length === 0 || isApplyingHistory}
+            title={undoHistory.undo.length > 0 ? `Undo ${describeEntry(undoHistory.undo[undoHistory.undo.length - 1])} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            <ArrowCounterClockwise size={16} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={redoLastChange}
+            disabled={undoHistory.redo.length === 0 || isApplyingHistory}
+            title={undoHistory.redo.length > 0 ? `Redo ${describeEntry(undoHistory.redo[undoHistory.redo.length - 1])} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            <ArrowClockwise size={16} />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowImportDialog(true)}
+            disabled={!selectedSubjectId}
+            title={selectedSubjectId ? 'Import grades from a CSV into this subject' : 'Choose a subject first'}
+            className="flex items-center gap-2"
+          >
+            <Upload size={16} />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowExportDialog(true)}
+            className="flex items-center gap-2"
+          >
+            <DownloadSimple size={16} />
+            Export
+          </Button>
           <Button 
             variant={activeView === 'entry' ? 'default' : 'outline'}
             onClick={() => switchViewMode('entry')}
@@ -2011,10 +2740,162 @@ const saveGrade = async (studentId: string) => {
             <Table size={16} />
             Table
           </Button>
+          <Button
+            variant={activeView === 'student' ? 'default' : 'outline'}
+            onClick={() => switchViewMode('student')}
+            className="flex items-center gap-2"
+            title="Grade every lesson of one student"
+          >
+            <User size={16} />
+            Student
+          </Button>
         </div>
       </div>
 
-      {activeView === 'table' ? (
+      {activeView === 'student' ? (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle>Student Entry - {studentViewStudent?.name || "Select a student"}</CardTitle>
+              <div className="flex items-center gap-4">
+                <Select value={studentViewStudentId} onValueChange={selectStudentForStudentView}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Choose a student" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...filteredStudents].sort((a, b) => a.name.localeCompare(b.name)).map(student => (
+                      <SelectItem key={student.id} value={student.id}>{student.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={entryMode === 'errors'}
+                    onCheckedChange={(checked) => setEntryMode(checked ? 'errors' : 'percentage')}
+                    id="student-entry-mode"
+                  />
+                  <Label htmlFor="student-entry-mode" className="text-sm">
+                    {entryMode === 'errors' ? 'Errors' : 'Percentage'} mode
+                  </Label>
+                </div>
+              </div>
+            </div>
+            <div className="hidden md:flex items-center gap-2 text-sm text-muted-foreground">
+              <Keyboard size={16} />
+              Arrow keys move between lessons • Enter jumps to the next ungraded lesson • Grades save when you leave a field
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!studentViewStudent ? (
+              <p className="text-center text-muted-foreground py-8">
+                Choose a student to grade every lesson of their subjects
+              </p>
+            ) : studentViewSubjects.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {studentViewStudent.name} is not enrolled in any subject
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-4 p-3 text-sm font-medium text-muted-foreground border-b border-border">
+                  <div className="col-span-5">Lesson</div>
+                  <div className="col-span-3">
+                    {entryMode === 'errors' ? 'Errors' : 'Grade (0-100 or A, B+, etc.)'}
+                  </div>
+                  <div className="col-span-2">Preview</div>
+                  <div className="col-span-2">Status</div>
+                </div>
+
+                {studentViewSubjects.map(subject => {
+                  const lessons = studentViewLessons.filter(row => row.subject.id === subject.id)
+                  return (
+                    <div key={subject.id} className="space-y-2">
+                      <h4 className="text-lg font-semibold px-3 py-2 bg-muted/20 rounded-md border-l-4 border-primary">
+                        {subject.name}
+                      </h4>
+                      {!subjectLessons[subject.id] ? (
+                        <p className="px-3 text-sm text-muted-foreground">
+                          {loadingLessons[subject.id] === false ? 'Could not load lessons' : 'Loading lessons…'}
+                        </p>
+                      ) : lessons.length === 0 ? (
+                        <p className="px-3 text-sm text-muted-foreground">No lessons yet</p>
+                      ) : lessons.map(({ lesson }) => {
+                        const index = studentViewLessons.findIndex(row => row.lesson.id === lesson.id)
+                        const value = studentViewValues[lesson.id] || ''
+                        const preview = previewStudentViewValue(value, subject, lesson)
+                        const existingGrade = grades.find(g => g.studentId === studentViewStudentId && g.lessonId === lesson.id)
+                        const isSkipped = existingGrade && existingGrade.percentage === 0 && existingGrade.errors === (existingGrade.maxPoints || existingGrade.points)
+
+                        return (
+                          <div key={lesson.id} className="grid grid-cols-12 gap-4 p-3 rounded-lg border bg-card border-border focus-within:bg-primary/5 focus-within:border-primary transition-colors">
+                            <div className="col-span-5 flex items-center gap-2">
+                              <p className="font-medium">{lesson.name}</p>
+                              {!isDefaultLessonType(lesson.type) && (
+                                <Badge className="text-xs text-white border-0" style={{ backgroundColor: getCategoryColor(lesson) }}>
+                                  {lesson.type}
+                                </Badge>
+                              )}
+                              <span className="text-xs text-muted-foreground">{lesson.points || 0}pts</span>
+                            </div>
+
+                            <div className="col-span-3">
+                              <Input
+                                ref={el => {
+                                  if (el) studentViewRefs.current[lesson.id] = el
+                                }}
+                                type="text"
+                                value={value}
+                                onChange={(e) => setStudentViewValues(prev => ({ ...prev, [lesson.id]: e.target.value }))}
+                                onBlur={() => saveStudentViewGrade(subject, lesson)}
+                                onKeyDown={(e) => handleStudentViewKeyDown(e, subject, lesson, index)}
+                                onFocus={(e) => e.target.select()}
+                                className="grade-cell font-medium tabular-nums"
+                                placeholder={entryMode === 'errors' ? '# of errors' : '%, A, B+, S(skip)'}
+                              />
+                            </div>
+
+                            <div className="col-span-2 flex items-center">
+                              {value.trim().toLowerCase() === 's' ? (
+                                <Badge variant="outline" className="text-xs">SKIP</Badge>
+                              ) : preview !== null ? (
+                                <Badge variant={preview >= 90 ? "default" : preview >= 70 ? "secondary" : "destructive"}>
+                                  {formatPercentage(preview)}%
+                                </Badge>
+                              ) : (
+                                <span className="text-muted-foreground text-sm">-</span>
+                              )}
+                            </div>
+
+                            <div className="col-span-2 flex items-center gap-2">
+                              {existingGrade ? (
+                                <>
+                                  {existingGrade.status && existingGrade.status !== 'graded' && !isSkipped ? (
+                                    <Badge variant="outline" className={`text-xs ${GRADE_STATUS_BADGE_CLASSES[existingGrade.status]}`}>
+                                      {GRADE_STATUS_LABELS[existingGrade.status]}
+                                    </Badge>
+                                  ) : (
+                                    <Badge variant="outline" className="text-xs">{isSkipped ? 'Skipped' : 'Saved'}</Badge>
+                                  )}
+                                  <GradeHistoryPopover
+                                    studentId={studentViewStudentId}
+                                    lessonId={lesson.id}
+                                    studentName={studentViewStudent.name}
+                                  />
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground text-sm">Ungraded</span>
+                              )}
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : activeView === 'table' ? (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -2220,6 +3101,15 @@ const saveGrade = async (studentId: string) => {
                               displayPercentage = roundToNearestHalf(rawPercentage);
                             }
                           }
+
+                          // Late work shows the penalised score; the raw one stays visible underneath
+                          const lateInfo = existingGrade && !isSkipped
+                            ? getLateInfo(existingGrade, lesson.due_date || lesson.date, selectedSubject?.latePolicy)
+                            : null;
+                          const rawDisplayPercentage = displayPercentage;
+                          if (lateInfo && lateInfo.penalty > 0) {
+                            displayPercentage = roundToNearestHalf(Math.max(0, displayPercentage - lateInfo.penalty));
+                          }
                           
                           const getGradeColor = (percentage: number, skipped: boolean) => {
                             if (skipped) return 'bg-gray-100 text-gray-600';
@@ -2228,10 +3118,17 @@ const saveGrade = async (studentId: string) => {
                             return 'bg-red-100 text-red-800 border-red-200';
                           };
                           
+                          const pasteKey = `${student.id}:${lesson.id}`;
+                          const pasteError = pastedCells?.[pasteKey];
+                          const pasteClass = !pastedCells || pasteError === undefined
+                            ? ''
+                            : pasteError ? 'ring-2 ring-inset ring-destructive' : 'ring-2 ring-inset ring-primary/60';
+
                           return (
                             <td
                               key={lesson.id}
-                              className={`text-center p-2 border-x border-border cursor-pointer hover:bg-muted/50 transition-colors`}
+                              className={`text-center p-2 border-x border-border cursor-pointer hover:bg-muted/50 transition-colors ${pasteClass}`}
+                              title={pasteError || undefined}
                               style={{ 
                                 backgroundColor: !isDefaultLessonType(lesson.type) 
                                   ? `${getCategoryColor(lesson)}10` 
@@ -2254,8 +3151,21 @@ const saveGrade = async (studentId: string) => {
                                     placeholder={entryMode === 'percentage' ? '%' : 'errors'}
                                     autoFocus
                                     onFocus={(e) => e.target.select()}
+                                    onPaste={(e) => {
+                                      // A single value pastes into the input; a copied range fills the cells from here
+                                      const text = e.clipboardData.getData('text/plain');
+                                      if (!/[\t\n]/.test(text.replace(/(\r?\n)+$/, ''))) return;
+                                      e.preventDefault();
+                                      setEditingCell(null);
+                                      pasteGradeBlock(text, student.id, lesson.id);
+                                    }}
                                     onKeyDown={async (e) => {
-                                      if (e.key === 'Enter') {
+                                      if (e.altKey && (GRADE_STATUS_SHORTCUTS[e.code] || e.code === 'KeyN')) {
+                                        e.preventDefault();
+                                        setEditingCell(null);
+                                        if (e.code === 'KeyN') openNoteDialog(student.id, lesson.id);
+                                        else applyGradeStatus(student.id, lesson.id, GRADE_STATUS_SHORTCUTS[e.code]);
+                                      } else if (e.key === 'Enter') {
                                         saveGradeInline(student.id, lesson.id, true);
                                         setTimeout(() => navigateToNextCell(student.id, lesson.id), 50);
                                       } else if (e.key === 'Escape') {
@@ -2342,21 +3252,37 @@ const saveGrade = async (studentId: string) => {
                                   />
                                 </div>
                               ) : existingGrade ? (
-                                <div className="space-y-1">
-                                  <div
-                                    className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${
-                                      getGradeColor(displayPercentage, isSkipped)
-                                    }`}
-                                  >
-                                    {isSkipped ? 'SKIP' : `${formatPercentage(typeof displayPercentage === 'number' ? displayPercentage : 0)}%`}
-                                  </div>
+                                <div className="space-y-1" title={existingGrade.notes || undefined}>
+                                  {existingGrade.status && isStatusOnlyGrade(existingGrade) ? (
+                                    <div className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${GRADE_STATUS_BADGE_CLASSES[existingGrade.status]}`}>
+                                      {GRADE_STATUS_LABELS[existingGrade.status]}
+                                    </div>
+                                  ) : (
+                                    <div
+                                      className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${
+                                        getGradeColor(displayPercentage, isSkipped)
+                                      }`}
+                                    >
+                                      {isSkipped ? 'SKIP' : `${formatPercentage(typeof displayPercentage === 'number' ? displayPercentage : 0)}%`}
+                                    </div>
+                                  )}
                                   <div className="text-xs text-muted-foreground">
                                     {displayValue}
+                                    {lateInfo && (
+                                      <span className="text-amber-700">
+                                        {lateInfo.penalty > 0 && ` · raw ${formatPercentage(rawDisplayPercentage)}%`}
+                                        {lateInfo.daysLate > 0 ? ` · ${lateInfo.daysLate}d late` : ' · late'}
+                                      </span>
+                                    )}
+                                    {existingGrade.notes && <PencilSimple size={10} className="inline ml-1" />}
                                   </div>
                                 </div>
                               ) : (
                                 <div className="text-muted-foreground text-sm">-</div>
                               )}
+                              {pasteError && editingCell?.studentId !== student.id && (
+                                <div className="text-[10px] leading-tight text-destructive truncate max-w-[120px] mx-auto">{pasteError}</div>
+                              )}
                             </td>
                           );
                         })}
@@ -2915,6 +3841,11 @@ const saveGrade = async (studentId: string) => {
                           <div className="col-span-5 flex items-center">
                             <div>
                               <p className="font-medium">{student.name}</p>
+                              {existingGrade?.notes && (
+                                <p className="text-xs text-muted-foreground truncate max-w-[240px]" title={existingGrade.notes}>
+                                  {existingGrade.notes}
+                                </p>
+                              )}
                             </div>
                           </div>
                           
@@ -2964,6 +3895,24 @@ const saveGrade = async (studentId: string) => {
                                   const errors = existingGrade.errors || 0;
                                   const maxPoints = existingGrade.maxPoints || existingGrade.points || 0;
                                   const isSkipped = percentage === 0 && errors === maxPoints;
+                                  if (existingGrade.status && existingGrade.status !== 'graded' && !isSkipped) {
+                                    return (
+                                      <Badge variant="outline" className={`text-xs ${GRADE_STATUS_BADGE_CLASSES[existingGrade.status]}`}>
+                                        {GRADE_STATUS_LABELS[existingGrade.status]}
+                                      </Badge>
+                                    );
+                                  }
+                                  const lateInfo = !isSkipped && selectedLesson
+                                    ? getLateInfo(existingGrade, selectedLesson.due_date || selectedLesson.date, selectedSubject?.latePolicy)
+                                    : null;
+                                  if (lateInfo) {
+                                    return (
+                                      <Badge variant="outline" className={`text-xs ${GRADE_STATUS_BADGE_CLASSES.late}`}>
+                                        {lateInfo.daysLate > 0 ? `${lateInfo.daysLate}d late` : 'Late'}
+                                        {lateInfo.penalty > 0 && ` −${formatPercentage(lateInfo.penalty)}`}
+                                      </Badge>
+                                    );
+                                  }
                                   return isSkipped ? (
                                     <Badge variant="outline" className="text-xs">
                                       Skipped
@@ -2974,6 +3923,11 @@ const saveGrade = async (studentId: string) => {
                                     </Badge>
                                   );
                                 })()}
+                                <GradeHistoryPopover
+                                  studentId={student.id}
+                                  lessonId={selectedLessonId}
+                                  studentName={student.name}
+                                />
                                 <Button
                                   size="sm"
                                   variant="ghost"
@@ -3029,10 +3983,10 @@ const saveGrade = async (studentId: string) => {
                       <p className="font-medium">{normalizeDateInput(selectedLesson.date)}</p>
                     </div>
                   )}
-                  {selectedLesson.dueDate && (
+                  {selectedLesson.due_date && (
                     <div>
                       <Label className="text-sm">Due Date</Label>
-                      <p className="font-medium">{new Date(selectedLesson.dueDate).toLocaleDateString()}</p>
+                      <p className="font-medium">{normalizeDateInput(selectedLesson.due_date)}</p>
                     </div>
                   )}
                   <div>
@@ -3095,6 +4049,38 @@ const saveGrade = async (studentId: string) => {
                   <span>Skip lesson</span>
                   <Badge variant="outline" className="text-xs">S</Badge>
                 </div>
+                <div className="flex justify-between">
+                  <span>Mark missing</span>
+                  <Badge variant="outline" className="text-xs">Alt+M</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mark excused</span>
+                  <Badge variant="outline" className="text-xs">Alt+E</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mark late</span>
+                  <Badge variant="outline" className="text-xs">Alt+L</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mark incomplete</span>
+                  <Badge variant="outline" className="text-xs">Alt+I</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mark graded</span>
+                  <Badge variant="outline" className="text-xs">Alt+G</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Note &amp; hand-in date</span>
+                  <Badge variant="outline" className="text-xs">Alt+N</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Undo last change</span>
+                  <Badge variant="outline" className="text-xs">Ctrl+Z</Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Redo</span>
+                  <Badge variant="outline" className="text-xs">Ctrl+Shift+Z</Badge>
+                </div>
                 <div className="flex justify-between">
                   <span>Edit lesson points</span>
                   <Badge variant="outline" className="text-xs">Space</Badge>
@@ -3139,7 +4125,8 @@ const saveGrade = async (studentId: string) => {
                 name: formData.get('name') as string,
                 type: formData.get('type') as string, // Allow any custom grade category type
                 points: parseInt(formData.get('points') as string) || 0,
-                date: formData.get('date') ? String(formData.get('date')) : undefined
+                date: formData.get('date') ? String(formData.get('date')) : undefined,
+                dueDate: String(formData.get('dueDate') || '') // Empty clears the due date
               });
             }}>
               <div className="space-y-4">
@@ -3156,6 +4143,16 @@ const saveGrade = async (studentId: string) => {
                     defaultValue={normalizeDateInput(editLessonDialog.lesson.date)}
                   />
                 </div>
+                <div>
+                  <Label htmlFor="edit-lesson-due-date">Due Date</Label>
+                  <Input
+                    id="edit-lesson-due-date"
+                    name="dueDate"
+                    type="date"
+                    defaultValue={normalizeDateInput(editLessonDialog.lesson.due_date)}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Leave empty to use the lesson date. Work handed in later counts as late.</p>
+                </div>
                 <div>
                   <Label htmlFor="edit-lesson-type">Type</Label>
                   <div className="flex items-center gap-2">
@@ -3195,6 +4192,66 @@ const saveGrade = async (studentId: string) => {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!noteDialog} onOpenChange={v => { if (!v) setNoteDialog(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {students.find(s => s.id === noteDialog?.studentId)?.name || 'Student'} –{' '}
+              {subjectLessons[selectedSubjectId]?.find(l => l.id === noteDialog?.lessonId)?.name || 'Lesson'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={e => { e.preventDefault(); saveGradeNote(); }} className="space-y-4">
+            <div>
+              <Label htmlFor="grade-submitted-at">Handed in</Label>
+              <Input
+                id="grade-submitted-at"
+                type="date"
+                value={noteDialog?.submittedAt || ''}
+                onChange={e => setNoteDialog(prev => prev ? { ...prev, submittedAt: e.target.value } : prev)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                After the due date this counts as late and the subject's late policy applies.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="grade-note">Note</Label>
+              <Textarea
+                id="grade-note"
+                value={noteDialog?.notes || ''}
+                onChange={e => setNoteDialog(prev => prev ? { ...prev, notes: e.target.value } : prev)}
+                maxLength={1000}
+                placeholder="Visible to teachers only"
+                autoFocus
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setNoteDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <GradebookExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        subjects={filteredSubjects}
+        groups={studentGroups}
+        defaultSubjectId={selectedSubjectId}
+      />
+
+      <GradeImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        subject={subjects.find(subject => subject.id === selectedSubjectId) || null}
+        categories={gradeCategoryTypes}
+        onImported={reloadGradesAndLessons}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ClockCounterClockwise } from "@phosphor-icons/react"
+import { apiClient } from '@/lib/api'
+import { GradeHistoryEntry } from '@/lib/types'
+import { GRADE_STATUS_LABELS } from '@/lib/gradeStatus'
+import type { GradeStatus } from '@shared/gradeCalculation'
+
+interface GradeHistoryPopoverProps {
+  studentId: string
+  lessonId: string
+  studentName?: string
+}
+
+const formatValue = (percentage: number | null, status?: GradeStatus | null) => {
+  const label = status && status !== 'graded' ? GRADE_STATUS_LABELS[status] : null
+  if (percentage === null || percentage === undefined) return label || '—'
+  const value = Number(percentage)
+  const formatted = `${Number.isInteger(value) ? value : value.toFixed(1)}%`
+  return label ? `${formatted} (${label.toLowerCase()})` : formatted
+}
+
+const actionLabels: Record<GradeHistoryEntry['action'], string> = {
+  create: 'Entered',
+  update: 'Changed',
+  delete: 'Deleted'
+}
+
+export default function GradeHistoryPopover({ studentId, lessonId, studentName }: GradeHistoryPopoverProps) {
+  const [history, setHistory] = useState<GradeHistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // History is fetched each time the popover opens so it reflects edits made since the last look
+  const loadHistory = async () => {
+    setIsLoading(true)
+    setError(null)
+    const response = await apiClient.getGradeHistory(studentId, lessonId)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setHistory(Array.isArray(response.data) ? response.data : [])
+    }
+    setIsLoading(false)
+  }
+
+  return (
+    <Popover onOpenChange={(open) => { if (open) loadHistory() }}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Grade history">
+          <ClockCounterClockwise size={12} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">
+            Grade history{studentName ? ` – ${studentName}` : ''}
+          </p>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {history.map(entry => (
+                <div key={entry.id} className="border-b border-border pb-2 last:border-0 last:pb-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant={entry.action === 'delete' ? 'destructive' : 'outline'} className="text-xs">
+                      {actionLabels[entry.action]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.changedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm tabular-nums mt-1">
+                    {entry.action === 'create'
+                      ? formatValue(entry.newPercentage, entry.newStatus)
+                      : entry.action === 'delete'
+                        ? formatValue(entry.oldPercentage, entry.oldStatus)
+                        : `${formatValue(entry.oldPercentage, entry.oldStatus)} → ${formatValue(entry.newPercentage, entry.newStatus)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    by {entry.teacherId ? (entry.teacherName || 'Removed teacher') : 'Owner'}
+                  </p>
+                  {entry.reason && (
+                    <p className="text-xs italic mt-1">“{entry.reason}”</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
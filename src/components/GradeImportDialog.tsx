@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Upload } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import type {
+  GradeImportCell,
+  GradeImportCellAction,
+  GradeImportLessonMatch,
+  GradeImportPreview,
+  StudentMatchKind
+} from '@shared/gradeImport'
+
+interface GradeImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subject: { id: string; name: string } | null
+  categories: { id: string; name: string; is_default?: boolean }[]
+  // Called after a committed import so the grid can reload its grades and lessons
+  onImported: () => void
+}
+
+const LEAVE_OUT = 'none'
+const AUTOMATIC = 'auto'
+
+const CELL_LABELS: Record<GradeImportCellAction, string> = {
+  create: 'New',
+  update: 'Overwrite',
+  unchanged: 'Unchanged',
+  keep: 'Kept',
+  error: 'Error'
+}
+
+const CELL_CLASSES: Record<GradeImportCellAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-amber-100 text-amber-800',
+  unchanged: 'text-muted-foreground',
+  keep: 'bg-gray-100 text-gray-500 line-through',
+  error: 'bg-red-100 text-red-800'
+}
+
+const MATCH_LABELS: Record<StudentMatchKind, string> = {
+  id: 'ID',
+  sis: 'SIS ID',
+  exact: 'Exact',
+  fuzzy: 'Close match',
+  chosen: 'Chosen',
+  ambiguous: 'Ambiguous',
+  none: 'No match'
+}
+
+const MATCH_BADGES: Record<StudentMatchKind, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  id: 'secondary',
+  sis: 'secondary',
+  exact: 'secondary',
+  fuzzy: 'outline',
+  chosen: 'default',
+  ambiguous: 'destructive',
+  none: 'destructive'
+}
+
+const describeCell = (cell: GradeImportCell) => [
+  CELL_LABELS[cell.action],
+  cell.previous ? `was ${cell.previous}` : '',
+  cell.message || ''
+].filter(Boolean).join(' · ')
+
+// Import a CSV of students against lessons into one subject; every option change re-runs the preview, nothing is saved until Import
+export default function GradeImportDialog({ open, onOpenChange, subject, categories, onImported }: GradeImportDialogProps) {
+  const [fileName, setFileName] = useState('')
+  const [csv, setCsv] = useState('')
+  const [lessonMatch, setLessonMatch] = useState<GradeImportLessonMatch>('name')
+  const [createMissingLessons, setCreateMissingLessons] = useState(false)
+  const [categoryId, setCategoryId] = useState('')
+  const [overwrite, setOverwrite] = useState(false)
+  const [studentMatches, setStudentMatches] = useState<Record<string, string | null>>({})
+  const [preview, setPreview] = useState<GradeImportPreview | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setFileName('')
+    setCsv('')
+    setLessonMatch('name')
+    setCreateMissingLessons(false)
+    setCategoryId((categories.find(category => category.is_default) || categories[0])?.id || '')
+    setOverwrite(false)
+    setStudentMatches({})
+    setPreview(null)
+    setIsWorking(false)
+  }, [open]) // Only on opening, so reloads of the categories behind the dialog keep the choices
+
+  const options = useMemo(() => ({
+    csv,
+    lessonMatch,
+    createMissingLessons,
+    categoryId: createMissingLessons ? categoryId || null : null,
+    overwrite,
+    studentMatches
+  }), [csv, lessonMatch, createMissingLessons, categoryId, overwrite, studentMatches])
+
+  useEffect(() => {
+    if (!open || !subject || !csv || (createMissingLessons && !categoryId)) return
+    let cancelled = false
+    setIsWorking(true)
+    apiClient.importGrades(subject.id, { ...options, dryRun: true }).then(response => {
+      if (cancelled) return
+      setIsWorking(false)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Failed to check the import')
+        setPreview(null)
+        return
+      }
+      setPreview(response.data)
+    })
+    return () => { cancelled = true }
+  }, [open, subject?.id, options])
+
+  const cellsByPosition = useMemo(() => new Map(
+    (preview?.cells || []).map(cell => [`${cell.row}:${cell.column}`, cell])
+  ), [preview])
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const text = await file.text()
+    if (!text.trim()) {
+      toast.error('The file is empty')
+      return
+    }
+    setFileName(file.name)
+    setStudentMatches({})
+    setCsv(text)
+  }
+
+  const chooseStudent = (row: number, value: string) => {
+    setStudentMatches(prev => {
+      const next = { ...prev }
+      if (value === AUTOMATIC) {
+        delete next[String(row)]
+      } else {
+        next[String(row)] = value === LEAVE_OUT ? null : value
+      }
+      return next
+    })
+  }
+
+  const commit = async () => {
+    if (!subject || !preview) return
+    setIsWorking(true)
+    const response = await apiClient.importGrades(subject.id, { ...options, dryRun: false })
+    setIsWorking(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Import failed')
+      return
+    }
+
+    const { create, update, error } = response.data.summary
+    const skipped = error > 0 ? `, left out ${error} with errors` : ''
+    toast.success(`Imported ${create} new and overwrote ${update} existing grades${skipped}`)
+    onImported()
+    onOpenChange(false)
+  }
+
+  const gridColumns = preview?.columns.filter(column => column.action !== 'error') || []
+  const columnProblems = preview?.columns.filter(column => column.action === 'error') || []
+  const toSave = preview ? preview.summary.create + preview.summary.update : 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isWorking && onOpenChange(next)}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Grades{subject ? ` into ${subject.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            A CSV with a student column (name, SIS ID or student ID) and one column per lesson. Nothing is saved until you import the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Label htmlFor="grade-import-file" className="cursor-pointer">
+              <Button variant="outline" asChild>
+                <span className="flex items-center gap-2">
+                  <Upload size={16} />
+                  {fileName ? 'Choose Another File' : 'Choose File'}
+                </span>
+              </Button>
+            </Label>
+            <input
+              id="grade-import-file"
+              type="file"
+              accept=".csv,.tsv,.txt"
+              className="hidden"
+              onChange={loadFile}
+            />
+            {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Match lessons</Label>
+              <Select value={lessonMatch} onValueChange={(value) => setLessonMatch(value as GradeImportLessonMatch)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="name">By column name</SelectItem>
+                  <SelectItem value="order">By order (first column is the first lesson)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={createMissingLessons} onCheckedChange={(checked) => setCreateMissingLessons(checked === true)} />
+                Create lessons that do not exist yet, as
+              </label>
+              <Select value={categoryId} onValueChange={setCategoryId} disabled={!createMissingLessons}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={overwrite} onCheckedChange={(checked) => setOverwrite(checked === true)} />
+            Overwrite grades that are already entered (otherwise they are kept)
+          </label>
+
+          {csv && !preview && (
+            <p className="text-sm text-muted-foreground">
+              {isWorking ? 'Checking…' : createMissingLessons && !categoryId ? 'Choose the category for new lessons.' : 'No preview.'}
+            </p>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(CELL_LABELS) as GradeImportCellAction[]).map(action => (
+                  <span key={action} className={`rounded px-2 py-1 ${CELL_CLASSES[action]}`}>
+                    {CELL_LABELS[action]} {preview.summary[action]}
+                  </span>
+                ))}
+              </div>
+
+              {columnProblems.length > 0 && (
+                <div className="space-y-1 text-sm text-destructive">
+                  {columnProblems.map(column => (
+                    <p key={column.column}>Column "{column.header}" is left out: {column.message}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="max-h-[45vh] overflow-auto rounded-md border border-border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b border-border">
+                      <th className="p-2 text-left font-medium">Student</th>
+                      {gridColumns.map(column => (
+                        <th key={column.column} className="p-2 text-left font-medium whitespace-nowrap">
+                          {column.lessonName}
+                          {column.action === 'create' && <Badge variant="outline" className="ml-1">New lesson</Badge>}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map(row => (
+                      <tr key={row.row} className="border-b border-border last:border-0">
+                        <td className="p-2 align-top">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">Row {row.row}</span>
+                            <Badge variant={MATCH_BADGES[row.match]}>{MATCH_LABELS[row.match]}</Badge>
+                          </div>
+                          <p className="font-medium">{row.value}</p>
+                          {row.studentName && row.studentName !== row.value && (
+                            <p className="text-xs text-muted-foreground">as {row.studentName}</p>
+                          )}
+                          {row.message && <p className="text-xs text-destructive">{row.message}</p>}
+                          {(row.match === 'fuzzy' || row.match === 'ambiguous' || row.match === 'none' || row.match === 'chosen') && (
+                            <Select
+                              value={String(row.row) in studentMatches ? studentMatches[String(row.row)] ?? LEAVE_OUT : AUTOMATIC}
+                              onValueChange={(value) => chooseStudent(row.row, value)}
+                            >
+                              <SelectTrigger className="mt-1 h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={AUTOMATIC}>Match automatically</SelectItem>
+                                <SelectItem value={LEAVE_OUT}>— Leave out —</SelectItem>
+                                {preview.students.map(student => (
+                                  <SelectItem key={student.id} value={student.id}>{student.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </td>
+                        {gridColumns.map(column => {
+                          const cell = cellsByPosition.get(`${row.row}:${column.column}`)
+                          return (
+                            <td key={column.column} className="p-1 align-top">
+                              {cell && (
+                                <div className={`rounded px-2 py-1 whitespace-nowrap ${CELL_CLASSES[cell.action]}`} title={describeCell(cell)}>
+                                  {cell.value}
+                                  {cell.previous && cell.action !== 'unchanged' && (
+                                    <span className="ml-1 text-xs opacity-70">({cell.previous})</span>
+                                  )}
+                                </div>
+                              )}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isWorking}>Cancel</Button>
+            <Button onClick={commit} disabled={isWorking || !preview || toSave === 0}>
+              {isWorking && preview ? 'Working…' : `Import ${toSave} Grade${toSave === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
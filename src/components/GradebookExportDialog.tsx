@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { DownloadSimple } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+
+type ExportScope = 'subject' | 'group' | 'year'
+
+interface GradebookExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subjects: { id: string; name: string }[]
+  groups: { id: string; name: string }[]
+  // Subject picked when the dialog opens, usually the one shown in the grid
+  defaultSubjectId?: string
+}
+
+const toFileName = (name: string) => name.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '_') || 'Gradebook'
+
+// Downloads the grade table as a spreadsheet: lessons per grading period, percentages, weighted averages and class averages
+export default function GradebookExportDialog({ open, onOpenChange, subjects, groups, defaultSubjectId }: GradebookExportDialogProps) {
+  const [scope, setScope] = useState<ExportScope>('subject')
+  const [subjectId, setSubjectId] = useState('')
+  const [groupId, setGroupId] = useState('')
+  const [format, setFormat] = useState<'xlsx' | 'csv'>('xlsx')
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setSubjectId(defaultSubjectId || subjects[0]?.id || '')
+    setGroupId(groups[0]?.id || '')
+    setScope(defaultSubjectId || subjects.length > 0 ? 'subject' : 'year')
+  }, [open]) // Only on opening, so reloads of the lists behind the dialog keep the choices
+
+  const scopeName = scope === 'subject'
+    ? subjects.find(subject => subject.id === subjectId)?.name || 'Subject'
+    : scope === 'group'
+      ? groups.find(group => group.id === groupId)?.name || 'Group'
+      : 'All_Subjects'
+
+  const canExport = !isExporting &&
+    (scope !== 'subject' || Boolean(subjectId)) &&
+    (scope !== 'group' || Boolean(groupId))
+
+  const exportGradebook = async () => {
+    setIsExporting(true)
+    try {
+      const blob = await apiClient.downloadGradebookExport({
+        format,
+        subjectId: scope === 'subject' ? subjectId : undefined,
+        groupId: scope === 'group' ? groupId : undefined
+      })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `Gradebook_${toFileName(scopeName)}.${format}`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Gradebook</DialogTitle>
+          <DialogDescription>
+            Lessons grouped by grading period with category, max points, every student's percentages, weighted averages and a class average row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Export</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="subject" disabled={subjects.length === 0}>One subject</SelectItem>
+                <SelectItem value="group" disabled={groups.length === 0}>Every subject of a group</SelectItem>
+                <SelectItem value="year">Every subject this school year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === 'subject' && (
+            <div className="space-y-1">
+              <Label>Subject</Label>
+              <Select value={subjectId} onValueChange={setSubjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map(subject => (
+                    <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === 'group' && (
+            <div className="space-y-1">
+              <Label>Group</Label>
+              <Select value={groupId} onValueChange={setGroupId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groups.map(group => (
+                    <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as 'xlsx' | 'csv')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel workbook (.xlsx), one sheet per subject</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={exportGradebook} disabled={!canExport} className="flex items-center gap-2">
+              <DownloadSimple size={16} />
+              {isExporting ? 'Exporting…' : 'Download'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
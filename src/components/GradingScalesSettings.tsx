@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Ruler, Plus, Pencil, Trash2 } from "lucide-react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { GradingScale, GradingScaleBand } from '@/lib/types'
+import { STANDARD_GRADING_SCALE_BANDS, getBandRangeLabel } from '@/lib/gradingScales'
+
+interface BandFormRow {
+  minPercent: string
+  label: string
+  gpaPoints: string
+  color: string
+}
+
+const toFormRows = (bands: GradingScaleBand[]): BandFormRow[] =>
+  bands.map(band => ({
+    minPercent: String(band.minPercent),
+    label: band.label,
+    gpaPoints: band.gpaPoints === null || band.gpaPoints === undefined ? '' : String(band.gpaPoints),
+    color: band.color || '#6b7280'
+  }))
+
+export default function GradingScalesSettings() {
+  const [scales, setScales] = useState<GradingScale[]>([])
+  const [dialog, setDialog] = useState<{ open: boolean; scale: GradingScale | null }>({ open: false, scale: null })
+  const [form, setForm] = useState<{ name: string; isDefault: boolean; bands: BandFormRow[] }>({
+    name: '',
+    isDefault: false,
+    bands: []
+  })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadScales = async () => {
+    const response = await apiClient.getGradingScales()
+    setScales(Array.isArray(response.data) ? response.data : [])
+  }
+
+  useEffect(() => {
+    loadScales()
+  }, [])
+
+  const openDialog = (scale: GradingScale | null) => {
+    setForm({
+      name: scale?.name || '',
+      isDefault: scale?.isDefault || false,
+      bands: toFormRows(scale?.bands.length ? scale.bands : STANDARD_GRADING_SCALE_BANDS)
+    })
+    setDialog({ open: true, scale })
+  }
+
+  const closeDialog = () => setDialog({ open: false, scale: null })
+
+  const updateBand = (index: number, field: keyof BandFormRow, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      bands: prev.bands.map((band, bandIndex) => bandIndex === index ? { ...band, [field]: value } : band)
+    }))
+  }
+
+  const addBand = () => {
+    setForm(prev => ({ ...prev, bands: [...prev.bands, { minPercent: '', label: '', gpaPoints: '', color: '#6b7280' }] }))
+  }
+
+  const removeBand = (index: number) => {
+    setForm(prev => ({ ...prev, bands: prev.bands.filter((_, bandIndex) => bandIndex !== index) }))
+  }
+
+  const saveScale = async () => {
+    const bands: GradingScaleBand[] = form.bands.map(band => ({
+      minPercent: parseFloat(band.minPercent),
+      label: band.label.trim(),
+      gpaPoints: band.gpaPoints.trim() === '' ? null : parseFloat(band.gpaPoints),
+      color: band.color || null
+    }))
+
+    if (bands.some(band => !band.label || isNaN(band.minPercent) || band.minPercent < 0 || band.minPercent > 100)) {
+      toast.error('Each band needs a label and a minimum between 0 and 100')
+      return
+    }
+    if (!bands.some(band => band.minPercent === 0)) {
+      toast.error('The lowest band must start at 0%')
+      return
+    }
+
+    setIsSaving(true)
+    const payload = { name: form.name.trim(), isDefault: form.isDefault, bands }
+    const response = dialog.scale
+      ? await apiClient.updateGradingScale(dialog.scale.id, payload)
+      : await apiClient.createGradingScale(payload)
+    setIsSaving(false)
+
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+
+    toast.success(dialog.scale ? 'Grading scale updated' : 'Grading scale created')
+    closeDialog()
+    await loadScales()
+  }
+
+  const deleteScale = async (scale: GradingScale) => {
+    if (!window.confirm(`Delete the "${scale.name}" grading scale? Subjects using it will switch to the default scale.`)) {
+      return
+    }
+
+    const response = await apiClient.deleteGradingScale(scale.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+
+    toast.success('Grading scale deleted')
+    await loadScales()
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Ruler size={20} />
+              Grading Scales
+            </CardTitle>
+            <Button onClick={() => openDialog(null)} size="sm">
+              <Plus size={16} className="mr-2" />
+              Add Scale
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            The default scale is used for letter grades, GPA and report card legends. Individual subjects can override it.
+          </p>
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {scales.map(scale => (
+              <div key={scale.id} className="p-4 bg-muted/30 rounded-lg border">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium">{scale.name}</h4>
+                    {scale.isDefault && <Badge variant="secondary" className="text-xs">Default</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDialog(scale)}
+                      className="h-8 w-8"
+                      title="Edit Scale"
+                    >
+                      <Pencil size={14} />
+                    </Button>
+                    {!scale.isDefault && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteScale(scale)}
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Delete Scale"
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {scale.bands.map(band => (
+                    <span
+                      key={band.id || band.label}
+                      className="text-xs px-2 py-0.5 rounded border"
+                      style={{ borderColor: band.color || undefined, color: band.color || undefined }}
+                      title={getBandRangeLabel(scale.bands, band)}
+                    >
+                      {band.label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialog.open} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{dialog.scale ? 'Edit Grading Scale' : 'Add Grading Scale'}</DialogTitle>
+            <DialogDescription>
+              Each band applies from its minimum percentage up to the next band's minimum.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scale-name">Scale Name *</Label>
+              <Input
+                id="scale-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. 4-Point (A–E), Standards-Based"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-muted-foreground">
+                <span className="col-span-3">Min %</span>
+                <span className="col-span-3">Label</span>
+                <span className="col-span-3">GPA Points</span>
+                <span className="col-span-2">Color</span>
+              </div>
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {form.bands.map((band, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-3"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={band.minPercent}
+                      onChange={(e) => updateBand(index, 'minPercent', e.target.value)}
+                    />
+                    <Input
+                      className="col-span-3"
+                      value={band.label}
+                      onChange={(e) => updateBand(index, 'label', e.target.value)}
+                      maxLength={20}
+                    />
+                    <Input
+                      className="col-span-3"
+                      type="number"
+                      step="0.1"
+                      value={band.gpaPoints}
+                      onChange={(e) => updateBand(index, 'gpaPoints', e.target.value)}
+                    />
+                    <Input
+                      className="col-span-2 h-10 p-1"
+                      type="color"
+                      value={band.color}
+                      onChange={(e) => updateBand(index, 'color', e.target.value)}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="col-span-1 h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => removeBand(index)}
+                      disabled={form.bands.length <= 1}
+                      title="Remove Band"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button size="sm" variant="outline" onClick={addBand}>
+                <Plus size={14} className="mr-1" /> Add Band
+              </Button>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="scale-default"
+                checked={form.isDefault}
+                disabled={dialog.scale?.isDefault}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, isDefault: checked }))}
+              />
+              <Label htmlFor="scale-default" className="text-sm font-medium">
+                Default scale for subjects without their own
+              </Label>
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button onClick={saveScale} className="flex-1" disabled={!form.name.trim() || form.bands.length === 0 || isSaving}>
+                {dialog.scale ? 'Save Changes' : 'Create Scale'}
+              </Button>
+              <Button variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
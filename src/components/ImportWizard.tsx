@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Upload } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { readSpreadsheet } from '@/lib/spreadsheet'
+import {
+  applyColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportKind,
+  ImportResult,
+  ImportRowAction
+} from '@shared/importMapping'
+
+interface ImportWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  kind: ImportKind
+  title: string
+  // Called after a committed import so the page can reload
+  onImported: () => void
+}
+
+const NOT_IMPORTED = 'none'
+
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  create: 'New',
+  update: 'Update',
+  duplicate: 'Skipped',
+  error: 'Error'
+}
+
+const ACTION_BADGES: Record<ImportRowAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  duplicate: 'outline',
+  error: 'destructive'
+}
+
+// Upload a CSV or XLSX file, map its columns, check every row with a dry run, then import all rows in one go
+export default function ImportWizard({ open, onOpenChange, kind, title, onImported }: ImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<string[][]>([])
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<ImportColumnMapping>({})
+  const [updateExisting, setUpdateExisting] = useState(true)
+  const [skipErrors, setSkipErrors] = useState(false)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+  const [actionFilter, setActionFilter] = useState<ImportRowAction | 'all'>('all')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const fields = IMPORT_FIELDS[kind]
+
+  useEffect(() => {
+    if (!open) return
+    setStep('upload')
+    setFileName('')
+    setSheet([])
+    setHasHeader(true)
+    setMapping({})
+    setUpdateExisting(true)
+    setSkipErrors(false)
+    setPreview(null)
+    setActionFilter('all')
+  }, [open, kind])
+
+  const columnCount = useMemo(() => sheet.reduce((max, cells) => Math.max(max, cells.length), 0), [sheet])
+  const columnNames = useMemo(() => Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && sheet[0]?.[index]?.trim() ? sheet[0][index].trim() : `Column ${index + 1}`
+  ), [columnCount, hasHeader, sheet])
+
+  // Sheet rows as field values, numbered as in the spreadsheet program
+  const mappedRows = useMemo(() => {
+    const firstRow = hasHeader ? 1 : 0
+    return sheet.slice(firstRow).map((cells, index) => ({
+      row: index + firstRow + 1,
+      values: applyColumnMapping(kind, mapping, cells)
+    }))
+  }, [sheet, hasHeader, kind, mapping])
+
+  const missingRequired = fields.filter(field => field.required && (mapping[field.key] ?? null) === null)
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const rows = await readSpreadsheet(file)
+      if (rows.length === 0) {
+        toast.error('The file is empty')
+        return
+      }
+      setFileName(file.name)
+      setSheet(rows)
+      setHasHeader(true)
+      setMapping(guessColumnMapping(kind, rows[0]))
+      setStep('map')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the file')
+    }
+  }
+
+  const toggleHeader = (checked: boolean) => {
+    setHasHeader(checked)
+    setMapping(checked ? guessColumnMapping(kind, sheet[0] || []) : Object.fromEntries(fields.map((field, index) => [field.key, index < columnCount ? index : null])))
+  }
+
+  const runDryRun = async () => {
+    setIsWorking(true)
+    const response = await apiClient.bulkImport(kind, { rows: mappedRows, dryRun: true, updateExisting })
+    setIsWorking(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to check the import')
+      return
+    }
+    setPreview(response.data)
+    setSkipErrors(false)
+    setActionFilter(response.data.summary.error > 0 ? 'error' : 'all')
+    setStep('preview')
+  }
+
+  const commit = async () => {
+    if (!preview) return
+    const errorRows = new Set(preview.rows.filter(row => row.action === 'error').map(row => row.row))
+    const rows = skipErrors ? mappedRows.filter(row => !errorRows.has(row.row)) : mappedRows
+    if (rows.length === 0) return
+
+    setIsWorking(true)
+    const response = await apiClient.bulkImport(kind, { rows, dryRun: false, updateExisting })
+    setIsWorking(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Import failed')
+      return
+    }
+
+    if (!response.data.committed) {
+      // Something changed since the dry run; show the new plan instead
+      setPreview(response.data)
+      setActionFilter('error')
+      toast.error('Some rows have errors now. Nothing was imported.')
+      return
+    }
+
+    const { create, update } = response.data.summary
+    toast.success(`Imported ${create} new and updated ${update} existing ${kind}`)
+    onImported()
+    onOpenChange(false)
+  }
+
+  const visibleRows = preview?.rows.filter(row => actionFilter === 'all' || row.action === actionFilter) || []
+  const canCommit = preview !== null &&
+    (preview.summary.error === 0 || skipErrors) &&
+    preview.summary.create + preview.summary.update > 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isWorking && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose a CSV or Excel (.xlsx) file. Nothing is imported until you confirm the preview.'}
+            {step === 'map' && `${fileName}: choose which column holds each field.`}
+            {step === 'preview' && 'This is what the import will do. All rows are imported together, or none are.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="flex flex-col items-center gap-3 rounded-md border border-dashed border-border p-8">
+            <Label htmlFor={`import-file-${kind}`} className="cursor-pointer">
+              <Button variant="outline" asChild>
+                <span className="flex items-center gap-2">
+                  <Upload size={16} />
+                  Choose File
+                </span>
+              </Button>
+            </Label>
+            <input
+              id={`import-file-${kind}`}
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              className="hidden"
+              onChange={loadFile}
+            />
+            <p className="text-xs text-muted-foreground">
+              Fields: {fields.map(field => `${field.label}${field.required ? ' *' : ''}`).join(', ')}
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={hasHeader} onCheckedChange={(checked) => toggleHeader(checked === true)} />
+              The first row holds column names
+            </label>
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              {fields.map(field => {
+                const column = mapping[field.key] ?? null
+                const sample = column === null
+                  ? ''
+                  : mappedRows.slice(0, 3).map(row => row.values[field.key]).filter(Boolean).join(', ')
+                return (
+                  <div key={field.key} className="space-y-1">
+                    <Label>{field.label}{field.required ? ' *' : ''}</Label>
+                    <Select
+                      value={column === null ? NOT_IMPORTED : String(column)}
+                      onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === NOT_IMPORTED ? null : Number(value) }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>— Not imported —</SelectItem>
+                        {columnNames.map((name, index) => (
+                          <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {sample && <p className="truncate text-xs text-muted-foreground">e.g. {sample}</p>}
+                  </div>
+                )
+              })}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={updateExisting} onCheckedChange={(checked) => setUpdateExisting(checked === true)} />
+              Update {kind} that already exist (otherwise they are skipped)
+            </label>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Choose a column for {missingRequired.map(field => field.label).join(', ')}.
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={runDryRun} disabled={isWorking || missingRequired.length > 0 || mappedRows.length === 0}>
+                {isWorking ? 'Checking…' : `Preview ${mappedRows.length} Row${mappedRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button variant={actionFilter === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setActionFilter('all')}>
+                All {preview.rows.length}
+              </Button>
+              {(Object.keys(ACTION_LABELS) as ImportRowAction[]).map(action => (
+                <Button
+                  key={action}
+                  variant={actionFilter === action ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setActionFilter(action)}
+                  disabled={preview.summary[action] === 0}
+                >
+                  {ACTION_LABELS[action]} {preview.summary[action]}
+                </Button>
+              ))}
+            </div>
+
+            <div className="max-h-[45vh] divide-y divide-border overflow-y-auto rounded-md border border-border">
+              {visibleRows.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">No rows.</p>
+              ) : visibleRows.map(row => (
+                <div key={row.row} className="flex items-start gap-3 p-2 text-sm">
+                  <span className="w-12 shrink-0 text-xs text-muted-foreground">Row {row.row}</span>
+                  <Badge variant={ACTION_BADGES[row.action]} className="shrink-0">{ACTION_LABELS[row.action]}</Badge>
+                  <div className="min-w-0">
+                    <p className="font-medium">{row.label || '—'}</p>
+                    {row.messages.map((message, index) => (
+                      <p key={index} className={row.action === 'error' ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {preview.summary.error > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={skipErrors} onCheckedChange={(checked) => setSkipErrors(checked === true)} />
+                Leave out the {preview.summary.error} row{preview.summary.error === 1 ? '' : 's'} with errors and import the rest
+              </label>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setStep('map')} disabled={isWorking}>Back</Button>
+              <Button onClick={commit} disabled={isWorking || !canCommit}>
+                {isWorking
+                  ? 'Importing…'
+                  : `Import ${preview.summary.create} New, Update ${preview.summary.update}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ClipboardList } from "lucide-react"
+import { apiClient } from '@/lib/api'
+import { MissingWorkItem, StudentMissingWork } from '@/lib/types'
+import { GRADE_STATUS_BADGE_CLASSES } from '@/lib/gradeStatus'
+
+interface MissingWorkCardProps {
+  // Students currently shown on the dashboard; the list follows the teacher selector
+  studentIds: string[]
+}
+
+const formatScore = (value: number | null) => value === null ? '—' : `${Number.isInteger(value) ? value : value.toFixed(1)}%`
+
+const describeItem = (item: MissingWorkItem) => {
+  if (item.status === 'missing') {
+    return item.dueDate ? `due ${item.dueDate.slice(0, 10)}` : 'no due date'
+  }
+  const lateness = item.daysLate > 0 ? `${item.daysLate} ${item.daysLate === 1 ? 'day' : 'days'} late` : 'late'
+  const penalized = item.percentage !== null && item.effectivePercentage !== null && item.effectivePercentage < item.percentage
+  return penalized
+    ? `${lateness} · ${formatScore(item.percentage)} → ${formatScore(item.effectivePercentage)}`
+    : `${lateness} · ${formatScore(item.percentage)}`
+}
+
+// Dashboard list of missing and late work per student
+export default function MissingWorkCard({ studentIds }: MissingWorkCardProps) {
+  const [report, setReport] = useState<StudentMissingWork[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    apiClient.getMissingWork().then(response => {
+      if (cancelled) return
+      if (response.error) console.error('Failed to load missing work:', response.error)
+      setReport(Array.isArray(response.data) ? response.data : [])
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const visibleReport = useMemo(() => {
+    const visible = new Set(studentIds)
+    return report
+      .filter(entry => visible.has(entry.studentId))
+      .sort((a, b) => b.missingCount - a.missingCount || b.lateCount - a.lateCount)
+  }, [report, studentIds])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList size={20} />
+          Missing &amp; Late Work
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-4">Loading…</p>
+        ) : visibleReport.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No missing or late work</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {visibleReport.map(entry => (
+              <div key={entry.studentId} className="py-2 border-b border-border last:border-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm">{entry.studentName}</p>
+                  <div className="flex gap-1">
+                    {entry.missingCount > 0 && (
+                      <Badge variant="outline" className={`text-xs ${GRADE_STATUS_BADGE_CLASSES.missing}`}>
+                        {entry.missingCount} missing
+                      </Badge>
+                    )}
+                    {entry.lateCount > 0 && (
+                      <Badge variant="outline" className={`text-xs ${GRADE_STATUS_BADGE_CLASSES.late}`}>
+                        {entry.lateCount} late
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {entry.items.map(item => (
+                    <li key={item.lessonId} className="text-xs text-muted-foreground flex justify-between gap-2">
+                      <span className="truncate">{item.subjectName} – {item.lessonName}</span>
+                      <span className="shrink-0 tabular-nums">{describeItem(item)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
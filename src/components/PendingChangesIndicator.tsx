@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CloudArrowUp, CloudSlash, Warning } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient, SyncResult } from '@/lib/api'
+import type { QueuedMutation } from '@/lib/offlineQueue'
+
+// What a queued edit would save, read from its request body
+const describeQueuedEdit = (mutation: QueuedMutation): string => {
+  if (mutation.method === 'DELETE') return 'Delete'
+  try {
+    const body = JSON.parse(mutation.body || '{}')
+    const values = body.records?.[0] ?? body
+    const parts: string[] = []
+    if (values.percentage !== undefined && values.percentage !== null) parts.push(`${values.percentage}%`)
+    else if (values.errors !== undefined && values.errors !== null) parts.push(`${values.errors} errors`)
+    if (values.status) parts.push(String(values.status))
+    if (values.name) parts.push(String(values.name))
+    if (values.points !== undefined && values.points !== null && values.percentage === undefined) parts.push(`${values.points} points`)
+    if (values.date) parts.push(String(values.date))
+    return parts.join(', ') || 'Update'
+  } catch {
+    return 'Update'
+  }
+}
+
+// Header badge for edits waiting in the offline queue; also lets the user resolve edits the server rejected on replay
+export default function PendingChangesIndicator() {
+  const [pendingCount, setPendingCount] = useState(apiClient.getPendingChangeCount())
+  const [conflictCount, setConflictCount] = useState(apiClient.getSyncConflictCount())
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+  const [conflicts, setConflicts] = useState<QueuedMutation[] | null>(null)
+  const [resolvingId, setResolvingId] = useState<number | null>(null)
+
+  const openConflicts = useCallback(async () => {
+    setConflicts(await apiClient.getSyncConflicts())
+  }, [])
+
+  useEffect(() => {
+    const handlePendingChanges = (event: Event) => {
+      const detail = (event as CustomEvent<{ count: number; conflicts: number }>).detail
+      setPendingCount(detail.count)
+      setConflictCount(detail.conflicts)
+    }
+    const handleSyncConflicts = (event: Event) => {
+      const { conflicts, failed } = (event as CustomEvent<SyncResult>).detail
+      if (conflicts.length > 0) {
+        toast.warning(
+          `${conflicts.length} offline ${conflicts.length === 1 ? 'change conflicts' : 'changes conflict'} with newer data on the server`,
+          {
+            description: conflicts.map(conflict => conflict.label).join(', '),
+            action: { label: 'Review', onClick: () => { openConflicts() } }
+          }
+        )
+      }
+      if (failed.length > 0) {
+        toast.error(
+          `${failed.length} offline ${failed.length === 1 ? 'change' : 'changes'} could not be saved`,
+          { description: failed.map(failure => failure.label).join(', ') }
+        )
+      }
+    }
+    const handleSynced = (event: Event) => {
+      const { applied } = (event as CustomEvent<{ applied: number }>).detail
+      if (applied > 0) toast.success(`Synced ${applied} offline ${applied === 1 ? 'change' : 'changes'}`)
+    }
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener('gradeflow-pending-changes', handlePendingChanges)
+    window.addEventListener('gradeflow-sync-conflicts', handleSyncConflicts)
+    window.addEventListener('gradeflow-offline-synced', handleSynced)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('gradeflow-pending-changes', handlePendingChanges)
+      window.removeEventListener('gradeflow-sync-conflicts', handleSyncConflicts)
+      window.removeEventListener('gradeflow-offline-synced', handleSynced)
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [openConflicts])
+
+  const resolveConflict = async (mutation: QueuedMutation, resolution: 'keep' | 'discard') => {
+    setResolvingId(mutation.id ?? null)
+    const response = await apiClient.resolveSyncConflict(mutation, resolution)
+    setResolvingId(null)
+    if (response.error) {
+      toast.error(`Could not apply the offline change: ${response.error}`)
+      return
+    }
+    const remaining = (conflicts || []).filter(conflict => conflict.id !== mutation.id)
+    setConflicts(remaining.length > 0 ? remaining : null)
+    if (resolution === 'discard') toast.success('Offline change discarded')
+  }
+
+  if (pendingCount === 0 && conflictCount === 0 && isOnline) return null
+
+  return (
+    <>
+      {conflictCount > 0 && (
+        <Badge
+          variant="outline"
+          className="text-[11px] cursor-pointer gap-1 border-red-300 text-red-800 bg-red-50"
+          title="Offline changes to records that were changed on the server since – click to review"
+          onClick={openConflicts}
+        >
+          <Warning size={12} />
+          {`${conflictCount} ${conflictCount === 1 ? 'conflict' : 'conflicts'}`}
+        </Badge>
+      )}
+      {(pendingCount > 0 || !isOnline) && (
+        <Badge
+          variant="outline"
+          className="text-[11px] cursor-pointer gap-1 border-amber-300 text-amber-800 bg-amber-50"
+          title={isOnline ? 'Click to sync now' : 'Changes will sync when the connection returns'}
+          onClick={() => apiClient.syncPendingChanges()}
+        >
+          {isOnline ? <CloudArrowUp size={12} /> : <CloudSlash size={12} />}
+          {pendingCount > 0
+            ? `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} pending`
+            : 'Offline'}
+        </Badge>
+      )}
+
+      <Dialog open={conflicts !== null} onOpenChange={(open) => { if (!open) setConflicts(null) }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline changes in conflict</DialogTitle>
+            <DialogDescription>
+              These records were changed on the server after you last loaded them. Keep your offline change to
+              overwrite the server, or discard it to keep what is on the server.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {(conflicts || []).length === 0 && (
+              <p className="text-sm text-muted-foreground">No conflicts left.</p>
+            )}
+            {(conflicts || []).map(conflict => (
+              <div key={conflict.id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{conflict.label}: {describeQueuedEdit(conflict)}</p>
+                  <p className="text-xs text-muted-foreground">Made offline {new Date(conflict.queuedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId !== null || !isOnline}
+                    onClick={() => resolveConflict(conflict, 'discard')}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={resolvingId !== null || !isOnline}
+                    onClick={() => resolveConflict(conflict, 'keep')}
+                  >
+                    Keep mine
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
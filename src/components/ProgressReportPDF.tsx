@@ -0,0 +1,224 @@
+import { Document, Image, Page, Text, View, StyleSheet } from '@react-pdf/renderer'
+import { Student, ProgressReport, ReportCardTemplate } from '@/lib/types'
+import { DEFAULT_REPORT_TEMPLATE } from '@shared/reportTemplate'
+
+// Page size, font and branding come from the report card template so both documents look related
+const createStyles = (template: ReportCardTemplate) => {
+  const size = (points: number) => Math.round(points * template.fontSize / 11 * 10) / 10
+
+  return StyleSheet.create({
+    page: {
+      fontSize: size(11),
+      fontFamily: template.fontFamily,
+      padding: 35,
+      backgroundColor: '#ffffff',
+    },
+    header: {
+      marginBottom: 16,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingBottom: 10,
+      borderBottom: `2px solid ${template.branding.primaryColor}`,
+    },
+    headerText: {
+      flex: 1,
+      textAlign: 'center',
+    },
+    logo: {
+      width: 50,
+      height: 50,
+      objectFit: 'contain',
+      marginRight: 12,
+    },
+    schoolName: {
+      fontSize: size(20),
+      color: template.branding.primaryColor,
+      marginBottom: 4,
+    },
+    reportTitle: {
+      fontSize: size(14),
+      color: '#374151',
+    },
+    window: {
+      fontSize: size(10),
+      color: '#6b7280',
+      marginTop: 4,
+    },
+    studentRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-end',
+      marginBottom: 14,
+    },
+    studentName: {
+      fontSize: size(16),
+      color: '#1f2937',
+    },
+    overall: {
+      fontSize: size(11),
+      color: template.branding.accentColor,
+    },
+    subject: {
+      marginBottom: 10,
+      padding: 10,
+      border: '1px solid #e5e7eb',
+      borderRadius: 4,
+    },
+    subjectHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 4,
+    },
+    subjectName: {
+      fontSize: size(12),
+      color: '#1f2937',
+    },
+    subjectAverage: {
+      fontSize: size(12),
+      color: '#1f2937',
+    },
+    label: {
+      fontSize: size(9),
+      color: '#6b7280',
+      marginTop: 4,
+      marginBottom: 2,
+    },
+    item: {
+      fontSize: size(10),
+      color: '#374151',
+      marginLeft: 8,
+    },
+    missingItem: {
+      fontSize: size(10),
+      color: '#b91c1c',
+      marginLeft: 8,
+    },
+    fine: {
+      fontSize: size(10),
+      color: '#15803d',
+    },
+    note: {
+      marginTop: 8,
+      padding: 10,
+      backgroundColor: '#f8fafc',
+      border: '1px solid #e2e8f0',
+      borderRadius: 4,
+    },
+    noteTitle: {
+      fontSize: size(11),
+      color: '#374151',
+      marginBottom: 4,
+    },
+    noteText: {
+      fontSize: size(10),
+      color: '#374151',
+      lineHeight: 1.4,
+    },
+    footer: {
+      position: 'absolute',
+      bottom: 20,
+      left: 35,
+      right: 35,
+      fontSize: size(8),
+      color: '#9ca3af',
+      textAlign: 'center',
+    },
+  })
+}
+
+interface ProgressReportPDFProps {
+  student: Student
+  progressReport: ProgressReport
+  schoolName?: string
+  template?: ReportCardTemplate
+}
+
+const formatDate = (value: string | null) => {
+  if (!value) return ''
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+const formatAverage = (value: number | null) => value === null ? '--' : `${value.toFixed(1)}%`
+
+// Mid-period progress report: each subject's average so far, missing work and recent low scores
+const ProgressReportPDF: React.FC<ProgressReportPDFProps> = ({
+  student,
+  progressReport,
+  schoolName = '',
+  template = DEFAULT_REPORT_TEMPLATE,
+}) => {
+  const styles = createStyles(template)
+
+  return (
+    <Document>
+      <Page size={template.pageSize} orientation={template.orientation} style={styles.page}>
+        <View style={styles.header}>
+          {template.branding.logoDataUrl && <Image src={template.branding.logoDataUrl} style={styles.logo} />}
+          <View style={styles.headerText}>
+            {schoolName ? <Text style={styles.schoolName}>{schoolName}</Text> : null}
+            <Text style={styles.reportTitle}>Progress Report</Text>
+            <Text style={styles.window}>
+              {formatDate(progressReport.startDate)} – {formatDate(progressReport.endDate)}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.studentRow}>
+          <Text style={styles.studentName}>{student.name}</Text>
+          <Text style={styles.overall}>Overall so far: {formatAverage(progressReport.overallAverage)}</Text>
+        </View>
+
+        {progressReport.subjects.map(subject => (
+          <View key={subject.subjectId} style={styles.subject} wrap={false}>
+            <View style={styles.subjectHeader}>
+              <Text style={styles.subjectName}>{subject.subjectName}</Text>
+              <Text style={styles.subjectAverage}>
+                {formatAverage(subject.average)}{subject.letterGrade ? ` (${subject.letterGrade})` : ''}
+              </Text>
+            </View>
+
+            {subject.missing.length > 0 && (
+              <View>
+                <Text style={styles.label}>Missing work</Text>
+                {subject.missing.map(item => (
+                  <Text key={item.lessonId} style={styles.missingItem}>
+                    • {item.lessonName}{item.dueDate ? ` (due ${formatDate(item.dueDate)})` : ''}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {subject.lowScores.length > 0 && (
+              <View>
+                <Text style={styles.label}>Recent low scores</Text>
+                {subject.lowScores.map(item => (
+                  <Text key={item.lessonId} style={styles.item}>
+                    • {item.lessonName}: {item.percentage.toFixed(1)}%{item.date ? ` (${formatDate(item.date)})` : ''}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {subject.missing.length === 0 && subject.lowScores.length === 0 && (
+              <Text style={styles.fine}>No missing work or low scores.</Text>
+            )}
+          </View>
+        ))}
+
+        {progressReport.note && progressReport.note.trim() !== '' && (
+          <View style={styles.note} wrap={false}>
+            <Text style={styles.noteTitle}>Teacher Note</Text>
+            <Text style={styles.noteText}>{progressReport.note}</Text>
+          </View>
+        )}
+
+        <Text style={styles.footer} fixed>
+          This is a progress report, not a final grade. Averages include only work dated in the period shown.
+        </Text>
+      </Page>
+    </Document>
+  )
+}
+
+export default ProgressReportPDF
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CloudArrowDown } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { GradingPeriod, ReportBatchJob } from '@/lib/types'
+
+interface ReportBatchPanelProps {
+  groups: { id: string; name: string }[]
+  gradingPeriods: GradingPeriod[]
+  defaultPeriodId?: string
+}
+
+const ALL_GROUPS = 'all'
+const FULL_YEAR = 'year'
+const POLL_INTERVAL_MS = 1000
+
+// Renders report cards for whole groups on the server and downloads the result when it is ready
+export default function ReportBatchPanel({ groups, gradingPeriods, defaultPeriodId }: ReportBatchPanelProps) {
+  const [groupId, setGroupId] = useState(ALL_GROUPS)
+  const [periodId, setPeriodId] = useState(defaultPeriodId || FULL_YEAR)
+  const [format, setFormat] = useState<'zip' | 'merged'>('zip')
+  const [job, setJob] = useState<ReportBatchJob | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+
+  const isRunning = job?.status === 'queued' || job?.status === 'rendering'
+
+  useEffect(() => {
+    if (!job || !isRunning) return
+
+    const timer = setTimeout(async () => {
+      const response = await apiClient.getReportBatch(job.id)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Lost track of the report card batch')
+        setJob(null)
+        return
+      }
+      setJob(response.data)
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job, isRunning])
+
+  useEffect(() => {
+    if (!job) return
+    if (job.status === 'failed') {
+      toast.error(`Report cards could not be created: ${job.error || 'unknown error'}`)
+      return
+    }
+    if (job.status !== 'done') return
+
+    apiClient.downloadReportBatch(job.id)
+      .then(blob => {
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = job.fileName
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+        toast.success(`Created ${job.total} report card${job.total === 1 ? '' : 's'}`)
+      })
+      .catch(error => toast.error(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`))
+    // Download once per finished job
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job?.id, job?.status])
+
+  const startBatch = async () => {
+    setIsStarting(true)
+    const response = await apiClient.startReportBatch({
+      groupId: groupId === ALL_GROUPS ? null : groupId,
+      gradingPeriodId: periodId === FULL_YEAR ? null : periodId,
+      format
+    })
+    setIsStarting(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to start report cards')
+      return
+    }
+    setJob(response.data)
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div>
+        <p className="text-sm font-medium">Whole-class Report Cards</p>
+        <p className="text-xs text-muted-foreground">Rendered on the server, so large groups don't freeze the browser.</p>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label>Group</Label>
+          <Select value={groupId} onValueChange={setGroupId} disabled={isRunning}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_GROUPS}>All groups</SelectItem>
+              {groups.map(group => (
+                <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Period</Label>
+          <Select value={periodId} onValueChange={setPeriodId} disabled={isRunning}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FULL_YEAR}>Whole school year</SelectItem>
+              {gradingPeriods.map(period => (
+                <SelectItem key={period.id} value={period.id}>{period.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Output</Label>
+          <Select value={format} onValueChange={(value: 'zip' | 'merged') => setFormat(value)} disabled={isRunning}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zip">ZIP, one PDF per student</SelectItem>
+              <SelectItem value="merged">One combined PDF</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {job && isRunning && (
+        <div className="space-y-1">
+          <Progress value={job.total > 0 ? (job.completed / job.total) * 100 : 0} />
+          <p className="text-xs text-muted-foreground">
+            {job.status === 'queued'
+              ? 'Waiting for other report cards to finish…'
+              : `Rendered ${job.completed} of ${job.total}`}
+          </p>
+        </div>
+      )}
+      <Button variant="outline" className="w-full" onClick={startBatch} disabled={isStarting || isRunning}>
+        <CloudArrowDown size={16} className="mr-2" />
+        {isRunning ? 'Creating report cards…' : 'Create on Server'}
+      </Button>
+    </div>
+  )
+}
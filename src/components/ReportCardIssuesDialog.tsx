@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState, ReactElement } from 'react'
+import { pdf, DocumentProps } from '@react-pdf/renderer'
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { DownloadSimple, Stamp } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { ReportCard, ReportCardIssue } from '@/lib/types'
+import { blobToBase64 } from '@/lib/utils'
+
+interface ReportCardIssuesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  student: { id: string; name: string }
+  periodKey: string
+  periodLabel: string
+  // The report card as it would be issued right now, and its PDF; null when there is nothing to issue
+  currentReportCard: ReportCard | null
+  renderPdf: () => ReactElement<DocumentProps> | null
+}
+
+type ComparisonRow = { label: string; before: string; after: string }
+
+const CURRENT = 'current'
+
+const formatValue = (value: number | null | undefined) =>
+  typeof value === 'number' && !isNaN(value) ? value.toFixed(1) : '—'
+
+const formatIssueLabel = (issue: ReportCardIssue) =>
+  `${issue.periodLabel || issue.periodKey} · v${issue.version} · ${new Date(issue.issuedAt).toLocaleDateString()}`
+
+// Lists what changed between two report cards: overall, every subject's period values, attendance and comments
+const compareReportCards = (before: ReportCard, after: ReportCard): ComparisonRow[] => {
+  const rows: ComparisonRow[] = []
+  const push = (label: string, beforeValue: string, afterValue: string) => {
+    if (beforeValue !== afterValue) rows.push({ label, before: beforeValue, after: afterValue })
+  }
+
+  push('Overall', formatValue(before.overallGPA), formatValue(after.overallGPA))
+
+  const subjectIds = [...new Set([...after.subjects, ...before.subjects].map(subject => subject.subjectId))]
+  subjectIds.forEach(subjectId => {
+    const beforeSubject = before.subjects.find(subject => subject.subjectId === subjectId)
+    const afterSubject = after.subjects.find(subject => subject.subjectId === subjectId)
+    const name = (afterSubject || beforeSubject)!.subjectName
+    const columns = (after.periodColumns?.length || 0) >= (before.periodColumns?.length || 0)
+      ? after.periodColumns || []
+      : before.periodColumns || []
+    const periodCount = Math.max(beforeSubject?.periodValues?.length || 0, afterSubject?.periodValues?.length || 0)
+
+    for (let index = 0; index < periodCount; index++) {
+      push(
+        `${name} – ${columns[index]?.label || `Period ${index + 1}`}`,
+        formatValue(beforeSubject?.periodValues?.[index]),
+        formatValue(afterSubject?.periodValues?.[index])
+      )
+    }
+    push(`${name} – Average`, formatValue(beforeSubject?.average), formatValue(afterSubject?.average))
+    push(`${name} – Grade`, beforeSubject?.letterGrade || '—', afterSubject?.letterGrade || '—')
+  })
+
+  const attendanceKeys = ['present', 'absent', 'tardy', 'excused'] as const
+  attendanceKeys.forEach(key => {
+    push(
+      `Attendance – ${key}`,
+      String(before.attendanceSummary?.[key] ?? '—'),
+      String(after.attendanceSummary?.[key] ?? '—')
+    )
+  })
+
+  push('Comments', before.comments?.trim() || '—', after.comments?.trim() || '—')
+  return rows
+}
+
+// Issues the current report card as a frozen version and lets teachers re-download and compare past issues
+export default function ReportCardIssuesDialog({
+  open,
+  onOpenChange,
+  student,
+  periodKey,
+  periodLabel,
+  currentReportCard,
+  renderPdf
+}: ReportCardIssuesDialogProps) {
+  const [issues, setIssues] = useState<ReportCardIssue[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [reason, setReason] = useState('')
+  const [isIssuing, setIsIssuing] = useState(false)
+  const [compareFrom, setCompareFrom] = useState('')
+  const [compareTo, setCompareTo] = useState(CURRENT)
+  const [issueDetails, setIssueDetails] = useState<Record<string, ReportCard>>({})
+
+  const periodIssues = issues.filter(issue => issue.periodKey === periodKey)
+  const isReissue = periodIssues.length > 0
+
+  const loadIssues = async () => {
+    setIsLoading(true)
+    const response = await apiClient.getReportCardIssues(student.id)
+    setIsLoading(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to load issued report cards')
+      return
+    }
+    setIssues(response.data)
+    const latest = response.data.find(issue => issue.periodKey === periodKey) || response.data[0]
+    setCompareFrom(latest?.id || '')
+    setCompareTo(CURRENT)
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setReason('')
+    loadIssues()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, student.id, periodKey])
+
+  // Frozen report cards are only fetched when they are picked for a comparison
+  useEffect(() => {
+    const missing = [compareFrom, compareTo].filter(id => id && id !== CURRENT && !issueDetails[id])
+    missing.forEach(async issueId => {
+      const response = await apiClient.getReportCardIssue(issueId)
+      if (response.error || !response.data?.reportCard) {
+        toast.error(response.error || 'Failed to load the issued report card')
+        return
+      }
+      setIssueDetails(previous => ({ ...previous, [issueId]: response.data!.reportCard! }))
+    })
+  }, [compareFrom, compareTo, issueDetails])
+
+  const resolveReportCard = (id: string) => id === CURRENT ? currentReportCard : issueDetails[id] || null
+
+  const comparison = useMemo(() => {
+    const before = resolveReportCard(compareFrom)
+    const after = resolveReportCard(compareTo)
+    return before && after && compareFrom !== compareTo ? compareReportCards(before, after) : null
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareFrom, compareTo, issueDetails, currentReportCard])
+
+  const issueReportCard = async () => {
+    const doc = renderPdf()
+    if (!doc || !currentReportCard) {
+      toast.error('There is no report card to issue for this student')
+      return
+    }
+    if (isReissue && !reason.trim()) {
+      toast.error('Please give a reason for reissuing this report card')
+      return
+    }
+
+    setIsIssuing(true)
+    try {
+      const pdfBase64 = await blobToBase64(await pdf(doc).toBlob())
+      const response = await apiClient.issueReportCard({
+        studentId: student.id,
+        periodKey,
+        periodLabel,
+        reportCard: currentReportCard,
+        pdfBase64,
+        reason: reason.trim() || null
+      })
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Failed to issue report card')
+        return
+      }
+      toast.success(`Issued ${student.name}'s report card (version ${response.data.version})`)
+      setReason('')
+      await loadIssues()
+    } catch (error) {
+      toast.error(`Failed to issue report card: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsIssuing(false)
+    }
+  }
+
+  const downloadIssue = async (issue: ReportCardIssue) => {
+    try {
+      const blob = await apiClient.downloadReportCardIssuePdf(issue.id)
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${student.name.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '_')}_Report_Card_v${issue.version}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast.error(`Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issued Report Cards – {student.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2 rounded-md border border-border p-3">
+            <p className="text-sm font-medium">
+              {isReissue ? `Reissue for ${periodLabel}` : `Issue for ${periodLabel}`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Freezes the grades, comments, attendance and PDF as they are now. Earlier versions are kept.
+            </p>
+            {isReissue && (
+              <div className="space-y-1">
+                <Label htmlFor="reissue-reason">Reason for reissuing</Label>
+                <Textarea
+                  id="reissue-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Corrected a grade entry error in Math"
+                  maxLength={500}
+                  rows={2}
+                />
+              </div>
+            )}
+            <Button
+              onClick={issueReportCard}
+              disabled={isIssuing || !currentReportCard || (isReissue && !reason.trim())}
+              className="w-full"
+              size="sm"
+            >
+              <Stamp size={16} className="mr-2" />
+              {isIssuing ? 'Issuing…' : isReissue ? 'Reissue Report Card' : 'Issue Report Card'}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">History</p>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : issues.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No report cards have been issued for this student yet.</p>
+            ) : (
+              <div className="divide-y divide-border rounded-md border border-border">
+                {issues.map(issue => (
+                  <div key={issue.id} className="flex items-start justify-between gap-3 p-2">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{issue.periodLabel || issue.periodKey}</span>
+                        <Badge variant={issue.version > 1 ? 'secondary' : 'outline'}>v{issue.version}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">Issued {new Date(issue.issuedAt).toLocaleString()}</p>
+                      {issue.reason && <p className="text-xs text-muted-foreground">Reason: {issue.reason}</p>}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => downloadIssue(issue)}>
+                      <DownloadSimple size={16} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {issues.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Compare</p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                <Select value={compareFrom} onValueChange={setCompareFrom}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Issued version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {issues.map(issue => (
+                      <SelectItem key={issue.id} value={issue.id}>{formatIssueLabel(issue)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={compareTo} onValueChange={setCompareTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT}>Current report card</SelectItem>
+                    {issues.map(issue => (
+                      <SelectItem key={issue.id} value={issue.id}>{formatIssueLabel(issue)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {comparison === null ? (
+                <p className="text-xs text-muted-foreground">Pick two different report cards to compare.</p>
+              ) : comparison.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No differences.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="py-1 font-medium">Item</th>
+                      <th className="py-1 font-medium">Before</th>
+                      <th className="py-1 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.map(row => (
+                      <tr key={row.label} className="border-t border-border align-top">
+                        <td className="py-1 pr-2">{row.label}</td>
+                        <td className="py-1 pr-2 text-muted-foreground whitespace-pre-wrap">{row.before}</td>
+                        <td className="py-1 whitespace-pre-wrap">{row.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,309 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { EnvelopeSimple, Eye } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { blobToBase64 } from '@/lib/utils'
+import { ReportEmailDocument, ReportEmailLogEntry, ReportEmailPreview, ReportEmailSendResult } from '@/lib/types'
+import {
+  DEFAULT_REPORT_EMAIL_BODY,
+  DEFAULT_REPORT_EMAIL_SUBJECT,
+  REPORT_EMAIL_DOCUMENT_NAMES,
+  REPORT_EMAIL_MERGE_FIELDS
+} from '@shared/reportEmail'
+
+interface ReportEmailDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  studentIds: string[]
+  document: ReportEmailDocument
+  periodLabel: string
+  // Renders one student's PDF exactly like the download; null when the student has nothing to report
+  renderPdf: (studentId: string) => Promise<{ blob: Blob; fileName: string } | null>
+}
+
+// Email each selected student's report card or progress report to their guardians, after a dry run
+export default function ReportEmailDialog({ open, onOpenChange, studentIds, document, periodLabel, renderPdf }: ReportEmailDialogProps) {
+  const [subject, setSubject] = useState(DEFAULT_REPORT_EMAIL_SUBJECT)
+  const [body, setBody] = useState(DEFAULT_REPORT_EMAIL_BODY)
+  const [preview, setPreview] = useState<ReportEmailPreview | null>(null)
+  const [expandedMessage, setExpandedMessage] = useState<string | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [sendProgress, setSendProgress] = useState<{ done: number; total: number } | null>(null)
+  const [sendResults, setSendResults] = useState<Array<ReportEmailSendResult & { studentName: string }>>([])
+  const [log, setLog] = useState<ReportEmailLogEntry[]>([])
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setPreview(null)
+    setSendResults([])
+    setSendProgress(null)
+  }, [open, studentIds, document, periodLabel])
+
+  // A changed message needs a new dry run before it can be sent
+  useEffect(() => {
+    setPreview(null)
+  }, [subject, body])
+
+  const insertField = (field: string) => {
+    const textarea = bodyRef.current
+    const start = textarea?.selectionStart ?? body.length
+    const end = textarea?.selectionEnd ?? body.length
+    setBody(prev => prev.slice(0, start) + field + prev.slice(end))
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(start + field.length, start + field.length)
+    })
+  }
+
+  const runPreview = async () => {
+    setIsPreviewing(true)
+    const response = await apiClient.previewReportEmails({ studentIds, document, periodLabel, subject, body })
+    setIsPreviewing(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to preview emails')
+      return
+    }
+    setPreview(response.data)
+    setSendResults([])
+  }
+
+  const loadLog = async () => {
+    const response = await apiClient.getReportEmailLog()
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setLog(response.data || [])
+  }
+
+  const messageCount = preview?.students.reduce((sum, student) => sum + student.messages.length, 0) ?? 0
+
+  const sendAll = async () => {
+    if (!preview) return
+    const recipients = preview.students.filter(student => student.messages.length > 0)
+    setSendResults([])
+    setSendProgress({ done: 0, total: recipients.length })
+
+    let sent = 0
+    let failed = 0
+    for (const student of recipients) {
+      try {
+        const rendered = await renderPdf(student.studentId)
+        if (!rendered) {
+          failed += student.messages.length
+          setSendResults(prev => [...prev, {
+            studentId: student.studentId,
+            studentName: student.studentName,
+            results: student.messages.map(message => ({ guardianName: message.guardianName, email: message.email, status: 'failed', error: 'No grades to report' })),
+            skipped: []
+          }])
+          continue
+        }
+
+        const response = await apiClient.sendReportEmail({
+          studentId: student.studentId,
+          document,
+          periodLabel,
+          subject,
+          body,
+          fileName: rendered.fileName,
+          pdfBase64: await blobToBase64(rendered.blob)
+        })
+        if (response.error || !response.data) {
+          throw new Error(response.error || 'Failed to send')
+        }
+        const result = response.data
+        sent += result.results.filter(item => item.status === 'sent').length
+        failed += result.results.filter(item => item.status === 'failed').length
+        setSendResults(prev => [...prev, { ...result, studentName: student.studentName }])
+      } catch (error) {
+        failed += student.messages.length
+        const message = error instanceof Error ? error.message : 'Failed to send'
+        setSendResults(prev => [...prev, {
+          studentId: student.studentId,
+          studentName: student.studentName,
+          results: student.messages.map(item => ({ guardianName: item.guardianName, email: item.email, status: 'failed', error: message })),
+          skipped: []
+        }])
+      } finally {
+        setSendProgress(prev => prev && { ...prev, done: prev.done + 1 })
+      }
+    }
+
+    setSendProgress(null)
+    if (failed === 0) toast.success(`Sent ${sent} email${sent === 1 ? '' : 's'}`)
+    else toast.error(`Sent ${sent} email${sent === 1 ? '' : 's'}, ${failed} failed`)
+  }
+
+  const isSending = sendProgress !== null
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSending && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email {REPORT_EMAIL_DOCUMENT_NAMES[document]}s to guardians</DialogTitle>
+          <DialogDescription>
+            {studentIds.length} student{studentIds.length === 1 ? '' : 's'} selected · {periodLabel || 'No period selected'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="compose" onValueChange={(value) => value === 'log' && loadLog()}>
+          <TabsList>
+            <TabsTrigger value="compose">Compose</TabsTrigger>
+            <TabsTrigger value="log">Send Log</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="compose" className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="report-email-subject">Subject</Label>
+              <Input
+                id="report-email-subject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                maxLength={255}
+                disabled={isSending}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="report-email-body">Message</Label>
+              <Textarea
+                id="report-email-body"
+                ref={bodyRef}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={8}
+                maxLength={10000}
+                disabled={isSending}
+              />
+              <div className="flex flex-wrap gap-1">
+                {REPORT_EMAIL_MERGE_FIELDS.map(({ field, description }) => (
+                  <button
+                    key={field}
+                    type="button"
+                    title={description}
+                    onClick={() => insertField(field)}
+                    className="rounded border border-border px-1.5 py-0.5 font-mono text-xs hover:bg-muted"
+                    disabled={isSending}
+                  >
+                    {field}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={runPreview} disabled={isPreviewing || isSending || !subject.trim() || !body.trim()}>
+                <Eye size={16} className="mr-2" />
+                {isPreviewing ? 'Checking…' : 'Dry Run'}
+              </Button>
+              <Button onClick={sendAll} disabled={!preview || !preview.configured || messageCount === 0 || isSending}>
+                <EnvelopeSimple size={16} className="mr-2" />
+                {isSending ? 'Sending…' : `Send ${messageCount} Email${messageCount === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+
+            {sendProgress && (
+              <div className="space-y-1">
+                <Progress value={sendProgress.total ? (sendProgress.done / sendProgress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">{sendProgress.done} of {sendProgress.total} students</p>
+              </div>
+            )}
+
+            {preview && !preview.configured && (
+              <p className="rounded-md border border-destructive/50 p-2 text-sm text-destructive">
+                Email is not configured on the server (SMTP_HOST). Nothing can be sent.
+              </p>
+            )}
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  From {preview.from}{preview.replyTo ? ` · replies go to ${preview.replyTo}` : ''}
+                </p>
+                <div className="divide-y divide-border rounded-md border border-border">
+                  {preview.students.map(student => {
+                    const results = sendResults.find(result => result.studentId === student.studentId)
+                    return (
+                      <div key={student.studentId} className="space-y-1 p-2">
+                        <p className="font-medium text-sm">{student.studentName}</p>
+                        {student.messages.length === 0 && (
+                          <p className="text-xs text-destructive">No guardian with an email address — nothing will be sent.</p>
+                        )}
+                        {student.messages.map(message => {
+                          const key = `${student.studentId}:${message.email}`
+                          const result = results?.results.find(item => item.email === message.email)
+                          return (
+                            <div key={key} className="text-sm">
+                              <button
+                                type="button"
+                                className="flex w-full items-center justify-between gap-2 text-left hover:underline"
+                                onClick={() => setExpandedMessage(expandedMessage === key ? null : key)}
+                              >
+                                <span>{message.guardianName} &lt;{message.email}&gt;</span>
+                                {result && (
+                                  <Badge variant={result.status === 'sent' ? 'default' : 'destructive'} title={result.error || undefined}>
+                                    {result.status === 'sent' ? 'Sent' : 'Failed'}
+                                  </Badge>
+                                )}
+                              </button>
+                              {expandedMessage === key && (
+                                <div className="mt-1 rounded bg-muted p-2 text-xs">
+                                  <p className="font-medium">{message.subject}</p>
+                                  <p className="mt-1 whitespace-pre-wrap">{message.text}</p>
+                                </div>
+                              )}
+                            </div>
+                          )
+                        })}
+                        {student.skipped.map(skipped => (
+                          <p key={skipped.guardianName} className="text-xs text-muted-foreground">
+                            Skipped {skipped.guardianName}: {skipped.reason}
+                          </p>
+                        ))}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="log">
+            {log.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No report emails sent yet.</p>
+            ) : (
+              <div className="divide-y divide-border rounded-md border border-border">
+                {log.map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-3 p-2 text-sm">
+                    <div className="min-w-0">
+                      <p>
+                        <span className="font-medium">{entry.studentName}</span> → {entry.recipientName} &lt;{entry.recipientEmail}&gt;
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(entry.sentAt).toLocaleString()} · {REPORT_EMAIL_DOCUMENT_NAMES[entry.document] || entry.document}
+                        {entry.periodLabel ? ` · ${entry.periodLabel}` : ''}
+                      </p>
+                      {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                    </div>
+                    <Badge variant={entry.status === 'sent' ? 'default' : 'destructive'}>
+                      {entry.status === 'sent' ? 'Sent' : 'Failed'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,373 @@
+import { useEffect, useState, ReactElement } from 'react'
+import { pdf, DocumentProps } from '@react-pdf/renderer'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CaretUp, CaretDown, Trash } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { ReportCardTemplate, ReportTemplateSection } from '@/lib/types'
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  MAX_REPORT_FONT_SIZE,
+  MAX_REPORT_LOGO_LENGTH,
+  MIN_REPORT_FONT_SIZE,
+  REPORT_FONT_FAMILIES,
+  REPORT_PAGE_SIZES,
+  REPORT_SECTION_LABELS,
+  ReportFontFamily,
+  ReportPageSize
+} from '@shared/reportTemplate'
+
+interface ReportTemplateDesignerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  template: ReportCardTemplate
+  onSaved: (template: ReportCardTemplate) => void
+  // Builds the PDF for the preview pane; null when there is no student with grades to show
+  renderPreview: (template: ReportCardTemplate) => ReactElement<DocumentProps> | null
+}
+
+const PAGE_SIZE_LABELS: Record<ReportPageSize, string> = {
+  A4: 'A4',
+  LETTER: 'US Letter',
+  LEGAL: 'US Legal'
+}
+
+const FONT_LABELS: Record<ReportFontFamily, string> = {
+  Helvetica: 'Helvetica (sans-serif)',
+  'Times-Roman': 'Times (serif)',
+  Courier: 'Courier (monospace)'
+}
+
+// Layout editor for report cards with a live PDF preview; the template is saved per school year
+export default function ReportTemplateDesigner({ open, onOpenChange, template, onSaved, renderPreview }: ReportTemplateDesignerProps) {
+  const [draft, setDraft] = useState<ReportCardTemplate>(template)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setDraft(template)
+  }, [open, template])
+
+  // Re-render the preview shortly after the last change; rendering a PDF on every keystroke is too slow
+  useEffect(() => {
+    if (!open) return
+    const doc = renderPreview(draft)
+    if (!doc) {
+      setPreviewUrl(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const blob = await pdf(doc).toBlob()
+        if (!cancelled) setPreviewUrl(URL.createObjectURL(blob))
+      } catch (error) {
+        console.error('Failed to render template preview:', error)
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, draft, renderPreview])
+
+  // The old preview stays on screen until the new one is ready, then its blob is released
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl)
+  }, [previewUrl])
+
+  const updateDraft = (next: Partial<ReportCardTemplate>) => setDraft(prev => ({ ...prev, ...next }))
+
+  const updateSection = (index: number, next: Partial<ReportTemplateSection>) => {
+    setDraft(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => i === index ? { ...section, ...next } : section)
+    }))
+  }
+
+  const moveSection = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1
+    setDraft(prev => {
+      if (target < 0 || target >= prev.sections.length) return prev
+      const sections = [...prev.sections]
+      ;[sections[index], sections[target]] = [sections[target], sections[index]]
+      return { ...prev, sections }
+    })
+  }
+
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      toast.error('The logo must be a PNG or JPEG image')
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = () => {
+      const dataUrl = String(reader.result || '')
+      if (dataUrl.length > MAX_REPORT_LOGO_LENGTH) {
+        toast.error(`The logo is too large (max ${Math.round(MAX_REPORT_LOGO_LENGTH * 3 / 4 / 1024)} KB)`)
+        return
+      }
+      setDraft(prev => ({ ...prev, branding: { ...prev.branding, logoDataUrl: dataUrl } }))
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const saveTemplate = async () => {
+    setIsSaving(true)
+    const response = await apiClient.updateReportTemplate(draft)
+    setIsSaving(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to save report template')
+      return
+    }
+    onSaved(response.data.template)
+    toast.success('Report card template saved')
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Report Card Template</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Page size</Label>
+                <Select value={draft.pageSize} onValueChange={(value: ReportPageSize) => updateDraft({ pageSize: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_PAGE_SIZES.map(size => (
+                      <SelectItem key={size} value={size}>{PAGE_SIZE_LABELS[size]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Orientation</Label>
+                <Select value={draft.orientation} onValueChange={(value: 'portrait' | 'landscape') => updateDraft({ orientation: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Font</Label>
+                <Select value={draft.fontFamily} onValueChange={(value: ReportFontFamily) => updateDraft({ fontFamily: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_FONT_FAMILIES.map(font => (
+                      <SelectItem key={font} value={font}>{FONT_LABELS[font]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-font-size">Font size (pt)</Label>
+                <Input
+                  id="template-font-size"
+                  type="number"
+                  min={MIN_REPORT_FONT_SIZE}
+                  max={MAX_REPORT_FONT_SIZE}
+                  value={draft.fontSize}
+                  onChange={e => {
+                    const value = parseInt(e.target.value, 10)
+                    if (!isNaN(value)) updateDraft({ fontSize: Math.max(MIN_REPORT_FONT_SIZE, Math.min(MAX_REPORT_FONT_SIZE, value)) })
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-md border border-border p-3">
+              <p className="text-sm font-medium">Branding</p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="template-primary-color">Primary color</Label>
+                  <Input
+                    id="template-primary-color"
+                    type="color"
+                    className="h-9 p-1"
+                    value={draft.branding.primaryColor}
+                    onChange={e => updateDraft({ branding: { ...draft.branding, primaryColor: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-accent-color">Accent color</Label>
+                  <Input
+                    id="template-accent-color"
+                    type="color"
+                    className="h-9 p-1"
+                    value={draft.branding.accentColor}
+                    onChange={e => updateDraft({ branding: { ...draft.branding, accentColor: e.target.value } })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-logo">Logo</Label>
+                <div className="flex items-center gap-2">
+                  {draft.branding.logoDataUrl && (
+                    <img src={draft.branding.logoDataUrl} alt="School logo" className="h-10 w-10 object-contain rounded border border-border" />
+                  )}
+                  <Input
+                    id="template-logo"
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={e => {
+                      handleLogoUpload(e.target.files?.[0])
+                      e.target.value = ''
+                    }}
+                  />
+                  {draft.branding.logoDataUrl && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-9 w-9 shrink-0"
+                      onClick={() => updateDraft({ branding: { ...draft.branding, logoDataUrl: null } })}
+                      aria-label="Remove logo"
+                    >
+                      <Trash size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-md border border-border p-3">
+              <p className="text-sm font-medium">Signature lines</p>
+              <div className="flex flex-wrap gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="template-sign-teacher"
+                    checked={draft.signatures.teacher}
+                    onCheckedChange={checked => updateDraft({ signatures: { ...draft.signatures, teacher: checked } })}
+                  />
+                  <Label htmlFor="template-sign-teacher">Teacher</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="template-sign-parent"
+                    checked={draft.signatures.parent}
+                    onCheckedChange={checked => updateDraft({ signatures: { ...draft.signatures, parent: checked } })}
+                  />
+                  <Label htmlFor="template-sign-parent">Parent/Guardian</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="template-sign-principal"
+                    checked={draft.signatures.principal}
+                    onCheckedChange={checked => updateDraft({ signatures: { ...draft.signatures, principal: checked } })}
+                  />
+                  <Label htmlFor="template-sign-principal">Principal</Label>
+                </div>
+              </div>
+              {draft.signatures.principal && (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <Input
+                    placeholder="Principal name"
+                    value={draft.signatures.principalName}
+                    onChange={e => updateDraft({ signatures: { ...draft.signatures, principalName: e.target.value } })}
+                  />
+                  <Input
+                    placeholder="Title"
+                    value={draft.signatures.principalTitle}
+                    onChange={e => updateDraft({ signatures: { ...draft.signatures, principalTitle: e.target.value } })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sections (in print order)</Label>
+              <div className="space-y-2 rounded-md border border-border p-2">
+                {draft.sections.map((section, idx) => (
+                  <div key={section.type} className="grid gap-2 rounded border border-border bg-muted/30 p-2 grid-cols-[auto_1fr_auto] items-center">
+                    <Switch
+                      checked={section.enabled}
+                      onCheckedChange={checked => updateSection(idx, { enabled: checked })}
+                      aria-label={`Show ${REPORT_SECTION_LABELS[section.type]}`}
+                    />
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm font-medium">{REPORT_SECTION_LABELS[section.type]}</p>
+                      {section.type !== 'signatures' && (
+                        <Input
+                          className="h-8"
+                          placeholder={section.type === 'header' ? 'Report title' : 'Heading (optional)'}
+                          value={section.title}
+                          disabled={!section.enabled}
+                          onChange={e => updateSection(idx, { title: e.target.value })}
+                        />
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-8 w-8"
+                        disabled={idx === 0}
+                        onClick={() => moveSection(idx, 'up')}
+                        aria-label="Move section up"
+                      >
+                        <CaretUp size={14} />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-8 w-8"
+                        disabled={idx === draft.sections.length - 1}
+                        onClick={() => moveSection(idx, 'down')}
+                        aria-label="Move section down"
+                      >
+                        <CaretDown size={14} />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            {previewUrl ? (
+              <iframe src={previewUrl} title="Report card preview" className="w-full h-[70vh] rounded-md border border-border bg-white" />
+            ) : (
+              <div className="flex h-[70vh] items-center justify-center rounded-md border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                Select students with grades to preview the template with real data
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => setDraft(DEFAULT_REPORT_TEMPLATE)}>
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveTemplate} disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save Template'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
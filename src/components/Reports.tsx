@@ -9,12 +9,24 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Switch } from "@/components/ui/switch"
-import { Eye, Users, FilePdf, Gear, CaretUp, CaretDown } from "@phosphor-icons/react"
-import { Student, Subject, Grade, ReportCard, AttendanceRecord, AttendanceSummary, GradingPeriod } from '@/lib/types'
-import { getLetterGrade, generateReportCard, getSubjectCalculationBreakdown } from '@/lib/reportUtils'
+import { Eye, Users, FilePdf, Gear, CaretUp, CaretDown, Stamp, Scroll, EnvelopeSimple } from "@phosphor-icons/react"
+import { Student, Subject, Grade, ReportCard, AttendanceRecord, AttendanceSummary, CommentBankEntry, GradingPeriod, GradingScale, ProgressReport, ReportCardTemplate } from '@/lib/types'
+import { getLetterGrade, generateProgressReport, generateReportCard, getSubjectCalculationBreakdown } from '@/lib/reportUtils'
+import { isDateInRange } from '@shared/gradeCalculation'
+import { getBandGpaPoints, resolveGradingScaleBands } from '@/lib/gradingScales'
 import { toast } from 'sonner'
 import { pdf } from '@react-pdf/renderer'
 import ReportCardPDF from './ReportCardPDF.tsx'
+import ProgressReportPDF from './ProgressReportPDF'
+import TranscriptPDF from './TranscriptPDF'
+import ReportTemplateDesigner from './ReportTemplateDesigner'
+import ReportBatchPanel from './ReportBatchPanel'
+import ReportCardIssuesDialog from './ReportCardIssuesDialog'
+import ReportEmailDialog from './ReportEmailDialog'
+import CommentBankPicker from './CommentBankPicker'
+import CommentBankDialog from './CommentBankDialog'
+import { DEFAULT_REPORT_TEMPLATE } from '@shared/reportTemplate'
+import { applyCommentMergeFields, describeTrend } from '@shared/commentMerge'
 import { apiClient } from '@/lib/api'
 
 type SubjectDisplayMode = 'percentage' | 'letter' | 'gpa'
@@ -48,9 +60,16 @@ export default function Reports() {
   
   const [selectedStudents, setSelectedStudents] = useState<string[]>([])
   const [reportPeriod, setReportPeriod] = useState("")
+  const [reportType, setReportType] = useState<'reportCard' | 'progress'>('reportCard')
+  const [progressStartDate, setProgressStartDate] = useState("")
+  const [progressEndDate, setProgressEndDate] = useState("")
+  const [lowScoreThreshold, setLowScoreThreshold] = useState(70)
   const [includeComments, setIncludeComments] = useState(true)
   const [showPercentage, setShowPercentage] = useState(true) // Default to percentage instead of GPA
   const [comments, setComments] = useState<Record<string, string>>({})
+  const [savedComments, setSavedComments] = useState<Record<string, string>>({}) // As last saved for reportPeriod
+  const [commentBank, setCommentBank] = useState<CommentBankEntry[]>([])
+  const [showCommentBank, setShowCommentBank] = useState(false)
   const [previewStudent, setPreviewStudent] = useState<string>("")
   const [showCalculationDetails, setShowCalculationDetails] = useState(false)
   const [showReportOptionsDialog, setShowReportOptionsDialog] = useState(false)
@@ -60,6 +79,9 @@ export default function Reports() {
   const [primaryWeightingEnabled, setPrimaryWeightingEnabled] = useState(false)
   const [primaryWeightPercent, setPrimaryWeightPercent] = useState(60)
   const [hasLoadedReportPreferences, setHasLoadedReportPreferences] = useState(false)
+  const [reportTemplate, setReportTemplate] = useState<ReportCardTemplate>(DEFAULT_REPORT_TEMPLATE)
+  const [showTemplateDesigner, setShowTemplateDesigner] = useState(false)
+  const [showIssuesDialog, setShowIssuesDialog] = useState(false)
   const [schoolSettings, setSchoolSettings] = useState({
     schoolName: '',
     firstDayOfSchool: '',
@@ -67,7 +89,10 @@ export default function Reports() {
     gradingMode: 'dates' as 'dates'
   })
   const [isGenerating, setIsGenerating] = useState(false)
+  const [isGeneratingTranscript, setIsGeneratingTranscript] = useState(false)
+  const [showEmailDialog, setShowEmailDialog] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([])
 
   const getSubjectDisplayName = useCallback((subject: Subject) => {
     return subject.report_card_name && subject.report_card_name.trim() !== ''
@@ -75,22 +100,10 @@ export default function Reports() {
       : subject.name
   }, [])
 
-  const getGPAPoints = useCallback((percentage: number): number => {
-    if (typeof percentage !== 'number' || isNaN(percentage)) return 0.0
-    if (percentage >= 97) return 4.0
-    if (percentage >= 93) return 4.0
-    if (percentage >= 90) return 3.7
-    if (percentage >= 87) return 3.3
-    if (percentage >= 83) return 3.0
-    if (percentage >= 80) return 2.7
-    if (percentage >= 77) return 2.3
-    if (percentage >= 73) return 2.0
-    if (percentage >= 70) return 1.7
-    if (percentage >= 67) return 1.3
-    if (percentage >= 65) return 1.0
-    if (percentage >= 60) return 0.7
-    return 0.0
-  }, [])
+  const getSubjectScaleBands = useCallback((subjectId: string) => {
+    const subject = subjects.find(candidate => candidate.id === subjectId)
+    return resolveGradingScaleBands(gradingScales, subject?.grading_scale_id)
+  }, [subjects, gradingScales])
 
   // Helper function to extract grade number from group name for sorting
   const extractGradeNumber = (groupName: string): number => {
@@ -270,6 +283,54 @@ export default function Reports() {
     loadReportPreferences()
   }, [loadReportPreferences])
 
+  const loadReportTemplate = useCallback(async () => {
+    const response = await apiClient.getReportTemplate()
+    if (response.error || !response.data?.template) {
+      console.warn('Failed to load report template, using the default layout', response.error)
+      return
+    }
+    setReportTemplate(response.data.template)
+  }, [])
+
+  useEffect(() => {
+    loadReportTemplate()
+  }, [loadReportTemplate])
+
+  useEffect(() => {
+    apiClient.getCommentBank().then(response => {
+      if (response.data) setCommentBank(response.data)
+    })
+  }, [])
+
+  // Comments are saved per reporting period, so switching periods swaps them; progress reports keep their own notes
+  const commentsPeriodKey = reportPeriod && reportType === 'progress' ? `progress:${reportPeriod}` : reportPeriod
+
+  useEffect(() => {
+    if (!commentsPeriodKey) return
+    let cancelled = false
+    apiClient.getStudentReportComments(commentsPeriodKey).then(response => {
+      if (cancelled) return
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Failed to load report card comments')
+        return
+      }
+      const loaded = Object.fromEntries(response.data.map(row => [row.studentId, row.comment]))
+      setComments(loaded)
+      setSavedComments(loaded)
+    })
+    return () => { cancelled = true }
+  }, [commentsPeriodKey])
+
+  const saveComment = useCallback(async (studentId: string, comment = comments[studentId] || '') => {
+    if (!commentsPeriodKey || comment === (savedComments[studentId] || '')) return
+    const response = await apiClient.saveStudentReportComment(studentId, commentsPeriodKey, comment)
+    if (response.error) {
+      toast.error(`Comment not saved: ${response.error}`)
+      return
+    }
+    setSavedComments(prev => ({ ...prev, [studentId]: comment }))
+  }, [comments, savedComments, commentsPeriodKey])
+
   useEffect(() => {
     if (!hasLoadedReportPreferences) return
 
@@ -341,6 +402,15 @@ export default function Reports() {
     }
   }, [gradingPeriods, reportPeriod])
 
+  // A progress report covers the reporting period from its start up to today
+  useEffect(() => {
+    const period = gradingPeriods.find(p => p.id === reportPeriod)
+    if (!period) return
+    const today = new Date().toISOString().split('T')[0]
+    setProgressStartDate(period.startDate)
+    setProgressEndDate(today < period.startDate || today > period.endDate ? period.endDate : today)
+  }, [gradingPeriods, reportPeriod])
+
   // Listen for teacher selection changes
   useEffect(() => {
     const handleTeacherChange = () => {
@@ -357,12 +427,13 @@ export default function Reports() {
     setIsLoading(true)
     try {
       // Load all data in parallel
-      const [studentsRes, subjectsRes, gradesRes, groupsRes, periodsRes] = await Promise.all([
+      const [studentsRes, subjectsRes, gradesRes, groupsRes, periodsRes, scalesRes] = await Promise.all([
         apiClient.getStudents(),
         apiClient.getSubjects(), 
         apiClient.getGrades(),
         apiClient.getStudentGroups(),
-        apiClient.getGradingPeriods()
+        apiClient.getGradingPeriods(),
+        apiClient.getGradingScales()
       ])
 
       const studentsData = Array.isArray(studentsRes.data) ? studentsRes.data : []
@@ -374,6 +445,7 @@ export default function Reports() {
 
       setStudents(studentsData)
       setGrades(gradesData)
+      setGradingScales(Array.isArray(scalesRes.data) ? scalesRes.data : [])
       const periodsData = Array.isArray(periodsRes.data) ? periodsRes.data : []
       setGradingPeriods(periodsData)
       if (periodsData.length > 0) {
@@ -409,6 +481,7 @@ export default function Reports() {
       // Also load settings
       await loadSettings()
       await loadReportPreferences()
+      await loadReportTemplate()
     } catch (error) {
       console.error('Failed to load data:', error)
       toast.error('Failed to load data')
@@ -536,17 +609,14 @@ export default function Reports() {
     const period = gradingPeriods.find(p => p.id === periodId) || gradingPeriods[0]
     if (!period) return []
 
-    const start = new Date(period.startDate)
-    const end = new Date(period.endDate)
+    const range = { start: period.startDate, end: period.endDate }
 
     return grades.filter(grade => {
       if (!grade.subjectId) return false
       const subject = subjects.find(s => s.id === grade.subjectId)
       if (!subject || !subject.lessons) return false
       const lesson = subject.lessons.find(l => l.id === grade.lessonId)
-      if (!lesson || !lesson.date) return false
-      const lessonDate = new Date(lesson.date)
-      return lessonDate >= start && lessonDate <= end
+      return isDateInRange(lesson?.date, range)
     })
   }, [grades, gradingPeriods, subjects])
 
@@ -599,7 +669,7 @@ export default function Reports() {
       // Build report snapshots for each visible period so we can render historical columns.
       const periodReports = visiblePeriods.map(period => {
         const periodGrades = getFilteredGradesForPeriod(period.id)
-        const periodReport = generateReportCard(studentId, period.name, comments, students, subjects, periodGrades)
+        const periodReport = generateReportCard(studentId, period.name, comments, students, subjects, periodGrades, gradingScales)
         return { period, periodReport }
       })
 
@@ -641,6 +711,7 @@ export default function Reports() {
           return periodSubject?.average ?? null
         })
 
+        const subjectBands = getSubjectScaleBands(subjectId)
         const currentAverage = periodValues[periodValues.length - 1]
         const safeAverage = typeof currentAverage === 'number' && !isNaN(currentAverage)
           ? currentAverage
@@ -651,7 +722,8 @@ export default function Reports() {
           subjectName: currentSubject?.subjectName || (fallbackSubject ? getSubjectDisplayName(fallbackSubject) : 'Unknown Subject'),
           grades: currentSubject?.grades || [],
           average: safeAverage,
-          letterGrade: getLetterGrade(safeAverage),
+          letterGrade: getLetterGrade(safeAverage, subjectBands),
+          gradingScaleBands: subjectBands,
           periodValues,
           displayMode: preference.displayMode,
           tier: preference.tier,
@@ -726,6 +798,7 @@ export default function Reports() {
         })),
         primaryWeightingEnabled,
         primaryWeightPercent,
+        gradingScaleBands: resolveGradingScaleBands(gradingScales),
       } as ReportCard
     } catch (error) {
       console.error('Error generating report card for student:', studentId, error)
@@ -819,7 +892,7 @@ export default function Reports() {
         console.log('Student data:', student)
         
         try {
-          const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} />
+          const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} template={reportTemplate} />
           console.log('PDF component created successfully')
           
           const asPdf = pdf(pdfDoc)
@@ -879,7 +952,7 @@ export default function Reports() {
           }
           
           try {
-            const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} />
+            const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} template={reportTemplate} />
             const asPdf = pdf(pdfDoc)
             const blob = await asPdf.toBlob()
             
@@ -924,6 +997,68 @@ export default function Reports() {
     }
   }
 
+  const generateProgressReports = async () => {
+    if (selectedStudents.length === 0) {
+      toast.error("Please select at least one student")
+      return
+    }
+
+    setIsGenerating(true)
+    try {
+      const progressWindow = { startDate: progressStartDate, endDate: progressEndDate }
+      const reports = selectedStudents
+        .map(studentId => generateProgressReport(
+          studentId, progressWindow, subjects, grades, gradingScales, lowScoreThreshold, includeComments ? comments[studentId] : undefined
+        ))
+        .filter(Boolean) as ProgressReport[]
+
+      if (reports.length === 0) {
+        toast.error("No grades found in this window for the selected students")
+        return
+      }
+
+      const renderBlob = (report: ProgressReport) => {
+        const student = students.find(s => s.id === report.studentId)!
+        return pdf(
+          <ProgressReportPDF progressReport={report} student={student} schoolName={schoolSettings.schoolName} template={reportTemplate} />
+        ).toBlob()
+      }
+
+      let blob: Blob
+      let fileName: string
+      if (reports.length === 1) {
+        const student = students.find(s => s.id === reports[0].studentId)!
+        blob = await renderBlob(reports[0])
+        fileName = `${student.name.replace(/\s+/g, '_')}_Progress_Report_${progressEndDate}.pdf`
+      } else {
+        const JSZip = (await import('jszip')).default
+        const zip = new JSZip()
+        for (const report of reports) {
+          const student = students.find(s => s.id === report.studentId)!
+          zip.file(`${student.name.replace(/\s+/g, '_')}_Progress_Report.pdf`, await renderBlob(report), { binary: true })
+        }
+        blob = await zip.generateAsync({ type: 'blob' })
+        fileName = `Progress_Reports_${progressEndDate}.zip`
+      }
+
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      toast.success(`Generated ${reports.length} progress report${reports.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Error generating progress reports:', error)
+      toast.error(`Failed to generate progress reports: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
   const previewReportPDF = async () => {
     if (!previewStudent) {
       toast.error("Please select a student to preview")
@@ -972,7 +1107,7 @@ export default function Reports() {
       console.log('Preview - Validated report card:', validatedReportCard)
       console.log('Preview - Student data:', student)
 
-      const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} />
+      const pdfDoc = <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} template={reportTemplate} />
       console.log('Preview - PDF component created successfully')
       
       const asPdf = pdf(pdfDoc)
@@ -1005,6 +1140,39 @@ export default function Reports() {
     }
   }
 
+  // The transcript spans every licensed year, so it is built on the server rather than from this year's grades
+  const downloadTranscript = async () => {
+    if (!previewStudent) return
+
+    setIsGeneratingTranscript(true)
+    try {
+      const response = await apiClient.getTranscript(previewStudent)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Failed to load transcript')
+        return
+      }
+
+      const transcript = response.data
+      const blob = await pdf(
+        <TranscriptPDF transcript={transcript} schoolName={schoolSettings.schoolName} template={reportTemplate} />
+      ).toBlob()
+
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${transcript.student.name.replace(/\s+/g, '_')}_Transcript.pdf`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error generating transcript:', error)
+      toast.error('Failed to generate transcript')
+    } finally {
+      setIsGeneratingTranscript(false)
+    }
+  }
+
   const previewReport = useMemo(() => {
     return previewStudent ? generateReportCardForStudent(previewStudent) : null
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -1082,6 +1250,148 @@ export default function Reports() {
   }, [previewReport, primaryWeightingEnabled, primaryWeightPercent])
   
   const previewStudentData = students.find(s => s.id === previewStudent)
+
+  // The designer previews the student picked for preview, or the first selected student
+  const templatePreview = useMemo(() => {
+    if (!showTemplateDesigner) return null
+    const candidateIds = [previewStudent, ...selectedStudents, ...filteredStudents.map(s => s.id)].filter(Boolean)
+    for (const studentId of candidateIds) {
+      const student = students.find(s => s.id === studentId)
+      const reportCard = generateReportCardForStudent(studentId)
+      if (student && reportCard && reportCard.subjects.length > 0) return { student, reportCard }
+    }
+    return null
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showTemplateDesigner, previewStudent, selectedStudents, filteredStudents, students, reportPeriod, grades.length])
+
+  const renderTemplatePreview = useCallback((template: ReportCardTemplate) => {
+    if (!templatePreview) return null
+    return (
+      <ReportCardPDF
+        reportCard={templatePreview.reportCard}
+        student={templatePreview.student}
+        schoolName={schoolSettings.schoolName}
+        firstDayOfSchool={schoolSettings.firstDayOfSchool}
+        showPercentage={showPercentage}
+        template={template}
+      />
+    )
+  }, [templatePreview, schoolSettings.schoolName, schoolSettings.firstDayOfSchool, showPercentage])
+
+  // Fills a bank comment for one student: subject comments use that subject's current value and trend,
+  // general comments the overall value and the trend of the per-period mean across subjects
+  const mergeBankComment = (studentId: string, entry: CommentBankEntry) => {
+    const student = students.find(s => s.id === studentId)
+    const reportCard = generateReportCardForStudent(studentId)
+    if (!student) return entry.text
+
+    const subject = entry.subjectName
+      ? reportCard?.subjects.find(candidate => {
+          const source = subjects.find(s => s.id === candidate.subjectId)
+          return candidate.subjectName === entry.subjectName || source?.name === entry.subjectName
+        })
+      : undefined
+    const currentValue = (values?: Array<number | null>) => {
+      const present = (values || []).filter((value): value is number => typeof value === 'number' && !isNaN(value))
+      return present.length > 0 ? present[present.length - 1] : null
+    }
+
+    let average: number | null = null
+    let trend = null
+    if (subject) {
+      average = currentValue(subject.periodValues) ?? subject.average
+      trend = describeTrend(subject.periodValues || [])
+    } else if (!entry.subjectName && reportCard) {
+      average = reportCard.overallGPA
+      const periodCount = Math.max(0, ...reportCard.subjects.map(s => s.periodValues?.length || 0))
+      const periodMeans = Array.from({ length: periodCount }, (_, index) => {
+        const values = reportCard.subjects
+          .map(s => s.periodValues?.[index])
+          .filter((value): value is number => typeof value === 'number' && !isNaN(value))
+        return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+      })
+      trend = describeTrend(periodMeans)
+    }
+
+    return applyCommentMergeFields(entry.text, {
+      fullName: student.name,
+      subject: entry.subjectName,
+      average,
+      trend,
+      pronouns: student.pronouns
+    })
+  }
+
+  const appendBankComment = (studentId: string, entry: CommentBankEntry) => {
+    const merged = mergeBankComment(studentId, entry)
+    const current = (comments[studentId] || '').trim()
+    const comment = current ? `${current} ${merged}` : merged
+    setComments(prev => ({ ...prev, [studentId]: comment }))
+    saveComment(studentId, comment)
+  }
+
+  // What an issue freezes: the preview student's report card with the same clean-up as the PDF export
+  const issuableReportCard = useMemo((): ReportCard | null => {
+    if (!previewReport || previewReport.subjects.length === 0) return null
+    return {
+      ...previewReport,
+      overallGPA: typeof previewReport.overallGPA === 'number' && !isNaN(previewReport.overallGPA) ? previewReport.overallGPA : 0,
+      subjects: previewReport.subjects.map(subject => ({
+        ...subject,
+        average: typeof subject.average === 'number' && !isNaN(subject.average) ? subject.average : 0
+      }))
+    }
+  }, [previewReport])
+
+  const renderIssuePdf = useCallback(() => {
+    if (!issuableReportCard || !previewStudentData) return null
+    return (
+      <ReportCardPDF
+        reportCard={issuableReportCard}
+        student={previewStudentData}
+        schoolName={schoolSettings.schoolName}
+        firstDayOfSchool={schoolSettings.firstDayOfSchool}
+        showPercentage={showPercentage}
+        template={reportTemplate}
+      />
+    )
+  }, [issuableReportCard, previewStudentData, schoolSettings.schoolName, schoolSettings.firstDayOfSchool, showPercentage, reportTemplate])
+
+  // One student's PDF for emailing, rendered the same way as the single-student download
+  const renderEmailPdf = async (studentId: string): Promise<{ blob: Blob; fileName: string } | null> => {
+    const student = students.find(s => s.id === studentId)
+    if (!student) return null
+    const fileBase = student.name.replace(/\s+/g, '_')
+
+    if (reportType === 'progress') {
+      const report = generateProgressReport(
+        studentId, { startDate: progressStartDate, endDate: progressEndDate }, subjects, grades, gradingScales, lowScoreThreshold,
+        includeComments ? comments[studentId] : undefined
+      )
+      if (!report) return null
+      const blob = await pdf(
+        <ProgressReportPDF progressReport={report} student={student} schoolName={schoolSettings.schoolName} template={reportTemplate} />
+      ).toBlob()
+      return { blob, fileName: `${fileBase}_Progress_Report_${progressEndDate}.pdf` }
+    }
+
+    const reportCard = generateReportCardForStudent(studentId)
+    if (!reportCard || !reportCard.subjects || reportCard.subjects.length === 0) return null
+    const validatedReportCard = {
+      ...reportCard,
+      overallGPA: typeof reportCard.overallGPA === 'number' && !isNaN(reportCard.overallGPA) ? reportCard.overallGPA : 0,
+      subjects: reportCard.subjects.map(subject => ({
+        ...subject,
+        average: typeof subject.average === 'number' && !isNaN(subject.average) ? subject.average : 0
+      }))
+    }
+    const blob = await pdf(
+      <ReportCardPDF reportCard={validatedReportCard} student={student} schoolName={schoolSettings.schoolName} firstDayOfSchool={schoolSettings.firstDayOfSchool} showPercentage={showPercentage} template={reportTemplate} />
+    ).toBlob()
+    return { blob, fileName: `${fileBase}_Report_Card.pdf` }
+  }
+
+  const progressWindowInvalid = !progressStartDate || !progressEndDate || progressStartDate > progressEndDate
   const attendanceRangeInvalid = Boolean(
     attendanceStartDate &&
     attendanceEndDate &&
@@ -1198,7 +1508,7 @@ export default function Reports() {
           {includeComments && (
             <Card>
               <CardHeader>
-                <CardTitle>Teacher Comments</CardTitle>
+                <CardTitle>{reportType === 'progress' ? 'Progress Report Notes' : 'Teacher Comments'}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 {selectedStudents.length === 0 ? (
@@ -1211,9 +1521,17 @@ export default function Reports() {
                       const student = students.find(s => s.id === studentId)
                       return (
                         <div key={studentId}>
-                          <Label htmlFor={`comment-${studentId}`}>
-                            {student?.name}
-                          </Label>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor={`comment-${studentId}`}>
+                              {student?.name}
+                            </Label>
+                            <CommentBankPicker
+                              bank={commentBank}
+                              renderEntry={(entry) => mergeBankComment(studentId, entry)}
+                              onPick={(entry) => appendBankComment(studentId, entry)}
+                              onManage={() => setShowCommentBank(true)}
+                            />
+                          </div>
                           <Textarea
                             id={`comment-${studentId}`}
                             value={comments[studentId] || ''}
@@ -1221,6 +1539,7 @@ export default function Reports() {
                               ...prev,
                               [studentId]: e.target.value
                             }))}
+                            onBlur={() => saveComment(studentId)}
                             placeholder="Add comments for this student..."
                             className="mt-1"
                             rows={3}
@@ -1256,6 +1575,19 @@ export default function Reports() {
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="report-type">Report Type</Label>
+                <Select value={reportType} onValueChange={(value: 'reportCard' | 'progress') => setReportType(value)}>
+                  <SelectTrigger id="report-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="reportCard">Report card (whole period)</SelectItem>
+                    <SelectItem value="progress">Progress report (mid-period)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <Label htmlFor="report-period">Reporting Period</Label>
                 <Select value={reportPeriod} onValueChange={handleReportPeriodChange}>
@@ -1278,27 +1610,66 @@ export default function Reports() {
                 )}
               </div>
 
-              <div className="space-y-2">
-                <Label>Attendance Date Range</Label>
-                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
-                  <Input
-                    type="date"
-                    value={attendanceStartDate}
-                    onChange={(e) => setAttendanceStartDate(e.target.value)}
-                  />
-                  <Input
-                    type="date"
-                    value={attendanceEndDate}
-                    onChange={(e) => setAttendanceEndDate(e.target.value)}
-                  />
+              {reportType === 'progress' && (
+                <div className="space-y-2">
+                  <Label>Progress Window</Label>
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    <Input
+                      type="date"
+                      value={progressStartDate}
+                      onChange={(e) => setProgressStartDate(e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      value={progressEndDate}
+                      onChange={(e) => setProgressEndDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="low-score-threshold" className="text-xs font-normal">List scores below</Label>
+                    <Input
+                      id="low-score-threshold"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={lowScoreThreshold}
+                      onChange={(e) => setLowScoreThreshold(Math.max(0, Math.min(100, Number(e.target.value) || 0)))}
+                      className="h-8 w-20"
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Averages, missing work and low scores only use lessons dated in this window.
+                  </p>
+                  {progressWindowInvalid && (
+                    <p className="text-xs text-destructive">Start date must be on or before end date.</p>
+                  )}
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Attendance summary (present, tardy, absent, total) will use this range in previews and PDFs.
-                </p>
-                {attendanceRangeInvalid && (
-                  <p className="text-xs text-destructive">Start date must be on or before end date.</p>
-                )}
-              </div>
+              )}
+
+              {reportType === 'reportCard' && (
+                <div className="space-y-2">
+                  <Label>Attendance Date Range</Label>
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    <Input
+                      type="date"
+                      value={attendanceStartDate}
+                      onChange={(e) => setAttendanceStartDate(e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      value={attendanceEndDate}
+                      onChange={(e) => setAttendanceEndDate(e.target.value)}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Attendance summary (present, tardy, absent, total) will use this range in previews and PDFs.
+                  </p>
+                  {attendanceRangeInvalid && (
+                    <p className="text-xs text-destructive">Start date must be on or before end date.</p>
+                  )}
+                </div>
+              )}
 
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -1335,19 +1706,59 @@ export default function Reports() {
                 )}
               </div>
 
+              <div className="space-y-2 rounded-md border border-border p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">Report Card Template</p>
+                    <p className="text-xs text-muted-foreground">Logo, colors, fonts, page size, signatures and section order.</p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setShowTemplateDesigner(true)}>
+                    Design
+                  </Button>
+                </div>
+              </div>
+
               <div className="space-y-2">
-                <Button 
-                  onClick={generateReports} 
+                {reportType === 'progress' ? (
+                  <Button
+                    onClick={generateProgressReports}
+                    className="w-full"
+                    disabled={selectedStudents.length === 0 || isGenerating || progressWindowInvalid}
+                  >
+                    <FilePdf size={16} className="mr-2" />
+                    {isGenerating
+                      ? 'Generating progress reports...'
+                      : `Generate Progress Report${selectedStudents.length > 1 ? 's' : ''} (${selectedStudents.length})`
+                    }
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={generateReports} 
+                    className="w-full"
+                    disabled={selectedStudents.length === 0 || isGenerating || attendanceRangeInvalid || attendanceLoading}
+                  >
+                    <FilePdf size={16} className="mr-2" />
+                    {isGenerating 
+                      ? `Generating ${selectedStudents.length > 1 ? 'ZIP with ' : ''}${selectedStudents.length} PDF${selectedStudents.length > 1 ? 's' : ''}...`
+                      : `Generate PDF${selectedStudents.length > 1 ? 's' : ''} (${selectedStudents.length})`
+                    }
+                  </Button>
+                )}
+                
+                <Button
+                  variant="outline"
+                  onClick={() => setShowEmailDialog(true)}
                   className="w-full"
-                  disabled={selectedStudents.length === 0 || isGenerating || attendanceRangeInvalid || attendanceLoading}
-                >
-                  <FilePdf size={16} className="mr-2" />
-                  {isGenerating 
-                    ? `Generating ${selectedStudents.length > 1 ? 'ZIP with ' : ''}${selectedStudents.length} PDF${selectedStudents.length > 1 ? 's' : ''}...`
-                    : `Generate PDF${selectedStudents.length > 1 ? 's' : ''} (${selectedStudents.length})`
+                  disabled={
+                    selectedStudents.length === 0 ||
+                    isGenerating ||
+                    (reportType === 'progress' ? progressWindowInvalid : attendanceRangeInvalid || attendanceLoading)
                   }
+                >
+                  <EnvelopeSimple size={16} className="mr-2" />
+                  Email to Guardians ({selectedStudents.length})
                 </Button>
-                
+
                 {selectedStudents.length > 1 && (
                   <p className="text-xs text-muted-foreground text-center">
                     Multiple reports will be packaged in a ZIP file
@@ -1357,6 +1768,10 @@ export default function Reports() {
                   <p className="text-xs text-muted-foreground text-center">Loading attendance for the selected range…</p>
                 )}
               </div>
+
+              {reportType === 'reportCard' && (
+                <ReportBatchPanel groups={studentGroups} gradingPeriods={gradingPeriods} defaultPeriodId={reportPeriod} />
+              )}
             </CardContent>
           </Card>
 
@@ -1393,7 +1808,7 @@ export default function Reports() {
                         Report Card - {selectedPeriod ? `${selectedPeriod.name} (${selectedPeriod.startDate} to ${selectedPeriod.endDate})` : reportPeriod}
                       </p>
                       <p className="text-sm font-medium mt-1">
-                        Overall GPA: {(previewReport.overallGPA ?? 0).toFixed(2)} ({getLetterGrade(previewReport.overallGPA ?? 0)})
+                        Overall GPA: {(previewReport.overallGPA ?? 0).toFixed(2)} ({getLetterGrade(previewReport.overallGPA ?? 0, resolveGradingScaleBands(gradingScales))})
                       </p>
                     </div>
 
@@ -1413,7 +1828,7 @@ export default function Reports() {
                       {previewReport.subjects.map(subject => {
                         // Use filtered grades for the breakdown calculation
                         const filteredGrades = getFilteredGradesForPeriod(reportPeriod)
-                        const breakdown = getSubjectCalculationBreakdown(previewStudent, subject.subjectId, subjects, filteredGrades)
+                        const breakdown = getSubjectCalculationBreakdown(previewStudent, subject.subjectId, subjects, filteredGrades, gradingScales)
                         const periodColumns = (previewReport as any).periodColumns || []
                         const displayMode: SubjectDisplayMode = (subject as any).displayMode || 'percentage'
                         const periodValues: Array<number | null> = (subject as any).periodValues || []
@@ -1440,8 +1855,9 @@ export default function Reports() {
                                   const value = periodValues[idx]
                                   const cellValue = (() => {
                                     if (value === null || value === undefined || isNaN(value)) return '—'
-                                    if (displayMode === 'letter') return getLetterGrade(value)
-                                    if (displayMode === 'gpa') return getGPAPoints(value).toFixed(1)
+                                    const subjectBands = subject.gradingScaleBands || getSubjectScaleBands(subject.subjectId)
+                                    if (displayMode === 'letter') return getLetterGrade(value, subjectBands)
+                                    if (displayMode === 'gpa') return getBandGpaPoints(value, subjectBands).toFixed(1)
                                     return `${value.toFixed(1)}%`
                                   })()
                                   return (
@@ -1467,6 +1883,13 @@ export default function Reports() {
                                       Grades: {category.grades.map(g => g.toFixed(0)).join(', ')}
                                       {category.grades.length > 1 && ` → Avg: ${category.average.toFixed(1)}%`}
                                     </div>
+                                    {(category.dropped.length > 0 || category.replaced > 0) && (
+                                      <div className="text-muted-foreground ml-2">
+                                        {category.dropped.length > 0 && `Dropped: ${category.dropped.map(g => g.toFixed(0)).join(', ')}`}
+                                        {category.dropped.length > 0 && category.replaced > 0 && ' • '}
+                                        {category.replaced > 0 && `${category.replaced} replaced by a later grade`}
+                                      </div>
+                                    )}
                                     <div className="text-muted-foreground ml-2">
                                       Weighted: {category.average.toFixed(1)}% × {(category.weight * 100).toFixed(0)}% = {category.weightedValue.toFixed(1)}
                                     </div>
@@ -1579,6 +2002,26 @@ export default function Reports() {
                     <Eye size={16} className="mr-2" />
                     Preview PDF Report
                   </Button>
+                  <Button
+                    onClick={() => setShowIssuesDialog(true)}
+                    variant="outline"
+                    className="w-full"
+                    size="sm"
+                    disabled={!reportPeriod}
+                  >
+                    <Stamp size={16} className="mr-2" />
+                    Issue / History
+                  </Button>
+                  <Button
+                    onClick={downloadTranscript}
+                    variant="outline"
+                    className="w-full"
+                    size="sm"
+                    disabled={isGeneratingTranscript}
+                  >
+                    <Scroll size={16} className="mr-2" />
+                    {isGeneratingTranscript ? 'Generating...' : 'Download Transcript'}
+                  </Button>
                 </div>
               )}
             </CardContent>
@@ -1760,6 +2203,40 @@ export default function Reports() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <ReportTemplateDesigner
+        open={showTemplateDesigner}
+        onOpenChange={setShowTemplateDesigner}
+        template={reportTemplate}
+        onSaved={setReportTemplate}
+        renderPreview={renderTemplatePreview}
+      />
+      <CommentBankDialog
+        open={showCommentBank}
+        onOpenChange={setShowCommentBank}
+        bank={commentBank}
+        onBankChange={setCommentBank}
+        subjectNames={[...new Set(subjects.map(subject => subject.name))]}
+      />
+      <ReportEmailDialog
+        open={showEmailDialog}
+        onOpenChange={setShowEmailDialog}
+        studentIds={selectedStudents}
+        document={reportType}
+        periodLabel={reportType === 'progress' ? `${progressStartDate} to ${progressEndDate}` : selectedPeriod?.name || reportPeriod}
+        renderPdf={renderEmailPdf}
+      />
+      {previewStudentData && (
+        <ReportCardIssuesDialog
+          open={showIssuesDialog}
+          onOpenChange={setShowIssuesDialog}
+          student={previewStudentData}
+          periodKey={reportPeriod}
+          periodLabel={selectedPeriod?.name || reportPeriod}
+          currentReportCard={issuableReportCard}
+          renderPdf={renderIssuePdf}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { PencilSimple, Trash, LinkSimple } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { AvailableGuardian, Guardian, GuardianInput, Student } from '@/lib/types'
+
+interface StudentGuardiansDialogProps {
+  student: Student | null
+  onOpenChange: (open: boolean) => void
+  // Called after any change, so the primary contact on the student cards can be refreshed
+  onChanged: () => void
+}
+
+// Emails and phones are edited as comma separated lists
+const emptyDraft = {
+  name: '',
+  relationship: '',
+  emails: '',
+  phones: '',
+  preferredLanguage: '',
+  hasCustody: true,
+  doNotContact: false,
+  isPrimary: false,
+  notes: ''
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean)
+
+// Guardians and other contacts of a student, with linking to a sibling's guardians
+export default function StudentGuardiansDialog({ student, onOpenChange, onChanged }: StudentGuardiansDialogProps) {
+  const [guardians, setGuardians] = useState<Guardian[]>([])
+  const [available, setAvailable] = useState<AvailableGuardian[]>([])
+  const [draft, setDraft] = useState(emptyDraft)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [linkGuardianId, setLinkGuardianId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadGuardians = async (studentId: string) => {
+    const [guardiansResponse, availableResponse] = await Promise.all([
+      apiClient.getStudentGuardians(studentId),
+      apiClient.getAvailableGuardians(studentId)
+    ])
+    if (guardiansResponse.error) {
+      toast.error(guardiansResponse.error)
+      return
+    }
+    setGuardians(guardiansResponse.data || [])
+    setAvailable(availableResponse.data || [])
+  }
+
+  useEffect(() => {
+    if (!student) return
+    setGuardians([])
+    setAvailable([])
+    setDraft(emptyDraft)
+    setEditingId(null)
+    setLinkGuardianId('')
+    loadGuardians(student.id)
+  }, [student])
+
+  const startEditing = (guardian: Guardian) => {
+    setEditingId(guardian.id)
+    setDraft({
+      name: guardian.name,
+      relationship: guardian.relationship || '',
+      emails: guardian.emails.join(', '),
+      phones: guardian.phones.join(', '),
+      preferredLanguage: guardian.preferredLanguage || '',
+      hasCustody: guardian.hasCustody,
+      doNotContact: guardian.doNotContact,
+      isPrimary: guardian.isPrimary,
+      notes: guardian.notes || ''
+    })
+  }
+
+  const saveGuardian = async () => {
+    if (!student) return
+    if (!draft.name.trim()) {
+      toast.error('Guardian name is required')
+      return
+    }
+
+    const payload: GuardianInput = {
+      name: draft.name.trim(),
+      relationship: draft.relationship.trim() || null,
+      emails: splitList(draft.emails),
+      phones: splitList(draft.phones),
+      preferredLanguage: draft.preferredLanguage.trim() || null,
+      hasCustody: draft.hasCustody,
+      doNotContact: draft.doNotContact,
+      isPrimary: draft.isPrimary,
+      notes: draft.notes.trim() || null
+    }
+    setIsSaving(true)
+    const response = editingId
+      ? await apiClient.updateGuardian(student.id, editingId, payload)
+      : await apiClient.createGuardian(student.id, payload)
+    setIsSaving(false)
+
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setDraft(emptyDraft)
+    setEditingId(null)
+    await loadGuardians(student.id)
+    onChanged()
+  }
+
+  const linkGuardian = async () => {
+    if (!student || !linkGuardianId) return
+    const response = await apiClient.linkGuardian(student.id, linkGuardianId, guardians.length === 0)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setLinkGuardianId('')
+    await loadGuardians(student.id)
+    onChanged()
+  }
+
+  const removeGuardian = async (guardian: Guardian) => {
+    if (!student) return
+    const response = await apiClient.removeGuardian(student.id, guardian.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    if (editingId === guardian.id) {
+      setEditingId(null)
+      setDraft(emptyDraft)
+    }
+    await loadGuardians(student.id)
+    onChanged()
+  }
+
+  return (
+    <Dialog open={student !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{student?.name} — Guardians</DialogTitle>
+          <DialogDescription>
+            Contacts follow the student into later school years. Guardians shared with siblings are edited for the whole family.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {guardians.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No guardians yet.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-md border border-border">
+              {guardians.map(guardian => (
+                <div key={guardian.id} className="flex items-start justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{guardian.name}</span>
+                      {guardian.relationship && <span className="text-sm text-muted-foreground">{guardian.relationship}</span>}
+                      {guardian.isPrimary && <Badge>Primary</Badge>}
+                      {!guardian.hasCustody && <Badge variant="secondary">No custody</Badge>}
+                      {guardian.doNotContact && <Badge variant="destructive">Do not contact</Badge>}
+                    </div>
+                    {(guardian.emails.length > 0 || guardian.phones.length > 0) && (
+                      <p className="text-sm">{[...guardian.emails, ...guardian.phones].join(' · ')}</p>
+                    )}
+                    {guardian.preferredLanguage && (
+                      <p className="text-xs text-muted-foreground">Preferred language: {guardian.preferredLanguage}</p>
+                    )}
+                    {guardian.siblings.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Also guardian of {guardian.siblings.map(sibling => sibling.name).join(', ')}
+                      </p>
+                    )}
+                    {guardian.notes && <p className="text-xs text-muted-foreground">{guardian.notes}</p>}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(guardian)}>
+                      <PencilSimple size={14} />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeGuardian(guardian)}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {available.length > 0 && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label>Link a sibling's guardian</Label>
+                <Select value={linkGuardianId} onValueChange={setLinkGuardianId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a guardian" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map(guardian => (
+                      <SelectItem key={guardian.id} value={guardian.id}>
+                        {guardian.name}{guardian.relationship ? ` (${guardian.relationship})` : ''} — {guardian.studentNames.join(', ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={linkGuardian} disabled={!linkGuardianId}>
+                <LinkSimple size={16} className="mr-2" />
+                Link
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <h4 className="text-sm font-medium">{editingId ? 'Edit Guardian' : 'Add Guardian'}</h4>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="guardian-name">Name *</Label>
+                <Input
+                  id="guardian-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guardian-relationship">Relationship</Label>
+                <Input
+                  id="guardian-relationship"
+                  value={draft.relationship}
+                  onChange={(e) => setDraft(prev => ({ ...prev, relationship: e.target.value }))}
+                  placeholder="Mother, Father, Grandparent..."
+                  maxLength={50}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guardian-emails">Emails</Label>
+                <Input
+                  id="guardian-emails"
+                  value={draft.emails}
+                  onChange={(e) => setDraft(prev => ({ ...prev, emails: e.target.value }))}
+                  placeholder="Separate several with commas"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guardian-phones">Phones</Label>
+                <Input
+                  id="guardian-phones"
+                  value={draft.phones}
+                  onChange={(e) => setDraft(prev => ({ ...prev, phones: e.target.value }))}
+                  placeholder="Separate several with commas"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guardian-language">Preferred Language</Label>
+                <Input
+                  id="guardian-language"
+                  value={draft.preferredLanguage}
+                  onChange={(e) => setDraft(prev => ({ ...prev, preferredLanguage: e.target.value }))}
+                  maxLength={50}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.isPrimary}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, isPrimary: checked === true }))}
+                />
+                Primary contact
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.hasCustody}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, hasCustody: checked === true }))}
+                />
+                Has custody
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.doNotContact}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, doNotContact: checked === true }))}
+                />
+                Do not contact
+              </label>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian-notes">Notes</Label>
+              <Textarea
+                id="guardian-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+                maxLength={2000}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={() => { setEditingId(null); setDraft(emptyDraft) }}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={saveGuardian} disabled={isSaving || !draft.name.trim()}>
+                {isSaving ? 'Saving…' : editingId ? 'Save Changes' : 'Add Guardian'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
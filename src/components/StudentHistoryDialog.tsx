@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react'
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { Student, StudentYearRecord } from '@/lib/types'
+
+interface StudentHistoryDialogProps {
+  student: Student | null
+  onOpenChange: (open: boolean) => void
+}
+
+// The school years a student appears in, linked through their person id across rollovers, restores and imports
+export default function StudentHistoryDialog({ student, onOpenChange }: StudentHistoryDialogProps) {
+  const [history, setHistory] = useState<StudentYearRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!student) return
+    setHistory([])
+    setIsLoading(true)
+    apiClient.getStudentHistory(student.id).then(response => {
+      setIsLoading(false)
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Failed to load past years')
+        return
+      }
+      setHistory(response.data)
+    })
+  }, [student])
+
+  return (
+    <Dialog open={student !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{student?.name} — School Years</DialogTitle>
+          <DialogDescription>
+            Every school year this student is enrolled in{student?.sis_id ? ` (SIS id ${student.sis_id})` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : history.length <= 1 ? (
+          <p className="text-sm text-muted-foreground">No other school years are linked to this student.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-md border border-border">
+            {history.map(record => (
+              <div key={record.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{record.school_year_label}</span>
+                    {record.id === student?.id && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      record.name !== student?.name ? record.name : null,
+                      record.grade ? `Grade ${record.grade}` : null,
+                      record.group_name
+                    ].filter(Boolean).join(' · ') || 'No groups'}
+                  </p>
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {record.grade_count} grade{record.grade_count === 1 ? '' : 's'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CaretDown, CaretRight, GraduationCap } from '@phosphor-icons/react'
+import { apiClient } from '@/lib/api'
+import { PortalView } from '@/lib/types'
+
+const STATUS_LABELS: Record<string, string> = {
+  missing: 'Missing',
+  excused: 'Excused',
+  late: 'Late',
+  incomplete: 'Incomplete'
+}
+
+const formatPercentage = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+// Read-only view of one student for parents and students, opened from a portal link
+export default function StudentPortal() {
+  const [searchParams] = useSearchParams()
+  const token = useMemo(() => searchParams.get('token') || '', [searchParams])
+  const [view, setView] = useState<PortalView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedSubject, setExpandedSubject] = useState<string | null>(null)
+
+  useEffect(() => {
+    const run = async () => {
+      if (!token) {
+        setError('This link is missing its access token.')
+        return
+      }
+      const response = await apiClient.getPortalView(token)
+      if (response.error || !response.data) {
+        setError('This link has expired or is no longer valid. Ask the teacher for a new one.')
+        return
+      }
+      setView(response.data)
+    }
+
+    void run()
+  }, [token])
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            <CardTitle>Student Portal</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={error ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+              {error || 'Loading...'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const attendanceTotal = view.attendance.present + view.attendance.absent + view.attendance.tardy + view.attendance.excused
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto flex items-center gap-3 px-6 py-4">
+          <GraduationCap size={32} className="text-primary" weight="bold" />
+          <div>
+            <h1 className="text-xl font-bold text-foreground">{view.student.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {[view.schoolName, view.schoolYearLabel, view.student.grade && `Grade ${view.student.grade}`].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-6 py-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Current Grades</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {view.subjects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No grades yet.</p>
+            ) : (
+              <div className="divide-y divide-border rounded-md border border-border">
+                {view.subjects.map(subject => {
+                  const isExpanded = expandedSubject === subject.subjectId
+                  return (
+                    <div key={subject.subjectId}>
+                      <button
+                        type="button"
+                        className="flex w-full items-center justify-between gap-3 p-3 text-left hover:bg-muted"
+                        onClick={() => setExpandedSubject(isExpanded ? null : subject.subjectId)}
+                      >
+                        <span className="flex items-center gap-2 font-medium">
+                          {isExpanded ? <CaretDown size={14} /> : <CaretRight size={14} />}
+                          {subject.subjectName}
+                        </span>
+                        <span className="text-sm">
+                          {formatPercentage(subject.average)}
+                          {subject.letterGrade && <Badge variant="secondary" className="ml-2">{subject.letterGrade}</Badge>}
+                        </span>
+                      </button>
+                      {isExpanded && (
+                        <div className="space-y-1 px-3 pb-3 pl-9">
+                          {subject.lessons.map(lesson => (
+                            <div key={lesson.lessonId} className="flex items-center justify-between gap-3 text-sm">
+                              <span className="min-w-0">
+                                {lesson.name}
+                                <span className="text-xs text-muted-foreground">
+                                  {[lesson.category, lesson.date].filter(Boolean).map(part => ` · ${part}`).join('')}
+                                </span>
+                              </span>
+                              <span className="shrink-0">
+                                {STATUS_LABELS[lesson.status] && (
+                                  <Badge variant={lesson.status === 'missing' ? 'destructive' : 'outline'} className="mr-2">
+                                    {STATUS_LABELS[lesson.status]}
+                                  </Badge>
+                                )}
+                                {formatPercentage(lesson.percentage)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Missing Work</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {view.missingWork.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing missing.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {view.missingWork.map(item => (
+                    <li key={item.lessonId}>
+                      <span className="font-medium">{item.lessonName}</span>
+                      <span className="text-muted-foreground"> · {item.subjectName}{item.dueDate ? ` · due ${item.dueDate}` : ''}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {attendanceTotal === 0 ? (
+                <p className="text-sm text-muted-foreground">No attendance recorded yet.</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                    <div><p className="text-lg font-semibold">{view.attendance.present}</p><p className="text-muted-foreground">Present</p></div>
+                    <div><p className="text-lg font-semibold">{view.attendance.absent}</p><p className="text-muted-foreground">Absent</p></div>
+                    <div><p className="text-lg font-semibold">{view.attendance.tardy}</p><p className="text-muted-foreground">Tardy</p></div>
+                    <div><p className="text-lg font-semibold">{view.attendance.excused}</p><p className="text-muted-foreground">Excused</p></div>
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {view.attendance.recent.map(record => (
+                      <li key={record.date} className="flex justify-between">
+                        <span>{record.date}</span>
+                        <span className="capitalize text-muted-foreground">{record.status}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <p className="text-center text-xs text-muted-foreground">
+          Read-only view. This link expires on {new Date(view.expiresAt).toLocaleDateString()}.
+        </p>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Copy, Prohibit } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { apiClient } from '@/lib/api'
+import { PortalLink, Student } from '@/lib/types'
+
+interface StudentPortalLinksDialogProps {
+  student: Student | null
+  onOpenChange: (open: boolean) => void
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' }
+]
+
+// Read-only portal links a teacher hands to a parent or the student; each can be revoked on its own
+export default function StudentPortalLinksDialog({ student, onOpenChange }: StudentPortalLinksDialogProps) {
+  const [links, setLinks] = useState<PortalLink[]>([])
+  const [label, setLabel] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState('30')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const loadLinks = async (studentId: string) => {
+    const response = await apiClient.getPortalLinks(studentId)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setLinks(response.data || [])
+  }
+
+  useEffect(() => {
+    if (!student) return
+    setLinks([])
+    setLabel('')
+    setExpiresInDays('30')
+    loadLinks(student.id)
+  }, [student])
+
+  const copyLink = async (link: PortalLink) => {
+    if (!link.url) return
+    try {
+      await navigator.clipboard.writeText(link.url)
+      toast.success('Link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const createLink = async () => {
+    if (!student) return
+    setIsCreating(true)
+    const response = await apiClient.createPortalLink(student.id, {
+      label: label.trim() || null,
+      expiresInDays: parseInt(expiresInDays, 10)
+    })
+    setIsCreating(false)
+    if (response.error || !response.data) {
+      toast.error(response.error || 'Failed to create link')
+      return
+    }
+    setLabel('')
+    await loadLinks(student.id)
+    await copyLink(response.data)
+  }
+
+  const revokeLink = async (link: PortalLink) => {
+    if (!student) return
+    const response = await apiClient.revokePortalLink(student.id, link.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    toast.success('Link revoked')
+    await loadLinks(student.id)
+  }
+
+  return (
+    <Dialog open={student !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{student?.name} — Portal Links</DialogTitle>
+          <DialogDescription>
+            A portal link shows this student's current grades, missing work and attendance, read-only. Anyone with the link can open it until it expires or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="portal-link-label">For</Label>
+              <Input
+                id="portal-link-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Mother, Father, Student..."
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={createLink} disabled={isCreating}>
+              {isCreating ? 'Creating…' : 'Create Link'}
+            </Button>
+          </div>
+
+          {links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No portal links yet.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-md border border-border">
+              {links.map(link => (
+                <div key={link.id} className="flex items-start justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{link.label || 'Portal link'}</span>
+                      {link.active
+                        ? <Badge>Active</Badge>
+                        : <Badge variant="secondary">{link.revokedAt ? 'Revoked' : 'Expired'}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {new Date(link.createdAt).toLocaleDateString()} · expires {new Date(link.expiresAt).toLocaleDateString()}
+                      {link.lastUsedAt ? ` · last opened ${new Date(link.lastUsedAt).toLocaleString()}` : ' · never opened'}
+                    </p>
+                  </div>
+                  {link.active && (
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="sm" title="Copy link" onClick={() => copyLink(link)}>
+                        <Copy size={14} />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Revoke" onClick={() => revokeLink(link)}>
+                        <Prohibit size={14} className="text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,11 +7,25 @@ import { Label } from "@/components/ui/label"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
 import { Badge } from "@/components/ui/badge"
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Plus, Trash, UserPlus, Upload, PencilSimple, CaretDown } from "@phosphor-icons/react"
+import { Plus, Trash, UserPlus, Upload, PencilSimple, CaretDown, ClockCounterClockwise, AddressBook, ShareNetwork } from "@phosphor-icons/react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Student, Subject } from '@/lib/types'
+import { STUDENT_PRONOUNS, StudentPronouns } from '@shared/commentMerge'
 import { toast } from 'sonner'
+import StudentHistoryDialog from './StudentHistoryDialog'
+import StudentGuardiansDialog from './StudentGuardiansDialog'
+import StudentPortalLinksDialog from './StudentPortalLinksDialog'
+import ImportWizard from './ImportWizard'
+
+// Select has no empty value, so "not set" gets its own
+const NO_PRONOUNS = 'none'
+
+const PRONOUN_LABELS: Record<StudentPronouns, string> = {
+  he: 'he/him',
+  she: 'she/her',
+  they: 'they/them'
+}
 
 export default function Students() {
   const [students, setStudents] = useState<Student[]>([])
@@ -27,12 +41,18 @@ export default function Students() {
   const [newGroupName, setNewGroupName] = useState('')
   const [isCreatingGroup, setIsCreatingGroup] = useState(false)
   const [editSelectedGroupIds, setEditSelectedGroupIds] = useState<string[]>([])
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null)
+  const [guardiansStudent, setGuardiansStudent] = useState<Student | null>(null)
+  const [portalStudent, setPortalStudent] = useState<Student | null>(null)
+  const [showImportWizard, setShowImportWizard] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const editDropdownRef = useRef<HTMLDivElement>(null)
 
   const [newStudent, setNewStudent] = useState({
     name: '',
     birthday: '',
+    pronouns: '' as StudentPronouns | '',
+    sisId: '',
     subjects: [] as string[]
   })
 
@@ -348,6 +368,8 @@ export default function Students() {
       const student: any = {
         name: newStudent.name.trim(),
         birthday: birthday || null,
+        pronouns: newStudent.pronouns || null,
+        sisId: newStudent.sisId.trim() || null,
         groupIds: selectedGroupIds // Send as groupIds for proper junction table handling
       };
       
@@ -357,7 +379,7 @@ export default function Students() {
       }
 
       await fetchData() // Refresh data
-      setNewStudent({ name: '', birthday: '', subjects: [] })
+      setNewStudent({ name: '', birthday: '', pronouns: '', sisId: '', subjects: [] })
       setSelectedGroupIds([])
       setIsAddDialogOpen(false)
       toast.success("Student added successfully")
@@ -372,6 +394,8 @@ export default function Students() {
     setNewStudent({
       name: student.name,
       birthday: formatDateForInput(student.birthday),
+      pronouns: student.pronouns || '',
+      sisId: student.sis_id || '',
       subjects: [...student.subjects]
     })
     // Set selected groups for editing
@@ -403,6 +427,8 @@ export default function Students() {
       const updatedStudent: any = {
         name: newStudent.name.trim(),
         birthday: birthday || null,
+        pronouns: newStudent.pronouns || null,
+        sisId: newStudent.sisId.trim() || null,
         groupIds: editSelectedGroupIds // Send as groupIds for proper junction table handling
       };
       
@@ -418,7 +444,7 @@ export default function Students() {
       }
       
       await fetchData() // Refresh data
-      setNewStudent({ name: '', birthday: '', subjects: [] })
+      setNewStudent({ name: '', birthday: '', pronouns: '', sisId: '', subjects: [] })
       setEditSelectedGroupIds([])
       setEditingStudent(null)
       setIsEditDialogOpen(false)
@@ -470,103 +496,6 @@ export default function Students() {
     }
   };
 
-  const bulkImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    const reader = new FileReader()
-    reader.onload = async (e) => {
-      try {
-        const csv = e.target?.result as string
-        const lines = csv.split('\n').filter(line => line.trim())
-        
-        if (lines.length === 0) {
-          toast.error("CSV file is empty")
-          return
-        }
-
-        // Skip header row and parse data
-        const studentsData = []
-        const errors = []
-        
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',').map(v => v.trim())
-          
-          // Validate that all three fields are provided
-          if (values.length < 3) {
-            errors.push(`Row ${i + 1}: Missing required columns. Expected Name, Group, Birthday`)
-            continue
-          }
-          
-          const name = values[0]
-          const group = values[1]
-          const birthdayStr = values[2]
-          
-          // Check for empty required fields
-          if (!name) {
-            errors.push(`Row ${i + 1}: Name is required`)
-            continue
-          }
-          
-          if (!group) {
-            errors.push(`Row ${i + 1}: Group is required`)
-            continue
-          }
-          
-          if (!birthdayStr) {
-            errors.push(`Row ${i + 1}: Birthday is required`)
-            continue
-          }
-          
-          // Parse and validate birthday
-          let birthday = undefined
-          if (!birthdayStr.match(/^\d{4}-\d{2}-\d{2}$/)) {
-            // Try to convert common formats to YYYY-MM-DD
-            const dateAttempt = new Date(birthdayStr)
-            if (!isNaN(dateAttempt.getTime())) {
-              birthday = dateAttempt.toISOString().split('T')[0] // Convert to YYYY-MM-DD
-            } else {
-              errors.push(`Row ${i + 1}: Invalid birthday format "${birthdayStr}". Expected YYYY-MM-DD`)
-              continue
-            }
-          } else {
-            birthday = birthdayStr
-          }
-          
-          studentsData.push({
-            name: name,
-            birthday: birthday,
-            group: group
-          })
-        }
-        
-        // Show errors if any
-        if (errors.length > 0) {
-          toast.error(`CSV validation failed:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ''}`)
-          return
-        }
-
-        if (studentsData.length === 0) {
-          toast.error("No valid student data found in CSV")
-          return
-        }
-
-        // Send to backend
-        const result = await apiClient.bulkImportStudents({ students: studentsData })
-        
-        // Refresh the students list
-        await fetchData()
-        
-        toast.success((result.data as any)?.message || `Imported ${studentsData.length} students`)
-      } catch (error: any) {
-        console.error('Import error:', error)
-        toast.error(error.response?.data?.error || "Failed to import CSV file")
-      }
-    }
-    reader.readAsText(file)
-    event.target.value = ''
-  }
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -575,40 +504,10 @@ export default function Students() {
           <p className="text-muted-foreground">Manage your student roster</p>
         </div>
         <div className="flex gap-2">
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Label htmlFor="csv-upload" className="cursor-pointer">
-                  <Button variant="outline" asChild>
-                    <span className="flex items-center gap-2">
-                      <Upload size={16} />
-                      Import CSV
-                    </span>
-                  </Button>
-                </Label>
-              </TooltipTrigger>
-              <TooltipContent>
-                <div className="text-sm">
-                  <div className="font-medium mb-1">CSV Format (All Required):</div>
-                  <div className="text-xs text-muted-foreground">
-                    <div>Column 1: Name (required)</div>
-                    <div>Column 2: Group (required)</div>
-                    <div>Column 3: Birthday (required, YYYY-MM-DD)</div>
-                  </div>
-                  <div className="mt-2 text-xs text-blue-600">
-                    Groups will be created automatically if they don't exist
-                  </div>
-                </div>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-          <input
-            id="csv-upload"
-            type="file"
-            accept=".csv"
-            className="hidden"
-            onChange={bulkImport}
-          />
+          <Button variant="outline" className="flex items-center gap-2" onClick={() => setShowImportWizard(true)}>
+            <Upload size={16} />
+            Import
+          </Button>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button className="flex items-center gap-2" data-action="add-student">
@@ -642,6 +541,33 @@ export default function Students() {
                     onChange={(e) => setNewStudent(prev => ({ ...prev, birthday: e.target.value }))}
                   />
                 </div>
+                <div>
+                  <Label htmlFor="student-sis-id">SIS ID</Label>
+                  <Input
+                    id="student-sis-id"
+                    value={newStudent.sisId}
+                    onChange={(e) => setNewStudent(prev => ({ ...prev, sisId: e.target.value }))}
+                    placeholder="Student information system id (optional)"
+                    maxLength={64}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="student-pronouns">Pronouns</Label>
+                  <Select
+                    value={newStudent.pronouns || NO_PRONOUNS}
+                    onValueChange={(value) => setNewStudent(prev => ({ ...prev, pronouns: value === NO_PRONOUNS ? '' : value as StudentPronouns }))}
+                  >
+                    <SelectTrigger id="student-pronouns">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PRONOUNS}>Not set (they/them in comments)</SelectItem>
+                      {STUDENT_PRONOUNS.map(pronoun => (
+                        <SelectItem key={pronoun} value={pronoun}>{PRONOUN_LABELS[pronoun]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 {/* Removed email input */}
                 <div>
                   <Label>Groups *</Label>
@@ -729,7 +655,7 @@ export default function Students() {
                   <Button variant="outline" onClick={() => {
                     setIsAddDialogOpen(false)
                     setSelectedGroupIds([])
-                    setNewStudent({ name: '', birthday: '', subjects: [] })
+                    setNewStudent({ name: '', birthday: '', pronouns: '', sisId: '', subjects: [] })
                   }}>
                     Cancel
                   </Button>
@@ -766,6 +692,33 @@ export default function Students() {
                     onChange={(e) => setNewStudent(prev => ({ ...prev, birthday: e.target.value }))}
                   />
                 </div>
+                <div>
+                  <Label htmlFor="edit-student-sis-id">SIS ID</Label>
+                  <Input
+                    id="edit-student-sis-id"
+                    value={newStudent.sisId}
+                    onChange={(e) => setNewStudent(prev => ({ ...prev, sisId: e.target.value }))}
+                    placeholder="Student information system id (optional)"
+                    maxLength={64}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-student-pronouns">Pronouns</Label>
+                  <Select
+                    value={newStudent.pronouns || NO_PRONOUNS}
+                    onValueChange={(value) => setNewStudent(prev => ({ ...prev, pronouns: value === NO_PRONOUNS ? '' : value as StudentPronouns }))}
+                  >
+                    <SelectTrigger id="edit-student-pronouns">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PRONOUNS}>Not set (they/them in comments)</SelectItem>
+                      {STUDENT_PRONOUNS.map(pronoun => (
+                        <SelectItem key={pronoun} value={pronoun}>{PRONOUN_LABELS[pronoun]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 {/* Removed email input from edit dialog */}
                 <div>
                   <Label>Groups *</Label>
@@ -854,7 +807,7 @@ export default function Students() {
                     setIsEditDialogOpen(false)
                     setEditingStudent(null)
                     setEditSelectedGroupIds([])
-                    setNewStudent({ name: '', birthday: '', subjects: [] })
+                    setNewStudent({ name: '', birthday: '', pronouns: '', sisId: '', subjects: [] })
                   }}>
                     Cancel
                   </Button>
@@ -906,8 +859,43 @@ export default function Students() {
                               Birthday: {student.birthday}
                             </p>
                           )}
+                          {student.sis_id && (
+                            <p className="text-sm text-muted-foreground">
+                              SIS ID: {student.sis_id}
+                            </p>
+                          )}
+                          {student.primary_guardian && (
+                            <p className="text-sm text-muted-foreground">
+                              {student.primary_guardian.relationship || 'Guardian'}: {student.primary_guardian.name}
+                              {(student.primary_guardian.email || student.primary_guardian.phone) && ` · ${student.primary_guardian.email || student.primary_guardian.phone}`}
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="School years"
+                            onClick={() => setHistoryStudent(student)}
+                          >
+                            <ClockCounterClockwise size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Guardians"
+                            onClick={() => setGuardiansStudent(student)}
+                          >
+                            <AddressBook size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Portal links"
+                            onClick={() => setPortalStudent(student)}
+                          >
+                            <ShareNetwork size={16} />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -989,6 +977,21 @@ export default function Students() {
           ))}
         </div>
       )}
+
+      <StudentHistoryDialog student={historyStudent} onOpenChange={(open) => !open && setHistoryStudent(null)} />
+      <StudentGuardiansDialog
+        student={guardiansStudent}
+        onOpenChange={(open) => !open && setGuardiansStudent(null)}
+        onChanged={fetchData}
+      />
+      <StudentPortalLinksDialog student={portalStudent} onOpenChange={(open) => !open && setPortalStudent(null)} />
+      <ImportWizard
+        open={showImportWizard}
+        onOpenChange={setShowImportWizard}
+        kind="students"
+        title="Import Students"
+        onImported={fetchData}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
 import { Input } from "@/components/ui/input"
 import { toast } from "sonner"
@@ -10,8 +9,10 @@ import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Plus, Trash, X, CaretDown, CaretUp, PencilSimple, Upload } from "@phosphor-icons/react"
-import { Lesson, GradingPeriodMarker, User } from '@/lib/types'
+import { Lesson, GradingPeriodMarker, GradingScale, CategoryPolicy, LatePolicy, User } from '@/lib/types'
 import { apiClient } from '@/lib/api'
+import { ImportKind } from '@shared/importMapping'
+import ImportWizard from './ImportWizard'
 
 function Subjects() {
   // Helper function to get default weights for categories (only active ones)
@@ -74,7 +75,11 @@ function Subjects() {
     setNewSubject({
       name: '',
       report_card_name: '',
-      weights: getDefaultWeights()
+      grading_scale_id: '',
+      credits: '',
+      weights: getDefaultWeights(),
+      policies: {},
+      latePolicy: {}
     });
     setSelectedGroups([]);
     setIsEditing(false);
@@ -103,7 +108,11 @@ function Subjects() {
     setNewSubject({
       name: subject.name,
       report_card_name: subject.report_card_name || '',
-      weights
+      grading_scale_id: subject.grading_scale_id || '',
+      credits: subject.credits === null || subject.credits === undefined ? '' : String(subject.credits),
+      weights,
+      policies: subject.policies || {},
+      latePolicy: subject.latePolicy || {}
     });
 
     // Set selected groups from the subject's group_name
@@ -173,6 +182,20 @@ function Subjects() {
         }
       });
       payload.weights = weights;
+      // Averaging policies only apply to active categories
+      payload.policies = Object.fromEntries(
+        Object.entries(newSubject.policies).filter(([categoryId]) =>
+          gradeCategoryTypes.some(category => category.id === categoryId && category.is_active !== false)
+        )
+      );
+      // Empty selection means "use the default scale"
+      payload.grading_scale_id = newSubject.grading_scale_id || null;
+      payload.credits = newSubject.credits.trim() === '' ? null : Number(newSubject.credits);
+      // Without a penalty per day there is no late policy
+      const { penaltyPerDay, maxPenalty, graceDays } = newSubject.latePolicy;
+      payload.latePolicy = Number(penaltyPerDay) > 0
+        ? { penaltyPerDay: Number(penaltyPerDay), maxPenalty: Number(maxPenalty) || null, graceDays: graceDays || 0 }
+        : null;
       
       // Convert selected group names to group IDs
       if (selectedGroups.length > 0) {
@@ -195,7 +218,11 @@ function Subjects() {
       setNewSubject({
         name: '',
         report_card_name: '',
-        weights: getDefaultWeights()
+        grading_scale_id: '',
+        credits: '',
+        weights: getDefaultWeights(),
+        policies: {},
+        latePolicy: {}
       });
       setSelectedGroups([]);
       setIsAddDialogOpen(false);
@@ -535,8 +562,13 @@ function Subjects() {
   const [newSubject, setNewSubject] = useState({
     name: '',
     report_card_name: '',
-    weights: {} as { [categoryId: string]: number }
+    grading_scale_id: '',
+    credits: '',
+    weights: {} as { [categoryId: string]: number },
+    policies: {} as { [categoryId: string]: CategoryPolicy },
+    latePolicy: {} as LatePolicy
   });
+  const [gradingScales, setGradingScales] = useState<GradingScale[]>([]);
 
   // Helper function to get category color from lesson object or type name
   const getCategoryColor = (lesson: any): string => {
@@ -549,6 +581,7 @@ function Subjects() {
     return categoryType?.color || '#6366f1'; // Default color
   };
   const [expandedSubjects, setExpandedSubjects] = useState<{ [id: string]: boolean }>({});
+  const [importKind, setImportKind] = useState<ImportKind | null>(null);
   const [addLessonDialog, setAddLessonDialog] = useState<{ open: boolean, subjectId: string | null }>({ open: false, subjectId: null });
   const [lessonReplacementDialog, setLessonReplacementDialog] = useState<{ open: boolean, subjectId: string | null, existingCount: number }>({ open: false, subjectId: null, existingCount: 0 });
   const [lessonCount, setLessonCount] = useState(1);
@@ -745,6 +778,20 @@ function Subjects() {
   }, [gradeCategoryTypes]);
 
   // Calculate total weight for validation (only include active categories)
+  const updatePolicy = (categoryId: string, changes: Partial<CategoryPolicy>) => {
+    setNewSubject(prev => ({
+      ...prev,
+      policies: {
+        ...prev.policies,
+        [categoryId]: { ...prev.policies[categoryId], ...changes }
+      }
+    }));
+  };
+
+  const updateLatePolicy = (changes: Partial<LatePolicy>) => {
+    setNewSubject(prev => ({ ...prev, latePolicy: { ...prev.latePolicy, ...changes } }));
+  };
+
   const totalWeight = gradeCategoryTypes
     .filter(category => category.is_active !== false)
     .reduce((sum, category) => sum + (newSubject.weights[category.id] || 0), 0);
@@ -753,14 +800,16 @@ function Subjects() {
   useEffect(() => {
     async function fetchData() {
       try {
-        const [subjectsRes, groupsRes, categoriesRes, profileRes] = await Promise.all([
+        const [subjectsRes, groupsRes, categoriesRes, profileRes, scalesRes] = await Promise.all([
           apiClient.getSubjects(),
           apiClient.getStudentGroups(),
           apiClient.getGradeCategoryTypes(),
-          apiClient.getProfile()
+          apiClient.getProfile(),
+          apiClient.getGradingScales()
         ]);
         setSubjects(Array.isArray(subjectsRes.data) ? subjectsRes.data : []);
         setStudentGroups(Array.isArray(groupsRes.data) ? groupsRes.data : []);
+        setGradingScales(Array.isArray(scalesRes.data) ? scalesRes.data : []);
         
         // Handle nested data structure for categories
         const categoriesData = Array.isArray((categoriesRes as any).data?.data) ? (categoriesRes as any).data.data : 
@@ -1054,77 +1103,14 @@ function Subjects() {
     }
   }
 
-  const bulkImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    const reader = new FileReader()
-    reader.onload = async (e) => {
-      try {
-        const csv = e.target?.result as string
-        const lines = csv.split('\n').filter(line => line.trim())
-        
-        if (lines.length === 0) {
-          toast.error("CSV file is empty")
-          return
-        }
-
-        // Skip header row and parse data
-        const subjectsData = []
-        const errors = []
-        
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',').map(v => v.trim())
-          
-          // Validate that required fields are provided (Name is required, Group and Report Card Name are optional)
-          if (values.length < 1) {
-            errors.push(`Row ${i + 1}: Missing subject name`)
-            continue
-          }
-          
-          const name = values[0]
-          const group = values[1] || '' // Optional
-          const reportCardName = values[2] || '' // Optional
-          
-          // Check for empty required fields
-          if (!name) {
-            errors.push(`Row ${i + 1}: Subject name is required`)
-            continue
-          }
-          
-          subjectsData.push({
-            name: name,
-            group: group,
-            reportCardName: reportCardName
-          })
-        }
-        
-        // Show errors if any
-        if (errors.length > 0) {
-          toast.error(`CSV validation failed:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ''}`)
-          return
-        }
-
-        if (subjectsData.length === 0) {
-          toast.error("No valid subject data found in CSV")
-          return
-        }
-
-        // Send to backend
-        const result = await apiClient.bulkImportSubjects({ subjects: subjectsData })
-        
-        // Refresh the subjects list
-        const subjectsRes = await apiClient.getSubjects()
-        setSubjects(Array.isArray(subjectsRes.data) ? subjectsRes.data : [])
-        
-        toast.success((result.data as any)?.message || `Imported ${subjectsData.length} subjects`)
-      } catch (error: any) {
-        console.error('Import error:', error)
-        toast.error(error.response?.data?.error || "Failed to import CSV file")
-      }
+  // After an import, reload subjects; imported lessons show up when a subject is opened again
+  const handleImported = async () => {
+    if (importKind === 'lessons') {
+      setSubjectLessons({});
+      setExpandedSubjects({});
     }
-    reader.readAsText(file)
-    event.target.value = ''
+    const subjectsRes = await apiClient.getSubjects()
+    setSubjects(Array.isArray(subjectsRes.data) ? subjectsRes.data : [])
   }
 
   return (
@@ -1136,33 +1122,14 @@ function Subjects() {
             <p className="text-muted-foreground">Manage subjects and lessons</p>
           </div>
           <div className="flex gap-2">
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Label htmlFor="subjects-csv-upload" className="cursor-pointer">
-                    <Button variant="outline" asChild>
-                      <span className="flex items-center gap-2">
-                        <Upload size={16} />
-                        Import CSV
-                      </span>
-                    </Button>
-                  </Label>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <div className="text-sm">
-                    <div className="font-medium mb-1">CSV Format:</div>
-                    <div className="text-xs text-muted-foreground">
-                      <div>Column 1: Subject Name (required)</div>
-                      <div>Column 2: Group (optional)</div>
-                      <div>Column 3: Report Card Name (optional)</div>
-                    </div>
-                    <div className="mt-2 text-xs text-blue-600">
-                      Groups will be created automatically if they don't exist
-                    </div>
-                  </div>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setImportKind('subjects')}>
+              <Upload size={16} />
+              Import Subjects
+            </Button>
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setImportKind('lessons')}>
+              <Upload size={16} />
+              Import Lessons
+            </Button>
             {!isDateMode && (
               <Button
                 variant="outline"
@@ -1172,13 +1139,6 @@ function Subjects() {
                 {bulkMarkerAdding ? 'Inserting markers...' : 'Insert next markers'}
               </Button>
             )}
-            <input
-              id="subjects-csv-upload"
-              type="file"
-              accept=".csv"
-              className="hidden"
-              onChange={bulkImport}
-            />
             <Button variant="default" onClick={openAddSubjectDialog} data-action="add-subject">
               <Plus size={16} className="mr-2" /> Add Subject
             </Button>
@@ -1222,6 +1182,33 @@ function Subjects() {
                   If blank, the subject name will be used on report cards
                 </div>
               </div>
+              <div>
+                <Label htmlFor="subject-grading-scale">Grading Scale</Label>
+                <select
+                  id="subject-grading-scale"
+                  value={newSubject.grading_scale_id}
+                  onChange={e => setNewSubject(prev => ({ ...prev, grading_scale_id: e.target.value }))}
+                  className="w-full border rounded px-2 py-1"
+                >
+                  <option value="">Use default scale</option>
+                  {gradingScales.map(scale => (
+                    <option key={scale.id} value={scale.id}>{scale.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="subject-credits">Credits</Label>
+                <Input
+                  id="subject-credits"
+                  type="number"
+                  min={0}
+                  max={99}
+                  step={0.25}
+                  value={newSubject.credits}
+                  onChange={e => setNewSubject(prev => ({ ...prev, credits: e.target.value }))}
+                  placeholder="Credits earned on transcripts (optional)"
+                />
+              </div>
               <div>
                 <Label htmlFor="subject-group">Groups</Label>
                 <div className="relative group-dropdown-container">
@@ -1385,6 +1372,106 @@ function Subjects() {
                         </p>
                       )}
                     </div>
+                    <div className="mt-4">
+                      <Label>Category Policies</Label>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Applied per grading period wherever averages are calculated. Leave blank to count every grade.
+                      </p>
+                      <div className="space-y-2">
+                        {gradeCategoryTypes.filter(category => category.is_active !== false).map((category) => {
+                          const policy: CategoryPolicy = newSubject.policies[category.id] || {};
+                          return (
+                            <div key={category.id} className="grid grid-cols-12 gap-2 items-center">
+                              <span className="col-span-3 text-sm truncate" title={category.name}>{category.name}</span>
+                              <Input
+                                className="col-span-2"
+                                type="number"
+                                min={0}
+                                max={50}
+                                placeholder="Drop"
+                                title="Drop this many lowest grades"
+                                value={policy.dropLowest || ''}
+                                onChange={e => updatePolicy(category.id, { dropLowest: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                              />
+                              <Input
+                                className="col-span-2"
+                                type="number"
+                                min={0}
+                                max={100}
+                                placeholder="Keep"
+                                title="Only keep this many highest grades"
+                                value={policy.keepHighest || ''}
+                                onChange={e => updatePolicy(category.id, { keepHighest: Math.max(0, parseInt(e.target.value, 10) || 0) || null })}
+                              />
+                              <label className="col-span-2 flex items-center gap-1 text-xs" title="Count grades above 100% as 100%">
+                                <Checkbox
+                                  checked={policy.capAt100 || false}
+                                  onCheckedChange={checked => updatePolicy(category.id, { capAt100: checked === true })}
+                                />
+                                Cap 100
+                              </label>
+                              <select
+                                className="col-span-3 border rounded px-2 py-1 text-xs"
+                                title="A later, higher grade in the chosen category replaces an earlier one in this category"
+                                value={policy.replaceWithCategoryId || ''}
+                                onChange={e => updatePolicy(category.id, { replaceWithCategoryId: e.target.value || null })}
+                              >
+                                <option value="">No replacement</option>
+                                {gradeCategoryTypes
+                                  .filter(other => other.id !== category.id && other.is_active !== false)
+                                  .map(other => (
+                                    <option key={other.id} value={other.id}>Replaced by {other.name}</option>
+                                  ))}
+                              </select>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div className="mt-4">
+                      <Label>Late Work Policy</Label>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Work handed in after its due date loses these percentage points. The raw score stays visible.
+                      </p>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <Label htmlFor="late-penalty-per-day" className="text-xs">Per day</Label>
+                          <Input
+                            id="late-penalty-per-day"
+                            type="number"
+                            min={0}
+                            max={100}
+                            placeholder="None"
+                            value={newSubject.latePolicy.penaltyPerDay ?? ''}
+                            onChange={e => updateLatePolicy({ penaltyPerDay: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="late-penalty-max" className="text-xs">Cap</Label>
+                          <Input
+                            id="late-penalty-max"
+                            type="number"
+                            min={0}
+                            max={100}
+                            placeholder="No cap"
+                            value={newSubject.latePolicy.maxPenalty ?? ''}
+                            onChange={e => updateLatePolicy({ maxPenalty: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="late-grace-days" className="text-xs">Grace days</Label>
+                          <Input
+                            id="late-grace-days"
+                            type="number"
+                            min={0}
+                            max={365}
+                            placeholder="0"
+                            value={newSubject.latePolicy.graceDays || ''}
+                            onChange={e => updateLatePolicy({ graceDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                          />
+                        </div>
+                      </div>
+                    </div>
                   </>
                 )}
               </div>
@@ -1407,7 +1494,11 @@ function Subjects() {
                   setNewSubject({
                     name: '',
                     report_card_name: '',
-                    weights: getDefaultWeights()
+                    grading_scale_id: '',
+                    credits: '',
+                    weights: getDefaultWeights(),
+                    policies: {},
+                    latePolicy: {}
                   });
                   setSelectedGroups([]);
                 }}>
@@ -1884,6 +1975,13 @@ function Subjects() {
           </div>
         </DialogContent>
       </Dialog>
+      <ImportWizard
+        open={importKind !== null}
+        onOpenChange={(open) => !open && setImportKind(null)}
+        kind={importKind ?? 'subjects'}
+        title={importKind === 'lessons' ? 'Import Lessons' : 'Import Subjects'}
+        onImported={handleImported}
+      />
     </>
   );
 }
@@ -36,6 +36,7 @@ import { v4 as uuidv4 } from 'uuid'
 import { apiClient } from '@/lib/api'
 import { Student, Subject, Grade, GradingPeriod } from '@/lib/types'
 import TermRolloverAssistant from './TermRolloverAssistant'
+import GradingScalesSettings from './GradingScalesSettings'
 
 export default function SystemAdmin() {
   const [students, setStudents] = useState<Student[]>([])
@@ -1389,6 +1390,8 @@ export default function SystemAdmin() {
               )}
             </CardContent>
           </Card>
+
+          <GradingScalesSettings />
         </TabsContent>
 
         {!isSingleTeacherLicense && <TabsContent value="teachers" className="space-y-6">
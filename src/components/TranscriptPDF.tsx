@@ -0,0 +1,204 @@
+import { Document, Image, Page, Text, View, StyleSheet } from '@react-pdf/renderer'
+import { Transcript, ReportCardTemplate } from '@/lib/types'
+import { DEFAULT_REPORT_TEMPLATE } from '@shared/reportTemplate'
+
+// Branding and font come from the report card template; a transcript is always a portrait table
+const createStyles = (template: ReportCardTemplate) => {
+  const size = (points: number) => Math.round(points * template.fontSize / 11 * 10) / 10
+
+  return StyleSheet.create({
+    page: {
+      fontSize: size(10),
+      fontFamily: template.fontFamily,
+      padding: 35,
+      backgroundColor: '#ffffff',
+    },
+    header: {
+      marginBottom: 14,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingBottom: 10,
+      borderBottom: `2px solid ${template.branding.primaryColor}`,
+    },
+    headerText: {
+      flex: 1,
+      textAlign: 'center',
+    },
+    logo: {
+      width: 50,
+      height: 50,
+      objectFit: 'contain',
+      marginRight: 12,
+    },
+    schoolName: {
+      fontSize: size(20),
+      color: template.branding.primaryColor,
+      marginBottom: 4,
+    },
+    title: {
+      fontSize: size(14),
+      color: '#374151',
+    },
+    studentRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 14,
+    },
+    studentName: {
+      fontSize: size(16),
+      color: '#1f2937',
+    },
+    studentDetail: {
+      fontSize: size(10),
+      color: '#6b7280',
+    },
+    year: {
+      marginBottom: 12,
+    },
+    yearHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      padding: 6,
+      backgroundColor: '#f3f4f6',
+      borderBottom: `1px solid ${template.branding.accentColor}`,
+    },
+    yearTitle: {
+      fontSize: size(11),
+      color: '#1f2937',
+    },
+    yearSummary: {
+      fontSize: size(10),
+      color: '#374151',
+    },
+    row: {
+      flexDirection: 'row',
+      paddingVertical: 4,
+      paddingHorizontal: 6,
+      borderBottom: '1px solid #e5e7eb',
+    },
+    columnHeader: {
+      fontSize: size(9),
+      color: '#6b7280',
+    },
+    subjectCell: {
+      flex: 3,
+    },
+    numberCell: {
+      flex: 1,
+      textAlign: 'right',
+    },
+    empty: {
+      fontSize: size(10),
+      color: '#6b7280',
+      padding: 6,
+    },
+    totals: {
+      marginTop: 6,
+      padding: 10,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      border: `1px solid ${template.branding.primaryColor}`,
+      borderRadius: 4,
+    },
+    totalsText: {
+      fontSize: size(12),
+      color: '#1f2937',
+    },
+    footer: {
+      position: 'absolute',
+      bottom: 20,
+      left: 35,
+      right: 35,
+      fontSize: size(8),
+      color: '#9ca3af',
+      textAlign: 'center',
+    },
+  })
+}
+
+interface TranscriptPDFProps {
+  transcript: Transcript
+  schoolName?: string
+  template?: ReportCardTemplate
+}
+
+const formatGpa = (value: number | null) => value === null ? '--' : value.toFixed(2)
+
+const formatCredits = (value: number | null) => value === null ? '--' : String(Math.round(value * 100) / 100)
+
+// Academic transcript: one table of final grades per school year, with year and cumulative GPA
+const TranscriptPDF: React.FC<TranscriptPDFProps> = ({
+  transcript,
+  schoolName = '',
+  template = DEFAULT_REPORT_TEMPLATE,
+}) => {
+  const styles = createStyles(template)
+
+  return (
+    <Document>
+      <Page size={template.pageSize} style={styles.page}>
+        <View style={styles.header}>
+          {template.branding.logoDataUrl && <Image src={template.branding.logoDataUrl} style={styles.logo} />}
+          <View style={styles.headerText}>
+            {schoolName ? <Text style={styles.schoolName}>{schoolName}</Text> : null}
+            <Text style={styles.title}>Academic Transcript</Text>
+          </View>
+        </View>
+
+        <View style={styles.studentRow}>
+          <Text style={styles.studentName}>{transcript.student.name}</Text>
+          <View>
+            {transcript.student.sisId ? (
+              <Text style={styles.studentDetail}>Student ID: {transcript.student.sisId}</Text>
+            ) : null}
+            {transcript.student.birthday ? (
+              <Text style={styles.studentDetail}>Date of birth: {transcript.student.birthday}</Text>
+            ) : null}
+          </View>
+        </View>
+
+        {transcript.years.map(year => (
+          <View key={year.schoolYearId} style={styles.year} wrap={false}>
+            <View style={styles.yearHeader}>
+              <Text style={styles.yearTitle}>
+                {year.label}{year.gradeLevel ? ` · Grade ${year.gradeLevel}` : ''}
+              </Text>
+              <Text style={styles.yearSummary}>
+                GPA {formatGpa(year.gpa)} · Credits {formatCredits(year.credits)}
+              </Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.columnHeader, styles.subjectCell]}>Subject</Text>
+              <Text style={[styles.columnHeader, styles.numberCell]}>Average</Text>
+              <Text style={[styles.columnHeader, styles.numberCell]}>Grade</Text>
+              <Text style={[styles.columnHeader, styles.numberCell]}>GPA</Text>
+              <Text style={[styles.columnHeader, styles.numberCell]}>Credits</Text>
+            </View>
+            {year.subjects.length === 0 ? (
+              <Text style={styles.empty}>No final grades recorded.</Text>
+            ) : year.subjects.map(subject => (
+              <View key={subject.subjectId} style={styles.row}>
+                <Text style={styles.subjectCell}>{subject.subjectName}</Text>
+                <Text style={styles.numberCell}>{subject.average.toFixed(1)}%</Text>
+                <Text style={styles.numberCell}>{subject.letterGrade || '--'}</Text>
+                <Text style={styles.numberCell}>{formatGpa(subject.gpaPoints)}</Text>
+                <Text style={styles.numberCell}>{formatCredits(subject.credits)}</Text>
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <View style={styles.totals} wrap={false}>
+          <Text style={styles.totalsText}>Cumulative GPA: {formatGpa(transcript.cumulativeGpa)}</Text>
+          <Text style={styles.totalsText}>Total Credits: {formatCredits(transcript.totalCredits)}</Text>
+        </View>
+
+        <Text style={styles.footer} fixed>
+          GPA is weighted by subject credits. Subjects without credits count as one credit toward GPA.
+        </Text>
+      </Page>
+    </Document>
+  )
+}
+
+export default TranscriptPDF
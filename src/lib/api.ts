@@ -1,38 +1,78 @@
 import { useState, useEffect } from 'react';
-import { AttendanceRecord, Grade, RolloverScope, RolloverScopePreview, SchoolYear, User, UserSchoolYearLicense } from '@/lib/types'
+import { AttendanceRecord, AvailableGuardian, BulkGradeEntry, CommentBankEntry, BulkGradeResponse, Grade, GradeHistoryEntry, GradeRevertBatch, GradingScale, Guardian, GuardianInput, GradingScaleBand, PortalLink, PortalView, ReportBatchJob, ReportCard, ReportCardIssue, ReportCardTemplate, ReportEmailDocument, ReportEmailLogEntry, ReportEmailPreview, ReportEmailSendResult, RolloverScope, RolloverScopePreview, SchoolYear, StudentMissingWork, StudentYearRecord, Transcript, User, UserSchoolYearLicense } from '@/lib/types'
+import { QueuedMutation, QueuedMutationKind, enqueueMutation, getQueuedMutations, isOfflineQueueAvailable, markMutationConflict, removeMutation } from '@/lib/offlineQueue'
+import type { GradeStatus } from '@shared/gradeCalculation'
+import type { ImportKind, ImportResult } from '@shared/importMapping'
+import type { GradeImportLessonMatch, GradeImportPreview } from '@shared/gradeImport'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
 interface ApiResponse<T> {
   data?: T;
   error?: string;
+  status?: number;
+  offline?: boolean; // The server could not be reached at all
+  queued?: boolean; // Saved to the offline queue instead of the server
+}
+
+interface QueueItem {
+  key: string;
+  kind: QueuedMutationKind;
+  label: string;
+  body?: string;
+  // Replay target when it differs from the live request (e.g. one bulk call queued as single edits)
+  endpoint?: string;
+  method?: string;
+  // The record whose last-seen version is queued with the edit (see ApiClient.seenVersions)
+  record?: string;
+}
+
+export interface SyncResult {
+  conflicts: QueuedMutation[];
+  failed: QueuedMutation[];
+}
+
+class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
 }
 
 class ApiClient {
   private responseCache = new Map<string, { expiresAt: number; value: ApiResponse<any> }>()
   private inFlightRequests = new Map<string, Promise<ApiResponse<any>>>()
+  private pendingChangeCount = 0
+  private conflictCount = 0
+  private isSyncing = false
+  // updated_at of grades, lessons and attendance records as the server last returned them (null once deleted),
+  // keyed `grade:<studentId>:<lessonId>`, `lesson:<lessonId>` or `attendance:<studentId>:<date>`
+  private seenVersions = new Map<string, string | null>()
 
   async createLesson(subjectId: string, name: string, categoryId: string, maxPoints: number, orderIndex: number) {
-    return this.request(`/lessons/subject/${subjectId}`, {
-      method: 'POST',
-      body: JSON.stringify({ name, categoryId, maxPoints, orderIndex }),
-    });
+    const body = JSON.stringify({ name, categoryId, maxPoints, orderIndex });
+    return this.queueableRequest(`/lessons/subject/${subjectId}`, { method: 'POST', body }, [
+      { key: `lesson-create:${subjectId}:${Date.now()}`, kind: 'lesson', label: `New lesson "${name}"`, body },
+    ]);
   }
   
   async deleteLesson(lessonId: string) {
-    return this.request(`/lessons/${lessonId}`, {
-      method: 'DELETE',
-    });
+    const response = await this.queueableRequest(`/lessons/${lessonId}`, { method: 'DELETE' }, [
+      { key: `lesson:${lessonId}`, kind: 'lesson', label: 'Lesson deletion', record: `lesson:${lessonId}` },
+    ]);
+    if (!response.error && !response.queued) this.rememberVersion(`lesson:${lessonId}`, null);
+    return response;
   }
   
   async updateLesson(
     lessonId: string,
-    data: Partial<{ name: string; categoryId: string; points: number; orderIndex: number; date: string | null }>
+    data: Partial<{ name: string; categoryId: string; points: number; orderIndex: number; date: string | null; dueDate: string | null }>
   ) {
-    return this.request(`/lessons/${lessonId}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    });
+    const body = JSON.stringify(data);
+    const response = await this.queueableRequest(`/lessons/${lessonId}`, { method: 'PUT', body }, [
+      { key: `lesson:${lessonId}`, kind: 'lesson', label: 'Lesson update', body, record: `lesson:${lessonId}` },
+    ]);
+    this.rememberVersion(`lesson:${lessonId}`, response.data?.updated_at);
+    return response;
   }
 
   // Get all users with grade data usage (admin only)
@@ -53,6 +93,11 @@ class ApiClient {
   constructor(baseURL: string) {
     this.baseURL = baseURL;
     this.token = localStorage.getItem('auth_token');
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => { this.syncPendingChanges() });
+      this.refreshPendingChanges().then(() => this.syncPendingChanges());
+    }
   }
 
   private clearCache(prefix?: string) {
@@ -118,12 +163,187 @@ class ApiClient {
     this.token = token;
     localStorage.setItem('auth_token', token);
     this.clearCache()
+    this.refreshPendingChanges().then(() => this.syncPendingChanges())
   }
 
   clearToken() {
     this.token = null;
     localStorage.removeItem('auth_token');
     this.clearCache()
+    this.refreshPendingChanges()
+  }
+
+  // Queued edits belong to whoever made them; a different sign-in on the same browser must not replay them
+  private getQueueOwner(): string | null {
+    const token = this.getAuthToken();
+    if (!token) return null;
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      if (!payload.userId) return null;
+      return payload.teacherId ? `${payload.userId}:${payload.teacherId}` : String(payload.userId);
+    } catch {
+      return null;
+    }
+  }
+
+  getPendingChangeCount() {
+    return this.pendingChangeCount;
+  }
+
+  getSyncConflictCount() {
+    return this.conflictCount;
+  }
+
+  private rememberVersion(record: string, updatedAt: string | null | undefined) {
+    if (updatedAt !== undefined) this.seenVersions.set(record, updatedAt);
+  }
+
+  private async refreshPendingChanges() {
+    const owner = this.getQueueOwner();
+    let count = 0;
+    let conflicts = 0;
+    if (owner && isOfflineQueueAvailable()) {
+      try {
+        const mutations = await getQueuedMutations(owner);
+        conflicts = mutations.filter(mutation => mutation.conflict).length;
+        count = mutations.length - conflicts;
+      } catch (error) {
+        console.error('Failed to read offline queue:', error);
+      }
+    }
+    this.pendingChangeCount = count;
+    this.conflictCount = conflicts;
+    window.dispatchEvent(new CustomEvent('gradeflow-pending-changes', { detail: { count, conflicts } }));
+  }
+
+  // Edits go to the offline queue when the server is unreachable, and also while older edits are still
+  // queued so that a replay can never overwrite a newer change to the same record
+  private async queueableRequest<T = any>(endpoint: string, options: RequestInit, queueItems: QueueItem[]): Promise<ApiResponse<T>> {
+    const owner = this.getQueueOwner();
+    const canQueue = Boolean(owner) && isOfflineQueueAvailable();
+
+    if (canQueue && (!navigator.onLine || this.pendingChangeCount > 0)) {
+      const queued = await this.enqueue(owner!, endpoint, options.method || 'GET', queueItems);
+      if (navigator.onLine) this.syncPendingChanges();
+      return queued;
+    }
+
+    const response = await this.request<T>(endpoint, options);
+    if (response.offline && canQueue) {
+      return this.enqueue(owner!, endpoint, options.method || 'GET', queueItems);
+    }
+    return response;
+  }
+
+  private async enqueue(owner: string, endpoint: string, method: string, queueItems: QueueItem[]): Promise<ApiResponse<any>> {
+    const queuedAt = new Date().toISOString();
+    try {
+      for (const item of queueItems) {
+        await enqueueMutation({
+          ...item,
+          owner,
+          endpoint: item.endpoint || endpoint,
+          method: item.method || method,
+          queuedAt,
+          baseUpdatedAt: item.record ? this.seenVersions.get(item.record) : undefined,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to queue offline change:', error);
+      return { error: 'Could not save the change offline', offline: true };
+    }
+    await this.refreshPendingChanges();
+    return { queued: true };
+  }
+
+  // Replays one queued edit; with a base version the server rejects it (409) if the record changed since
+  private async replayMutation(mutation: QueuedMutation, baseUpdatedAt: string | null | undefined) {
+    const response = await this.request(mutation.endpoint, {
+      method: mutation.method,
+      body: mutation.body,
+      headers: baseUpdatedAt === undefined ? {} : { 'X-Base-Updated-At': baseUpdatedAt ?? 'none' },
+    });
+    if (!response.error && mutation.record) {
+      const saved = response.data?.records?.[0] ?? response.data;
+      this.rememberVersion(mutation.record, mutation.method === 'DELETE' ? null : saved?.updated_at);
+    }
+    return response;
+  }
+
+  /**
+   * Replays queued edits in the order they were made. Stops at the first edit the server can't take yet
+   * (still offline, signed out, or a server error) and tries again on the next sync. Edits to records that
+   * changed on the server since (409) stay queued as conflicts until resolveSyncConflict; invalid edits are
+   * dropped. Both are reported through `gradeflow-sync-conflicts`.
+   */
+  async syncPendingChanges(): Promise<SyncResult | null> {
+    const owner = this.getQueueOwner();
+    if (!owner || !isOfflineQueueAvailable() || this.isSyncing || !navigator.onLine) return null;
+
+    this.isSyncing = true;
+    const result: SyncResult = { conflicts: [], failed: [] };
+    // Versions written by earlier replays in this run; later edits to the same record build on them
+    const replayedVersions = new Map<string, string | null>();
+    let applied = 0;
+
+    try {
+      for (const mutation of await getQueuedMutations(owner)) {
+        if (mutation.conflict) continue;
+
+        const baseUpdatedAt = mutation.record && replayedVersions.has(mutation.record)
+          ? replayedVersions.get(mutation.record)
+          : mutation.baseUpdatedAt;
+        const response = await this.replayMutation(mutation, baseUpdatedAt);
+
+        if (response.offline || response.status === 401 || (response.status && response.status >= 500)) break;
+
+        if (response.status === 409) {
+          result.conflicts.push(mutation);
+          await markMutationConflict(mutation);
+          continue;
+        }
+        if (response.error) {
+          result.failed.push(mutation);
+        } else {
+          applied += 1;
+          if (mutation.record) replayedVersions.set(mutation.record, this.seenVersions.get(mutation.record) ?? null);
+        }
+        await removeMutation(mutation.id!);
+      }
+    } catch (error) {
+      console.error('Failed to replay offline changes:', error);
+    } finally {
+      this.isSyncing = false;
+    }
+
+    if (applied > 0 || result.conflicts.length > 0 || result.failed.length > 0) {
+      this.clearCache();
+      window.dispatchEvent(new CustomEvent('gradeflow-offline-synced', { detail: { applied } }));
+    }
+    if (result.conflicts.length > 0 || result.failed.length > 0) {
+      window.dispatchEvent(new CustomEvent('gradeflow-sync-conflicts', { detail: result }));
+    }
+    await this.refreshPendingChanges();
+    return result;
+  }
+
+  async getSyncConflicts(): Promise<QueuedMutation[]> {
+    const owner = this.getQueueOwner();
+    if (!owner || !isOfflineQueueAvailable()) return [];
+    return (await getQueuedMutations(owner)).filter(mutation => mutation.conflict);
+  }
+
+  // 'keep' applies the offline edit over the newer server data, 'discard' drops it
+  async resolveSyncConflict(mutation: QueuedMutation, resolution: 'keep' | 'discard'): Promise<ApiResponse<any>> {
+    if (resolution === 'keep') {
+      const response = await this.replayMutation(mutation, undefined);
+      if (response.error) return response;
+    }
+    await removeMutation(mutation.id!);
+    this.clearCache();
+    window.dispatchEvent(new CustomEvent('gradeflow-offline-synced', { detail: { applied: resolution === 'keep' ? 1 : 0 } }));
+    await this.refreshPendingChanges();
+    return {};
   }
 
   private async request<T = any>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
@@ -135,7 +355,8 @@ class ApiClient {
       ...(options.headers as Record<string, string>),
     };
 
-    if (token) {
+    // Portal requests bring their own link token
+    if (token && !headers.Authorization) {
       headers.Authorization = `Bearer ${token}`;
     }
 
@@ -151,7 +372,7 @@ class ApiClient {
           // Clear invalid token
           this.clearToken();
         }
-        throw new Error(errorData.error || `HTTP ${response.status}`);
+        throw new HttpError(errorData.error || `HTTP ${response.status}`, response.status);
       }
 
       // Handle 204 No Content responses
@@ -163,7 +384,12 @@ class ApiClient {
       return { data };
     } catch (error) {
       console.error('API request failed:', error);
-      return { error: error instanceof Error ? error.message : 'Unknown error' };
+      return {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status: error instanceof HttpError ? error.status : undefined,
+        // fetch only rejects with a TypeError when the request never reached the server
+        offline: error instanceof TypeError,
+      };
     }
   }
 
@@ -463,20 +689,79 @@ class ApiClient {
     });
   }
 
-  async bulkImportStudents(data: { students: Array<{ name: string; birthday?: string; group?: string }> }) {
-    return this.request('/students/bulk-import', {
+  // Two-phase spreadsheet import of students, subjects or lessons; a dry run only reports what each row would do
+  async bulkImport(kind: ImportKind, data: { rows: Array<{ row: number; values: Record<string, string> }>; dryRun: boolean; updateExisting: boolean }) {
+    const response = await this.request<ImportResult>(`/${kind}/bulk-import`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
+    if (!data.dryRun) {
+      this.clearCache(`/${kind}`)
+      if (kind === 'lessons') this.clearCache('/subjects')
+    }
+    return response
+  }
+
+  async getStudentHistory(studentId: string) {
+    return this.request<StudentYearRecord[]>(`/students/${studentId}/history`);
+  }
+
+  async getStudentGuardians(studentId: string) {
+    return this.request<Guardian[]>(`/students/${studentId}/guardians`);
+  }
+
+  async getAvailableGuardians(studentId: string) {
+    return this.request<AvailableGuardian[]>(`/students/${studentId}/guardians/available`);
   }
 
-  async bulkImportSubjects(data: { subjects: Array<{ name: string; group?: string; reportCardName?: string }> }) {
-    const response = await this.request('/subjects/bulk-import', {
+  async createGuardian(studentId: string, guardian: GuardianInput) {
+    return this.request<Guardian>(`/students/${studentId}/guardians`, {
+      method: 'POST',
+      body: JSON.stringify(guardian),
+    });
+  }
+
+  async linkGuardian(studentId: string, guardianId: string, isPrimary = false) {
+    return this.request<Guardian>(`/students/${studentId}/guardians/link`, {
+      method: 'POST',
+      body: JSON.stringify({ guardianId, isPrimary }),
+    });
+  }
+
+  async updateGuardian(studentId: string, guardianId: string, guardian: GuardianInput) {
+    return this.request<Guardian>(`/students/${studentId}/guardians/${guardianId}`, {
+      method: 'PUT',
+      body: JSON.stringify(guardian),
+    });
+  }
+
+  async removeGuardian(studentId: string, guardianId: string) {
+    return this.request(`/students/${studentId}/guardians/${guardianId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPortalLinks(studentId: string) {
+    return this.request<PortalLink[]>(`/students/${studentId}/portal-links`);
+  }
+
+  async createPortalLink(studentId: string, data: { label?: string | null; expiresInDays: number }) {
+    return this.request<PortalLink>(`/students/${studentId}/portal-links`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
-    this.clearCache('/subjects')
-    return response
+  }
+
+  async revokePortalLink(studentId: string, linkId: string) {
+    return this.request<PortalLink>(`/students/${studentId}/portal-links/${linkId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPortalView(portalToken: string) {
+    return this.request<PortalView>('/portal', {
+      headers: { Authorization: `Bearer ${portalToken}` },
+    });
   }
 
   // Update subjects for a student
@@ -551,6 +836,37 @@ class ApiClient {
     return this.request(`/grade-category-types/${id}/usage`);
   }
 
+  // Grading Scales
+  async getGradingScales() {
+    return this.cachedRequest<GradingScale[]>('/grading-scales');
+  }
+
+  async createGradingScale(data: { name: string; isDefault?: boolean; bands: GradingScaleBand[] }) {
+    const response = await this.request<GradingScale>('/grading-scales', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    this.clearCache('/grading-scales')
+    return response
+  }
+
+  async updateGradingScale(id: string, data: { name: string; isDefault?: boolean; bands: GradingScaleBand[] }) {
+    const response = await this.request<GradingScale>(`/grading-scales/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    this.clearCache('/grading-scales')
+    return response
+  }
+
+  async deleteGradingScale(id: string) {
+    const response = await this.request(`/grading-scales/${id}`, {
+      method: 'DELETE',
+    });
+    this.clearCache('/grading-scales')
+    return response
+  }
+
   // Subjects
   async getSubjects(groupId?: string, schoolYearId?: string) {
     const params = groupId ? `?groupId=${groupId}` : '';
@@ -603,7 +919,11 @@ class ApiClient {
   }
 
   async getLessonsForSubject(subjectId: string, schoolYearId?: string) {
-    return this.request(this.withSchoolYear(`/lessons/subject/${subjectId}`, schoolYearId));
+    const response = await this.request(this.withSchoolYear(`/lessons/subject/${subjectId}`, schoolYearId));
+    if (Array.isArray(response.data)) {
+      response.data.forEach((lesson: { id: string; updated_at?: string }) => this.rememberVersion(`lesson:${lesson.id}`, lesson.updated_at));
+    }
+    return response;
   }
 
   // Grading Periods (date-based reporting)
@@ -651,18 +971,57 @@ class ApiClient {
   }
 
   async setGrade(studentId: string, lessonId: string, gradeData: any) {
-    const result = await this.request(`/grades/student/${studentId}/lesson/${lessonId}`, {
-      method: 'PUT',
-      body: JSON.stringify(gradeData),
-    });
+    const body = JSON.stringify(gradeData);
+    const result = await this.queueableRequest(`/grades/student/${studentId}/lesson/${lessonId}`, { method: 'PUT', body }, [
+      { key: `grade:${studentId}:${lessonId}`, kind: 'grade', label: 'Grade', body, record: `grade:${studentId}:${lessonId}` },
+    ]);
+    this.rememberVersion(`grade:${studentId}:${lessonId}`, result.data?.updated_at);
     return result;
   }
 
-  async updateLessonPoints(subjectId: string, lessonId: string, points: number) {
-    return this.request(`/grades/subject/${subjectId}/lessons/points`, {
-      method: 'PATCH',
-      body: JSON.stringify({ lessonId, points }),
+  // Changes only the status, teacher note and/or hand-in date of a grade; missing, excused and incomplete work needs no score
+  async setGradeStatus(
+    studentId: string,
+    lessonId: string,
+    data: { status?: GradeStatus; notes?: string | null; submittedAt?: string | null; reason?: string }
+  ) {
+    const body = JSON.stringify(data);
+    const response = await this.queueableRequest<Record<string, any>>(`/grades/student/${studentId}/lesson/${lessonId}`, { method: 'PATCH', body }, [
+      { key: `grade-status:${studentId}:${lessonId}`, kind: 'grade', label: 'Grade status', body, record: `grade:${studentId}:${lessonId}` },
+    ]);
+    this.rememberVersion(`grade:${studentId}:${lessonId}`, response.data?.updated_at);
+    return response;
+  }
+
+  async getGradeHistory(studentId: string, lessonId: string) {
+    return this.request<GradeHistoryEntry[]>(`/grades/student/${studentId}/lesson/${lessonId}/history`);
+  }
+
+  // Saves many grades in one transaction; the response has a result per entry in request order
+  async bulkSetGrades(grades: BulkGradeEntry[], reason?: string) {
+    const response = await this.queueableRequest<BulkGradeResponse>('/grades/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ grades, reason }),
+    }, grades.map(({ studentId, lessonId, ...gradeData }) => ({
+      key: `grade:${studentId}:${lessonId}`,
+      kind: 'grade' as const,
+      label: 'Grade',
+      endpoint: `/grades/student/${studentId}/lesson/${lessonId}`,
+      method: 'PUT',
+      body: JSON.stringify({ ...gradeData, reason }),
+      record: `grade:${studentId}:${lessonId}`,
+    })));
+    response.data?.results.forEach(result => {
+      this.rememberVersion(`grade:${result.studentId}:${result.lessonId}`, result.grade?.updated_at);
     });
+    return response;
+  }
+
+  async updateLessonPoints(subjectId: string, lessonId: string, points: number, reason?: string) {
+    const body = JSON.stringify({ lessonId, points, reason });
+    return this.queueableRequest(`/grades/subject/${subjectId}/lessons/points`, { method: 'PATCH', body }, [
+      { key: `lesson-points:${lessonId}`, kind: 'lesson', label: 'Lesson points', body },
+    ]);
   }
 
   // Reports
@@ -670,6 +1029,164 @@ class ApiClient {
     return this.request('/reports/dashboard');
   }
 
+  async getMissingWork() {
+    return this.request<StudentMissingWork[]>('/reports/missing-work');
+  }
+
+  async startReportBatch(options: { groupId?: string | null; gradingPeriodId?: string | null; format: 'zip' | 'merged' }) {
+    return this.request<ReportBatchJob>('/reports/batch', {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  async getReportBatch(jobId: string) {
+    return this.request<ReportBatchJob>(`/reports/batch/${jobId}`);
+  }
+
+  async downloadReportBatch(jobId: string) {
+    const token = this.getAuthToken();
+    const response = await fetch(`${this.baseURL}/reports/batch/${jobId}/download`, {
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Comment bank and saved report card comments
+  async getCommentBank() {
+    return this.request<CommentBankEntry[]>('/comments/bank');
+  }
+
+  async createCommentBankEntry(entry: Pick<CommentBankEntry, 'tone' | 'subjectName' | 'text'>) {
+    return this.request<CommentBankEntry>('/comments/bank', {
+      method: 'POST',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async updateCommentBankEntry(id: string, entry: Pick<CommentBankEntry, 'tone' | 'subjectName' | 'text'>) {
+    return this.request<CommentBankEntry>(`/comments/bank/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async deleteCommentBankEntry(id: string) {
+    return this.request(`/comments/bank/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getStudentReportComments(periodKey: string) {
+    return this.request<{ studentId: string; comment: string; updatedAt: string }[]>(
+      `/comments/students?periodKey=${encodeURIComponent(periodKey)}`
+    );
+  }
+
+  async saveStudentReportComment(studentId: string, periodKey: string, comment: string) {
+    return this.request<{ studentId: string; comment: string; updatedAt: string | null }>(`/comments/students/${studentId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ periodKey, comment }),
+    });
+  }
+
+  async issueReportCard(issue: { studentId: string; periodKey: string; periodLabel?: string | null; reportCard: ReportCard; pdfBase64: string; reason?: string | null }) {
+    return this.request<ReportCardIssue>('/reports/issues', {
+      method: 'POST',
+      body: JSON.stringify(issue),
+    });
+  }
+
+  async getReportCardIssues(studentId: string) {
+    return this.request<ReportCardIssue[]>(`/reports/issues?studentId=${encodeURIComponent(studentId)}`);
+  }
+
+  async getReportCardIssue(issueId: string) {
+    return this.request<ReportCardIssue>(`/reports/issues/${issueId}`);
+  }
+
+  async downloadReportCardIssuePdf(issueId: string) {
+    const token = this.getAuthToken();
+    const response = await fetch(`${this.baseURL}/reports/issues/${issueId}/pdf`, {
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Gradebook spreadsheet of one subject, one group's subjects, or every subject of the year
+  async downloadGradebookExport(options: { format: 'csv' | 'xlsx'; subjectId?: string; groupId?: string }) {
+    const params = new URLSearchParams({ format: options.format });
+    if (options.subjectId) params.set('subjectId', options.subjectId);
+    if (options.groupId) params.set('groupId', options.groupId);
+
+    const token = this.getAuthToken();
+    const response = await fetch(`${this.baseURL}/export/gradebook?${params.toString()}`, {
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  async previewReportEmails(data: {
+    studentIds: string[];
+    document: ReportEmailDocument;
+    periodLabel?: string | null;
+    subject: string;
+    body: string;
+  }) {
+    return this.request<ReportEmailPreview>('/report-emails/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async sendReportEmail(data: {
+    studentId: string;
+    document: ReportEmailDocument;
+    periodLabel?: string | null;
+    subject: string;
+    body: string;
+    fileName: string;
+    pdfBase64: string;
+  }) {
+    return this.request<ReportEmailSendResult>('/report-emails/send', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getReportEmailLog(studentId?: string) {
+    const query = studentId ? `?studentId=${encodeURIComponent(studentId)}` : '';
+    return this.request<ReportEmailLogEntry[]>(`/report-emails/log${query}`);
+  }
+
+  async getTranscript(studentId: string) {
+    return this.request<Transcript>(`/reports/transcript/${studentId}`);
+  }
+
   async getStudentReport(studentId: string) {
     return this.request(`/reports/student/${studentId}`);
   }
@@ -687,15 +1204,54 @@ class ApiClient {
   }
 
   // Add deleteGrade method to apiClient
-  async deleteGrade(studentId: string, lessonId: string) {
-    return this.request(`/grades/student/${studentId}/lesson/${lessonId}`, {
-      method: 'DELETE',
-    })
+  async deleteGrade(studentId: string, lessonId: string, reason?: string) {
+    const body = reason ? JSON.stringify({ reason }) : undefined
+    const response = await this.queueableRequest(`/grades/student/${studentId}/lesson/${lessonId}`, { method: 'DELETE', body }, [
+      { key: `grade:${studentId}:${lessonId}`, kind: 'grade', label: 'Grade deletion', body, record: `grade:${studentId}:${lessonId}` },
+    ])
+    if (!response.error && !response.queued) this.rememberVersion(`grade:${studentId}:${lessonId}`, null)
+    return response
   }
 
   // Add getGrades method to apiClient
+  // Applies an undo/redo step atomically on the server
+  async revertGradeChanges(batch: GradeRevertBatch) {
+    const response = await this.request<{ lessonsRestored: number; lessonsRemoved: number; gradesReverted: number }>('/grades/revert', {
+      method: 'POST',
+      body: JSON.stringify(batch),
+    })
+    this.clearCache('/grades')
+    this.clearCache('/lessons')
+    return response
+  }
+
+  // Plans (dryRun) or saves a spreadsheet of grades for one subject
+  async importGrades(subjectId: string, data: {
+    csv: string;
+    lessonMatch: GradeImportLessonMatch;
+    createMissingLessons: boolean;
+    categoryId: string | null;
+    overwrite: boolean;
+    studentMatches: Record<string, string | null>;
+    dryRun: boolean;
+  }) {
+    const response = await this.request<GradeImportPreview>(`/grades/import/subject/${subjectId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+    if (!data.dryRun) {
+      this.clearCache('/grades')
+      this.clearCache('/lessons')
+    }
+    return response
+  }
+
   async getGrades(schoolYearId?: string) {
-    return this.request(this.withSchoolYear('/grades', schoolYearId), { method: 'GET' });
+    const response = await this.request(this.withSchoolYear('/grades', schoolYearId), { method: 'GET' });
+    if (Array.isArray(response.data)) {
+      response.data.forEach((grade: Grade) => this.rememberVersion(`grade:${grade.studentId}:${grade.lessonId}`, grade.updated_at));
+    }
+    return response;
   }
 
   // Attendance
@@ -705,14 +1261,28 @@ class ApiClient {
     if (params?.startDate) search.set('startDate', params.startDate)
     if (params?.endDate) search.set('endDate', params.endDate)
     const qs = search.toString()
-    return this.request<AttendanceRecord[]>(`/attendance${qs ? `?${qs}` : ''}`)
+    const response = await this.request<AttendanceRecord[]>(`/attendance${qs ? `?${qs}` : ''}`)
+    // Only a single-day request tells which day each record is for without parsing the returned date
+    if (params?.date && Array.isArray(response.data)) {
+      response.data.forEach(record => this.rememberVersion(`attendance:${record.studentId}:${params.date}`, record.updated_at))
+    }
+    return response
   }
 
   async upsertAttendance(records: Array<Pick<AttendanceRecord, 'studentId' | 'date' | 'status' | 'notes'>>) {
-    return this.request<{ success: boolean; count: number }>(`/attendance/bulk`, {
+    // Queued one record per entry so a later edit to the same day replaces just that student's status
+    const response = await this.queueableRequest<{ success: boolean; count: number; records: Array<{ studentId: string; date: string; updated_at: string }> }>(`/attendance/bulk`, {
       method: 'POST',
       body: JSON.stringify({ records })
-    })
+    }, records.map(record => ({
+      key: `attendance:${record.studentId}:${record.date}`,
+      kind: 'attendance' as const,
+      label: `Attendance ${record.date}`,
+      body: JSON.stringify({ records: [record] }),
+      record: `attendance:${record.studentId}:${record.date}`,
+    })))
+    response.data?.records?.forEach(saved => this.rememberVersion(`attendance:${saved.studentId}:${saved.date}`, saved.updated_at))
+    return response
   }
 
   async getStudentAttendance(studentId: string, limit = 50) {
@@ -906,6 +1476,18 @@ class ApiClient {
     });
   }
 
+  async getReportTemplate() {
+    return this.request<{ template: ReportCardTemplate }>('/metadata/report-template');
+  }
+
+  // null restores the built-in layout
+  async updateReportTemplate(template: ReportCardTemplate | null) {
+    return this.request<{ template: ReportCardTemplate }>('/metadata/report-template', {
+      method: 'PUT',
+      body: JSON.stringify({ template }),
+    });
+  }
+
   async getDataStats() {
     return this.request<{
       totalUsers: number;
@@ -0,0 +1,31 @@
+// Labels, colours and keyboard shortcuts for the status a grade can carry besides its score
+import type { GradeStatus } from '@shared/gradeCalculation'
+
+export const GRADE_STATUS_LABELS: Record<GradeStatus, string> = {
+  graded: 'Graded',
+  missing: 'Missing',
+  excused: 'Excused',
+  late: 'Late',
+  incomplete: 'Incomplete'
+}
+
+export const GRADE_STATUS_BADGE_CLASSES: Record<GradeStatus, string> = {
+  graded: 'bg-green-100 text-green-800 border-green-200',
+  missing: 'bg-red-100 text-red-800 border-red-200',
+  excused: 'bg-gray-100 text-gray-700 border-gray-200',
+  late: 'bg-amber-100 text-amber-800 border-amber-200',
+  incomplete: 'bg-purple-100 text-purple-800 border-purple-200'
+}
+
+// Alt + letter marks the focused cell; matched on KeyboardEvent.code so layouts that remap Alt+letter still work
+export const GRADE_STATUS_SHORTCUTS: Record<string, GradeStatus> = {
+  KeyG: 'graded',
+  KeyM: 'missing',
+  KeyE: 'excused',
+  KeyL: 'late',
+  KeyI: 'incomplete'
+}
+
+// Statuses that stand in for a score; the other two need one
+export const isUnscoredStatus = (status?: GradeStatus | null) =>
+  status === 'missing' || status === 'excused' || status === 'incomplete'
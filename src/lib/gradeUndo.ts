@@ -0,0 +1,83 @@
+import { Grade, GradeRevertBatch, GradeSnapshot, Lesson, LessonSnapshot } from '@/lib/types'
+import type { GradeStatus } from '@shared/gradeCalculation'
+
+// Session-only undo/redo history for grade entry. Each entry holds the batch that takes the change back
+// and the batch that applies it again; both go through POST /grades/revert.
+
+export interface UndoEntry {
+  label: string
+  // Consecutive entries with the same key (grade edits in one lesson) collapse into one step
+  mergeKey?: string
+  undo: GradeRevertBatch
+  redo: GradeRevertBatch
+}
+
+export interface UndoHistory {
+  undo: UndoEntry[]
+  redo: UndoEntry[]
+}
+
+const MAX_UNDO_ENTRIES = 100
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { undo: [], redo: [] }
+
+type StoredGradeValues = { percentage?: unknown; errors?: unknown; points?: unknown; maxPoints?: unknown; status?: GradeStatus; notes?: string | null; submittedAt?: string | null; submitted_at?: string | null }
+
+export const gradeToSnapshot = (grade?: Grade | StoredGradeValues | null): GradeSnapshot | null => {
+  if (!grade) return null
+  const toNumber = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value)
+  return {
+    percentage: toNumber(grade.percentage),
+    errors: toNumber(grade.errors),
+    // Loaded grades keep the lesson total in maxPoints, saved grades return it as points
+    points: toNumber(grade.maxPoints ?? grade.points),
+    status: grade.status || 'graded',
+    notes: grade.notes ?? null,
+    // Saved grades come back as database rows
+    submittedAt: (grade.submittedAt ?? ('submitted_at' in grade ? grade.submitted_at : null)) || null
+  }
+}
+
+export const isSameGradeSnapshot = (a: GradeSnapshot | null, b: GradeSnapshot | null) =>
+  a === b || (!!a && !!b && a.percentage === b.percentage && a.errors === b.errors && a.points === b.points &&
+    (a.status || 'graded') === (b.status || 'graded') && (a.notes ?? null) === (b.notes ?? null) &&
+    (a.submittedAt ?? null) === (b.submittedAt ?? null))
+
+export const lessonToSnapshot = (lesson: Lesson, subjectId: string, orderIndex: number): LessonSnapshot => ({
+  id: lesson.id,
+  subjectId,
+  name: lesson.name,
+  categoryId: lesson.categoryId || lesson.category_id || null,
+  points: Number(lesson.points || lesson.maxPoints || 1),
+  orderIndex,
+  date: lesson.date ? lesson.date.slice(0, 10) : null,
+  dueDate: (lesson.dueDate || lesson.due_date || '').slice(0, 10) || null
+})
+
+export const countGradeChanges = (entry: UndoEntry) => entry.redo.grades?.length || 0
+
+// Keeps the oldest "before" and the newest "after" value per cell
+const mergeEntries = (previous: UndoEntry, next: UndoEntry): UndoEntry => {
+  const cellKey = (cell: { studentId: string; lessonId: string }) => `${cell.studentId}:${cell.lessonId}`
+  const undoCells = new Map((previous.undo.grades || []).map(cell => [cellKey(cell), cell]))
+  ;(next.undo.grades || []).forEach(cell => {
+    if (!undoCells.has(cellKey(cell))) undoCells.set(cellKey(cell), cell)
+  })
+  const redoCells = new Map((previous.redo.grades || []).map(cell => [cellKey(cell), cell]))
+  ;(next.redo.grades || []).forEach(cell => redoCells.set(cellKey(cell), cell))
+
+  return {
+    ...previous,
+    undo: { ...previous.undo, grades: Array.from(undoCells.values()) },
+    redo: { ...previous.redo, grades: Array.from(redoCells.values()) }
+  }
+}
+
+// Adds a new change to the history; any redo steps are discarded as in every editor
+export const pushUndoEntry = (history: UndoHistory, entry: UndoEntry): UndoHistory => {
+  const top = history.undo[history.undo.length - 1]
+  const undo = top && entry.mergeKey && top.mergeKey === entry.mergeKey
+    ? [...history.undo.slice(0, -1), mergeEntries(top, entry)]
+    : [...history.undo, entry]
+  return { undo: undo.slice(-MAX_UNDO_ENTRIES), redo: [] }
+}
@@ -0,0 +1,76 @@
+// Helpers for mapping percentages to the bands of a configurable grading scale
+import { GradingScale, GradingScaleBand } from '@/lib/types'
+
+// Fallback used until the user's scales have loaded; mirrors the backend's seeded standard scale
+export const STANDARD_GRADING_SCALE_BANDS: GradingScaleBand[] = [
+  { minPercent: 97, label: 'A+', gpaPoints: 4.0, color: '#059669' },
+  { minPercent: 93, label: 'A', gpaPoints: 4.0, color: '#059669' },
+  { minPercent: 90, label: 'A-', gpaPoints: 3.7, color: '#059669' },
+  { minPercent: 87, label: 'B+', gpaPoints: 3.3, color: '#0d9488' },
+  { minPercent: 83, label: 'B', gpaPoints: 3.0, color: '#0d9488' },
+  { minPercent: 80, label: 'B-', gpaPoints: 2.7, color: '#0d9488' },
+  { minPercent: 77, label: 'C+', gpaPoints: 2.3, color: '#ca8a04' },
+  { minPercent: 73, label: 'C', gpaPoints: 2.0, color: '#ca8a04' },
+  { minPercent: 70, label: 'C-', gpaPoints: 1.7, color: '#ca8a04' },
+  { minPercent: 67, label: 'D+', gpaPoints: 1.3, color: '#dc2626' },
+  { minPercent: 63, label: 'D', gpaPoints: 1.0, color: '#dc2626' },
+  { minPercent: 60, label: 'D-', gpaPoints: 0.7, color: '#dc2626' },
+  { minPercent: 0, label: 'F', gpaPoints: 0.0, color: '#dc2626' }
+]
+
+const sortBands = (bands: GradingScaleBand[]) =>
+  [...bands].sort((a, b) => Number(b.minPercent) - Number(a.minPercent))
+
+export const getDefaultGradingScale = (scales: GradingScale[]): GradingScale | null =>
+  scales.find(scale => scale.isDefault) || scales[0] || null
+
+// A subject's own scale wins; otherwise the user's default; otherwise the built-in standard bands
+export const resolveGradingScaleBands = (scales: GradingScale[], subjectScaleId?: string | null): GradingScaleBand[] => {
+  const subjectScale = subjectScaleId ? scales.find(scale => scale.id === subjectScaleId) : null
+  const scale = subjectScale || getDefaultGradingScale(scales)
+  return scale && scale.bands.length > 0 ? scale.bands : STANDARD_GRADING_SCALE_BANDS
+}
+
+export const getBandForPercentage = (
+  percentage: number,
+  bands: GradingScaleBand[] = STANDARD_GRADING_SCALE_BANDS
+): GradingScaleBand | null => {
+  if (typeof percentage !== 'number' || isNaN(percentage)) return null
+  const sorted = sortBands(bands)
+  return sorted.find(band => percentage >= Number(band.minPercent)) || sorted[sorted.length - 1] || null
+}
+
+export const getBandLabel = (percentage: number, bands: GradingScaleBand[] = STANDARD_GRADING_SCALE_BANDS): string =>
+  getBandForPercentage(percentage, bands)?.label ?? 'N/A'
+
+export const getBandGpaPoints = (percentage: number, bands: GradingScaleBand[] = STANDARD_GRADING_SCALE_BANDS): number =>
+  Number(getBandForPercentage(percentage, bands)?.gpaPoints ?? 0)
+
+// Percentage recorded when a teacher types a band label (e.g. "B+") instead of a number.
+// Uses the middle of the band; the open-ended bottom band sits 10 points under the next cutoff.
+export const getPercentageForBandLabel = (
+  value: string,
+  bands: GradingScaleBand[] = STANDARD_GRADING_SCALE_BANDS
+): number | null => {
+  const sorted = sortBands(bands)
+  const index = sorted.findIndex(band => band.label.toUpperCase() === value.toUpperCase().trim())
+  if (index === -1) return null
+
+  const lower = Number(sorted[index].minPercent)
+  const upper = index === 0 ? 100 : Number(sorted[index - 1].minPercent)
+  if (index === sorted.length - 1 && index > 0) {
+    return Math.max(lower, upper - 10)
+  }
+  return (lower + upper) / 2
+}
+
+// Range text for legends, e.g. "90-92%" or "Below 60%"
+export const getBandRangeLabel = (bands: GradingScaleBand[], band: GradingScaleBand): string => {
+  const sorted = sortBands(bands)
+  const index = sorted.findIndex(candidate => candidate === band || (candidate.label === band.label && candidate.minPercent === band.minPercent))
+  const lower = Number(band.minPercent)
+  if (index <= 0) return `${lower}-100%`
+  const upper = Number(sorted[index - 1].minPercent) - 1
+  if (index === sorted.length - 1 && lower === 0) return `Below ${upper + 1}%`
+  return `${lower}-${upper}%`
+}
@@ -0,0 +1,99 @@
+// IndexedDB-backed queue of edits made while the API was unreachable.
+// The ApiClient enqueues here and replays the queue in order once the connection returns.
+
+export type QueuedMutationKind = 'grade' | 'attendance' | 'lesson'
+
+export interface QueuedMutation {
+  id?: number
+  // Edits with the same key target the same record; a newer edit replaces the queued one
+  key: string
+  kind: QueuedMutationKind
+  label: string
+  owner: string
+  endpoint: string
+  method: string
+  body?: string
+  queuedAt: string
+  // The grade, lesson or attendance record the edit targets, and its updated_at as the client last saw it
+  // (null: the client saw no record). Sent on replay so the server can tell whether the record changed since.
+  record?: string
+  baseUpdatedAt?: string | null
+  // Set when the server rejected the replay because the record changed; kept until the user resolves it
+  conflict?: boolean
+}
+
+const DB_NAME = 'gradeflow-offline'
+const DB_VERSION = 1
+const STORE_NAME = 'mutations'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+        store.createIndex('key', 'key', { unique: false })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = work(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const isOfflineQueueAvailable = () => typeof indexedDB !== 'undefined'
+
+export const enqueueMutation = async (mutation: Omit<QueuedMutation, 'id'>) => {
+  let baseUpdatedAt = mutation.baseUpdatedAt
+  await runTransaction('readwrite', store => {
+    const lookup = store.index('key').openCursor(IDBKeyRange.only(mutation.key))
+    lookup.onsuccess = () => {
+      const cursor = lookup.result
+      if (cursor) {
+        const existing = cursor.value as QueuedMutation
+        if (existing.owner === mutation.owner) {
+          // Without a version of its own, the new edit keeps the one the replaced edit was based on
+          if (baseUpdatedAt === undefined) baseUpdatedAt = existing.baseUpdatedAt
+          cursor.delete()
+        }
+        cursor.continue()
+        return
+      }
+      store.add({ ...mutation, baseUpdatedAt })
+    }
+  })
+}
+
+export const getQueuedMutations = async (owner: string): Promise<QueuedMutation[]> => {
+  const all = await runTransaction<QueuedMutation[]>('readonly', store => store.getAll())
+  return (all || [])
+    .filter(mutation => mutation.owner === owner)
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+export const markMutationConflict = async (mutation: QueuedMutation) => {
+  await runTransaction('readwrite', store => store.put({ ...mutation, conflict: true }))
+}
+
+export const removeMutation = async (id: number) => {
+  await runTransaction('readwrite', store => store.delete(id))
+}
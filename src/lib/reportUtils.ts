@@ -1,32 +1,41 @@
 // Utility functions for report generation
-import { Student, Subject, Grade, ReportCard, SubjectGrade } from '@/lib/types'
+import { Student, Subject, Lesson, Grade, GradingScale, GradingScaleBand, ProgressReport, ReportCard, SubjectGrade } from '@/lib/types'
+import { STANDARD_GRADING_SCALE_BANDS, getBandLabel, resolveGradingScaleBands } from '@/lib/gradingScales'
+import { GradeInput, calculateSubjectAverage, calculateOverallAverage, getEffectivePercentage, isDateInRange } from '@shared/gradeCalculation'
 
-export const getLetterGrade = (percentage: number): string => {
+export const getLetterGrade = (percentage: number, bands: GradingScaleBand[] = STANDARD_GRADING_SCALE_BANDS): string => {
   // Add safety check for invalid numbers
   if (typeof percentage !== 'number' || isNaN(percentage)) {
     return 'N/A'
   }
   
-  if (percentage >= 97) return 'A+'
-  if (percentage >= 93) return 'A'
-  if (percentage >= 90) return 'A-'
-  if (percentage >= 87) return 'B+'
-  if (percentage >= 83) return 'B'
-  if (percentage >= 80) return 'B-'
-  if (percentage >= 77) return 'C+'
-  if (percentage >= 73) return 'C'
-  if (percentage >= 70) return 'C-'
-  if (percentage >= 67) return 'D+'
-  if (percentage >= 63) return 'D'
-  if (percentage >= 60) return 'D-'
-  return 'F'
+  return getBandLabel(percentage, bands)
 }
 
+const getLessonCategoryId = (lesson: Lesson) => lesson.categoryId ?? lesson.category_id
+
+// Pairs each grade with its lesson's category so the shared engine can look weights up by category id
+const toGradeInputs = (subject: Subject, subjectGrades: Grade[]): GradeInput[] =>
+  subjectGrades.flatMap(grade => {
+    const lesson = subject.lessons.find(l => l.id === grade.lessonId)
+    if (!lesson) return []
+    return [{
+      percentage: grade.percentage,
+      categoryId: grade.categoryId ?? getLessonCategoryId(lesson),
+      order: lesson.orderIndex ?? lesson.order_index,
+      skipped: grade.skipped,
+      status: grade.status,
+      dueDate: grade.dueDate ?? lesson.due_date ?? lesson.date,
+      submittedAt: grade.submittedAt
+    }]
+  })
+
 export const calculateSubjectGrade = (
   studentId: string, 
   subjectId: string, 
   subjects: Subject[], 
-  grades: Grade[]
+  grades: Grade[],
+  gradingScales: GradingScale[] = []
 ): SubjectGrade | null => {
   // Safety check for subjects array
   if (!subjects || !Array.isArray(subjects)) {
@@ -47,131 +56,16 @@ export const calculateSubjectGrade = (
   }
 
   const studentGrades = grades.filter(g => g.studentId === studentId && g.subjectId === subjectId && !g.skipped)
-  console.log('calculateSubjectGrade: Student grades for subject', { 
-    studentId, 
-    subjectId, 
-    totalGrades: grades.length,
-    studentGrades: studentGrades.length,
-    sampleGrades: studentGrades.slice(0, 3)
-  })
-  
   if (studentGrades.length === 0) return null
 
-  const gradesByType = studentGrades.reduce((acc, grade) => {
-    const lesson = subject.lessons.find(l => l.id === grade.lessonId)
-    if (lesson) {
-      if (!acc[lesson.type]) acc[lesson.type] = []
-      // Convert percentage to number, handling both string and number inputs
-      let percentage = 0
-      if (typeof grade.percentage === 'number' && !isNaN(grade.percentage)) {
-        percentage = grade.percentage
-      } else if (typeof grade.percentage === 'string') {
-        const parsed = parseFloat(grade.percentage)
-        percentage = !isNaN(parsed) ? parsed : 0
-      }
-      
-      console.log('calculateSubjectGrade: Processing grade', {
-        gradeId: grade.id,
-        originalPercentage: grade.percentage,
-        convertedPercentage: percentage,
-        lessonType: lesson.type
-      })
-      
-      // Skip grades with percentage < 1 (these represent skipped/not attempted grades)
-      if (percentage >= 1) {
-        acc[lesson.type].push(percentage)
-      }
-    } else {
-      console.warn('calculateSubjectGrade: Lesson not found for grade', { 
-        gradeId: grade.id, 
-        lessonId: grade.lessonId, 
-        subjectLessons: subject.lessons.map(l => ({ id: l.id, name: l.name, type: l.type }))
-      })
-    }
-    return acc
-  }, {} as Record<string, number[]>)
-
-  console.log('calculateSubjectGrade: Grades by type', { subjectId, gradesByType })
-
-  let weightedTotal = 0
-  let totalWeight = 0
-
-  // Use the new dynamic weights structure from the subject
-  const subjectWeights = subject.weights || {}
+  const calculation = calculateSubjectAverage(toGradeInputs(subject, studentGrades), subject.weights || {}, subject.policies || {}, subject.latePolicy)
+  const finalAverage = calculation.average ?? 0
 
-  // Create a mapping from lesson type to weight
-  // TODO: This should be updated to use the same dynamic system as the backend reports
-  // For now, we distribute weights in order among the lesson types that have grades
-  
-  const weightMapping: Record<string, number> = {}
-  
-  const subjectWeightEntries = Object.entries(subjectWeights)
-  console.log('calculateSubjectGrade: Available weights', { subjectWeights, subjectWeightEntries })
-  
-  // For each lesson type, try to find a matching weight by name
-  // This is a simplified approach - ideally we should get the actual category mappings
-  // from the backend like the reports route does
-  Object.keys(gradesByType).forEach(lessonType => {
-    // For now, just distribute weights evenly among all lesson types
-    // This is much simpler and more predictable than guessing
-    const weightValues = Object.values(subjectWeights).filter(w => w > 0)
-    const lessonTypes = Object.keys(gradesByType)
-    const typeIndex = lessonTypes.indexOf(lessonType)
-    
-    if (typeIndex !== -1 && typeIndex < weightValues.length) {
-      weightMapping[lessonType] = weightValues[typeIndex]
-    } else if (weightValues.length > 0) {
-      // If we have more lesson types than weights, distribute the remaining weight evenly
-      const avgWeight = weightValues.reduce((sum, w) => sum + w, 0) / lessonTypes.length
-      weightMapping[lessonType] = avgWeight
-    } else {
-      weightMapping[lessonType] = 1 / lessonTypes.length // Equal weight if no weights defined
-    }
-  })
-
-  console.log('calculateSubjectGrade: Using weights', { 
-    subjectWeights, 
-    weightMapping,
-    lessonTypes: Object.keys(gradesByType)
-  })
-
-  Object.keys(gradesByType).forEach(lessonType => {
-    const typeGrades = gradesByType[lessonType]
-    if (typeGrades && typeGrades.length > 0) {
-      const typeAverage = typeGrades.reduce((sum, grade) => sum + grade, 0) / typeGrades.length
-      
-      // Get the weight for this lesson type
-      const weight = weightMapping[lessonType] || 0
-      
-      console.log('calculateSubjectGrade: Processing grade type', { 
-        lessonType, 
-        weight, 
-        typeGrades, 
-        typeAverage,
-        isValidNumber: typeof typeAverage === 'number' && !isNaN(typeAverage)
-      })
-      
-      // Ensure typeAverage is a valid number and weight exists
-      if (typeof typeAverage === 'number' && !isNaN(typeAverage) && weight > 0) {
-        weightedTotal += typeAverage * weight // weight is already in decimal form (0-1)
-        totalWeight += weight
-      }
-    } else {
-      console.log('calculateSubjectGrade: No grades for type', { lessonType })
-    }
-  })
-
-  const average = totalWeight > 0 ? weightedTotal / totalWeight : 0
-  // Ensure final average is a valid number
-  const finalAverage = typeof average === 'number' && !isNaN(average) ? average : 0
-
-  console.log('calculateSubjectGrade: Final calculation', { 
-    weightedTotal, 
-    totalWeight, 
-    average, 
-    finalAverage,
+  console.log('calculateSubjectGrade: Final calculation', {
     subjectId,
-    studentId
+    studentId,
+    categories: calculation.categories,
+    finalAverage
   })
 
   return {
@@ -181,7 +75,7 @@ export const calculateSubjectGrade = (
       : subject.name, // Use main subject name if report_card_name is empty
     grades: studentGrades,
     average: finalAverage,
-    letterGrade: getLetterGrade(finalAverage)
+    letterGrade: getLetterGrade(finalAverage, resolveGradingScaleBands(gradingScales, subject.grading_scale_id))
   }
 }
 
@@ -191,7 +85,8 @@ export const generateReportCard = (
   comments: Record<string, string>,
   students: Student[],
   subjects: Subject[],
-  grades: Grade[]
+  grades: Grade[],
+  gradingScales: GradingScale[] = []
 ): ReportCard | null => {
   // Safety checks for all required arrays
   if (!students || !Array.isArray(students)) {
@@ -217,25 +112,18 @@ export const generateReportCard = (
   )].filter((id): id is string => Boolean(id))
 
   const studentSubjects = studentSubjectIds
-    .map(subjectId => calculateSubjectGrade(studentId, subjectId, subjects, grades))
+    .map(subjectId => calculateSubjectGrade(studentId, subjectId, subjects, grades, gradingScales))
     .filter(Boolean) as SubjectGrade[]
 
   if (studentSubjects.length === 0) return null
 
-  // Calculate overall GPA with safety checks
-  const validAverages = studentSubjects
-    .map(s => s.average)
-    .filter(avg => typeof avg === 'number' && !isNaN(avg))
-  
-  const overallGPA = validAverages.length > 0 
-    ? validAverages.reduce((sum, avg) => sum + avg, 0) / validAverages.length
-    : 0
+  const overallGPA = calculateOverallAverage(studentSubjects.map(s => s.average)) ?? 0
 
   return {
     studentId,
     period: reportPeriod,
     subjects: studentSubjects,
-    overallGPA: typeof overallGPA === 'number' && !isNaN(overallGPA) ? overallGPA : 0,
+    overallGPA,
     comments: comments[studentId]
   }
 }
@@ -246,6 +134,8 @@ export interface CalculationBreakdown {
   categories: {
     categoryName: string
     grades: number[]
+    dropped: number[]
+    replaced: number
     average: number
     weight: number
     weightedValue: number
@@ -258,7 +148,8 @@ export const getSubjectCalculationBreakdown = (
   studentId: string,
   subjectId: string,
   subjects: Subject[],
-  grades: Grade[]
+  grades: Grade[],
+  gradingScales: GradingScale[] = []
 ): CalculationBreakdown | null => {
   const subject = subjects.find(s => s.id === subjectId)
   if (!subject) return null
@@ -266,62 +157,17 @@ export const getSubjectCalculationBreakdown = (
   const studentGrades = grades.filter(g => g.studentId === studentId)
   if (studentGrades.length === 0) return null
 
-  const gradesByType = studentGrades.reduce((acc, grade) => {
-    const lesson = subject.lessons.find(l => l.id === grade.lessonId)
-    if (lesson) {
-      if (!acc[lesson.type]) acc[lesson.type] = []
-      let percentage = 0
-      if (typeof grade.percentage === 'number' && !isNaN(grade.percentage)) {
-        percentage = grade.percentage
-      } else if (typeof grade.percentage === 'string') {
-        const parsed = parseFloat(grade.percentage)
-        percentage = !isNaN(parsed) ? parsed : 0
-      }
-      // Skip grades with percentage < 1 (these represent skipped/not attempted grades)
-      if (percentage >= 1) {
-        acc[lesson.type].push(percentage)
-      }
-    }
-    return acc
-  }, {} as Record<string, number[]>)
-
-  const subjectWeights = subject.weights || {}
-  const weightMapping: Record<string, number> = {}
-  
-  // Create weight mapping (same logic as calculateSubjectGrade)
-  Object.keys(gradesByType).forEach(lessonType => {
-    const weightValues = Object.values(subjectWeights).filter(w => w > 0)
-    const lessonTypes = Object.keys(gradesByType)
-    const typeIndex = lessonTypes.indexOf(lessonType)
-    
-    if (typeIndex !== -1 && typeIndex < weightValues.length) {
-      weightMapping[lessonType] = weightValues[typeIndex]
-    } else if (weightValues.length > 0) {
-      const avgWeight = weightValues.reduce((sum, w) => sum + w, 0) / lessonTypes.length
-      weightMapping[lessonType] = avgWeight
-    } else {
-      weightMapping[lessonType] = 1 / lessonTypes.length
-    }
-  })
-
-  const categories = Object.keys(gradesByType).map(lessonType => {
-    const typeGrades = gradesByType[lessonType]
-    const typeAverage = typeGrades.reduce((sum, grade) => sum + grade, 0) / typeGrades.length
-    const weight = weightMapping[lessonType] || 0
-    const weightedValue = typeAverage * weight
-
-    return {
-      categoryName: lessonType,
-      grades: typeGrades,
-      average: typeAverage,
-      weight: weight,
-      weightedValue: weightedValue
-    }
-  })
-
-  const totalWeight = categories.reduce((sum, cat) => sum + cat.weight, 0)
-  const weightedTotal = categories.reduce((sum, cat) => sum + cat.weightedValue, 0)
-  const finalAverage = totalWeight > 0 ? weightedTotal / totalWeight : 0
+  const calculation = calculateSubjectAverage(toGradeInputs(subject, studentGrades), subject.weights || {}, subject.policies || {}, subject.latePolicy)
+  const categories = calculation.categories.map(category => ({
+    categoryName: subject.lessons.find(lesson => getLessonCategoryId(lesson) === category.categoryId)?.type || 'Unknown',
+    grades: category.grades,
+    dropped: category.dropped,
+    replaced: category.replaced,
+    average: category.average,
+    weight: category.weight,
+    weightedValue: category.weightedValue
+  }))
+  const finalAverage = calculation.average ?? 0
 
   return {
     subjectId,
@@ -330,7 +176,81 @@ export const getSubjectCalculationBreakdown = (
       : subject.name,
     categories,
     finalAverage,
-    letterGrade: getLetterGrade(finalAverage)
+    letterGrade: getLetterGrade(finalAverage, resolveGradingScaleBands(gradingScales, subject.grading_scale_id))
+  }
+}
+
+// How many low scores a progress report lists per subject, most recent first
+const MAX_PROGRESS_LOW_SCORES = 3
+
+/**
+ * Builds a progress report from grades on lessons dated inside a window, e.g. the first half of a grading period
+ * @param lowScoreThreshold - Scores below this percentage are listed as recent low scores
+ * @param asOf - Day missing work is judged against; the window end by default
+ */
+export const generateProgressReport = (
+  studentId: string,
+  window: { startDate: string; endDate: string },
+  subjects: Subject[],
+  grades: Grade[],
+  gradingScales: GradingScale[] = [],
+  lowScoreThreshold = 70,
+  note?: string
+): ProgressReport | null => {
+  const range = { start: window.startDate, end: window.endDate }
+  const asOf = window.endDate
+
+  const studentSubjects = subjects.flatMap(subject => {
+    const windowGrades = grades.filter(grade => {
+      if (grade.studentId !== studentId || grade.subjectId !== subject.id || grade.skipped) return false
+      const lesson = subject.lessons?.find(l => l.id === grade.lessonId)
+      return isDateInRange(lesson?.date, range)
+    })
+    if (windowGrades.length === 0) return []
+
+    const inputs = toGradeInputs(subject, windowGrades)
+    const calculation = calculateSubjectAverage(inputs, subject.weights || {}, subject.policies || {}, subject.latePolicy)
+    const bands = resolveGradingScaleBands(gradingScales, subject.grading_scale_id)
+    const lessonFor = (grade: Grade) => subject.lessons.find(l => l.id === grade.lessonId)
+
+    const missing = windowGrades
+      .filter(grade => grade.status === 'missing')
+      .map(grade => {
+        const lesson = lessonFor(grade)
+        return { lessonId: grade.lessonId, lessonName: lesson?.name || '', dueDate: lesson?.due_date || lesson?.date || null }
+      })
+
+    // Every window grade has its lesson, so inputs line up with windowGrades
+    const lowScores = windowGrades
+      .flatMap((grade, index) => {
+        if (grade.status === 'missing') return []
+        const percentage = getEffectivePercentage(inputs[index], subject.latePolicy, asOf)
+        if (percentage === null || percentage >= lowScoreThreshold) return []
+        const lesson = lessonFor(grade)
+        return [{ lessonId: grade.lessonId, lessonName: lesson?.name || '', date: lesson?.date || null, percentage }]
+      })
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+      .slice(0, MAX_PROGRESS_LOW_SCORES)
+
+    return [{
+      subjectId: subject.id,
+      subjectName: subject.report_card_name && subject.report_card_name.trim() !== '' ? subject.report_card_name : subject.name,
+      average: calculation.average,
+      letterGrade: calculation.average === null ? null : getLetterGrade(calculation.average, bands),
+      missing,
+      lowScores
+    }]
+  })
+
+  if (studentSubjects.length === 0) return null
+
+  return {
+    studentId,
+    startDate: window.startDate,
+    endDate: window.endDate,
+    subjects: studentSubjects,
+    overallAverage: calculateOverallAverage(studentSubjects.map(subject => subject.average)),
+    note
   }
 }
 
@@ -0,0 +1,70 @@
+// Reading uploaded spreadsheets into rows of cell text. CSV is parsed by the shared parser the server uses too; XLSX is
+// unzipped with jszip and the first worksheet read from its XML, so no spreadsheet library is needed.
+import { parseDelimited } from '@shared/importMapping'
+
+export { parseDelimited }
+
+// Column letters of a cell reference ("BC12") as a zero-based index
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, '')
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+const readXlsx = async (file: File): Promise<string[][]> => {
+  const JSZip = (await import('jszip')).default
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const parser = new DOMParser()
+  const readXml = async (path: string) => {
+    const entry = zip.file(path)
+    return entry ? parser.parseFromString(await entry.async('text'), 'application/xml') : null
+  }
+
+  const sharedStrings = Array.from((await readXml('xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+    .map(item => Array.from(item.getElementsByTagName('t')).map(text => text.textContent || '').join(''))
+
+  // The first sheet in workbook order, found through the workbook relationships
+  const workbook = await readXml('xl/workbook.xml')
+  const relationships = await readXml('xl/_rels/workbook.xml.rels')
+  const firstSheetRel = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id')
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === firstSheetRel)?.getAttribute('Target')
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '').replace(/^\//, '')}` : 'xl/worksheets/sheet1.xml'
+  const sheet = await readXml(sheetPath)
+  if (!sheet) throw new Error('The workbook has no worksheet')
+
+  const rows: string[][] = []
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+    const cells: string[] = []
+    Array.from(rowElement.getElementsByTagName('c')).forEach(cell => {
+      const type = cell.getAttribute('t')
+      let value = ''
+      if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagName('t')).map(text => text.textContent || '').join('')
+      } else {
+        const raw = cell.getElementsByTagName('v')[0]?.textContent || ''
+        value = type === 's' ? sharedStrings[Number(raw)] ?? '' : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE') : raw
+      }
+      const reference = cell.getAttribute('r')
+      const index = reference ? columnIndex(reference) : cells.length
+      while (cells.length < index) cells.push('')
+      cells[index] = value
+    })
+    rows.push(cells)
+  })
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+/**
+ * Reads the rows of an uploaded .csv, .tsv, .txt or .xlsx file (the first worksheet of a workbook).
+ * Dates in a workbook come back as spreadsheet day numbers; the importers read those as dates.
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(file)
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or .csv first.')
+  }
+  return parseDelimited(await file.text())
+}
@@ -1,3 +1,12 @@
+import type { CategoryPolicy, GradeStatus, LatePolicy } from '@shared/gradeCalculation'
+import type { CommentTone, StudentPronouns } from '@shared/commentMerge'
+import type { ReportEmailDocument } from '@shared/reportEmail'
+
+export type { CategoryPolicy, LatePolicy }
+export type { ReportCardTemplate, ReportTemplateSection, ReportSectionType } from '@shared/reportTemplate'
+export type { CommentTone, StudentPronouns }
+export type { ReportEmailDocument }
+
 export interface User {
   id: string
   email: string
@@ -94,12 +103,130 @@ export interface Student {
   id: string
   name: string
   birthday?: string
+  pronouns?: StudentPronouns | null
+  person_id?: string // Shared by this student's rows in every school year
+  sis_id?: string | null // Id in the school's student information system
+  primary_guardian?: { name: string; relationship: string | null; email: string | null; phone: string | null } | null
   grade?: string
   studentGroupId?: string
   group_name?: string
   subjects: string[]
 }
 
+// A parent or other contact, shared by every student (sibling) linked to them
+export interface Guardian {
+  id: string
+  name: string
+  relationship: string | null
+  emails: string[]
+  phones: string[]
+  preferredLanguage: string | null
+  hasCustody: boolean
+  doNotContact: boolean
+  notes: string | null
+  isPrimary: boolean // Primary contact of the student the guardian was loaded for
+  siblings: Array<{ id: string; name: string }> // Other students of this year linked to the guardian
+}
+
+export type GuardianInput = Omit<Guardian, 'id' | 'siblings'>
+
+// A guardian of another student that can be linked as a family contact
+export interface AvailableGuardian {
+  id: string
+  name: string
+  relationship: string | null
+  studentNames: string[]
+}
+
+// Read-only portal link of a student; the url is only given while the link is active
+export interface PortalLink {
+  id: string
+  label: string | null
+  createdAt: string
+  expiresAt: string
+  revokedAt: string | null
+  lastUsedAt: string | null
+  active: boolean
+  url: string | null
+}
+
+// What a parent or student sees through a portal link
+export interface PortalView {
+  student: { name: string; grade: string | null }
+  schoolName: string | null
+  schoolYearLabel: string
+  expiresAt: string
+  subjects: Array<{
+    subjectId: string
+    subjectName: string
+    average: number | null
+    letterGrade: string | null
+    lessons: Array<{
+      lessonId: string
+      name: string
+      date: string | null
+      dueDate: string | null
+      category: string | null
+      percentage: number | null
+      status: string
+    }>
+  }>
+  missingWork: Array<{ lessonId: string; lessonName: string; subjectName: string; dueDate: string | null }>
+  attendance: {
+    present: number
+    absent: number
+    tardy: number
+    excused: number
+    recent: Array<{ date: string; status: string }>
+  }
+}
+
+// Dry run of emailing reports: exactly which message each guardian address receives
+export interface ReportEmailPreview {
+  configured: boolean // False when the server has no SMTP host; sending is then refused
+  from: string
+  replyTo: string | null
+  students: Array<{
+    studentId: string
+    studentName: string
+    skipped: Array<{ guardianName: string; reason: string }>
+    messages: Array<{ guardianId: string; guardianName: string; email: string; subject: string; text: string }>
+  }>
+}
+
+export interface ReportEmailSendResult {
+  studentId: string
+  results: Array<{ guardianName: string; email: string; status: 'sent' | 'failed'; error: string | null }>
+  skipped: Array<{ guardianName: string; reason: string }>
+}
+
+export interface ReportEmailLogEntry {
+  id: string
+  studentId: string
+  studentName: string
+  recipientName: string
+  recipientEmail: string
+  document: ReportEmailDocument
+  periodLabel: string | null
+  subject: string
+  status: 'sent' | 'failed'
+  error: string | null
+  sentAt: string
+}
+
+// One school year of a student's history, from GET /students/:id/history
+export interface StudentYearRecord {
+  id: string
+  name: string
+  grade: string | null
+  sis_id: string | null
+  school_year_id: string
+  school_year_label: string
+  start_date: string
+  group_name: string | null
+  grade_count: number
+}
+
 export interface Subject {
   id: string
   name: string
@@ -112,6 +239,10 @@ export interface Subject {
   gradingPeriodMarkers?: GradingPeriodMarker[]
   // Dynamic weights structure using category IDs
   weights: { [categoryId: string]: number }
+  policies?: { [categoryId: string]: CategoryPolicy } // Drop/keep/cap/replacement rules per category
+  latePolicy?: LatePolicy | null // Penalty for work handed in after its due date
+  grading_scale_id?: string | null // Overrides the user's default grading scale
+  credits?: number | null // Credits earned for a final grade, shown on transcripts
 }
 
 export interface Lesson {
@@ -121,11 +252,14 @@ export interface Lesson {
   type: string // Grade category type name (from JOIN)
   type_color?: string // Grade category color (from JOIN)
   categoryId?: string // Foreign key to grade_category_types
+  category_id?: string // Same key as returned by GET /lessons
   points?: number // For compatibility with backend bulk add
   maxPoints?: number // For compatibility with other endpoints
   orderIndex?: number // Used for ordering lessons in a subject
+  order_index?: number // Same position as returned by GET /lessons
   date?: string // YYYY-MM-DD
   dueDate?: string
+  due_date?: string | null // Same date as returned by GET /lessons; the lesson date is used when empty
   description?: string
 }
 
@@ -160,17 +294,167 @@ export interface Grade {
   studentId: string
   lessonId: string
   subjectId?: string // Derived from lesson, not stored in DB
+  categoryId?: string // Lesson's grade category, derived from lesson
+  orderIndex?: number // Lesson position, derived from lesson
   points: number // Earned points (calculated from maxPoints - errors)
   maxPoints: number // Total possible points (stored as 'points' in DB)
   percentage: number
   errors?: number // Number of errors made
+  status?: GradeStatus // graded, missing, excused, late or incomplete
+  dueDate?: string // The lesson's due date (or its date); missing work counts as zero once it has passed
+  submittedAt?: string | null // YYYY-MM-DD the work was handed in; later than dueDate means late
   date: string // Mapped from created_at/updated_at
   notes?: string
-  skipped?: boolean // Mark lessons as skipped with "S" input (frontend only)
+  skipped?: boolean // Legacy "S" marker; skipped work is now stored with the excused status
   created_at?: string
   updated_at?: string
 }
 
+export interface GradingScaleBand {
+  id?: string
+  minPercent: number // Inclusive lower bound
+  label: string
+  gpaPoints: number | null
+  color: string | null
+}
+
+export interface GradingScale {
+  id: string
+  name: string
+  isDefault: boolean
+  bands: GradingScaleBand[] // Sorted from highest minPercent to lowest
+  created_at?: string
+  updated_at?: string
+}
+
+export interface GradeHistoryEntry {
+  id: string
+  action: 'create' | 'update' | 'delete'
+  oldPercentage: number | null
+  oldErrors: number | null
+  oldPoints: number | null
+  newPercentage: number | null
+  newErrors: number | null
+  newPoints: number | null
+  oldStatus: GradeStatus | null
+  newStatus: GradeStatus | null
+  reason: string | null
+  teacherId: string | null // null when the account owner made the change
+  teacherName: string | null
+  changedAt: string
+}
+
+export interface BulkGradeEntry {
+  studentId: string
+  lessonId: string
+  percentage?: number | null
+  errors?: number | null
+  points?: number | null
+  status?: GradeStatus
+  notes?: string | null
+}
+
+export interface BulkGradeResult {
+  index: number // Position of the entry in the request
+  studentId: string
+  lessonId: string
+  status: 'created' | 'updated' | 'unchanged' | 'error'
+  error?: string
+  grade?: { id: string; percentage: number | string; errors: number | string | null; points: number | null; created_at: string; updated_at: string; status?: GradeStatus; notes?: string | null; submitted_at?: string | null }
+}
+
+export interface BulkGradeResponse {
+  results: BulkGradeResult[]
+  saved: number
+  failed: number
+}
+
+// Stored grade values as POST /grades/revert writes them back
+export interface GradeSnapshot {
+  percentage: number | null
+  errors: number | null
+  points: number | null
+  status?: GradeStatus
+  notes?: string | null
+  submittedAt?: string | null
+}
+
+export interface LessonSnapshot {
+  id: string
+  subjectId: string
+  name: string
+  categoryId: string | null
+  points: number
+  orderIndex: number
+  date: string | null
+  dueDate: string | null
+}
+
+// One undo or redo step; all parts are applied by the server in a single transaction
+export interface GradeRevertBatch {
+  lessons?: LessonSnapshot[] // Lessons to re-insert under their old id
+  removeLessonIds?: string[]
+  lessonPoints?: Array<{ lessonId: string; points: number }>
+  grades?: Array<{ studentId: string; lessonId: string; grade: GradeSnapshot | null }> // null deletes the grade
+  reason?: string
+}
+
+export interface MissingWorkItem {
+  lessonId: string
+  lessonName: string
+  subjectId: string
+  subjectName: string
+  status: 'missing' | 'late'
+  dueDate: string | null
+  submittedAt: string | null
+  daysLate: number
+  percentage: number | null // Raw score
+  effectivePercentage: number | null // Score after the subject's late penalty
+}
+
+export interface StudentMissingWork {
+  studentId: string
+  studentName: string
+  missingCount: number
+  lateCount: number
+  items: MissingWorkItem[]
+}
+
+// Server-side report card render started from Reports; polled until done, then downloaded
+export interface ReportBatchJob {
+  id: string
+  status: 'queued' | 'rendering' | 'done' | 'failed'
+  format: 'zip' | 'merged'
+  total: number
+  completed: number
+  fileName: string
+  error: string | null
+  createdAt: string
+}
+
+// A reusable report card comment; subjectName is null for general comments
+export interface CommentBankEntry {
+  id: string
+  tone: CommentTone
+  subjectName: string | null
+  text: string
+  createdAt: string
+  updatedAt: string
+}
+
+// A report card frozen when it was issued; reportCard is only loaded for a single issue
+export interface ReportCardIssue {
+  id: string
+  studentId: string
+  periodKey: string
+  periodLabel: string | null
+  version: number
+  reason: string | null
+  supersedesId: string | null
+  issuedAt: string
+  reportCard?: ReportCard
+}
+
 export interface ReportCard {
   studentId: string
   period: string
@@ -186,6 +470,53 @@ export interface ReportCard {
   }>
   primaryWeightingEnabled?: boolean
   primaryWeightPercent?: number
+  gradingScaleBands?: GradingScaleBand[] // Default scale used for the overall grade and legend
+}
+
+// Mid-period progress report: where each subject stands between two dates
+export interface ProgressReport {
+  studentId: string
+  startDate: string
+  endDate: string
+  subjects: ProgressReportSubject[]
+  overallAverage: number | null
+  note?: string
+}
+
+export interface ProgressReportSubject {
+  subjectId: string
+  subjectName: string
+  average: number | null // Null when nothing in the window counts yet
+  letterGrade: string | null
+  missing: Array<{ lessonId: string; lessonName: string; dueDate: string | null }>
+  lowScores: Array<{ lessonId: string; lessonName: string; date: string | null; percentage: number }>
+}
+
+// A student's final grades over every licensed school year, matched across rollovers
+export interface Transcript {
+  student: { id: string; name: string; sisId: string | null; birthday: string | null; grade: string | null }
+  years: TranscriptYear[]
+  cumulativeGpa: number | null
+  totalCredits: number
+}
+
+export interface TranscriptYear {
+  schoolYearId: string
+  label: string
+  startDate: string
+  gradeLevel: string | null
+  subjects: TranscriptSubject[]
+  gpa: number | null // Null when no subject's grading scale has GPA points
+  credits: number
+}
+
+export interface TranscriptSubject {
+  subjectId: string
+  subjectName: string
+  average: number
+  letterGrade: string | null
+  gpaPoints: number | null
+  credits: number | null
 }
 
 export interface SubjectGrade {
@@ -197,6 +528,7 @@ export interface SubjectGrade {
   periodValues?: Array<number | null>
   displayMode?: 'percentage' | 'letter' | 'gpa'
   tier?: 'primary' | 'secondary'
+  gradingScaleBands?: GradingScaleBand[] // Subject's own scale when it overrides the default
 }
 
 export type AttendanceStatus = 'present' | 'absent' | 'tardy' | 'excused'
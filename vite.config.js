@@ -11,7 +11,8 @@ export default defineConfig({
     ],
     resolve: {
         alias: {
-            '@': resolve(projectRoot, 'src')
+            '@': resolve(projectRoot, 'src'),
+            '@shared': resolve(projectRoot, 'backend/src/shared')
         }
     },
     // server: {